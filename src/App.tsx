@@ -3,6 +3,7 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { SessionTimeout } from "@/components/SessionTimeout";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Scan from "./pages/Scan";
@@ -10,9 +11,13 @@ import History from "./pages/History";
 import NetworkTools from "./pages/NetworkTools";
 import Tools from "./pages/Tools";
 import ScanDetails from "./pages/ScanDetails";
+import ScanCompare from "./pages/ScanCompare";
+import Assets from "./pages/Assets";
+import AssetDetails from "./pages/AssetDetails";
 import Settings from "./pages/Settings";
 import APTPlanning from "./pages/APTPlanning";
 import SOCDashboard from "./pages/SOCDashboard";
+import Audit from "./pages/Audit";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -23,17 +28,22 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
+        <SessionTimeout />
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/auth" element={<Auth />} />
           <Route path="/scan" element={<Scan />} />
           <Route path="/history" element={<History />} />
           <Route path="/scan-details/:scanId" element={<ScanDetails />} />
+          <Route path="/scan-compare/:scanId" element={<ScanCompare />} />
+          <Route path="/assets" element={<Assets />} />
+          <Route path="/assets/:assetId" element={<AssetDetails />} />
           <Route path="/tools" element={<Tools />} />
           <Route path="/network-tools" element={<NetworkTools />} />
           <Route path="/apt-planning" element={<APTPlanning />} />
           <Route path="/soc-dashboard" element={<SOCDashboard />} />
           <Route path="/settings" element={<Settings />} />
+          <Route path="/audit" element={<Audit />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
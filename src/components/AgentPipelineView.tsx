@@ -0,0 +1,90 @@
+import { Fragment } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ArrowRight, Workflow } from "lucide-react";
+import { agentPipelineConfig, planAgentPipeline, type PipelineAgent } from "@/lib/agentPipeline";
+
+interface AgentPipelineViewProps {
+  agents: (PipelineAgent & { is_active: boolean | null })[];
+}
+
+// The stages scan-worker runs the active agents in, and what each agent takes from upstream
+export const AgentPipelineView = ({ agents }: AgentPipelineViewProps) => {
+  const activeAgents = agents.filter(agent => agent.is_active);
+  const plan = planAgentPipeline(activeAgents);
+  const names = new Map(agents.map(agent => [agent.id, agent.name]));
+  const hasDependencies = activeAgents.some(agent => agentPipelineConfig(agent.config).depends_on.length > 0);
+
+  const renderAgent = (agent: PipelineAgent) => {
+    const { depends_on, inputs } = agentPipelineConfig(agent.config);
+    const missing = plan.missing.filter(entry => entry.id === agent.id).map(entry => entry.dependency);
+
+    return (
+      <div key={agent.id} className="p-3 border rounded-lg bg-card space-y-1">
+        <p className="font-medium text-sm">{agent.name}</p>
+        {depends_on.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            After {depends_on.map(id => names.get(id) ?? 'unknown agent').join(', ')}
+          </p>
+        )}
+        {inputs.map(input => (
+          <p key={`${input.from}-${input.as}`} className="text-xs font-mono text-muted-foreground break-all">
+            {input.as} ← {names.get(input.from) ?? 'unknown agent'}{input.path ? `.${input.path}` : ''}
+          </p>
+        ))}
+        {missing.length > 0 && (
+          <p className="text-xs text-yellow-600">
+            Runs without {missing.map(id => names.get(id) ?? 'an unavailable agent').join(', ')} (inactive)
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const byId = new Map(activeAgents.map(agent => [agent.id, agent]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Workflow className="w-5 h-5" />
+          Agent Pipeline
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!hasDependencies && (
+          <p className="text-sm text-muted-foreground">
+            No agent declares dependencies, so all active agents run in parallel. Add <code>depends_on</code> and{' '}
+            <code>inputs</code> to an agent's config to feed it another agent's output.
+          </p>
+        )}
+
+        <div className="flex items-stretch gap-3 overflow-x-auto pb-2">
+          {plan.stages.map((stage, index) => (
+            <Fragment key={index}>
+              {index > 0 && <ArrowRight className="w-5 h-5 self-center shrink-0 text-muted-foreground" />}
+              <div className="min-w-[200px] space-y-2">
+                <Badge variant="outline">Stage {index + 1}</Badge>
+                {stage.map(id => renderAgent(byId.get(id)!))}
+              </div>
+            </Fragment>
+          ))}
+        </div>
+
+        {plan.blocked.length > 0 && (
+          <div className="p-3 rounded-lg border border-destructive/50 bg-destructive/10 space-y-1">
+            <p className="text-sm font-medium text-destructive flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" />
+              {plan.blocked.length} agent{plan.blocked.length === 1 ? '' : 's'} cannot run
+            </p>
+            {plan.blocked.map(entry => (
+              <p key={entry.id} className="text-xs text-destructive">
+                {names.get(entry.id)}: {entry.reason}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
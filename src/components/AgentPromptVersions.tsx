@@ -0,0 +1,343 @@
+import { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { FlaskConical, History, Square } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+type PromptVersion = Tables<'agent_prompt_versions'>;
+type PromptExperiment = Tables<'agent_prompt_experiments'>;
+
+interface AgentPromptVersionsProps {
+  agent: Pick<Tables<'ai_agents'>, 'id' | 'name' | 'prompt_template'> | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Versions of an agent's prompt in the active workspace, and the experiment comparing two of them
+export const AgentPromptVersions = ({ agent, onOpenChange }: AgentPromptVersionsProps) => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [experiment, setExperiment] = useState<PromptExperiment | null>(null);
+  const [template, setTemplate] = useState('');
+  const [changeNote, setChangeNote] = useState('');
+  const [arms, setArms] = useState({ a: '', b: '', trafficB: 50 });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchVersions = useCallback(async (forAgent: NonNullable<AgentPromptVersionsProps['agent']>) => {
+    setLoading(true);
+    setVersions([]);
+    setExperiment(null);
+    setChangeNote('');
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('active_workspace_id')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (profileError) throw profileError;
+
+      const activeWorkspaceId = profile?.active_workspace_id ?? null;
+      setWorkspaceId(activeWorkspaceId);
+      if (!activeWorkspaceId) return;
+
+      const [versionsResult, experimentResult] = await Promise.all([
+        supabase
+          .from('agent_prompt_versions')
+          .select('*')
+          .eq('workspace_id', activeWorkspaceId)
+          .eq('agent_id', forAgent.id)
+          .order('version', { ascending: false }),
+        supabase
+          .from('agent_prompt_experiments')
+          .select('*')
+          .eq('workspace_id', activeWorkspaceId)
+          .eq('agent_id', forAgent.id)
+          .eq('status', 'running')
+          .maybeSingle(),
+      ]);
+      if (versionsResult.error) throw versionsResult.error;
+      if (experimentResult.error) throw experimentResult.error;
+
+      const loaded = versionsResult.data || [];
+      const current = loaded.find(version => version.is_current);
+      setVersions(loaded);
+      setExperiment(experimentResult.data);
+      setTemplate(current?.template ?? forAgent.prompt_template);
+      setArms({ a: current?.id ?? '', b: loaded.find(version => !version.is_current)?.id ?? '', trafficB: 50 });
+    } catch (error) {
+      console.error('Error fetching prompt versions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load prompt versions",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (agent) fetchVersions(agent);
+  }, [agent, fetchVersions]);
+
+  const publishVersion = async () => {
+    if (!agent || !workspaceId) return;
+    if (!template.trim() || !changeNote.trim()) {
+      toast({
+        title: "Invalid Prompt",
+        description: !template.trim() ? "Enter the prompt" : "Describe what changed in this version",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('publish_agent_prompt', {
+        _workspace_id: workspaceId,
+        _agent_id: agent.id,
+        _template: template,
+        _change_note: changeNote.trim(),
+      });
+      if (error) throw error;
+      toast({
+        title: "Prompt Published",
+        description: `New scans use the new ${agent.name} prompt${experiment ? ' once the running experiment is stopped' : ''}`,
+      });
+      await fetchVersions(agent);
+    } catch (error) {
+      console.error('Error publishing prompt:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to publish prompt",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const makeCurrent = async (version: PromptVersion) => {
+    if (!agent) return;
+    try {
+      const { error } = await supabase.rpc('set_current_agent_prompt', { _version_id: version.id });
+      if (error) throw error;
+      setVersions(prev => prev.map(entry => ({ ...entry, is_current: entry.id === version.id })));
+    } catch (error) {
+      console.error('Error changing current prompt:', error);
+      toast({
+        title: "Error",
+        description: "Failed to change the current prompt",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startExperiment = async () => {
+    if (!agent || !userId || !workspaceId) return;
+    if (!arms.a || !arms.b || arms.a === arms.b) {
+      toast({
+        title: "Invalid Experiment",
+        description: "Choose two different versions to compare",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('agent_prompt_experiments')
+        .insert({
+          user_id: userId,
+          workspace_id: workspaceId,
+          agent_id: agent.id,
+          version_a_id: arms.a,
+          version_b_id: arms.b,
+          traffic_b: Math.min(99, Math.max(1, Math.round(arms.trafficB))),
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      setExperiment(data);
+    } catch (error) {
+      console.error('Error starting experiment:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start experiment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const stopExperiment = async () => {
+    if (!experiment) return;
+    try {
+      const { error } = await supabase
+        .from('agent_prompt_experiments')
+        .update({ status: 'stopped', stopped_at: new Date().toISOString() })
+        .eq('id', experiment.id);
+      if (error) throw error;
+      setExperiment(null);
+    } catch (error) {
+      console.error('Error stopping experiment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to stop experiment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const versionLabel = (id: string) => {
+    const version = versions.find(entry => entry.id === id);
+    return version ? `v${version.version}` : 'unknown version';
+  };
+
+  return (
+    <Dialog open={agent !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {agent?.name} Prompt
+          </DialogTitle>
+          <DialogDescription>
+            Versions of this agent's prompt in the active workspace. Scans use the current version, or split between
+            two versions while an experiment runs. {'{target}'} is replaced with the scan target.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? null : !workspaceId ? (
+          <p className="text-sm text-muted-foreground">Select a workspace in Settings to manage prompt versions.</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="prompt-template">Prompt</Label>
+                <Textarea
+                  id="prompt-template"
+                  value={template}
+                  onChange={(e) => setTemplate(e.target.value)}
+                  rows={8}
+                  className="font-mono text-xs"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="prompt-change-note">Change note</Label>
+                <Input
+                  id="prompt-change-note"
+                  value={changeNote}
+                  onChange={(e) => setChangeNote(e.target.value)}
+                  placeholder="e.g. Ask for CWE ids and exploitability"
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={publishVersion} disabled={saving}>
+                  {saving ? 'Publishing...' : 'Publish Version'}
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <h4 className="font-medium flex items-center gap-2">
+                <FlaskConical className="h-4 w-4" />
+                Experiment
+              </h4>
+              {experiment ? (
+                <div className="flex items-center justify-between rounded border p-3 text-sm">
+                  <span>
+                    {versionLabel(experiment.version_a_id)} (A) against {versionLabel(experiment.version_b_id)} (B),{' '}
+                    {experiment.traffic_b}% of scans on B since {new Date(experiment.started_at).toLocaleDateString()}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={stopExperiment}>
+                    <Square className="h-4 w-4 mr-2" />
+                    Stop
+                  </Button>
+                </div>
+              ) : versions.length < 2 ? (
+                <p className="text-sm text-muted-foreground">Publish a version to compare it against the built-in prompt.</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                  {(['a', 'b'] as const).map(arm => (
+                    <div key={arm} className="space-y-1">
+                      <Label>Version {arm.toUpperCase()}</Label>
+                      <Select value={arms[arm]} onValueChange={(value) => setArms(prev => ({ ...prev, [arm]: value }))}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Version" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {versions.map(version => (
+                            <SelectItem key={version.id} value={version.id}>
+                              v{version.version}{version.is_current ? ' (current)' : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                  <div className="space-y-1">
+                    <Label htmlFor="prompt-traffic-b">Scans on B (%)</Label>
+                    <Input
+                      id="prompt-traffic-b"
+                      type="number"
+                      min={1}
+                      max={99}
+                      value={arms.trafficB}
+                      onChange={(e) => setArms(prev => ({ ...prev, trafficB: Number(e.target.value) }))}
+                    />
+                  </div>
+                  <Button onClick={startExperiment}>Start Experiment</Button>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <h4 className="font-medium">Versions</h4>
+              {versions.length === 0 && (
+                <p className="text-sm text-muted-foreground">This agent uses its built-in prompt.</p>
+              )}
+              {versions.map(version => (
+                <div key={version.id} className="flex items-start justify-between gap-3 rounded border p-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">v{version.version}</span>
+                      {version.is_current && <Badge>Current</Badge>}
+                      {experiment?.version_a_id === version.id && <Badge variant="outline">Experiment A</Badge>}
+                      {experiment?.version_b_id === version.id && <Badge variant="outline">Experiment B</Badge>}
+                      <span className="text-xs text-muted-foreground">{new Date(version.created_at).toLocaleString()}</span>
+                    </div>
+                    <p className="text-sm">{version.change_note}</p>
+                    <p className="text-xs text-muted-foreground font-mono truncate">{version.template}</p>
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setTemplate(version.template)}>
+                      Edit
+                    </Button>
+                    {!version.is_current && (
+                      <Button variant="outline" size="sm" onClick={() => makeCurrent(version)}>
+                        Make Current
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -9,7 +9,9 @@ import {
   Terminal,
   History,
   Users,
-  Radar
+  Radar,
+  ScrollText,
+  Server
 } from "lucide-react";
 import { NavLink, useLocation } from "react-router-dom";
 
@@ -30,12 +32,14 @@ const mainNavItems = [
   { title: "SOC Dashboard", url: "/soc-dashboard", icon: Radar },
   { title: "New Scan", url: "/scan", icon: Search },
   { title: "Scan History", url: "/history", icon: History },
+  { title: "Assets", url: "/assets", icon: Server },
   { title: "APT Planning", url: "/apt-planning", icon: Target },
 ];
 
 const toolsItems = [
   { title: "Tools Monitor", url: "/tools", icon: Activity },
   { title: "Network Tools", url: "/network-tools", icon: Terminal },
+  { title: "Audit Log", url: "/audit", icon: ScrollText },
   { title: "Settings", url: "/settings", icon: Settings },
 ];
 
@@ -1,13 +1,17 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { AlertTriangle, Play, Pause, CheckCircle, XCircle, Clock, Terminal, FileText } from 'lucide-react';
+import { AlertTriangle, Play, Pause, CheckCircle, XCircle, Clock, Terminal, FileText, ShieldAlert, ShieldCheck } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/components/ui/use-toast';
+import { getFunctionErrorMessage } from '@/lib/edgeFunctions';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import type { Tables } from '@/integrations/supabase/types';
+
+type AttackPathReview = Tables<'attack_path_approvals'>;
 
 interface AttackExecutorProps {
   campaign: any;
@@ -22,8 +26,37 @@ export const AttackExecutor: React.FC<AttackExecutorProps> = ({
 }) => {
   const [executingPath, setExecutingPath] = useState<string | null>(null);
   const [executionLogs, setExecutionLogs] = useState<{ [key: string]: string }>({});
+  const [reviews, setReviews] = useState<{ [key: string]: AttackPathReview[] }>({});
   const { toast } = useToast();
 
+  const fetchReviews = useCallback(async () => {
+    if (attackPaths.length === 0) {
+      setReviews({});
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('attack_path_approvals')
+      .select('*')
+      .in('attack_path_id', attackPaths.map(path => path.id))
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching attack path reviews:', error);
+      return;
+    }
+
+    const grouped: { [key: string]: AttackPathReview[] } = {};
+    (data || []).forEach(review => {
+      grouped[review.attack_path_id] = [...(grouped[review.attack_path_id] || []), review];
+    });
+    setReviews(grouped);
+  }, [attackPaths]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
   const executeAttackPath = async (attackPath: any) => {
     if (campaign.status !== 'active') {
       toast({
@@ -95,10 +128,12 @@ export const AttackExecutor: React.FC<AttackExecutorProps> = ({
         evidence: evidence
       };
 
+      // An emergency stop may have cancelled the path while it ran; keep that status
       await supabase
         .from('attack_paths')
         .update(updateData)
-        .eq('id', attackPath.id);
+        .eq('id', attackPath.id)
+        .neq('status', 'cancelled');
 
       toast({
         title: evidence.success ? "Attack Executed Successfully" : "Attack Failed",
@@ -111,17 +146,18 @@ export const AttackExecutor: React.FC<AttackExecutorProps> = ({
     } catch (error) {
       console.error('Error executing attack path:', error);
       
+      const message = await getFunctionErrorMessage(error);
       const executionTime = Date.now() - startTime;
       const failureEvidence = {
         command: 'Execution failed',
-        output: error.message || 'Unknown error occurred',
+        output: message,
         timestamp: new Date().toISOString(),
         success: false,
         executionTime: executionTime,
         toolsUsed: attackPath.tools_required || [],
         environment: 'Error',
         findings: [],
-        errors: [error.message]
+        errors: [message]
       };
 
       await supabase
@@ -130,11 +166,12 @@ export const AttackExecutor: React.FC<AttackExecutorProps> = ({
           status: 'failed',
           evidence: failureEvidence
         })
-        .eq('id', attackPath.id);
+        .eq('id', attackPath.id)
+        .neq('status', 'cancelled');
 
       toast({
         title: "Execution Failed",
-        description: error.message || "An error occurred during execution",
+        description: message,
         variant: "destructive"
       });
 
@@ -147,6 +184,10 @@ export const AttackExecutor: React.FC<AttackExecutorProps> = ({
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'planned': return <Clock className="h-4 w-4" />;
+      case 'pending_approval': return <ShieldAlert className="h-4 w-4" />;
+      case 'approved': return <ShieldCheck className="h-4 w-4" />;
+      case 'rejected': return <XCircle className="h-4 w-4" />;
+      case 'cancelled': return <Pause className="h-4 w-4" />;
       case 'in_progress': return <Play className="h-4 w-4 animate-spin" />;
       case 'completed': return <CheckCircle className="h-4 w-4" />;
       case 'failed': return <XCircle className="h-4 w-4" />;
@@ -157,6 +198,10 @@ export const AttackExecutor: React.FC<AttackExecutorProps> = ({
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'planned': return 'bg-secondary';
+      case 'pending_approval': return 'bg-warning';
+      case 'approved': return 'bg-success';
+      case 'rejected': return 'bg-destructive';
+      case 'cancelled': return 'bg-muted';
       case 'in_progress': return 'bg-primary';
       case 'completed': return 'bg-success';
       case 'failed': return 'bg-destructive';
@@ -251,7 +296,7 @@ export const AttackExecutor: React.FC<AttackExecutorProps> = ({
                   </Badge>
                   <Badge className={getStatusColor(path.status)}>
                     {getStatusIcon(path.status)}
-                    {path.status?.toUpperCase()}
+                    {path.status?.replace('_', ' ').toUpperCase()}
                   </Badge>
                 </div>
               </div>
@@ -273,8 +318,35 @@ export const AttackExecutor: React.FC<AttackExecutorProps> = ({
                   </div>
                 )}
 
+                {path.status === 'pending_approval' && (
+                  <div className="flex items-center gap-2 p-3 bg-warning/10 text-warning rounded-lg">
+                    <ShieldAlert className="h-4 w-4" />
+                    <span className="text-sm">
+                      {(path.risk_level || 'medium').toUpperCase()} risk path awaiting sign-off from a second user with the approver role
+                    </span>
+                  </div>
+                )}
+
+                {reviews[path.id]?.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="text-sm font-medium">Approval History:</div>
+                    {reviews[path.id].map(review => (
+                      <div key={review.id} className="text-xs p-2 bg-muted/50 rounded space-y-1">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={review.decision === 'approved' ? 'default' : 'destructive'}>
+                            {review.decision.toUpperCase()}
+                          </Badge>
+                          <span>{review.approver_name || 'Approver'}</span>
+                          <span className="text-muted-foreground">{new Date(review.created_at).toLocaleString()}</span>
+                        </div>
+                        <p>{review.comment}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 <div className="flex items-center gap-2">
-                  {path.status === 'planned' && campaign.status === 'active' && (
+                  {(path.status === 'planned' || path.status === 'approved') && campaign.status === 'active' && (
                     <Button
                       onClick={() => executeAttackPath(path)}
                       disabled={executingPath === path.id}
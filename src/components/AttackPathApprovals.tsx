@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ShieldAlert, ShieldCheck, ShieldX } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+type AttackPath = Tables<'attack_paths'>;
+type ReviewDecision = 'approved' | 'rejected';
+
+const RISK_COLORS: Record<string, string> = {
+  low: 'text-green-600',
+  medium: 'text-yellow-600',
+  high: 'text-orange-600',
+  critical: 'text-red-600',
+};
+
+// Review queue for approvers and workspace owners/leads; renders nothing for everyone else
+export const AttackPathApprovals = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [isApprover, setIsApprover] = useState(false);
+  const [paths, setPaths] = useState<AttackPath[]>([]);
+  const [campaignNames, setCampaignNames] = useState<Record<string, string>>({});
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      // Owners and leads review the paths of their own workspaces
+      const { data: leadships } = await supabase
+        .from('workspace_members')
+        .select('workspace_id')
+        .eq('user_id', user.id)
+        .in('role', ['owner', 'lead']);
+
+      const leadWorkspaceIds = (leadships || []).map(membership => membership.workspace_id);
+      const approver = profile?.role === 'approver';
+
+      setUserId(user.id);
+      setIsApprover(approver || leadWorkspaceIds.length > 0);
+      if (!approver && leadWorkspaceIds.length === 0) return;
+
+      // Reviewers may not review their own paths, so leave those out of the queue
+      let query = supabase
+        .from('attack_paths')
+        .select('*')
+        .eq('status', 'pending_approval')
+        .neq('user_id', user.id);
+
+      if (!approver) query = query.in('workspace_id', leadWorkspaceIds);
+
+      const { data, error } = await query.order('approval_requested_at', { ascending: true });
+
+      if (error) throw error;
+      setPaths(data || []);
+
+      const campaignIds = [...new Set((data || []).map(path => path.campaign_id))];
+      if (campaignIds.length > 0) {
+        const { data: campaigns } = await supabase
+          .from('apt_campaigns')
+          .select('id, name')
+          .in('id', campaignIds);
+        setCampaignNames(Object.fromEntries((campaigns || []).map(campaign => [campaign.id, campaign.name])));
+      }
+    } catch (error) {
+      console.error('Error fetching approval queue:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load attack paths awaiting approval",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const submitReview = async (path: AttackPath, decision: ReviewDecision) => {
+    const comment = comments[path.id]?.trim();
+    if (!userId || !comment) {
+      toast({
+        title: "Comment Required",
+        description: "Explain your decision before approving or rejecting",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(path.id);
+    try {
+      const { error } = await supabase
+        .from('attack_path_approvals')
+        .insert({
+          attack_path_id: path.id,
+          approver_id: userId,
+          decision,
+          comment,
+        });
+
+      if (error) throw error;
+
+      setPaths(prev => prev.filter(entry => entry.id !== path.id));
+      toast({
+        title: decision === 'approved' ? "Attack Path Approved" : "Attack Path Rejected",
+        description: path.technique_name || path.phase,
+      });
+    } catch (error) {
+      console.error('Error submitting review:', error);
+      toast({
+        title: "Review Failed",
+        description: error instanceof Error ? error.message : "Failed to record review",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  if (!isApprover) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Pending Approvals ({paths.length})
+        </CardTitle>
+        <CardDescription>
+          High-risk attack paths cannot be executed until a second user signs off on them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {paths.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No attack paths are waiting for review.</p>
+        ) : paths.map(path => (
+          <div key={path.id} className="p-4 border rounded-lg space-y-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <div className="font-medium">{path.technique_name || path.phase}</div>
+                <div className="text-sm text-muted-foreground">
+                  {campaignNames[path.campaign_id] || 'Campaign'}
+                  {path.target && <> · <code>{path.target}</code></>}
+                  {path.mitre_technique && <> · {path.mitre_technique}</>}
+                </div>
+              </div>
+              <Badge variant="outline" className={RISK_COLORS[path.risk_level || 'medium']}>
+                {(path.risk_level || 'medium').toUpperCase()}
+              </Badge>
+            </div>
+            {path.description && <p className="text-sm">{path.description}</p>}
+            {path.tools_required && path.tools_required.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {path.tools_required.map(tool => (
+                  <Badge key={tool} variant="secondary" className="text-xs">{tool}</Badge>
+                ))}
+              </div>
+            )}
+            <Textarea
+              placeholder="Review comment (required)"
+              value={comments[path.id] || ''}
+              onChange={(e) => setComments(prev => ({ ...prev, [path.id]: e.target.value }))}
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => submitReview(path, 'approved')}
+                disabled={submitting === path.id}
+              >
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => submitReview(path, 'rejected')}
+                disabled={submitting === path.id}
+              >
+                <ShieldX className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
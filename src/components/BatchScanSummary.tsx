@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { supabase } from "@/integrations/supabase/client";
+import { AlertTriangle, Layers } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+type Scan = Tables<'scans'>;
+type ScanJob = Pick<Tables<'scan_jobs'>, 'id' | 'scan_id' | 'status' | 'progress' | 'current_stage'>;
+
+interface BatchScanSummaryProps {
+  batchId: string;
+  // Entries dropped from the imported list, as recorded on the batch
+  rejected?: { input: string; reason: string }[];
+}
+
+interface ChildResults {
+  open_ports?: number[];
+  summary?: { total_vulnerabilities?: number };
+}
+
+const THREAT_LEVELS = ['critical', 'high', 'medium', 'low'] as const;
+
+const THREAT_COLORS: Record<string, string> = {
+  critical: 'bg-red-500',
+  high: 'bg-orange-500',
+  medium: 'bg-yellow-500',
+  low: 'bg-green-500',
+};
+
+const FINISHED = ['completed', 'failed', 'cancelled'];
+
+// Aggregate progress and combined results of a bulk import's child scans
+export const BatchScanSummary = ({ batchId, rejected = [] }: BatchScanSummaryProps) => {
+  const [children, setChildren] = useState<Scan[]>([]);
+  const [jobs, setJobs] = useState<Record<string, ScanJob>>({});
+
+  useEffect(() => {
+    const fetchChildren = async () => {
+      const { data, error } = await supabase
+        .from('scans')
+        .select('*')
+        .eq('parent_scan_id', batchId)
+        .order('created_at');
+
+      if (error) {
+        console.error('Error fetching batch scans:', error);
+        return;
+      }
+      setChildren(data || []);
+
+      if (data && data.length > 0) {
+        const { data: jobRows, error: jobsError } = await supabase
+          .from('scan_jobs')
+          .select('id, scan_id, status, progress, current_stage')
+          .in('scan_id', data.map(child => child.id));
+
+        if (jobsError) {
+          console.error('Error fetching batch scan jobs:', jobsError);
+          return;
+        }
+        setJobs(Object.fromEntries((jobRows || []).map(job => [job.scan_id, job])));
+      }
+    };
+
+    fetchChildren();
+
+    // Jobs cannot be filtered by batch, so updates for scans outside it are ignored
+    const channel = supabase
+      .channel(`batch-scan-${batchId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'scans',
+        filter: `parent_scan_id=eq.${batchId}`
+      }, (payload) => {
+        const child = payload.new as Scan;
+        setChildren(prev => prev.some(entry => entry.id === child.id)
+          ? prev.map(entry => entry.id === child.id ? child : entry)
+          : [...prev, child]);
+      })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'scan_jobs'
+      }, (payload) => {
+        const job = payload.new as ScanJob;
+        setJobs(prev => prev[job.scan_id] ? { ...prev, [job.scan_id]: job } : prev);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [batchId]);
+
+  const childProgress = (child: Scan) =>
+    FINISHED.includes(child.status ?? '') ? 100 : jobs[child.id]?.progress ?? 0;
+
+  const progress = children.length > 0
+    ? Math.round(children.reduce((sum, child) => sum + childProgress(child), 0) / children.length)
+    : 0;
+
+  const countByStatus = (status: string) => children.filter(child => child.status === status).length;
+  const completed = children.filter(child => child.status === 'completed');
+  const results = (child: Scan) => (child.results ?? {}) as ChildResults;
+
+  const totalVulnerabilities = completed.reduce((sum, child) => sum + (results(child).summary?.total_vulnerabilities ?? 0), 0);
+  const openPorts = [...new Set(completed.flatMap(child => results(child).open_ports ?? []))].sort((a, b) => a - b);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="w-5 h-5" />
+            Batch Progress
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">
+                {countByStatus('completed') + countByStatus('failed') + countByStatus('cancelled')}/{children.length} targets finished
+              </span>
+              <span className="text-muted-foreground">{progress}%</span>
+            </div>
+            <Progress value={progress} className="w-full" />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {(['pending', 'running', 'completed', 'failed', 'cancelled'] as const).map(status => (
+              <div key={status} className="text-center p-3 bg-muted rounded-lg">
+                <p className="text-2xl font-bold">{countByStatus(status)}</p>
+                <p className="text-xs text-muted-foreground capitalize">{status}</p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Combined Summary</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="text-center p-4 bg-muted rounded-lg">
+              <p className="text-sm font-medium text-muted-foreground">Vulnerabilities</p>
+              <p className="text-3xl font-bold mt-1">{totalVulnerabilities}</p>
+            </div>
+            <div className="text-center p-4 bg-muted rounded-lg">
+              <p className="text-sm font-medium text-muted-foreground">Targets by Threat Level</p>
+              <div className="flex justify-center gap-1 mt-2 flex-wrap">
+                {THREAT_LEVELS.map(level => (
+                  <Badge key={level} className={`text-white ${THREAT_COLORS[level]}`}>
+                    {completed.filter(child => child.threat_level === level).length} {level}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div className="text-center p-4 bg-muted rounded-lg">
+              <p className="text-sm font-medium text-muted-foreground">Distinct Open Ports</p>
+              <p className="text-sm mt-2 break-words">{openPorts.length > 0 ? openPorts.join(', ') : 'None found'}</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {children.map(child => (
+              <div key={child.id} className="flex items-center justify-between gap-3 p-3 border rounded">
+                <div className="min-w-0">
+                  <Link to={`/scan-details/${child.id}`} className="font-medium hover:underline break-all">
+                    {child.target}
+                  </Link>
+                  <p className="text-xs text-muted-foreground capitalize">
+                    {child.asset_type}
+                    {child.status === 'running' && jobs[child.id]?.current_stage && ` · ${jobs[child.id].current_stage?.replace('_', ' ')}`}
+                    {child.status === 'completed' && ` · ${results(child).summary?.total_vulnerabilities ?? 0} vulnerabilities`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {child.status === 'running' && (
+                    <span className="text-xs text-muted-foreground">{childProgress(child)}%</span>
+                  )}
+                  <Badge variant="secondary" className="capitalize">{child.status}</Badge>
+                  {child.status === 'completed' && child.threat_level && (
+                    <Badge className={`text-white capitalize ${THREAT_COLORS[child.threat_level]}`}>
+                      {child.threat_level}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {rejected.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-yellow-500" />
+              Skipped Entries ({rejected.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {rejected.map((entry, index) => (
+              <div key={`${entry.input}-${index}`} className="text-sm">
+                <span className="font-mono">{entry.input}</span>
+                <span className="text-muted-foreground"> — {entry.reason}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -3,7 +3,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Play, Pause, Square, Zap, Clock, CheckCircle } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Play, Pause, Square, Zap, Clock, CheckCircle, Lock } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/components/ui/use-toast';
 
@@ -22,6 +26,7 @@ export const CampaignManager: React.FC<CampaignManagerProps> = ({
 }) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [legalHoldReason, setLegalHoldReason] = useState<string>(campaign.legal_hold_reason ?? '');
   const { toast } = useToast();
 
   const generateAttackPlan = async () => {
@@ -149,6 +154,68 @@ export const CampaignManager: React.FC<CampaignManagerProps> = ({
     }
   };
 
+  const updateApprovalThreshold = async (threshold: string) => {
+    try {
+      const { error } = await supabase
+        .from('apt_campaigns')
+        .update({ approval_risk_threshold: threshold })
+        .eq('id', campaign.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Approval Policy Updated",
+        description: `Attack paths rated ${threshold} or higher now require a second approver`
+      });
+
+      onCampaignUpdate();
+    } catch (error) {
+      console.error('Error updating approval threshold:', error);
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  // A held campaign's scans and evidence are exempt from retention purges
+  const updateLegalHold = async (enabled: boolean) => {
+    if (enabled && !legalHoldReason.trim()) {
+      toast({
+        title: "Reason Required",
+        description: "Record why this campaign's data must be preserved",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('apt_campaigns')
+        .update({ legal_hold: enabled, legal_hold_reason: enabled ? legalHoldReason.trim() : null })
+        .eq('id', campaign.id);
+
+      if (error) throw error;
+
+      toast({
+        title: enabled ? "Legal Hold Placed" : "Legal Hold Released",
+        description: enabled
+          ? "This campaign's data is exempt from retention policies"
+          : "Retention policies apply to this campaign again"
+      });
+
+      onCampaignUpdate();
+    } catch (error) {
+      console.error('Error updating legal hold:', error);
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'planning': return 'bg-secondary';
@@ -217,6 +284,39 @@ export const CampaignManager: React.FC<CampaignManagerProps> = ({
           <Progress value={calculateProgress()} className="h-2" />
         </div>
 
+        <div className="flex items-center gap-4">
+          <Label className="whitespace-nowrap">Require approval from</Label>
+          <Select value={campaign.approval_risk_threshold || 'high'} onValueChange={updateApprovalThreshold}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="low">Low risk</SelectItem>
+              <SelectItem value="medium">Medium risk</SelectItem>
+              <SelectItem value="high">High risk</SelectItem>
+              <SelectItem value="critical">Critical risk</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <Label htmlFor="legal-hold" className="flex items-center gap-2 whitespace-nowrap">
+            <Lock className="h-4 w-4" />
+            Legal hold
+          </Label>
+          <Switch
+            id="legal-hold"
+            checked={!!campaign.legal_hold}
+            onCheckedChange={updateLegalHold}
+          />
+          <Input
+            placeholder="Reason, e.g. Client dispute 2025-114"
+            value={legalHoldReason}
+            onChange={(e) => setLegalHoldReason(e.target.value)}
+            disabled={!!campaign.legal_hold}
+          />
+        </div>
+
         <div className="flex flex-wrap gap-2">
           {campaign.status === 'planning' && (
             <>
@@ -21,15 +21,21 @@ interface DashboardStats {
   activeScans: number;
   threatsDetected: number;
   agentExecutions: number;
+  findingsBySeverity: Record<Severity, number>;
   recentScans: any[];
 }
 
+type Severity = 'critical' | 'high' | 'medium' | 'low';
+
+const SEVERITIES: Severity[] = ['critical', 'high', 'medium', 'low'];
+
 export function Dashboard() {
   const [stats, setStats] = useState<DashboardStats>({
     totalScans: 0,
     activeScans: 0,
     threatsDetected: 0,
     agentExecutions: 0,
+    findingsBySeverity: { critical: 0, high: 0, medium: 0, low: 0 },
     recentScans: []
   });
   const [loading, setLoading] = useState(true);
@@ -71,9 +77,25 @@ export function Dashboard() {
       )
       .subscribe();
 
+    const findingsChannel = supabase
+      .channel('dashboard-findings')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'findings'
+        },
+        () => {
+          fetchDashboardData();
+        }
+      )
+      .subscribe();
+
     return () => {
       supabase.removeChannel(scansChannel);
       supabase.removeChannel(executionsChannel);
+      supabase.removeChannel(findingsChannel);
     };
   }, []);
 
@@ -95,12 +117,16 @@ export function Dashboard() {
         .eq('user_id', user.id)
         .in('status', ['pending', 'running']);
 
-      // Fetch high/critical threats
-      const { count: threatsDetected } = await supabase
-        .from('scans')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', user.id)
-        .in('threat_level', ['high', 'critical']);
+      // Fetch finding severities
+      const { data: findings } = await supabase
+        .from('findings')
+        .select('severity')
+        .eq('user_id', user.id);
+
+      const findingsBySeverity = { critical: 0, high: 0, medium: 0, low: 0 };
+      findings?.forEach(finding => {
+        findingsBySeverity[finding.severity]++;
+      });
 
       // Fetch agent executions
       const { count: agentExecutions } = await supabase
@@ -119,8 +145,9 @@ export function Dashboard() {
       setStats({
         totalScans: totalScans || 0,
         activeScans: activeScans || 0,
-        threatsDetected: threatsDetected || 0,
+        threatsDetected: findingsBySeverity.critical + findingsBySeverity.high,
         agentExecutions: agentExecutions || 0,
+        findingsBySeverity,
         recentScans: recentScans || []
       });
     } catch (error) {
@@ -209,7 +236,7 @@ export function Dashboard() {
           <CardContent>
             <div className="text-2xl font-bold">{stats.threatsDetected}</div>
             <p className="text-xs text-muted-foreground">
-              High/Critical severity threats
+              High/Critical severity findings
             </p>
           </CardContent>
         </Card>
@@ -228,6 +255,35 @@ export function Dashboard() {
         </Card>
       </div>
 
+      {/* Findings by Severity */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Shield className="w-5 h-5" />
+            Findings by Severity
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-4">
+            {SEVERITIES.map(severity => {
+              const total = SEVERITIES.reduce((sum, s) => sum + stats.findingsBySeverity[s], 0);
+              const count = stats.findingsBySeverity[severity];
+              return (
+                <div key={severity} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Badge className={`text-xs text-white capitalize ${getThreatBadgeColor(severity)}`}>
+                      {severity}
+                    </Badge>
+                    <span className="text-sm font-medium">{count}</span>
+                  </div>
+                  <Progress value={total ? (count / total) * 100 : 0} className="h-2" />
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Recent Activity */}
       <div className="grid gap-6 md:grid-cols-2">
         {/* Recent Scans */}
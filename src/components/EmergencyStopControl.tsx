@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { OctagonX, PlayCircle } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+type EmergencyStop = Tables<'emergency_stops'>;
+
+interface EmergencyStopControlProps {
+  // When omitted the stop covers everything the user runs; a campaign stop
+  // covers every member's work on the campaign
+  campaignId?: string | null;
+}
+
+export const EmergencyStopControl = ({ campaignId = null }: EmergencyStopControlProps) => {
+  const [activeStop, setActiveStop] = useState<EmergencyStop | null>(null);
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const fetchActiveStop = useCallback(async () => {
+    let query = supabase.from('emergency_stops').select('*').is('cleared_at', null);
+    query = campaignId ? query.eq('campaign_id', campaignId) : query.is('campaign_id', null);
+
+    // Teammates may each have engaged a stop on the campaign; show the first
+    const { data, error } = await query.order('triggered_at').limit(1).maybeSingle();
+    if (error) {
+      console.error('Error fetching emergency stop:', error);
+      return;
+    }
+    setActiveStop(data);
+  }, [campaignId]);
+
+  useEffect(() => {
+    fetchActiveStop();
+
+    const channel = supabase
+      .channel(`emergency-stops-${campaignId ?? 'all'}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'emergency_stops' }, () => {
+        fetchActiveStop();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [campaignId, fetchActiveStop]);
+
+  const engageStop = async () => {
+    if (!reason.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('emergency_stops')
+        .insert({ user_id: user.id, campaign_id: campaignId, reason: reason.trim() })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const counts = data.cancelled_counts as { scans?: number; agent_executions?: number; attack_paths?: number };
+      setActiveStop(data);
+      setOpen(false);
+      setReason('');
+      toast({
+        title: "Emergency Stop Engaged",
+        description: `Cancelled ${counts.scans ?? 0} scans, ${counts.agent_executions ?? 0} agent runs and ${counts.attack_paths ?? 0} attack paths. New executions are blocked.`,
+        variant: "destructive",
+      });
+    } catch (error) {
+      console.error('Error engaging emergency stop:', error);
+      toast({
+        title: "Error",
+        description: "Failed to engage emergency stop",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const clearStop = async () => {
+    if (!activeStop) return;
+
+    setSubmitting(true);
+    try {
+      // Clearing a campaign stop clears every member's, so the campaign can resume
+      let query = supabase
+        .from('emergency_stops')
+        .update({ cleared_at: new Date().toISOString() })
+        .is('cleared_at', null);
+      query = campaignId ? query.eq('campaign_id', campaignId) : query.eq('id', activeStop.id);
+
+      const { data, error } = await query.select('id');
+
+      if (error) throw error;
+      if (!data?.length) throw new Error('Not allowed to clear this emergency stop');
+
+      setActiveStop(null);
+      toast({
+        title: "Emergency Stop Cleared",
+        description: campaignId ? "Testing can resume for this campaign" : "Testing can resume",
+      });
+    } catch (error) {
+      console.error('Error clearing emergency stop:', error);
+      toast({
+        title: "Error",
+        description: "Failed to clear emergency stop",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (activeStop) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={clearStop}
+        disabled={submitting}
+        title={`Stopped ${new Date(activeStop.triggered_at).toLocaleString()}: ${activeStop.reason}`}
+        className="border-destructive text-destructive"
+      >
+        <PlayCircle className="h-4 w-4 mr-2" />
+        {campaignId ? 'Clear Campaign Stop' : 'Clear Emergency Stop'}
+      </Button>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="destructive" size="sm">
+          <OctagonX className="h-4 w-4 mr-2" />
+          {campaignId ? 'Stop Campaign' : 'Emergency Stop'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{campaignId ? 'Stop all testing for this campaign' : 'Stop all testing'}</DialogTitle>
+          <DialogDescription>
+            Running tools are killed, in-flight scans, agent runs and attack paths are cancelled,
+            and nothing new can start until the stop is cleared.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="emergency-stop-reason">Reason</Label>
+          <Textarea
+            id="emergency-stop-reason"
+            placeholder="e.g. Client reported production outage"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="destructive" onClick={engageStop} disabled={submitting || !reason.trim()}>
+            <OctagonX className="h-4 w-4 mr-2" />
+            Engage Stop
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,311 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, CalendarOff, Plus, Trash2 } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+type EngagementWindow = Tables<'engagement_windows'>;
+type BlackoutPeriod = Tables<'blackout_periods'>;
+
+interface EngagementWindowManagerProps {
+  // When omitted the component edits the workspace-level rules of engagement
+  campaignId?: string | null;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// The signed-in user's active workspace
+const fetchActiveWorkspaceId = async (): Promise<string | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('active_workspace_id')
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.active_workspace_id ?? null;
+};
+
+export const EngagementWindowManager = ({ campaignId = null }: EngagementWindowManagerProps) => {
+  const [windows, setWindows] = useState<EngagementWindow[]>([]);
+  const [blackouts, setBlackouts] = useState<BlackoutPeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [days, setDays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [startTime, setStartTime] = useState('09:00');
+  const [endTime, setEndTime] = useState('17:00');
+  const [timezone, setTimezone] = useState(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [blackoutStart, setBlackoutStart] = useState('');
+  const [blackoutEnd, setBlackoutEnd] = useState('');
+  const [blackoutReason, setBlackoutReason] = useState('');
+  const { toast } = useToast();
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      let windowQuery = supabase.from('engagement_windows').select('*').eq('is_active', true);
+      let blackoutQuery = supabase
+        .from('blackout_periods')
+        .select('*')
+        .gt('ends_at', new Date().toISOString())
+        .order('starts_at');
+
+      if (campaignId) {
+        windowQuery = windowQuery.eq('campaign_id', campaignId);
+        blackoutQuery = blackoutQuery.eq('campaign_id', campaignId);
+      } else {
+        // The active workspace's rules; new rules land there too
+        const workspaceId = await fetchActiveWorkspaceId();
+        if (!workspaceId) return;
+        windowQuery = windowQuery.eq('workspace_id', workspaceId).is('campaign_id', null);
+        blackoutQuery = blackoutQuery.eq('workspace_id', workspaceId).is('campaign_id', null);
+      }
+
+      const [windowResult, blackoutResult] = await Promise.all([windowQuery, blackoutQuery]);
+      if (windowResult.error) throw windowResult.error;
+      if (blackoutResult.error) throw blackoutResult.error;
+
+      setWindows(windowResult.data || []);
+      setBlackouts(blackoutResult.data || []);
+    } catch (error) {
+      console.error('Error fetching rules of engagement:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load testing windows",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [campaignId, toast]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const toggleDay = (day: number) => {
+    setDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+  };
+
+  const addWindow = async () => {
+    if (days.length === 0 || startTime === endTime) {
+      toast({
+        title: "Invalid Window",
+        description: "Select at least one day and a non-empty time range",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('engagement_windows')
+        .insert({
+          user_id: user.id,
+          campaign_id: campaignId,
+          allowed_days: days,
+          start_time: startTime,
+          end_time: endTime,
+          timezone,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setWindows(prev => [...prev, data]);
+    } catch (error) {
+      console.error('Error adding testing window:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add testing window",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addBlackout = async () => {
+    if (!blackoutStart || !blackoutEnd || new Date(blackoutEnd) <= new Date(blackoutStart)) {
+      toast({
+        title: "Invalid Blackout",
+        description: "The blackout must end after it starts",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('blackout_periods')
+        .insert({
+          user_id: user.id,
+          campaign_id: campaignId,
+          starts_at: new Date(blackoutStart).toISOString(),
+          ends_at: new Date(blackoutEnd).toISOString(),
+          reason: blackoutReason.trim() || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setBlackouts(prev => [...prev, data].sort((a, b) => a.starts_at.localeCompare(b.starts_at)));
+      setBlackoutStart('');
+      setBlackoutEnd('');
+      setBlackoutReason('');
+    } catch (error) {
+      console.error('Error adding blackout period:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add blackout period",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeWindow = async (id: string) => {
+    try {
+      const { error } = await supabase.from('engagement_windows').delete().eq('id', id);
+      if (error) throw error;
+      setWindows(prev => prev.filter(entry => entry.id !== id));
+    } catch (error) {
+      console.error('Error removing testing window:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove testing window",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeBlackout = async (id: string) => {
+    try {
+      const { error } = await supabase.from('blackout_periods').delete().eq('id', id);
+      if (error) throw error;
+      setBlackouts(prev => prev.filter(period => period.id !== id));
+    } catch (error) {
+      console.error('Error removing blackout period:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove blackout period",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Rules of Engagement
+        </CardTitle>
+        <CardDescription>
+          When tools and scans may run. Without windows, execution is only limited by
+          {campaignId ? ' campaign dates and' : ''} blackout periods.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div className="text-sm font-medium">Allowed Testing Windows</div>
+          <div className="flex flex-wrap gap-3">
+            {WEEKDAYS.map((label, day) => (
+              <div key={label} className="flex items-center gap-1">
+                <Checkbox
+                  id={`window-day-${day}`}
+                  checked={days.includes(day)}
+                  onCheckedChange={() => toggleDay(day)}
+                />
+                <Label htmlFor={`window-day-${day}`} className="text-sm">{label}</Label>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-[8rem_8rem_1fr_auto] gap-2 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="window-start">From</Label>
+              <Input id="window-start" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="window-end">Until</Label>
+              <Input id="window-end" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="window-timezone">Timezone</Label>
+              <Input id="window-timezone" value={timezone} onChange={(e) => setTimezone(e.target.value)} />
+            </div>
+            <Button onClick={addWindow} disabled={loading}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Window
+            </Button>
+          </div>
+          {windows.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between p-2 border rounded">
+              <div className="flex items-center gap-2 text-sm">
+                {entry.allowed_days.map(day => (
+                  <Badge key={day} variant="outline">{WEEKDAYS[day]}</Badge>
+                ))}
+                <span>{entry.start_time.slice(0, 5)} - {entry.end_time.slice(0, 5)}</span>
+                <span className="text-muted-foreground">{entry.timezone}</span>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => removeWindow(entry.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <CalendarOff className="h-4 w-4" />
+            Blackout Periods
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="blackout-start">Starts</Label>
+              <Input id="blackout-start" type="datetime-local" value={blackoutStart} onChange={(e) => setBlackoutStart(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blackout-end">Ends</Label>
+              <Input id="blackout-end" type="datetime-local" value={blackoutEnd} onChange={(e) => setBlackoutEnd(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blackout-reason">Reason</Label>
+              <Input
+                id="blackout-reason"
+                placeholder="e.g. Client change freeze"
+                value={blackoutReason}
+                onChange={(e) => setBlackoutReason(e.target.value)}
+              />
+            </div>
+            <Button onClick={addBlackout} disabled={loading} variant="outline">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Blackout
+            </Button>
+          </div>
+          {blackouts.map(period => (
+            <div key={period.id} className="flex items-center justify-between p-2 border rounded">
+              <div className="text-sm">
+                {new Date(period.starts_at).toLocaleString()} → {new Date(period.ends_at).toLocaleString()}
+                {period.reason && <span className="text-muted-foreground ml-2">({period.reason})</span>}
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => removeBlackout(period.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
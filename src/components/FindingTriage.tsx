@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { History, ArrowRight } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  FINDING_TRANSITIONS,
+  getFindingStatusColor,
+  getFindingStatusLabel,
+  type FindingStatus,
+} from "@/lib/findingLifecycle";
+
+type Finding = Tables<'findings'>;
+type FindingStatusChange = Tables<'finding_status_history'>;
+
+interface FindingTriageProps {
+  finding: Finding;
+  history: FindingStatusChange[];
+  onTransition: () => void;
+}
+
+export const FindingTriage = ({ finding, history, onTransition }: FindingTriageProps) => {
+  const [nextStatus, setNextStatus] = useState<FindingStatus | ''>('');
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const allowed = FINDING_TRANSITIONS[finding.status as FindingStatus] ?? [];
+
+  const applyTransition = async () => {
+    if (!nextStatus || !comment.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase.from('finding_status_history').insert({
+        finding_id: finding.id,
+        user_id: user.id,
+        from_status: finding.status,
+        to_status: nextStatus,
+        comment: comment.trim(),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Finding Updated",
+        description: `${finding.name} is now ${getFindingStatusLabel(nextStatus).toLowerCase()}`,
+      });
+      setNextStatus('');
+      setComment('');
+      onTransition();
+    } catch (error) {
+      console.error('Error updating finding status:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update finding status",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      {history.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium flex items-center gap-1">
+            <History className="w-4 h-4" />
+            Status History
+          </p>
+          <ul className="space-y-2">
+            {history.map(change => (
+              <li key={change.id} className="text-xs bg-muted rounded p-2 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge className={`${getFindingStatusColor(change.from_status)} text-white`}>
+                    {getFindingStatusLabel(change.from_status)}
+                  </Badge>
+                  <ArrowRight className="w-3 h-3" />
+                  <Badge className={`${getFindingStatusColor(change.to_status)} text-white`}>
+                    {getFindingStatusLabel(change.to_status)}
+                  </Badge>
+                  <span className="text-muted-foreground">
+                    {change.actor_id ? change.actor_name || 'Unknown user' : 'Carried over'} · {new Date(change.created_at).toLocaleString()}
+                  </span>
+                </div>
+                <p>{change.comment}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {allowed.length > 0 && (
+        <div className="flex flex-col md:flex-row gap-2">
+          <Select value={nextStatus} onValueChange={(value) => setNextStatus(value as FindingStatus)}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue placeholder="Move to..." />
+            </SelectTrigger>
+            <SelectContent>
+              {allowed.map(status => (
+                <SelectItem key={status} value={status}>{getFindingStatusLabel(status)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            placeholder="Why? (required)"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            className="min-h-[40px] flex-1"
+          />
+          <Button onClick={applyTransition} disabled={submitting || !nextStatus || !comment.trim()}>
+            Update
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,7 @@
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
+import { EmergencyStopControl } from "@/components/EmergencyStopControl";
+import { NotificationBell } from "@/components/NotificationBell";
 import { Button } from "@/components/ui/button";
 import { Moon, Sun, User, LogOut } from "lucide-react";
 import { useTheme } from "next-themes";
@@ -58,6 +60,8 @@ export function Layout({ children, user }: LayoutProps) {
               </div>
 
               <div className="flex items-center gap-2">
+                <EmergencyStopControl />
+                <NotificationBell />
                 <Button
                   variant="ghost"
                   size="icon"
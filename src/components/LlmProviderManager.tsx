@@ -0,0 +1,408 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Cpu, Pencil, Plus, Trash2 } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+type LlmProvider = Tables<'llm_providers'>;
+type LlmUsage = Pick<Tables<'llm_usage'>, 'provider_id' | 'provider_kind' | 'model' | 'status' | 'total_tokens'>;
+
+// Mirrors ProviderKind in supabase/functions/_shared/llmProviders.ts
+const PROVIDER_KINDS = [
+  { value: 'openai', label: 'OpenAI', model: 'gpt-4o-mini' },
+  { value: 'openai_compatible', label: 'OpenAI-compatible endpoint', model: 'llama3.1:8b' },
+  { value: 'lovable', label: 'Lovable AI Gateway', model: 'google/gemini-2.5-flash' },
+  { value: 'perplexity', label: 'Perplexity', model: 'llama-3.1-sonar-small-128k-online' },
+];
+
+const SECRET_PATTERN = /^LLM_[A-Z0-9_]+$/;
+// Mirrors workspaceSecretPrefix in supabase/functions/_shared/llmProviders.ts
+const secretPrefix = (workspaceId: string) => `LLM_${workspaceId.toUpperCase().replace(/-/g, '_')}_`;
+const URL_PATTERN = /^https?:\/\/[^\s/]+/i;
+const USAGE_DAYS = 30;
+
+const emptyForm = () => ({
+  name: '',
+  kind: 'openai_compatible',
+  baseUrl: '',
+  apiKeySecret: '',
+  defaultModel: 'llama3.1:8b',
+  isDefault: false,
+  agentIds: [] as string[],
+});
+
+export const LlmProviderManager = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [providers, setProviders] = useState<LlmProvider[]>([]);
+  const [usage, setUsage] = useState<LlmUsage[]>([]);
+  const [agents, setAgents] = useState<Pick<Tables<'ai_agents'>, 'id' | 'name'>[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchProviders = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('active_workspace_id')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (profileError) throw profileError;
+
+      const activeWorkspaceId = profile?.active_workspace_id ?? null;
+      setWorkspaceId(activeWorkspaceId);
+      if (!activeWorkspaceId) return;
+
+      const since = new Date(Date.now() - USAGE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const [providersResult, usageResult, agentsResult] = await Promise.all([
+        supabase.from('llm_providers').select('*').eq('workspace_id', activeWorkspaceId).order('name'),
+        supabase
+          .from('llm_usage')
+          .select('provider_id, provider_kind, model, status, total_tokens')
+          .eq('workspace_id', activeWorkspaceId)
+          .gte('created_at', since),
+        supabase.from('ai_agents').select('id, name').eq('is_active', true).order('name'),
+      ]);
+      if (providersResult.error) throw providersResult.error;
+      if (usageResult.error) throw usageResult.error;
+      if (agentsResult.error) throw agentsResult.error;
+
+      setProviders(providersResult.data || []);
+      setUsage(usageResult.data || []);
+      setAgents(agentsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching LLM providers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load LLM providers",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchProviders();
+  }, [fetchProviders]);
+
+  const toggle = (values: string[], value: string) =>
+    values.includes(value) ? values.filter(entry => entry !== value) : [...values, value];
+
+  const editProvider = (provider: LlmProvider) => {
+    setEditingId(provider.id);
+    setForm({
+      name: provider.name,
+      kind: provider.kind,
+      baseUrl: provider.base_url ?? '',
+      apiKeySecret: provider.api_key_secret ?? '',
+      defaultModel: provider.default_model,
+      isDefault: provider.is_default,
+      agentIds: provider.agent_ids,
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+  };
+
+  const setKind = (kind: string) => {
+    const previous = PROVIDER_KINDS.find(entry => entry.value === form.kind);
+    const next = PROVIDER_KINDS.find(entry => entry.value === kind);
+    setForm(prev => ({
+      ...prev,
+      kind,
+      // Swap in the new kind's example model unless one was typed
+      defaultModel: !prev.defaultModel || prev.defaultModel === previous?.model ? next?.model ?? '' : prev.defaultModel,
+    }));
+  };
+
+  const saveProvider = async () => {
+    const custom = form.kind === 'openai_compatible';
+    const problem = !form.name.trim()
+      ? 'Enter a name'
+      : custom && !URL_PATTERN.test(form.baseUrl.trim())
+        ? 'Enter the endpoint base URL, e.g. http://gpu-01.internal:11434/v1'
+        : form.apiKeySecret.trim() && (
+            !SECRET_PATTERN.test(form.apiKeySecret.trim())
+            || !workspaceId
+            || !form.apiKeySecret.trim().startsWith(secretPrefix(workspaceId))
+          )
+          ? `The API key secret must be a function secret named ${workspaceId ? secretPrefix(workspaceId) : 'LLM_'}…`
+          : !form.defaultModel.trim()
+            ? 'Enter a model'
+            : null;
+
+    if (problem) {
+      toast({
+        title: "Invalid Provider",
+        description: problem,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!userId || !workspaceId) return;
+
+    const fields = {
+      name: form.name.trim(),
+      kind: form.kind,
+      base_url: custom ? form.baseUrl.trim() : null,
+      api_key_secret: form.apiKeySecret.trim() || null,
+      default_model: form.defaultModel.trim(),
+      is_default: form.isDefault,
+      agent_ids: form.agentIds,
+    };
+
+    try {
+      // Only one provider is the workspace default
+      if (form.isDefault) {
+        let previousDefault = supabase
+          .from('llm_providers')
+          .update({ is_default: false })
+          .eq('workspace_id', workspaceId)
+          .eq('is_default', true);
+        if (editingId) previousDefault = previousDefault.neq('id', editingId);
+        const { error } = await previousDefault;
+        if (error) throw error;
+      }
+
+      const { data, error } = editingId
+        ? await supabase.from('llm_providers').update(fields).eq('id', editingId).select().single()
+        : await supabase.from('llm_providers').insert({ ...fields, user_id: userId, workspace_id: workspaceId }).select().single();
+
+      if (error) throw error;
+      setProviders(prev => [
+        ...prev.filter(provider => provider.id !== data.id).map(provider => data.is_default ? { ...provider, is_default: false } : provider),
+        data,
+      ].sort((a, b) => a.name.localeCompare(b.name)));
+      cancelEdit();
+    } catch (error) {
+      console.error('Error saving LLM provider:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save LLM provider",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeProvider = async (id: string) => {
+    try {
+      const { error } = await supabase.from('llm_providers').delete().eq('id', id);
+      if (error) throw error;
+      setProviders(prev => prev.filter(provider => provider.id !== id));
+      if (editingId === id) cancelEdit();
+    } catch (error) {
+      console.error('Error removing LLM provider:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove LLM provider",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeProvider = (provider: LlmProvider) => [
+    PROVIDER_KINDS.find(kind => kind.value === provider.kind)?.label ?? provider.kind,
+    provider.base_url,
+    provider.default_model,
+    provider.api_key_secret && `key ${provider.api_key_secret}`,
+    provider.agent_ids.length > 0 && `${provider.agent_ids.length} agent${provider.agent_ids.length === 1 ? '' : 's'}`,
+  ].filter(Boolean).join(' · ');
+
+  // Calls, failures and tokens per provider and model over the usage window
+  const usageSummary = Object.values(usage.reduce<Record<string, { label: string; calls: number; failed: number; tokens: number }>>(
+    (summary, entry) => {
+      const provider = providers.find(candidate => candidate.id === entry.provider_id);
+      const label = `${provider?.name ?? PROVIDER_KINDS.find(kind => kind.value === entry.provider_kind)?.label ?? entry.provider_kind} / ${entry.model}`;
+      const row = summary[label] ?? (summary[label] = { label, calls: 0, failed: 0, tokens: 0 });
+      row.calls += 1;
+      if (entry.status === 'failed') row.failed += 1;
+      row.tokens += entry.total_tokens ?? 0;
+      return summary;
+    },
+    {}
+  )).sort((a, b) => b.calls - a.calls);
+
+  if (!loading && !workspaceId) {
+    return (
+      <Card>
+        <CardContent className="pt-6 text-sm text-muted-foreground">
+          Select a workspace in the Team tab to manage LLM providers.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Cpu className="h-5 w-5" />
+          LLM Providers
+        </CardTitle>
+        <CardDescription>
+          Where this workspace's AI analysis runs. The default provider serves every call, or agents can be assigned
+          their own. Without providers, the built-in services are used and scan profiles choose the OpenAI model.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {providers.length > 0 && (
+          <div className="space-y-2">
+            {providers.map(provider => (
+              <div key={provider.id} className="flex items-start justify-between gap-3 p-3 border rounded">
+                <div className="space-y-1 min-w-0 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{provider.name}</span>
+                    {provider.is_default && <Badge variant="outline">Default</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground break-all">{describeProvider(provider)}</p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => editProvider(provider)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => removeProvider(provider.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Usage, last {USAGE_DAYS} days</div>
+          {usageSummary.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No LLM calls recorded yet.</p>
+          ) : (
+            <div className="space-y-1">
+              {usageSummary.map(row => (
+                <div key={row.label} className="flex justify-between gap-3 text-sm">
+                  <span className="truncate">{row.label}</span>
+                  <span className="text-muted-foreground shrink-0">
+                    {row.calls} calls{row.failed > 0 && ` (${row.failed} failed)`} · {row.tokens.toLocaleString()} tokens
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="text-sm font-medium">{editingId ? 'Edit Provider' : 'New Provider'}</div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="provider-name">Name</Label>
+              <Input
+                id="provider-name"
+                placeholder="e.g. On-prem Ollama"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Provider</Label>
+              <Select value={form.kind} onValueChange={setKind}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROVIDER_KINDS.map(kind => (
+                    <SelectItem key={kind.value} value={kind.value}>{kind.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            {form.kind === 'openai_compatible' && (
+              <div className="space-y-2">
+                <Label htmlFor="provider-url">Base URL</Label>
+                <Input
+                  id="provider-url"
+                  placeholder="http://gpu-01.internal:11434/v1"
+                  value={form.baseUrl}
+                  onChange={(e) => setForm(prev => ({ ...prev, baseUrl: e.target.value }))}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="provider-model">Model</Label>
+              <Input
+                id="provider-model"
+                value={form.defaultModel}
+                onChange={(e) => setForm(prev => ({ ...prev, defaultModel: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="provider-secret">API Key Secret</Label>
+              <Input
+                id="provider-secret"
+                placeholder={form.kind === 'openai_compatible' ? 'None' : 'Platform key'}
+                value={form.apiKeySecret}
+                onChange={(e) => setForm(prev => ({ ...prev, apiKeySecret: e.target.value.toUpperCase() }))}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Keys are never stored here: name an edge function secret starting with {workspaceId ? secretPrefix(workspaceId) : 'LLM_'} that holds the key.
+          </p>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="provider-default"
+              checked={form.isDefault}
+              onCheckedChange={(checked) => setForm(prev => ({ ...prev, isDefault: checked === true }))}
+            />
+            <Label htmlFor="provider-default" className="text-sm">Workspace default</Label>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Agents ({form.agentIds.length === 0 ? 'none assigned' : `${form.agentIds.length} selected`})</Label>
+            <div className="flex flex-wrap gap-3">
+              {agents.map(agent => (
+                <div key={agent.id} className="flex items-center gap-1">
+                  <Checkbox
+                    id={`provider-agent-${agent.id}`}
+                    checked={form.agentIds.includes(agent.id)}
+                    onCheckedChange={() => setForm(prev => ({ ...prev, agentIds: toggle(prev.agentIds, agent.id) }))}
+                  />
+                  <Label htmlFor={`provider-agent-${agent.id}`} className="text-sm">{agent.name}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button variant="outline" onClick={cancelEdit}>
+                Cancel
+              </Button>
+            )}
+            <Button onClick={saveProvider} disabled={loading}>
+              <Plus className="h-4 w-4 mr-2" />
+              {editingId ? 'Save Provider' : 'Add Provider'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Bell } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+type Notification = Tables<'notifications'>;
+
+// Notifications are sent by edge functions according to the user's notification settings
+export const NotificationBell = () => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchNotifications();
+
+    const channel = supabase
+      .channel('notifications')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'notifications' }, (payload) => {
+        const notification = payload.new as Notification;
+        setNotifications(prev => [notification, ...prev]);
+        toast({
+          title: notification.title,
+          description: notification.message,
+          variant: notification.kind === 'threat_detected' || notification.kind === 'agent_error' || notification.kind === 'schedule_alert' ? 'destructive' : 'default',
+        });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [toast]);
+
+  const fetchNotifications = async () => {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return;
+    }
+    setNotifications(data || []);
+  };
+
+  const markAllRead = async () => {
+    const unreadIds = notifications.filter(n => !n.read_at).map(n => n.id);
+    if (unreadIds.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    const { error } = await supabase.from('notifications').update({ read_at: readAt }).in('id', unreadIds);
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      return;
+    }
+    setNotifications(prev => prev.map(n => (n.read_at ? n : { ...n, read_at: readAt })));
+  };
+
+  const unread = notifications.filter(n => !n.read_at).length;
+
+  return (
+    <Popover onOpenChange={(open) => { if (!open) markAllRead(); }}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4">
+              {unread > 9 ? '9+' : unread}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="p-3 border-b text-sm font-medium">Notifications</div>
+        {notifications.length === 0 ? (
+          <p className="p-3 text-sm text-muted-foreground">You're all caught up</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                className="w-full text-left p-3 border-b last:border-b-0 hover:bg-muted disabled:cursor-default"
+                disabled={!notification.scan_id}
+                onClick={() => notification.scan_id && navigate(`/scan-details/${notification.scan_id}`)}
+              >
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  {!notification.read_at && <span className="h-2 w-2 rounded-full bg-primary" />}
+                  {notification.title}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">{notification.message}</p>
+                <p className="text-xs text-muted-foreground mt-1">{new Date(notification.created_at).toLocaleString()}</p>
+              </button>
+            ))}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
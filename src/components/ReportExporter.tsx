@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -7,6 +7,10 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { FileDown, FileText, Shield, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Finding = Tables<'findings'>;
 
 interface ReportExporterProps {
   campaign: any;
@@ -43,8 +47,33 @@ export const ReportExporter: React.FC<ReportExporterProps> = ({
 }) => {
   const [config, setConfig] = useState<ReportConfig>(DEFAULT_CONFIG);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [findings, setFindings] = useState<Finding[]>([]);
   const { toast } = useToast();
 
+  const fetchFindings = useCallback(async () => {
+    const scanIds = scans.map(s => s.id);
+    if (scanIds.length === 0) {
+      setFindings([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('findings')
+      .select('*')
+      .in('scan_id', scanIds)
+      .order('cvss_score', { ascending: false, nullsFirst: false });
+
+    if (error) {
+      console.error('Error fetching findings:', error);
+      return;
+    }
+    setFindings(data || []);
+  }, [scans]);
+
+  useEffect(() => {
+    fetchFindings();
+  }, [fetchFindings]);
+
   const generateReport = async () => {
     setIsGenerating(true);
     try {
@@ -75,12 +104,18 @@ export const ReportExporter: React.FC<ReportExporterProps> = ({
 
   const calculateReportStats = () => {
     const completedPaths = attackPaths.filter(p => p.status === 'completed');
-    const criticalFindings = attackPaths.filter(p => p.risk_level === 'critical').length;
-    const highFindings = attackPaths.filter(p => p.risk_level === 'high').length;
-    const avgCVSS = attackPaths.reduce((sum, p) => sum + (p.cvss_score || 0), 0) / (attackPaths.length || 1);
+    const criticalFindings = attackPaths.filter(p => p.risk_level === 'critical').length
+      + findings.filter(f => f.severity === 'critical').length;
+    const highFindings = attackPaths.filter(p => p.risk_level === 'high').length
+      + findings.filter(f => f.severity === 'high').length;
+    const scored = [...attackPaths.map(p => p.cvss_score), ...findings.map(f => f.cvss_score)]
+      .filter((score): score is number => typeof score === 'number');
+    const avgCVSS = scored.reduce((sum, score) => sum + score, 0) / (scored.length || 1);
     
     return {
       totalScans: scans.length,
+      totalFindings: attackPaths.length + findings.length,
+      totalScanFindings: findings.length,
       totalAttackPaths: attackPaths.length,
       completedPaths: completedPaths.length,
       criticalFindings,
@@ -115,6 +150,7 @@ export const ReportExporter: React.FC<ReportExporterProps> = ({
 ## Key Findings
 
 - **Total Scans Performed:** ${stats.totalScans}
+- **Scan Findings:** ${stats.totalScanFindings}
 - **Attack Paths Tested:** ${stats.totalAttackPaths}
 - **Critical Vulnerabilities:** ${stats.criticalFindings}
 - **High-Risk Vulnerabilities:** ${stats.highFindings}
@@ -135,6 +171,27 @@ This APT simulation identified ${stats.criticalFindings} critical and ${stats.hi
 
 ## Vulnerability Summary
 
+`;
+      findings.forEach((finding, index) => {
+        content += `
+### ${index + 1}. ${finding.name}
+
+**Target:** ${scans.find(s => s.id === finding.scan_id)?.target || 'N/A'}
+**CVE:** ${finding.cve || 'N/A'}
+**Severity:** ${finding.severity.toUpperCase()}
+**CVSS Score:** ${finding.cvss_score ?? 'N/A'}
+**Service:** ${finding.port !== null ? `${finding.port}/` : ''}${finding.service || 'N/A'}
+
+**Description:**
+${finding.description || 'N/A'}
+
+---
+`;
+      });
+
+      content += `
+## Attack Paths
+
 `;
       attackPaths.forEach((path, index) => {
         const evidence = path.evidence || {};
@@ -228,6 +285,18 @@ ${index + 1}. **${path.technique_name}**
 `;
       });
 
+      findings
+        .filter(f => f.severity === 'critical' || f.severity === 'high')
+        .forEach((finding, index) => {
+          content += `
+${criticalPaths.length + index + 1}. **${finding.name}**
+   - Vulnerability: ${finding.cve || finding.name}
+   - Recommended Fix: ${finding.mitigation || 'Apply vendor patches and restrict exposure of the affected service'}
+   - Priority: ${finding.severity.toUpperCase()}
+
+`;
+        });
+
       content += `
 ## Security Enhancements
 
@@ -420,7 +489,7 @@ ${content
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="space-y-1">
             <div className="text-sm text-muted-foreground">Total Findings</div>
-            <div className="text-2xl font-bold">{stats.totalAttackPaths}</div>
+            <div className="text-2xl font-bold">{stats.totalFindings}</div>
           </div>
           <div className="space-y-1">
             <div className="text-sm text-muted-foreground">Critical</div>
@@ -508,7 +577,7 @@ ${content
         {/* Generate Button */}
         <Button 
           onClick={generateReport} 
-          disabled={isGenerating || attackPaths.length === 0}
+          disabled={isGenerating || (attackPaths.length === 0 && findings.length === 0)}
           className="w-full"
           size="lg"
         >
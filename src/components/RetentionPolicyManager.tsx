@@ -0,0 +1,281 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Archive, Download, Eye, Save } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+type RetentionRun = Tables<'retention_runs'>;
+
+type RetentionPeriod =
+  | 'scans_days'
+  | 'agent_executions_days'
+  | 'attack_path_evidence_days'
+  | 'api_usage_days'
+  | 'tool_output_days';
+
+type RetentionCounts = Record<string, number>;
+
+interface RetentionPreview {
+  dry_run: boolean;
+  cutoffs: Record<string, string>;
+  counts: RetentionCounts;
+  held_campaigns: number;
+}
+
+const PERIODS: { key: RetentionPeriod; label: string; description: string }[] = [
+  { key: 'scans_days', label: 'Scans', description: 'Whole scans with their findings and agent executions' },
+  { key: 'agent_executions_days', label: 'Agent executions', description: 'Agent inputs and outputs' },
+  { key: 'attack_path_evidence_days', label: 'Attack evidence', description: 'Evidence recorded on executed attack paths' },
+  { key: 'api_usage_days', label: 'API usage', description: 'External API call log' },
+  { key: 'tool_output_days', label: 'Raw tool output', description: 'Reconnaissance results and command output' },
+];
+
+const COUNT_LABELS: Record<string, string> = {
+  scans: 'Scans',
+  findings: 'Findings',
+  agent_executions: 'Agent executions',
+  attack_path_evidence: 'Attack evidence',
+  api_usage: 'API usage records',
+  tool_output: 'Raw tool output',
+};
+
+const EMPTY_PERIODS: Record<RetentionPeriod, string> = {
+  scans_days: '',
+  agent_executions_days: '',
+  attack_path_evidence_days: '',
+  api_usage_days: '',
+  tool_output_days: '',
+};
+
+// The active workspace's retention policy; owners and leads can change it
+export const RetentionPolicyManager = () => {
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [periods, setPeriods] = useState<Record<RetentionPeriod, string>>(EMPTY_PERIODS);
+  const [runs, setRuns] = useState<RetentionRun[]>([]);
+  const [preview, setPreview] = useState<RetentionPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const { toast } = useToast();
+
+  const fetchPolicy = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('active_workspace_id')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (profileError) throw profileError;
+
+      const activeWorkspaceId = profile?.active_workspace_id ?? null;
+      setWorkspaceId(activeWorkspaceId);
+      if (!activeWorkspaceId) return;
+
+      const [policyResult, runsResult] = await Promise.all([
+        supabase.from('retention_policies').select('*').eq('workspace_id', activeWorkspaceId).maybeSingle(),
+        supabase
+          .from('retention_runs')
+          .select('*')
+          .eq('workspace_id', activeWorkspaceId)
+          .order('ran_at', { ascending: false })
+          .limit(10),
+      ]);
+      if (policyResult.error) throw policyResult.error;
+      if (runsResult.error) throw runsResult.error;
+
+      const policy = policyResult.data;
+      if (policy) {
+        setPeriods(Object.fromEntries(
+          PERIODS.map(({ key }) => [key, policy[key]?.toString() ?? ''])
+        ) as Record<RetentionPeriod, string>);
+      }
+      setRuns(runsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching retention policy:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load retention policy",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPolicy();
+  }, [fetchPolicy]);
+
+  const savePolicy = async () => {
+    if (!workspaceId) return;
+    const values = Object.fromEntries(
+      PERIODS.map(({ key }) => [key, periods[key].trim() ? parseInt(periods[key], 10) : null])
+    ) as Record<RetentionPeriod, number | null>;
+
+    if (Object.values(values).some(days => days !== null && (!Number.isInteger(days) || days < 1))) {
+      toast({
+        title: "Invalid Period",
+        description: "Retention periods must be at least one day, or empty to keep data forever",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from('retention_policies')
+        .upsert({ user_id: user.id, workspace_id: workspaceId, ...values }, { onConflict: 'workspace_id' });
+
+      if (error) throw error;
+      setPreview(null);
+      toast({
+        title: "Retention Policy Saved",
+        description: "The policy is enforced nightly",
+      });
+    } catch (error) {
+      console.error('Error saving retention policy:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save retention policy",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const previewPurge = async () => {
+    if (!workspaceId) return;
+    setPreviewing(true);
+    try {
+      const { data, error } = await supabase.rpc('preview_retention', { _workspace_id: workspaceId });
+      if (error) throw error;
+      setPreview(data as unknown as RetentionPreview | null);
+      if (!data) {
+        toast({
+          title: "No Policy",
+          description: "Save a retention policy before previewing it",
+        });
+      }
+    } catch (error) {
+      console.error('Error previewing retention:', error);
+      toast({
+        title: "Error",
+        description: "Failed to preview retention",
+        variant: "destructive",
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  // Exports the full deletion record, including purged ids and their digest
+  const downloadRun = (run: RetentionRun) => {
+    const blob = new Blob([JSON.stringify(run, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `retention-run-${run.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderCounts = (counts: RetentionCounts) => (
+    <div className="flex flex-wrap gap-2">
+      {Object.entries(counts).map(([key, count]) => (
+        <Badge key={key} variant={count > 0 ? 'destructive' : 'outline'}>
+          {COUNT_LABELS[key] ?? key}: {count}
+        </Badge>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="h-5 w-5" />
+          Data Retention
+        </CardTitle>
+        <CardDescription>
+          Data in this workspace older than each period is purged nightly. Leave a period empty to keep that data forever.
+          Campaigns under legal hold are never purged.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {PERIODS.map(({ key, label, description }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`retention-${key}`}>{label} (days)</Label>
+              <Input
+                id={`retention-${key}`}
+                type="number"
+                min={1}
+                placeholder="Keep forever"
+                value={periods[key]}
+                onChange={(e) => setPeriods(prev => ({ ...prev, [key]: e.target.value }))}
+              />
+              <p className="text-xs text-muted-foreground">{description}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={savePolicy} disabled={loading || saving || !workspaceId}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Policy'}
+          </Button>
+          <Button variant="outline" onClick={previewPurge} disabled={loading || previewing || !workspaceId}>
+            <Eye className="h-4 w-4 mr-2" />
+            {previewing ? 'Checking...' : 'Preview Purge'}
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-2 p-3 border rounded">
+            <div className="text-sm font-medium">The next run would purge</div>
+            {renderCounts(preview.counts)}
+            {preview.held_campaigns > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {preview.held_campaigns} campaign{preview.held_campaigns === 1 ? '' : 's'} under legal hold excluded
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="text-sm font-medium">Deletion Records</div>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No data has been purged yet</p>
+          ) : (
+            runs.map(run => (
+              <div key={run.id} className="flex items-center justify-between gap-4 p-2 border rounded">
+                <div className="space-y-1">
+                  <div className="text-sm">{new Date(run.ran_at).toLocaleString()}</div>
+                  {renderCounts(run.purged_counts as RetentionCounts)}
+                  <div className="text-xs font-mono text-muted-foreground break-all">sha256 {run.purged_digest}</div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => downloadRun(run)}>
+                  <Download className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
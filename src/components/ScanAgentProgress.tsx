@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { Bot, CheckCircle, Clock, Loader2, XCircle } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+type AgentExecution = Tables<'agent_executions'>;
+
+type AgentState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'skipped';
+
+interface ScanAgentProgressProps {
+  scanId: string;
+  agents: { id: string; name: string }[];
+  // Set when the agents stage was skipped, e.g. with automatic analysis turned off
+  skipped?: boolean;
+}
+
+const STATE_BADGES: Record<AgentState, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  queued: { label: 'Queued', variant: 'outline' },
+  running: { label: 'Running', variant: 'secondary' },
+  completed: { label: 'Completed', variant: 'default' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  cancelled: { label: 'Cancelled', variant: 'destructive' },
+  skipped: { label: 'Skipped', variant: 'outline' },
+};
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const vulnerabilityCount = (execution: AgentExecution | undefined) => {
+  const output = execution?.output_data as { vulnerabilities?: unknown[] } | null | undefined;
+  return Array.isArray(output?.vulnerabilities) ? output.vulnerabilities.length : 0;
+};
+
+// Live state of every agent in a scan, fed by the agent_executions realtime publication
+export const ScanAgentProgress = ({ scanId, agents, skipped = false }: ScanAgentProgressProps) => {
+  const [executions, setExecutions] = useState<AgentExecution[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const upsert = (execution: AgentExecution) => {
+      setExecutions(prev => [...prev.filter(entry => entry.id !== execution.id), execution]);
+    };
+
+    const channel = supabase
+      .channel(`scan-agents-${scanId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'agent_executions',
+        filter: `scan_id=eq.${scanId}`
+      }, (payload) => upsert(payload.new as AgentExecution))
+      .subscribe();
+
+    supabase
+      .from('agent_executions')
+      .select('*')
+      .eq('scan_id', scanId)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching agent executions:', error);
+          return;
+        }
+        (data || []).forEach(upsert);
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [scanId]);
+
+  // Tick elapsed times while anything is running
+  const anyRunning = executions.some(execution => execution.status === 'running');
+  useEffect(() => {
+    if (!anyRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [anyRunning]);
+
+  // An agent rerun after an interrupted attempt has several executions; the newest one counts
+  const latestExecution = (agentId: string) =>
+    executions
+      .filter(execution => execution.agent_id === agentId)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+
+  const rows = agents.map(agent => {
+    const execution = latestExecution(agent.id);
+    const status = execution?.status === 'pending' ? null : execution?.status;
+    const state: AgentState = status ?? (skipped ? 'skipped' : 'queued');
+    const elapsed = execution
+      ? execution.execution_time_ms ?? now - new Date(execution.created_at).getTime()
+      : null;
+    return { agent, execution, state, elapsed };
+  });
+
+  const totalFound = rows.reduce((sum, row) => sum + vulnerabilityCount(row.execution), 0);
+  const finished = rows.filter(row => row.state === 'completed' || row.state === 'failed').length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium flex items-center gap-2">
+          <Bot className="w-4 h-4" />
+          Agents
+        </span>
+        <span className="text-muted-foreground">
+          {finished}/{agents.length} finished · {totalFound} vulnerabilit{totalFound === 1 ? 'y' : 'ies'} found so far
+        </span>
+      </div>
+
+      {rows.map(({ agent, execution, state, elapsed }) => (
+        <div key={agent.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+          <div className="flex items-start gap-2 min-w-0">
+            {state === 'running' && <Loader2 className="w-4 h-4 mt-0.5 animate-spin text-primary" />}
+            {state === 'completed' && <CheckCircle className="w-4 h-4 mt-0.5 text-green-500" />}
+            {(state === 'failed' || state === 'cancelled') && <XCircle className="w-4 h-4 mt-0.5 text-destructive" />}
+            {(state === 'queued' || state === 'skipped') && <Clock className="w-4 h-4 mt-0.5 text-muted-foreground" />}
+            <div className="min-w-0">
+              <p className="text-sm font-medium">{agent.name}</p>
+              {execution?.error_message && (
+                <p className="text-xs text-destructive break-words">{execution.error_message}</p>
+              )}
+              {state === 'completed' && (
+                <p className="text-xs text-muted-foreground">
+                  {vulnerabilityCount(execution)} vulnerabilit{vulnerabilityCount(execution) === 1 ? 'y' : 'ies'} reported
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {elapsed !== null && <span className="text-xs text-muted-foreground">{formatElapsed(elapsed)}</span>}
+            <Badge variant={STATE_BADGES[state].variant}>{STATE_BADGES[state].label}</Badge>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,508 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil, Plus, SlidersHorizontal, Trash2 } from "lucide-react";
+import type { Database, Tables } from "@/integrations/supabase/types";
+
+type ScanProfile = Tables<'scan_profiles'>;
+type ScanProfileDefault = Tables<'scan_profile_defaults'>;
+type AssetType = Database["public"]["Enums"]["asset_type"];
+
+// Mirrors RiskPolicy in supabase/functions/_shared/scanProfiles.ts
+interface RiskPolicy {
+  critical: { high_severity: number; risk_score: number };
+  high: { high_severity: number; risk_score: number };
+  medium: { vulnerabilities: number; risk_score: number };
+}
+
+interface ToolParameters {
+  nmap?: { ports?: string; timing?: number };
+}
+
+const DEFAULT_RISK_POLICY: RiskPolicy = {
+  critical: { high_severity: 3, risk_score: 8 },
+  high: { high_severity: 1, risk_score: 6 },
+  medium: { vulnerabilities: 3, risk_score: 4 },
+};
+
+const RECON_SERVICES = [
+  { value: 'shodan', label: 'Shodan' },
+  { value: 'virustotal', label: 'VirusTotal' },
+  { value: 'ipinfo', label: 'IPInfo' },
+];
+
+const ASSET_TYPES: AssetType[] = ['domain', 'ip', 'url', 'hash', 'email'];
+
+const NMAP_TIMINGS = ['0', '1', '2', '3', '4', '5'];
+
+const PORT_LIST_PATTERN = /^\s*\d{1,5}(-\d{1,5})?(\s*,\s*\d{1,5}(-\d{1,5})?)*\s*$/;
+
+const emptyForm = () => ({
+  name: '',
+  description: '',
+  visibility: 'workspace',
+  agentIds: [] as string[],
+  reconServices: RECON_SERVICES.map(service => service.value),
+  nmapPorts: '',
+  nmapTiming: 'default',
+  llmModel: 'gpt-4o-mini',
+  llmTemperature: '0.7',
+  riskPolicy: DEFAULT_RISK_POLICY,
+});
+
+export const ScanProfileManager = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<ScanProfile[]>([]);
+  const [defaults, setDefaults] = useState<ScanProfileDefault[]>([]);
+  const [agents, setAgents] = useState<Pick<Tables<'ai_agents'>, 'id' | 'name'>[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchProfiles = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('active_workspace_id')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (profileError) throw profileError;
+
+      const activeWorkspaceId = profile?.active_workspace_id ?? null;
+      setWorkspaceId(activeWorkspaceId);
+      if (!activeWorkspaceId) return;
+
+      const [profilesResult, defaultsResult, agentsResult] = await Promise.all([
+        supabase.from('scan_profiles').select('*').eq('workspace_id', activeWorkspaceId).order('name'),
+        supabase.from('scan_profile_defaults').select('*').eq('workspace_id', activeWorkspaceId),
+        supabase.from('ai_agents').select('id, name').eq('is_active', true).order('name'),
+      ]);
+      if (profilesResult.error) throw profilesResult.error;
+      if (defaultsResult.error) throw defaultsResult.error;
+      if (agentsResult.error) throw agentsResult.error;
+
+      setProfiles(profilesResult.data || []);
+      setDefaults(defaultsResult.data || []);
+      setAgents(agentsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching scan profiles:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load scan profiles",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  const toggle = (values: string[], value: string) =>
+    values.includes(value) ? values.filter(entry => entry !== value) : [...values, value];
+
+  const setRiskThreshold = (level: keyof RiskPolicy, field: string, value: string) => {
+    setForm(prev => ({
+      ...prev,
+      riskPolicy: { ...prev.riskPolicy, [level]: { ...prev.riskPolicy[level], [field]: Number(value) } },
+    }));
+  };
+
+  const editProfile = (profile: ScanProfile) => {
+    const toolParameters = (profile.tool_parameters ?? {}) as ToolParameters;
+    setEditingId(profile.id);
+    setForm({
+      name: profile.name,
+      description: profile.description ?? '',
+      visibility: profile.visibility,
+      agentIds: profile.agent_ids,
+      reconServices: profile.recon_services,
+      nmapPorts: toolParameters.nmap?.ports ?? '',
+      nmapTiming: toolParameters.nmap?.timing !== undefined ? String(toolParameters.nmap.timing) : 'default',
+      llmModel: profile.llm_model,
+      llmTemperature: String(profile.llm_temperature),
+      riskPolicy: { ...DEFAULT_RISK_POLICY, ...(profile.risk_policy as Partial<RiskPolicy> | null) },
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+  };
+
+  const saveProfile = async () => {
+    const temperature = Number(form.llmTemperature);
+    const problem = !form.name.trim()
+      ? 'Enter a name'
+      : form.reconServices.length === 0
+        ? 'Select at least one reconnaissance service'
+        : form.nmapPorts.trim() && !PORT_LIST_PATTERN.test(form.nmapPorts)
+          ? 'Ports must be a list such as 22,80,443,8000-8100'
+          : !form.llmModel.trim()
+            ? 'Enter a model'
+            : Number.isNaN(temperature) || temperature < 0 || temperature > 2
+              ? 'Temperature must be between 0 and 2'
+              : null;
+
+    if (problem) {
+      toast({
+        title: "Invalid Profile",
+        description: problem,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!userId || !workspaceId) return;
+
+    const nmap = {
+      ...(form.nmapPorts.trim() ? { ports: form.nmapPorts.replace(/\s/g, '') } : {}),
+      ...(form.nmapTiming !== 'default' ? { timing: Number(form.nmapTiming) } : {}),
+    };
+    const fields = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      visibility: form.visibility,
+      agent_ids: form.agentIds,
+      recon_services: form.reconServices,
+      tool_parameters: Object.keys(nmap).length > 0 ? { nmap } : {},
+      llm_model: form.llmModel.trim(),
+      llm_temperature: temperature,
+      risk_policy: { ...form.riskPolicy },
+    };
+
+    try {
+      const { data, error } = editingId
+        ? await supabase.from('scan_profiles').update(fields).eq('id', editingId).select().single()
+        : await supabase.from('scan_profiles').insert({ ...fields, user_id: userId, workspace_id: workspaceId }).select().single();
+
+      if (error) throw error;
+      setProfiles(prev => [...prev.filter(profile => profile.id !== data.id), data].sort((a, b) => a.name.localeCompare(b.name)));
+      cancelEdit();
+    } catch (error) {
+      console.error('Error saving scan profile:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save scan profile",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeProfile = async (id: string) => {
+    try {
+      const { error } = await supabase.from('scan_profiles').delete().eq('id', id);
+      if (error) throw error;
+      setProfiles(prev => prev.filter(profile => profile.id !== id));
+      setDefaults(prev => prev.filter(entry => entry.profile_id !== id));
+      if (editingId === id) cancelEdit();
+    } catch (error) {
+      console.error('Error removing scan profile:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove scan profile",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const setDefault = async (assetType: AssetType, profileId: string) => {
+    if (!userId || !workspaceId) return;
+    try {
+      if (profileId === 'none') {
+        const { error } = await supabase
+          .from('scan_profile_defaults')
+          .delete()
+          .eq('user_id', userId)
+          .eq('workspace_id', workspaceId)
+          .eq('asset_type', assetType);
+        if (error) throw error;
+        setDefaults(prev => prev.filter(entry => entry.asset_type !== assetType));
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('scan_profile_defaults')
+        .upsert(
+          { user_id: userId, workspace_id: workspaceId, asset_type: assetType, profile_id: profileId },
+          { onConflict: 'user_id,workspace_id,asset_type' }
+        )
+        .select()
+        .single();
+      if (error) throw error;
+      setDefaults(prev => [...prev.filter(entry => entry.asset_type !== assetType), data]);
+    } catch (error) {
+      console.error('Error setting default scan profile:', error);
+      toast({
+        title: "Error",
+        description: "Failed to set default scan profile",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeProfile = (profile: ScanProfile) => {
+    const nmap = ((profile.tool_parameters ?? {}) as ToolParameters).nmap;
+    return [
+      profile.agent_ids.length === 0 ? 'all active agents' : `${profile.agent_ids.length} agents`,
+      profile.recon_services.join(', '),
+      nmap?.ports && `ports ${nmap.ports}`,
+      nmap?.timing !== undefined && `-T${nmap.timing}`,
+      `${profile.llm_model} @ ${profile.llm_temperature}`,
+    ].filter(Boolean).join(' · ');
+  };
+
+  if (!loading && !workspaceId) {
+    return (
+      <Card>
+        <CardContent className="pt-6 text-sm text-muted-foreground">
+          Select a workspace in the Team tab to manage scan profiles.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          Scan Profiles
+        </CardTitle>
+        <CardDescription>
+          Reusable scan configurations. Each scan records the profile it ran with, so it can be reproduced later.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div className="text-sm font-medium">Defaults per Asset Type</div>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+            {ASSET_TYPES.map(assetType => (
+              <div key={assetType} className="space-y-1">
+                <Label className="capitalize">{assetType}</Label>
+                <Select
+                  value={defaults.find(entry => entry.asset_type === assetType)?.profile_id ?? 'none'}
+                  onValueChange={(value) => setDefault(assetType, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No profile</SelectItem>
+                    {profiles.map(profile => (
+                      <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {profiles.length > 0 && (
+          <div className="space-y-2">
+            {profiles.map(profile => (
+              <div key={profile.id} className="flex items-start justify-between gap-3 p-3 border rounded">
+                <div className="space-y-1 min-w-0 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{profile.name}</span>
+                    <Badge variant="outline">{profile.visibility === 'personal' ? 'Personal' : 'Shared'}</Badge>
+                  </div>
+                  {profile.description && <p className="text-muted-foreground">{profile.description}</p>}
+                  <p className="text-xs text-muted-foreground">{describeProfile(profile)}</p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => editProfile(profile)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => removeProfile(profile.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="text-sm font-medium">{editingId ? 'Edit Profile' : 'New Profile'}</div>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_10rem] gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="profile-name">Name</Label>
+              <Input
+                id="profile-name"
+                placeholder="e.g. External perimeter"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-description">Description</Label>
+              <Input
+                id="profile-description"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Visibility</Label>
+              <Select value={form.visibility} onValueChange={(value) => setForm(prev => ({ ...prev, visibility: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="workspace">Shared</SelectItem>
+                  <SelectItem value="personal">Personal</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Agents ({form.agentIds.length === 0 ? 'all active agents' : `${form.agentIds.length} selected`})</Label>
+            <div className="flex flex-wrap gap-3">
+              {agents.map(agent => (
+                <div key={agent.id} className="flex items-center gap-1">
+                  <Checkbox
+                    id={`profile-agent-${agent.id}`}
+                    checked={form.agentIds.includes(agent.id)}
+                    onCheckedChange={() => setForm(prev => ({ ...prev, agentIds: toggle(prev.agentIds, agent.id) }))}
+                  />
+                  <Label htmlFor={`profile-agent-${agent.id}`} className="text-sm">{agent.name}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reconnaissance Services</Label>
+            <div className="flex flex-wrap gap-3">
+              {RECON_SERVICES.map(service => (
+                <div key={service.value} className="flex items-center gap-1">
+                  <Checkbox
+                    id={`profile-service-${service.value}`}
+                    checked={form.reconServices.includes(service.value)}
+                    onCheckedChange={() => setForm(prev => ({ ...prev, reconServices: toggle(prev.reconServices, service.value) }))}
+                  />
+                  <Label htmlFor={`profile-service-${service.value}`} className="text-sm">{service.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="profile-ports">Nmap Ports</Label>
+              <Input
+                id="profile-ports"
+                placeholder="All ports"
+                value={form.nmapPorts}
+                onChange={(e) => setForm(prev => ({ ...prev, nmapPorts: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Nmap Timing</Label>
+              <Select value={form.nmapTiming} onValueChange={(value) => setForm(prev => ({ ...prev, nmapTiming: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default</SelectItem>
+                  {NMAP_TIMINGS.map(timing => (
+                    <SelectItem key={timing} value={timing}>-T{timing}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-model">LLM Model</Label>
+              <Input
+                id="profile-model"
+                value={form.llmModel}
+                onChange={(e) => setForm(prev => ({ ...prev, llmModel: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-temperature">Temperature</Label>
+              <Input
+                id="profile-temperature"
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                value={form.llmTemperature}
+                onChange={(e) => setForm(prev => ({ ...prev, llmTemperature: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Risk Policy</Label>
+            <p className="text-xs text-muted-foreground">
+              A scan gets the first threat level whose count of high/critical vulnerabilities (or total vulnerabilities
+              for medium) or average risk score it reaches.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {(['critical', 'high', 'medium'] as const).map(level => {
+                const countField = level === 'medium' ? 'vulnerabilities' : 'high_severity';
+                const thresholds = form.riskPolicy[level] as Record<string, number>;
+                return (
+                  <div key={level} className="grid grid-cols-2 gap-2 p-2 border rounded">
+                    <div className="col-span-2 text-sm font-medium capitalize">{level}</div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">{level === 'medium' ? 'Vulnerabilities' : 'High/critical'} ≥</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={thresholds[countField]}
+                        onChange={(e) => setRiskThreshold(level, countField, e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Risk score ≥</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={10}
+                        step={0.5}
+                        value={thresholds.risk_score}
+                        onChange={(e) => setRiskThreshold(level, 'risk_score', e.target.value)}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button variant="outline" onClick={cancelEdit}>
+                Cancel
+              </Button>
+            )}
+            <Button onClick={saveProfile} disabled={loading}>
+              <Plus className="h-4 w-4 mr-2" />
+              {editingId ? 'Save Profile' : 'Add Profile'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,396 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { nextCronRun } from "@/lib/cron";
+import { CalendarClock, Plus, Trash2 } from "lucide-react";
+import type { Database, Tables } from "@/integrations/supabase/types";
+
+type ScanSchedule = Tables<'scan_schedules'>;
+type AssetType = Database["public"]["Enums"]["asset_type"];
+
+interface ScanScheduleManagerProps {
+  // On the Scan page new schedules reuse the target and agents chosen in the scan form
+  defaults?: {
+    target: string;
+    assetType: AssetType;
+    agentIds: string[];
+  };
+}
+
+const ASSET_TYPES: AssetType[] = ['domain', 'ip', 'url', 'hash', 'email'];
+
+// Matches scan_schedules_interval_minutes_check
+const MIN_INTERVAL_MINUTES = 15;
+
+const formatUtc = (date: Date) => `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+const describeFrequency = (schedule: ScanSchedule) => {
+  if (schedule.cron_expression) return `cron ${schedule.cron_expression} (UTC)`;
+  const minutes = schedule.interval_minutes ?? 0;
+  if (minutes % 1440 === 0) return `every ${minutes / 1440} day${minutes === 1440 ? '' : 's'}`;
+  if (minutes % 60 === 0) return `every ${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+  return `every ${minutes} minutes`;
+};
+
+export const ScanScheduleManager = ({ defaults }: ScanScheduleManagerProps) => {
+  const [schedules, setSchedules] = useState<ScanSchedule[]>([]);
+  const [agents, setAgents] = useState<Pick<Tables<'ai_agents'>, 'id' | 'name'>[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [target, setTarget] = useState('');
+  const [assetType, setAssetType] = useState<AssetType>('domain');
+  const [agentIds, setAgentIds] = useState<string[]>([]);
+  const [mode, setMode] = useState<'interval' | 'cron'>('interval');
+  const [intervalMinutes, setIntervalMinutes] = useState('1440');
+  const [cronExpression, setCronExpression] = useState('0 2 * * *');
+  const { toast } = useToast();
+
+  const fetchSchedules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [schedulesResult, agentsResult] = await Promise.all([
+        supabase.from('scan_schedules').select('*').order('next_run_at'),
+        supabase.from('ai_agents').select('id, name').eq('is_active', true).order('name'),
+      ]);
+      if (schedulesResult.error) throw schedulesResult.error;
+      if (agentsResult.error) throw agentsResult.error;
+
+      setSchedules(schedulesResult.data || []);
+      setAgents(agentsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching scan schedules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load scan schedules",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  // Next run of the schedule being created, or why its frequency is invalid
+  const preview = (() => {
+    if (mode === 'cron') {
+      try {
+        return { nextRunAt: nextCronRun(cronExpression, new Date()), error: null };
+      } catch (error) {
+        return { nextRunAt: null, error: error instanceof Error ? error.message : 'Invalid cron expression' };
+      }
+    }
+    const minutes = Number(intervalMinutes);
+    if (!Number.isInteger(minutes) || minutes < MIN_INTERVAL_MINUTES) {
+      return { nextRunAt: null, error: `The interval must be a whole number of at least ${MIN_INTERVAL_MINUTES} minutes` };
+    }
+    return { nextRunAt: new Date(Date.now() + minutes * 60 * 1000), error: null };
+  })();
+
+  const toggleAgent = (agentId: string) => {
+    setAgentIds(prev => prev.includes(agentId) ? prev.filter(id => id !== agentId) : [...prev, agentId]);
+  };
+
+  const addSchedule = async () => {
+    const scheduleTarget = (defaults?.target ?? target).trim();
+    if (!name.trim() || !scheduleTarget) {
+      toast({
+        title: "Invalid Schedule",
+        description: "Enter a name and a target",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!preview.nextRunAt) {
+      toast({
+        title: "Invalid Schedule",
+        description: preview.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('active_workspace_id')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (profileError) throw profileError;
+      if (!profile?.active_workspace_id) {
+        toast({
+          title: "No Workspace",
+          description: "Select a workspace in Settings before scheduling scans",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('scan_schedules')
+        .insert({
+          user_id: user.id,
+          workspace_id: profile.active_workspace_id,
+          name: name.trim(),
+          target: scheduleTarget,
+          asset_type: defaults?.assetType ?? assetType,
+          agent_ids: defaults?.agentIds ?? agentIds,
+          cron_expression: mode === 'cron' ? cronExpression.trim() : null,
+          interval_minutes: mode === 'interval' ? Number(intervalMinutes) : null,
+          next_run_at: preview.nextRunAt.toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setSchedules(prev => [...prev, data].sort((a, b) => a.next_run_at.localeCompare(b.next_run_at)));
+      setName('');
+      toast({
+        title: "Schedule Created",
+        description: `First run ${formatUtc(preview.nextRunAt)}`,
+      });
+    } catch (error) {
+      console.error('Error creating scan schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create scan schedule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleSchedule = async (schedule: ScanSchedule, isActive: boolean) => {
+    try {
+      // A resumed interval schedule starts counting again from now rather than catching up
+      const updates: Partial<ScanSchedule> = { is_active: isActive };
+      if (isActive) {
+        updates.next_run_at = schedule.cron_expression
+          ? nextCronRun(schedule.cron_expression, new Date()).toISOString()
+          : new Date(Date.now() + (schedule.interval_minutes ?? MIN_INTERVAL_MINUTES) * 60 * 1000).toISOString();
+      }
+
+      const { data, error } = await supabase
+        .from('scan_schedules')
+        .update(updates)
+        .eq('id', schedule.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      setSchedules(prev => prev.map(entry => entry.id === schedule.id ? data : entry));
+    } catch (error) {
+      console.error('Error updating scan schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update scan schedule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeSchedule = async (id: string) => {
+    try {
+      const { error } = await supabase.from('scan_schedules').delete().eq('id', id);
+      if (error) throw error;
+      setSchedules(prev => prev.filter(schedule => schedule.id !== id));
+    } catch (error) {
+      console.error('Error removing scan schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove scan schedule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const agentName = (agentId: string) => agents.find(agent => agent.id === agentId)?.name ?? 'Unknown agent';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Scheduled Scans
+        </CardTitle>
+        <CardDescription>
+          Recurring scans run automatically. Each run is compared with the previous one and you are
+          alerted about new high or critical findings and newly opened ports.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name">Name</Label>
+              <Input
+                id="schedule-name"
+                placeholder="e.g. Nightly perimeter scan"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            {defaults ? (
+              <div className="space-y-2">
+                <Label>Target</Label>
+                <p className="text-sm text-muted-foreground pt-2">
+                  {defaults.target.trim()
+                    ? `${defaults.target.trim()} (${defaults.assetType}) with ${defaults.agentIds.length || 'all'} agent${defaults.agentIds.length === 1 ? '' : 's'}, as configured above`
+                    : 'Enter a target in the scan form above'}
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-[1fr_8rem] gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-target">Target</Label>
+                  <Input
+                    id="schedule-target"
+                    placeholder="example.com"
+                    value={target}
+                    onChange={(e) => setTarget(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Asset Type</Label>
+                  <Select value={assetType} onValueChange={(value) => setAssetType(value as AssetType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ASSET_TYPES.map(type => (
+                        <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {!defaults && agents.length > 0 && (
+            <div className="space-y-2">
+              <Label>Agents ({agentIds.length === 0 ? 'all active agents' : `${agentIds.length} selected`})</Label>
+              <div className="flex flex-wrap gap-3">
+                {agents.map(agent => (
+                  <div key={agent.id} className="flex items-center gap-1">
+                    <Checkbox
+                      id={`schedule-agent-${agent.id}`}
+                      checked={agentIds.includes(agent.id)}
+                      onCheckedChange={() => toggleAgent(agent.id)}
+                    />
+                    <Label htmlFor={`schedule-agent-${agent.id}`} className="text-sm">{agent.name}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-[10rem_1fr_auto] gap-2 items-end">
+            <div className="space-y-2">
+              <Label>Frequency</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as 'interval' | 'cron')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="interval">Interval</SelectItem>
+                  <SelectItem value="cron">Cron expression</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {mode === 'interval' ? (
+              <div className="space-y-2">
+                <Label htmlFor="schedule-interval">Every (minutes)</Label>
+                <Input
+                  id="schedule-interval"
+                  type="number"
+                  min={MIN_INTERVAL_MINUTES}
+                  value={intervalMinutes}
+                  onChange={(e) => setIntervalMinutes(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="schedule-cron">Cron (minute hour day month weekday, UTC)</Label>
+                <Input
+                  id="schedule-cron"
+                  className="font-mono"
+                  value={cronExpression}
+                  onChange={(e) => setCronExpression(e.target.value)}
+                />
+              </div>
+            )}
+            <Button onClick={addSchedule} disabled={loading || !preview.nextRunAt}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Schedule
+            </Button>
+          </div>
+          <p className={`text-xs ${preview.error ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {preview.nextRunAt ? `First run ${formatUtc(preview.nextRunAt)}` : preview.error}
+          </p>
+        </div>
+
+        {schedules.length > 0 && (
+          <div className="space-y-2">
+            {schedules.map(schedule => (
+              <div key={schedule.id} className="flex items-start justify-between gap-3 p-3 border rounded">
+                <div className="space-y-1 min-w-0 text-sm">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium">{schedule.name}</span>
+                    <Badge variant="outline">{schedule.target}</Badge>
+                    <Badge variant="secondary" className="capitalize">{schedule.asset_type}</Badge>
+                  </div>
+                  <p className="text-muted-foreground">
+                    {describeFrequency(schedule)}
+                    {' · '}
+                    {schedule.agent_ids.length === 0
+                      ? 'all active agents'
+                      : schedule.agent_ids.map(agentName).join(', ')}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {schedule.is_active ? `Next run ${formatUtc(new Date(schedule.next_run_at))}` : 'Paused'}
+                    {schedule.last_run_at && ` · Last run ${formatUtc(new Date(schedule.last_run_at))}`}
+                    {schedule.last_scan_id && (
+                      <>
+                        {' · '}
+                        <Link to={`/scan-details/${schedule.last_scan_id}`} className="underline">
+                          View last scan
+                        </Link>
+                      </>
+                    )}
+                  </p>
+                  {schedule.last_error && (
+                    <p className="text-xs text-destructive break-words">{schedule.last_error}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={schedule.is_active}
+                    onCheckedChange={(checked) => toggleSchedule(schedule, checked)}
+                    aria-label={schedule.is_active ? 'Pause schedule' : 'Resume schedule'}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => removeSchedule(schedule.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
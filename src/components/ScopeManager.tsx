@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Crosshair, Plus, Trash2, Ban, CheckCircle } from "lucide-react";
+import type { Tables, Enums } from "@/integrations/supabase/types";
+
+type ScopeRule = Tables<'scope_rules'>;
+type ScopeRuleType = Enums<'scope_rule_type'>;
+
+interface ScopeManagerProps {
+  // When omitted the component edits the workspace-level scope
+  campaignId?: string | null;
+}
+
+const RULE_PLACEHOLDERS: Record<ScopeRuleType, string> = {
+  cidr: '10.0.0.0/24 or 203.0.113.7',
+  domain: 'example.com or *.example.com',
+  url_prefix: 'https://app.example.com/api',
+};
+
+const RULE_LABELS: Record<ScopeRuleType, string> = {
+  cidr: 'CIDR',
+  domain: 'Domain',
+  url_prefix: 'URL prefix',
+};
+
+const validateRule = (type: ScopeRuleType, value: string): string | null => {
+  switch (type) {
+    case 'cidr':
+      return /^[0-9a-fA-F:.]+(\/\d{1,3})?$/.test(value) ? null : 'Enter an IP address or CIDR range';
+    case 'domain':
+      return /^(\*\.)?[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?)+$/.test(value)
+        ? null
+        : 'Enter a domain, optionally prefixed with *. for subdomains';
+    case 'url_prefix':
+      try { new URL(value); return null; } catch { return 'Enter an absolute URL including the scheme'; }
+  }
+};
+
+// The signed-in user's active workspace
+const fetchActiveWorkspaceId = async (): Promise<string | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('active_workspace_id')
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.active_workspace_id ?? null;
+};
+
+export const ScopeManager = ({ campaignId = null }: ScopeManagerProps) => {
+  const [scopeId, setScopeId] = useState<string | null>(null);
+  const [rules, setRules] = useState<ScopeRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [ruleType, setRuleType] = useState<ScopeRuleType>('domain');
+  const [ruleValue, setRuleValue] = useState('');
+  const [isExclusion, setIsExclusion] = useState(false);
+  const { toast } = useToast();
+
+  const fetchScope = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('engagement_scopes')
+        .select('id, scope_rules(*)')
+        .eq('is_active', true);
+      if (campaignId) {
+        query = query.eq('campaign_id', campaignId);
+      } else {
+        // The active workspace's scope; new scopes land there too
+        const workspaceId = await fetchActiveWorkspaceId();
+        if (!workspaceId) return;
+        query = query.eq('workspace_id', workspaceId).is('campaign_id', null);
+      }
+
+      const { data, error } = await query.maybeSingle();
+      if (error) throw error;
+
+      setScopeId(data?.id ?? null);
+      setRules(data?.scope_rules ?? []);
+    } catch (error) {
+      console.error('Error fetching engagement scope:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load engagement scope",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [campaignId, toast]);
+
+  useEffect(() => {
+    fetchScope();
+  }, [fetchScope]);
+
+  const ensureScope = async (): Promise<string> => {
+    if (scopeId) return scopeId;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('engagement_scopes')
+      .insert({
+        user_id: user.id,
+        campaign_id: campaignId,
+        name: campaignId ? 'Campaign scope' : 'Workspace scope',
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    setScopeId(data.id);
+    return data.id;
+  };
+
+  const addRule = async () => {
+    const value = ruleValue.trim();
+    const validationError = validateRule(ruleType, value);
+    if (validationError) {
+      toast({
+        title: "Invalid Rule",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const id = await ensureScope();
+      const { data, error } = await supabase
+        .from('scope_rules')
+        .insert({ scope_id: id, rule_type: ruleType, value, is_exclusion: isExclusion })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setRules(prev => [...prev, data]);
+      setRuleValue('');
+    } catch (error) {
+      console.error('Error adding scope rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add scope rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeRule = async (ruleId: string) => {
+    try {
+      const { error } = await supabase.from('scope_rules').delete().eq('id', ruleId);
+      if (error) throw error;
+      setRules(prev => prev.filter(rule => rule.id !== ruleId));
+    } catch (error) {
+      console.error('Error removing scope rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove scope rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const allowed = rules.filter(rule => !rule.is_exclusion);
+  const excluded = rules.filter(rule => rule.is_exclusion);
+
+  const renderRule = (rule: ScopeRule) => (
+    <div key={rule.id} className="flex items-center justify-between p-2 border rounded">
+      <div className="flex items-center gap-2">
+        <Badge variant="outline">{RULE_LABELS[rule.rule_type]}</Badge>
+        <code className="text-sm">{rule.value}</code>
+      </div>
+      <Button variant="ghost" size="sm" onClick={() => removeRule(rule.id)}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Crosshair className="h-5 w-5" />
+          {campaignId ? 'Campaign Scope' : 'Workspace Scope'}
+        </CardTitle>
+        <CardDescription>
+          {campaignId
+            ? 'Targets this campaign is authorized to test. Campaigns without rules use the workspace scope.'
+            : 'Default authorization for scans and tools that are not tied to a campaign.'}
+          {' '}Out-of-scope targets are rejected by the server.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-[10rem_1fr_auto_auto] gap-2 items-end">
+          <div className="space-y-2">
+            <Label>Rule Type</Label>
+            <Select value={ruleType} onValueChange={(value) => setRuleType(value as ScopeRuleType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cidr">CIDR</SelectItem>
+                <SelectItem value="domain">Domain</SelectItem>
+                <SelectItem value="url_prefix">URL prefix</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="scope-rule-value">Value</Label>
+            <Input
+              id="scope-rule-value"
+              value={ruleValue}
+              placeholder={RULE_PLACEHOLDERS[ruleType]}
+              onChange={(e) => setRuleValue(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addRule()}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch id="scope-rule-exclusion" checked={isExclusion} onCheckedChange={setIsExclusion} />
+            <Label htmlFor="scope-rule-exclusion">Exclude</Label>
+          </div>
+          <Button onClick={addRule} disabled={loading || !ruleValue.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading scope...</p>
+        ) : rules.length === 0 ? (
+          <div className="text-center p-4 bg-muted/50 rounded-lg">
+            <p className="text-sm text-muted-foreground">
+              No scope rules defined. All target-touching actions will be rejected until a scope is added.
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <CheckCircle className="h-4 w-4 text-green-500" />
+                In Scope ({allowed.length})
+              </div>
+              {allowed.map(renderRule)}
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <Ban className="h-4 w-4 text-red-500" />
+                Exclusions ({excluded.length})
+              </div>
+              {excluded.map(renderRule)}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
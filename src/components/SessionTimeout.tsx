@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
+// Signs the user out after the inactivity period set in their settings
+export const SessionTimeout = () => {
+  const [timeoutMinutes, setTimeoutMinutes] = useState<number | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadTimeout = async (userId: string | undefined) => {
+      if (!userId) {
+        setTimeoutMinutes(null);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('user_settings')
+        .select('session_timeout_minutes')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading session timeout:', error);
+        return;
+      }
+      setTimeoutMinutes(data?.session_timeout_minutes ?? 30);
+    };
+
+    supabase.auth.getUser().then(({ data: { user } }) => loadTimeout(user?.id));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      loadTimeout(session?.user.id);
+    });
+
+    // Pick up changes saved on the Settings page
+    const channel = supabase
+      .channel('user-settings')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'user_settings' }, (payload) => {
+        const row = payload.new as { session_timeout_minutes?: number };
+        if (row.session_timeout_minutes) setTimeoutMinutes(row.session_timeout_minutes);
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!timeoutMinutes) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const expire = async () => {
+      await supabase.auth.signOut();
+      toast({
+        title: "Session Expired",
+        description: `You were signed out after ${timeoutMinutes} minutes of inactivity`,
+      });
+      navigate('/auth');
+    };
+    const reset = () => {
+      clearTimeout(timer);
+      timer = setTimeout(expire, timeoutMinutes * 60 * 1000);
+    };
+
+    reset();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, reset, { passive: true }));
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, reset));
+    };
+  }, [timeoutMinutes, navigate, toast]);
+
+  return null;
+};
@@ -0,0 +1,459 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Mail, Plus, Trash2, Users } from "lucide-react";
+import type { Database, Tables } from "@/integrations/supabase/types";
+
+type Workspace = Tables<'workspaces'>;
+type WorkspaceMember = Tables<'workspace_members'>;
+type WorkspaceInvitation = Tables<'workspace_invitations'>;
+type WorkspaceRole = Database["public"]["Enums"]["workspace_role"];
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  lead: 'Lead',
+  operator: 'Operator',
+  analyst: 'Analyst',
+  client: 'Client (read-only)',
+};
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: 'Manages members and everything in the workspace',
+  lead: 'Creates campaigns, invites members and approves attack paths',
+  operator: 'Runs scans, tools and attack paths',
+  analyst: 'Works with threat intelligence, MITRE mappings and reports',
+  client: 'Views results without changing anything',
+};
+
+const INVITABLE_ROLES: WorkspaceRole[] = ['lead', 'operator', 'analyst', 'client'];
+
+export const WorkspaceManager = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [userEmail, setUserEmail] = useState<string | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('operator');
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchWorkspaces = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+      setUserEmail(user.email?.toLowerCase() ?? null);
+
+      const [profileResult, workspacesResult] = await Promise.all([
+        supabase.from('profiles').select('active_workspace_id').eq('user_id', user.id).maybeSingle(),
+        supabase.from('workspaces').select('*').order('name'),
+      ]);
+      if (profileResult.error) throw profileResult.error;
+      if (workspacesResult.error) throw workspacesResult.error;
+
+      const workspaceId = profileResult.data?.active_workspace_id ?? null;
+      setWorkspaces(workspacesResult.data || []);
+      setActiveWorkspaceId(workspaceId);
+
+      // Invitations the user can see: the active workspace's (for owners and leads) and their own
+      const [membersResult, invitationsResult] = await Promise.all([
+        workspaceId
+          ? supabase.from('workspace_members').select('*').eq('workspace_id', workspaceId).order('created_at')
+          : Promise.resolve({ data: [], error: null }),
+        supabase
+          .from('workspace_invitations')
+          .select('*')
+          .is('accepted_at', null)
+          .is('revoked_at', null)
+          .gt('expires_at', new Date().toISOString())
+          .order('created_at', { ascending: false }),
+      ]);
+      if (membersResult.error) throw membersResult.error;
+      if (invitationsResult.error) throw invitationsResult.error;
+
+      setMembers(membersResult.data || []);
+      setInvitations(invitationsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching workspaces:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load workspaces",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchWorkspaces();
+  }, [fetchWorkspaces]);
+
+  const myRole = members.find(member => member.user_id === userId)?.role ?? null;
+  const isOwner = myRole === 'owner';
+  const canInvite = myRole === 'owner' || myRole === 'lead';
+  const activeWorkspace = workspaces.find(workspace => workspace.id === activeWorkspaceId);
+  const myInvitations = invitations.filter(invitation => invitation.email === userEmail);
+  const workspaceInvitations = invitations.filter(
+    invitation => invitation.workspace_id === activeWorkspaceId && invitation.email !== userEmail
+  );
+  const memberships = workspaces.filter(workspace => !myInvitations.some(invitation => invitation.workspace_id === workspace.id));
+
+  const switchWorkspace = async (workspaceId: string) => {
+    if (!userId) return;
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ active_workspace_id: workspaceId })
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      await fetchWorkspaces();
+      toast({
+        title: "Workspace Switched",
+        description: `New scans and campaigns go to ${workspaces.find(workspace => workspace.id === workspaceId)?.name}`,
+      });
+    } catch (error) {
+      console.error('Error switching workspace:', error);
+      toast({
+        title: "Error",
+        description: "Failed to switch workspace",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const createWorkspace = async () => {
+    if (!newWorkspaceName.trim()) return;
+    try {
+      const { error } = await supabase.rpc('create_workspace', { _name: newWorkspaceName.trim() });
+      if (error) throw error;
+
+      setNewWorkspaceName('');
+      await fetchWorkspaces();
+      toast({
+        title: "Workspace Created",
+        description: "You are its owner and it is now your active workspace",
+      });
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create workspace",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const changeRole = async (member: WorkspaceMember, role: WorkspaceRole) => {
+    try {
+      const { error } = await supabase
+        .from('workspace_members')
+        .update({ role })
+        .eq('id', member.id);
+
+      if (error) throw error;
+      setMembers(prev => prev.map(entry => (entry.id === member.id ? { ...entry, role } : entry)));
+    } catch (error) {
+      console.error('Error changing member role:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeMember = async (member: WorkspaceMember) => {
+    try {
+      const { error } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+      if (member.user_id === userId) {
+        await fetchWorkspaces();
+      } else {
+        setMembers(prev => prev.filter(entry => entry.id !== member.id));
+      }
+    } catch (error) {
+      console.error('Error removing member:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove member",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const invite = async () => {
+    const email = inviteEmail.trim().toLowerCase();
+    if (!userId || !activeWorkspaceId || !/^[^\s@]+@[^\s@]+$/.test(email)) {
+      toast({
+        title: "Invalid Email",
+        description: "Enter the email address the member signs in with",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('workspace_invitations')
+        .insert({
+          workspace_id: activeWorkspaceId,
+          email,
+          role: inviteRole,
+          invited_by: userId,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setInvitations(prev => [data, ...prev]);
+      setInviteEmail('');
+      toast({
+        title: "Invitation Created",
+        description: `${email} can accept it from their Team settings within 7 days`,
+      });
+    } catch (error) {
+      console.error('Error inviting member:', error);
+      toast({
+        title: "Error",
+        description: "Failed to invite member. Only owners can invite leads, and an email can only have one open invitation.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const revokeInvitation = async (invitation: WorkspaceInvitation) => {
+    try {
+      const { error } = await supabase.rpc('revoke_workspace_invitation', { _invitation_id: invitation.id });
+
+      if (error) throw error;
+      setInvitations(prev => prev.filter(entry => entry.id !== invitation.id));
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke invitation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const acceptInvitation = async (invitation: WorkspaceInvitation) => {
+    try {
+      const { error } = await supabase.rpc('accept_workspace_invitation', { _invitation_id: invitation.id });
+      if (error) throw error;
+
+      await fetchWorkspaces();
+      toast({
+        title: "Invitation Accepted",
+        description: `You joined as ${ROLE_LABELS[invitation.role]}`,
+      });
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to accept invitation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const workspaceName = (workspaceId: string) =>
+    workspaces.find(workspace => workspace.id === workspaceId)?.name ?? 'a workspace';
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading workspaces...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {myInvitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Invitations for You
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {myInvitations.map(invitation => (
+              <div key={invitation.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div>
+                  <p className="font-medium">{workspaceName(invitation.workspace_id)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    As {ROLE_LABELS[invitation.role]} · expires {new Date(invitation.expires_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button size="sm" onClick={() => acceptInvitation(invitation)}>Accept</Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Workspace
+          </CardTitle>
+          <CardDescription>
+            Scans, campaigns, attack paths and reports belong to a workspace and are shared with its members.
+            New work is created in your active workspace.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Active Workspace</Label>
+            <Select value={activeWorkspaceId ?? undefined} onValueChange={switchWorkspace}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a workspace" />
+              </SelectTrigger>
+              <SelectContent>
+                {memberships.map(workspace => (
+                  <SelectItem key={workspace.id} value={workspace.id}>{workspace.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {myRole && (
+              <p className="text-sm text-muted-foreground">
+                Your role in {activeWorkspace?.name}: {ROLE_LABELS[myRole]} — {ROLE_DESCRIPTIONS[myRole]}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="new-workspace">New Workspace</Label>
+            <div className="flex gap-2">
+              <Input
+                id="new-workspace"
+                value={newWorkspaceName}
+                onChange={(e) => setNewWorkspaceName(e.target.value)}
+                placeholder="Client or engagement name"
+              />
+              <Button variant="outline" onClick={createWorkspace} disabled={!newWorkspaceName.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {activeWorkspace && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Members</CardTitle>
+            <CardDescription>{members.length} member{members.length === 1 ? '' : 's'} of {activeWorkspace.name}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {members.map(member => (
+              <div key={member.id} className="flex items-center justify-between gap-2 border rounded-lg p-3">
+                <div>
+                  <p className="font-medium">
+                    {member.member_name || 'Unnamed member'}
+                    {member.user_id === userId && <span className="text-muted-foreground"> (you)</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">Joined {new Date(member.created_at).toLocaleDateString()}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {isOwner && member.user_id !== userId ? (
+                    <Select value={member.role} onValueChange={(role) => changeRole(member, role as WorkspaceRole)}>
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ROLE_LABELS) as WorkspaceRole[]).map(role => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="outline">{ROLE_LABELS[member.role]}</Badge>
+                  )}
+                  {(isOwner || member.user_id === userId) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeMember(member)}
+                      title={member.user_id === userId ? 'Leave workspace' : 'Remove member'}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {activeWorkspace && canInvite && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invite Members</CardTitle>
+            <CardDescription>
+              Invitations are accepted from the Team settings of the account with that email and expire after 7 days.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col md:flex-row gap-2">
+              <Input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="colleague@example.com"
+              />
+              <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as WorkspaceRole)}>
+                <SelectTrigger className="md:w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVITABLE_ROLES.filter(role => isOwner || role !== 'lead').map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={invite}>
+                <Mail className="h-4 w-4 mr-2" />
+                Invite
+              </Button>
+            </div>
+
+            {workspaceInvitations.length > 0 && (
+              <div className="space-y-2">
+                <Label>Pending Invitations</Label>
+                {workspaceInvitations.map(invitation => (
+                  <div key={invitation.id} className="flex items-center justify-between border rounded-lg p-3">
+                    <div>
+                      <p className="text-sm font-medium">{invitation.email}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {ROLE_LABELS[invitation.role]} · expires {new Date(invitation.expires_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => revokeInvitation(invitation)}>Revoke</Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
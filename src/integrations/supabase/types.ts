@@ -17,6 +17,7 @@ export type Database = {
       agent_executions: {
         Row: {
           agent_id: string
+          attempts: Json
           completed_at: string | null
           created_at: string
           error_message: string | null
@@ -24,12 +25,16 @@ export type Database = {
           id: string
           input_data: Json
           output_data: Json | null
+          output_validation: Json | null
+          prompt_experiment_id: string | null
+          prompt_version_id: string | null
           scan_id: string
           status: Database["public"]["Enums"]["scan_status"] | null
           user_id: string
         }
         Insert: {
           agent_id: string
+          attempts?: Json
           completed_at?: string | null
           created_at?: string
           error_message?: string | null
@@ -37,12 +42,16 @@ export type Database = {
           id?: string
           input_data: Json
           output_data?: Json | null
+          output_validation?: Json | null
+          prompt_experiment_id?: string | null
+          prompt_version_id?: string | null
           scan_id: string
           status?: Database["public"]["Enums"]["scan_status"] | null
           user_id: string
         }
         Update: {
           agent_id?: string
+          attempts?: Json
           completed_at?: string | null
           created_at?: string
           error_message?: string | null
@@ -50,6 +59,9 @@ export type Database = {
           id?: string
           input_data?: Json
           output_data?: Json | null
+          output_validation?: Json | null
+          prompt_experiment_id?: string | null
+          prompt_version_id?: string | null
           scan_id?: string
           status?: Database["public"]["Enums"]["scan_status"] | null
           user_id?: string
@@ -62,6 +74,20 @@ export type Database = {
             referencedRelation: "ai_agents"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "agent_executions_prompt_experiment_id_fkey"
+            columns: ["prompt_experiment_id"]
+            isOneToOne: false
+            referencedRelation: "agent_prompt_experiments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_executions_prompt_version_id_fkey"
+            columns: ["prompt_version_id"]
+            isOneToOne: false
+            referencedRelation: "agent_prompt_versions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "agent_executions_scan_id_fkey"
             columns: ["scan_id"]
@@ -71,6 +97,131 @@ export type Database = {
           },
         ]
       }
+      agent_prompt_experiments: {
+        Row: {
+          agent_id: string
+          created_at: string
+          id: string
+          started_at: string
+          status: string
+          stopped_at: string | null
+          traffic_b: number
+          updated_at: string
+          user_id: string
+          version_a_id: string
+          version_b_id: string
+          workspace_id: string
+        }
+        Insert: {
+          agent_id: string
+          created_at?: string
+          id?: string
+          started_at?: string
+          status?: string
+          stopped_at?: string | null
+          traffic_b?: number
+          updated_at?: string
+          user_id: string
+          version_a_id: string
+          version_b_id: string
+          workspace_id: string
+        }
+        Update: {
+          agent_id?: string
+          created_at?: string
+          id?: string
+          started_at?: string
+          status?: string
+          stopped_at?: string | null
+          traffic_b?: number
+          updated_at?: string
+          user_id?: string
+          version_a_id?: string
+          version_b_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_prompt_experiments_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "ai_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_prompt_experiments_version_a_id_fkey"
+            columns: ["version_a_id"]
+            isOneToOne: false
+            referencedRelation: "agent_prompt_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_prompt_experiments_version_b_id_fkey"
+            columns: ["version_b_id"]
+            isOneToOne: false
+            referencedRelation: "agent_prompt_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_prompt_experiments_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      agent_prompt_versions: {
+        Row: {
+          agent_id: string
+          change_note: string
+          created_at: string
+          id: string
+          is_current: boolean
+          template: string
+          user_id: string | null
+          version: number
+          workspace_id: string
+        }
+        Insert: {
+          agent_id: string
+          change_note: string
+          created_at?: string
+          id?: string
+          is_current?: boolean
+          template: string
+          user_id?: string | null
+          version: number
+          workspace_id: string
+        }
+        Update: {
+          agent_id?: string
+          change_note?: string
+          created_at?: string
+          id?: string
+          is_current?: boolean
+          template?: string
+          user_id?: string | null
+          version?: number
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_prompt_versions_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "ai_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_prompt_versions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ai_agents: {
         Row: {
           agent_type: Database["public"]["Enums"]["agent_type"]
@@ -139,10 +290,14 @@ export type Database = {
       }
       apt_campaigns: {
         Row: {
+          approval_risk_threshold: string
           created_at: string
           description: string | null
           end_date: string | null
           id: string
+          legal_hold: boolean
+          legal_hold_reason: string | null
+          legal_hold_set_at: string | null
           name: string
           objectives: string[] | null
           scope_definition: string | null
@@ -151,12 +306,17 @@ export type Database = {
           target_organization: string | null
           updated_at: string
           user_id: string
+          workspace_id: string
         }
         Insert: {
+          approval_risk_threshold?: string
           created_at?: string
           description?: string | null
           end_date?: string | null
           id?: string
+          legal_hold?: boolean
+          legal_hold_reason?: string | null
+          legal_hold_set_at?: string | null
           name: string
           objectives?: string[] | null
           scope_definition?: string | null
@@ -165,12 +325,17 @@ export type Database = {
           target_organization?: string | null
           updated_at?: string
           user_id: string
+          workspace_id?: string
         }
         Update: {
+          approval_risk_threshold?: string
           created_at?: string
           description?: string | null
           end_date?: string | null
           id?: string
+          legal_hold?: boolean
+          legal_hold_reason?: string | null
+          legal_hold_set_at?: string | null
           name?: string
           objectives?: string[] | null
           scope_definition?: string | null
@@ -179,11 +344,173 @@ export type Database = {
           target_organization?: string | null
           updated_at?: string
           user_id?: string
+          workspace_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "apt_campaigns_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      asset_services: {
+        Row: {
+          asset_id: string
+          banner: string | null
+          first_seen: string
+          id: string
+          last_scan_id: string | null
+          last_seen: string
+          port: number
+          product: string | null
+          protocol: string
+          user_id: string
+          version: string | null
+        }
+        Insert: {
+          asset_id: string
+          banner?: string | null
+          first_seen?: string
+          id?: string
+          last_scan_id?: string | null
+          last_seen?: string
+          port: number
+          product?: string | null
+          protocol?: string
+          user_id: string
+          version?: string | null
+        }
+        Update: {
+          asset_id?: string
+          banner?: string | null
+          first_seen?: string
+          id?: string
+          last_scan_id?: string | null
+          last_seen?: string
+          port?: number
+          product?: string | null
+          protocol?: string
+          user_id?: string
+          version?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "asset_services_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "asset_services_last_scan_id_fkey"
+            columns: ["last_scan_id"]
+            isOneToOne: false
+            referencedRelation: "scans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assets: {
+        Row: {
+          asset_type: Database["public"]["Enums"]["asset_type"]
+          created_at: string
+          first_seen: string
+          hostnames: string[]
+          id: string
+          ip_addresses: string[]
+          last_scan_id: string | null
+          last_seen: string
+          user_id: string
+          value: string
+          workspace_id: string
+        }
+        Insert: {
+          asset_type: Database["public"]["Enums"]["asset_type"]
+          created_at?: string
+          first_seen?: string
+          hostnames?: string[]
+          id?: string
+          ip_addresses?: string[]
+          last_scan_id?: string | null
+          last_seen?: string
+          user_id: string
+          value: string
+          workspace_id?: string
+        }
+        Update: {
+          asset_type?: Database["public"]["Enums"]["asset_type"]
+          created_at?: string
+          first_seen?: string
+          hostnames?: string[]
+          id?: string
+          ip_addresses?: string[]
+          last_scan_id?: string | null
+          last_seen?: string
+          user_id?: string
+          value?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assets_last_scan_id_fkey"
+            columns: ["last_scan_id"]
+            isOneToOne: false
+            referencedRelation: "scans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assets_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attack_path_approvals: {
+        Row: {
+          approver_id: string
+          approver_name: string | null
+          attack_path_id: string
+          comment: string
+          created_at: string
+          decision: string
+          id: string
+        }
+        Insert: {
+          approver_id: string
+          approver_name?: string | null
+          attack_path_id: string
+          comment: string
+          created_at?: string
+          decision: string
+          id?: string
+        }
+        Update: {
+          approver_id?: string
+          approver_name?: string | null
+          attack_path_id?: string
+          comment?: string
+          created_at?: string
+          decision?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attack_path_approvals_attack_path_id_fkey"
+            columns: ["attack_path_id"]
+            isOneToOne: false
+            referencedRelation: "attack_paths"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       attack_paths: {
         Row: {
+          approval_requested_at: string | null
           campaign_id: string
           completed_at: string | null
           created_at: string
@@ -198,11 +525,14 @@ export type Database = {
           prerequisites: string[] | null
           risk_level: string | null
           status: string | null
+          target: string | null
           technique_name: string | null
           tools_required: string[] | null
           user_id: string
+          workspace_id: string
         }
         Insert: {
+          approval_requested_at?: string | null
           campaign_id: string
           completed_at?: string | null
           created_at?: string
@@ -217,11 +547,14 @@ export type Database = {
           prerequisites?: string[] | null
           risk_level?: string | null
           status?: string | null
+          target?: string | null
           technique_name?: string | null
           tools_required?: string[] | null
           user_id: string
+          workspace_id?: string
         }
         Update: {
+          approval_requested_at?: string | null
           campaign_id?: string
           completed_at?: string | null
           created_at?: string
@@ -236,12 +569,142 @@ export type Database = {
           prerequisites?: string[] | null
           risk_level?: string | null
           status?: string | null
+          target?: string | null
           technique_name?: string | null
           tools_required?: string[] | null
           user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attack_paths_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_chain_heads: {
+        Row: {
+          chain: string
+          hash: string
+          sequence: number
+          updated_at: string
+        }
+        Insert: {
+          chain: string
+          hash: string
+          sequence: number
+          updated_at?: string
+        }
+        Update: {
+          chain?: string
+          hash?: string
+          sequence?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      audit_events: {
+        Row: {
+          action: string
+          created_at: string
+          function_name: string
+          hash: string
+          id: string
+          parameters: Json
+          prev_hash: string | null
+          result_detail: string | null
+          result_status: string
+          sequence: number
+          status_code: number | null
+          target: string | null
+          user_id: string | null
+          workspace_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          function_name: string
+          hash: string
+          id?: string
+          parameters?: Json
+          prev_hash?: string | null
+          result_detail?: string | null
+          result_status: string
+          sequence: number
+          status_code?: number | null
+          target?: string | null
+          user_id?: string | null
+          workspace_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          function_name?: string
+          hash?: string
+          id?: string
+          parameters?: Json
+          prev_hash?: string | null
+          result_detail?: string | null
+          result_status?: string
+          sequence?: number
+          status_code?: number | null
+          target?: string | null
+          user_id?: string | null
+          workspace_id?: string | null
         }
         Relationships: []
       }
+      blackout_periods: {
+        Row: {
+          campaign_id: string | null
+          created_at: string
+          ends_at: string
+          id: string
+          reason: string | null
+          starts_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          campaign_id?: string | null
+          created_at?: string
+          ends_at: string
+          id?: string
+          reason?: string | null
+          starts_at: string
+          user_id: string
+          workspace_id?: string
+        }
+        Update: {
+          campaign_id?: string | null
+          created_at?: string
+          ends_at?: string
+          id?: string
+          reason?: string | null
+          starts_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blackout_periods_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "apt_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blackout_periods_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       demo_targets: {
         Row: {
           category: string
@@ -305,50 +768,584 @@ export type Database = {
         }
         Relationships: []
       }
-      mitre_mappings: {
+      emergency_stops: {
         Row: {
-          automated: boolean | null
-          confidence_score: number | null
-          created_at: string
+          campaign_id: string | null
+          cancelled_counts: Json
+          cleared_at: string | null
+          cleared_by: string | null
           id: string
-          mitre_tactic: string
-          mitre_technique: string
-          reasoning: string | null
-          scan_id: string
-          technique_name: string
+          reason: string
+          triggered_at: string
           user_id: string
-          vulnerability_cve: string | null
         }
         Insert: {
-          automated?: boolean | null
-          confidence_score?: number | null
-          created_at?: string
+          campaign_id?: string | null
+          cancelled_counts?: Json
+          cleared_at?: string | null
+          cleared_by?: string | null
           id?: string
-          mitre_tactic: string
-          mitre_technique: string
-          reasoning?: string | null
-          scan_id: string
-          technique_name: string
+          reason: string
+          triggered_at?: string
           user_id: string
-          vulnerability_cve?: string | null
         }
         Update: {
-          automated?: boolean | null
-          confidence_score?: number | null
-          created_at?: string
+          campaign_id?: string | null
+          cancelled_counts?: Json
+          cleared_at?: string | null
+          cleared_by?: string | null
           id?: string
-          mitre_tactic?: string
-          mitre_technique?: string
-          reasoning?: string | null
-          scan_id?: string
-          technique_name?: string
+          reason?: string
+          triggered_at?: string
           user_id?: string
-          vulnerability_cve?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "emergency_stops_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "apt_campaigns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      engagement_scopes: {
+        Row: {
+          campaign_id: string | null
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          campaign_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+          user_id: string
+          workspace_id?: string
+        }
+        Update: {
+          campaign_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "engagement_scopes_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "apt_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "engagement_scopes_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      engagement_windows: {
+        Row: {
+          allowed_days: number[]
+          campaign_id: string | null
+          created_at: string
+          end_time: string
+          id: string
+          is_active: boolean
+          start_time: string
+          timezone: string
+          updated_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          allowed_days?: number[]
+          campaign_id?: string | null
+          created_at?: string
+          end_time?: string
+          id?: string
+          is_active?: boolean
+          start_time?: string
+          timezone?: string
+          updated_at?: string
+          user_id: string
+          workspace_id?: string
+        }
+        Update: {
+          allowed_days?: number[]
+          campaign_id?: string | null
+          created_at?: string
+          end_time?: string
+          id?: string
+          is_active?: boolean
+          start_time?: string
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "engagement_windows_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "apt_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "engagement_windows_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      external_call_fixtures: {
+        Row: {
+          fixture_set: string
+          id: string
+          method: string
+          recorded_at: string
+          request_body: string | null
+          request_hash: string
+          response_body: string
+          response_headers: Json
+          response_status: number
+          service: string
+          url: string
+        }
+        Insert: {
+          fixture_set?: string
+          id?: string
+          method: string
+          recorded_at?: string
+          request_body?: string | null
+          request_hash: string
+          response_body: string
+          response_headers?: Json
+          response_status: number
+          service: string
+          url: string
+        }
+        Update: {
+          fixture_set?: string
+          id?: string
+          method?: string
+          recorded_at?: string
+          request_body?: string | null
+          request_hash?: string
+          response_body?: string
+          response_headers?: Json
+          response_status?: number
+          service?: string
+          url?: string
         }
         Relationships: []
       }
+      finding_status_history: {
+        Row: {
+          actor_id: string | null
+          actor_name: string | null
+          comment: string
+          created_at: string
+          finding_id: string
+          from_status: string
+          id: string
+          to_status: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_name?: string | null
+          comment: string
+          created_at?: string
+          finding_id: string
+          from_status: string
+          id?: string
+          to_status: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_name?: string | null
+          comment?: string
+          created_at?: string
+          finding_id?: string
+          from_status?: string
+          id?: string
+          to_status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "finding_status_history_finding_id_fkey"
+            columns: ["finding_id"]
+            isOneToOne: false
+            referencedRelation: "findings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      findings: {
+        Row: {
+          agent_id: string | null
+          asset_id: string
+          carried_over_from: string | null
+          confidence: number | null
+          created_at: string
+          cve: string | null
+          cvss_score: number | null
+          cwe: string | null
+          description: string | null
+          exploitability: string | null
+          fingerprint: string | null
+          id: string
+          mitigation: string | null
+          name: string
+          port: number | null
+          raw: Json
+          scan_id: string
+          service: string | null
+          severity: Database["public"]["Enums"]["threat_level"]
+          sources: Json
+          status: string
+          status_changed_at: string
+          user_id: string
+        }
+        Insert: {
+          agent_id?: string | null
+          asset_id: string
+          carried_over_from?: string | null
+          confidence?: number | null
+          created_at?: string
+          cve?: string | null
+          cvss_score?: number | null
+          cwe?: string | null
+          description?: string | null
+          exploitability?: string | null
+          fingerprint?: string | null
+          id?: string
+          mitigation?: string | null
+          name: string
+          port?: number | null
+          raw?: Json
+          scan_id: string
+          service?: string | null
+          severity?: Database["public"]["Enums"]["threat_level"]
+          sources?: Json
+          status?: string
+          status_changed_at?: string
+          user_id: string
+        }
+        Update: {
+          agent_id?: string | null
+          asset_id?: string
+          carried_over_from?: string | null
+          confidence?: number | null
+          created_at?: string
+          cve?: string | null
+          cvss_score?: number | null
+          cwe?: string | null
+          description?: string | null
+          exploitability?: string | null
+          fingerprint?: string | null
+          id?: string
+          mitigation?: string | null
+          name?: string
+          port?: number | null
+          raw?: Json
+          scan_id?: string
+          service?: string | null
+          severity?: Database["public"]["Enums"]["threat_level"]
+          sources?: Json
+          status?: string
+          status_changed_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "findings_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "ai_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "findings_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "findings_carried_over_from_fkey"
+            columns: ["carried_over_from"]
+            isOneToOne: false
+            referencedRelation: "findings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "findings_scan_id_fkey"
+            columns: ["scan_id"]
+            isOneToOne: false
+            referencedRelation: "scans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      llm_providers: {
+        Row: {
+          agent_ids: string[]
+          api_key_secret: string | null
+          base_url: string | null
+          created_at: string
+          default_model: string
+          id: string
+          is_default: boolean
+          kind: string
+          name: string
+          updated_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          agent_ids?: string[]
+          api_key_secret?: string | null
+          base_url?: string | null
+          created_at?: string
+          default_model: string
+          id?: string
+          is_default?: boolean
+          kind: string
+          name: string
+          updated_at?: string
+          user_id: string
+          workspace_id?: string
+        }
+        Update: {
+          agent_ids?: string[]
+          api_key_secret?: string | null
+          base_url?: string | null
+          created_at?: string
+          default_model?: string
+          id?: string
+          is_default?: boolean
+          kind?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "llm_providers_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      llm_usage: {
+        Row: {
+          agent_id: string | null
+          completion_tokens: number | null
+          created_at: string
+          duration_ms: number
+          failure: string | null
+          id: string
+          model: string
+          prompt_tokens: number | null
+          provider_id: string | null
+          provider_kind: string
+          scan_id: string | null
+          source: string
+          status: string
+          total_tokens: number | null
+          user_id: string | null
+          workspace_id: string | null
+        }
+        Insert: {
+          agent_id?: string | null
+          completion_tokens?: number | null
+          created_at?: string
+          duration_ms: number
+          failure?: string | null
+          id?: string
+          model: string
+          prompt_tokens?: number | null
+          provider_id?: string | null
+          provider_kind: string
+          scan_id?: string | null
+          source: string
+          status: string
+          total_tokens?: number | null
+          user_id?: string | null
+          workspace_id?: string | null
+        }
+        Update: {
+          agent_id?: string | null
+          completion_tokens?: number | null
+          created_at?: string
+          duration_ms?: number
+          failure?: string | null
+          id?: string
+          model?: string
+          prompt_tokens?: number | null
+          provider_id?: string | null
+          provider_kind?: string
+          scan_id?: string | null
+          source?: string
+          status?: string
+          total_tokens?: number | null
+          user_id?: string | null
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "llm_usage_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "ai_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "llm_usage_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "llm_providers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "llm_usage_scan_id_fkey"
+            columns: ["scan_id"]
+            isOneToOne: false
+            referencedRelation: "scans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "llm_usage_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mitre_mappings: {
+        Row: {
+          automated: boolean | null
+          confidence_score: number | null
+          created_at: string
+          id: string
+          mitre_tactic: string
+          mitre_technique: string
+          reasoning: string | null
+          scan_id: string
+          technique_name: string
+          user_id: string
+          vulnerability_cve: string | null
+          workspace_id: string
+        }
+        Insert: {
+          automated?: boolean | null
+          confidence_score?: number | null
+          created_at?: string
+          id?: string
+          mitre_tactic: string
+          mitre_technique: string
+          reasoning?: string | null
+          scan_id: string
+          technique_name: string
+          user_id: string
+          vulnerability_cve?: string | null
+          workspace_id?: string
+        }
+        Update: {
+          automated?: boolean | null
+          confidence_score?: number | null
+          created_at?: string
+          id?: string
+          mitre_tactic?: string
+          mitre_technique?: string
+          reasoning?: string | null
+          scan_id?: string
+          technique_name?: string
+          user_id?: string
+          vulnerability_cve?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mitre_mappings_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          message: string
+          read_at: string | null
+          scan_id: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          message: string
+          read_at?: string | null
+          scan_id?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          message?: string
+          read_at?: string | null
+          scan_id?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_scan_id_fkey"
+            columns: ["scan_id"]
+            isOneToOne: false
+            referencedRelation: "scans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
+          active_workspace_id: string | null
           api_quota: number | null
           created_at: string
           id: string
@@ -358,129 +1355,596 @@ export type Database = {
           username: string | null
         }
         Insert: {
+          active_workspace_id?: string | null
+          api_quota?: number | null
+          created_at?: string
+          id?: string
+          role?: string | null
+          updated_at?: string
+          user_id: string
+          username?: string | null
+        }
+        Update: {
+          active_workspace_id?: string | null
           api_quota?: number | null
           created_at?: string
           id?: string
-          role?: string | null
-          updated_at?: string
+          role?: string | null
+          updated_at?: string
+          user_id?: string
+          username?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_active_workspace_id_fkey"
+            columns: ["active_workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_limits: {
+        Row: {
+          created_at: string
+          endpoint: string
+          id: string
+          requests_count: number | null
+          user_id: string
+          window_start: string
+        }
+        Insert: {
+          created_at?: string
+          endpoint: string
+          id?: string
+          requests_count?: number | null
+          user_id: string
+          window_start?: string
+        }
+        Update: {
+          created_at?: string
+          endpoint?: string
+          id?: string
+          requests_count?: number | null
+          user_id?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      report_templates: {
+        Row: {
+          created_at: string
+          format_settings: Json | null
+          id: string
+          is_default: boolean | null
+          name: string
+          sections: Json
+          template_type: string
+          updated_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          format_settings?: Json | null
+          id?: string
+          is_default?: boolean | null
+          name: string
+          sections: Json
+          template_type?: string
+          updated_at?: string
+          user_id: string
+          workspace_id?: string
+        }
+        Update: {
+          created_at?: string
+          format_settings?: Json | null
+          id?: string
+          is_default?: boolean | null
+          name?: string
+          sections?: Json
+          template_type?: string
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_templates_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      retention_policies: {
+        Row: {
+          agent_executions_days: number | null
+          api_usage_days: number | null
+          attack_path_evidence_days: number | null
+          created_at: string
+          id: string
+          scans_days: number | null
+          tool_output_days: number | null
+          updated_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          agent_executions_days?: number | null
+          api_usage_days?: number | null
+          attack_path_evidence_days?: number | null
+          created_at?: string
+          id?: string
+          scans_days?: number | null
+          tool_output_days?: number | null
+          updated_at?: string
+          user_id: string
+          workspace_id?: string
+        }
+        Update: {
+          agent_executions_days?: number | null
+          api_usage_days?: number | null
+          attack_path_evidence_days?: number | null
+          created_at?: string
+          id?: string
+          scans_days?: number | null
+          tool_output_days?: number | null
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "retention_policies_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      retention_runs: {
+        Row: {
+          cutoffs: Json
+          held_campaigns: string[]
+          id: string
+          policy: Json
+          purged_counts: Json
+          purged_digest: string
+          purged_ids: Json
+          ran_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          cutoffs?: Json
+          held_campaigns?: string[]
+          id?: string
+          policy: Json
+          purged_counts?: Json
+          purged_digest: string
+          purged_ids?: Json
+          ran_at?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          cutoffs?: Json
+          held_campaigns?: string[]
+          id?: string
+          policy?: Json
+          purged_counts?: Json
+          purged_digest?: string
+          purged_ids?: Json
+          ran_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "retention_runs_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scan_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          current_stage: string | null
+          id: string
+          last_error: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          payload: Json
+          progress: number
+          run_after: string
+          scan_id: string
+          stages: Json
+          started_at: string | null
+          state: Json
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          current_stage?: string | null
+          id?: string
+          last_error?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          payload: Json
+          progress?: number
+          run_after?: string
+          scan_id: string
+          stages?: Json
+          started_at?: string | null
+          state?: Json
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          current_stage?: string | null
+          id?: string
+          last_error?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          payload?: Json
+          progress?: number
+          run_after?: string
+          scan_id?: string
+          stages?: Json
+          started_at?: string | null
+          state?: Json
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scan_jobs_scan_id_fkey"
+            columns: ["scan_id"]
+            isOneToOne: true
+            referencedRelation: "scans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scan_profile_defaults: {
+        Row: {
+          asset_type: Database["public"]["Enums"]["asset_type"]
+          created_at: string
+          id: string
+          profile_id: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          asset_type: Database["public"]["Enums"]["asset_type"]
+          created_at?: string
+          id?: string
+          profile_id: string
           user_id: string
-          username?: string | null
+          workspace_id: string
         }
         Update: {
-          api_quota?: number | null
+          asset_type?: Database["public"]["Enums"]["asset_type"]
           created_at?: string
           id?: string
-          role?: string | null
-          updated_at?: string
+          profile_id?: string
           user_id?: string
-          username?: string | null
+          workspace_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "scan_profile_defaults_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "scan_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scan_profile_defaults_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      rate_limits: {
+      scan_profiles: {
         Row: {
+          agent_ids: string[]
           created_at: string
-          endpoint: string
+          description: string | null
           id: string
-          requests_count: number | null
+          llm_model: string
+          llm_temperature: number
+          name: string
+          recon_services: string[]
+          risk_policy: Json
+          tool_parameters: Json
+          updated_at: string
           user_id: string
-          window_start: string
+          visibility: string
+          workspace_id: string
         }
         Insert: {
+          agent_ids?: string[]
           created_at?: string
-          endpoint: string
+          description?: string | null
           id?: string
-          requests_count?: number | null
+          llm_model?: string
+          llm_temperature?: number
+          name: string
+          recon_services?: string[]
+          risk_policy?: Json
+          tool_parameters?: Json
+          updated_at?: string
           user_id: string
-          window_start?: string
+          visibility?: string
+          workspace_id: string
         }
         Update: {
+          agent_ids?: string[]
           created_at?: string
-          endpoint?: string
+          description?: string | null
           id?: string
-          requests_count?: number | null
+          llm_model?: string
+          llm_temperature?: number
+          name?: string
+          recon_services?: string[]
+          risk_policy?: Json
+          tool_parameters?: Json
+          updated_at?: string
           user_id?: string
-          window_start?: string
+          visibility?: string
+          workspace_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "scan_profiles_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      report_templates: {
+      scan_schedules: {
         Row: {
+          agent_ids: string[]
+          asset_type: Database["public"]["Enums"]["asset_type"]
+          campaign_id: string | null
           created_at: string
-          format_settings: Json | null
+          cron_expression: string | null
           id: string
-          is_default: boolean | null
+          interval_minutes: number | null
+          is_active: boolean
+          last_error: string | null
+          last_run_at: string | null
+          last_scan_id: string | null
           name: string
-          sections: Json
-          template_type: string
+          next_run_at: string
+          target: string
           updated_at: string
           user_id: string
+          workspace_id: string
         }
         Insert: {
+          agent_ids?: string[]
+          asset_type: Database["public"]["Enums"]["asset_type"]
+          campaign_id?: string | null
           created_at?: string
-          format_settings?: Json | null
+          cron_expression?: string | null
           id?: string
-          is_default?: boolean | null
+          interval_minutes?: number | null
+          is_active?: boolean
+          last_error?: string | null
+          last_run_at?: string | null
+          last_scan_id?: string | null
           name: string
-          sections: Json
-          template_type?: string
+          next_run_at: string
+          target: string
           updated_at?: string
           user_id: string
+          workspace_id: string
         }
         Update: {
+          agent_ids?: string[]
+          asset_type?: Database["public"]["Enums"]["asset_type"]
+          campaign_id?: string | null
           created_at?: string
-          format_settings?: Json | null
+          cron_expression?: string | null
           id?: string
-          is_default?: boolean | null
+          interval_minutes?: number | null
+          is_active?: boolean
+          last_error?: string | null
+          last_run_at?: string | null
+          last_scan_id?: string | null
           name?: string
-          sections?: Json
-          template_type?: string
+          next_run_at?: string
+          target?: string
           updated_at?: string
           user_id?: string
+          workspace_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "scan_schedules_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "apt_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scan_schedules_last_scan_id_fkey"
+            columns: ["last_scan_id"]
+            isOneToOne: false
+            referencedRelation: "scans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scan_schedules_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       scans: {
         Row: {
+          asset_id: string | null
           asset_type: Database["public"]["Enums"]["asset_type"]
           completed_at: string | null
           created_at: string
           id: string
+          is_batch: boolean
           metadata: Json | null
+          parent_scan_id: string | null
+          profile_id: string | null
+          profile_snapshot: Json | null
           results: Json | null
+          schedule_id: string | null
           status: Database["public"]["Enums"]["scan_status"] | null
           target: string
           threat_level: Database["public"]["Enums"]["threat_level"] | null
           updated_at: string
           user_id: string
+          workspace_id: string
         }
         Insert: {
+          asset_id?: string | null
           asset_type: Database["public"]["Enums"]["asset_type"]
           completed_at?: string | null
           created_at?: string
           id?: string
+          is_batch?: boolean
           metadata?: Json | null
+          parent_scan_id?: string | null
+          profile_id?: string | null
+          profile_snapshot?: Json | null
           results?: Json | null
+          schedule_id?: string | null
           status?: Database["public"]["Enums"]["scan_status"] | null
           target: string
           threat_level?: Database["public"]["Enums"]["threat_level"] | null
           updated_at?: string
           user_id: string
+          workspace_id?: string
         }
         Update: {
+          asset_id?: string | null
           asset_type?: Database["public"]["Enums"]["asset_type"]
           completed_at?: string | null
           created_at?: string
           id?: string
+          is_batch?: boolean
           metadata?: Json | null
+          parent_scan_id?: string | null
+          profile_id?: string | null
+          profile_snapshot?: Json | null
           results?: Json | null
+          schedule_id?: string | null
           status?: Database["public"]["Enums"]["scan_status"] | null
           target?: string
           threat_level?: Database["public"]["Enums"]["threat_level"] | null
           updated_at?: string
           user_id?: string
+          workspace_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "scans_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scans_parent_scan_id_fkey"
+            columns: ["parent_scan_id"]
+            isOneToOne: false
+            referencedRelation: "scans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scans_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "scan_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scans_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "scan_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scans_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scope_rules: {
+        Row: {
+          created_at: string
+          id: string
+          is_exclusion: boolean
+          notes: string | null
+          rule_type: Database["public"]["Enums"]["scope_rule_type"]
+          scope_id: string
+          value: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_exclusion?: boolean
+          notes?: string | null
+          rule_type: Database["public"]["Enums"]["scope_rule_type"]
+          scope_id: string
+          value: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_exclusion?: boolean
+          notes?: string | null
+          rule_type?: Database["public"]["Enums"]["scope_rule_type"]
+          scope_id?: string
+          value?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scope_rules_scope_id_fkey"
+            columns: ["scope_id"]
+            isOneToOne: false
+            referencedRelation: "engagement_scopes"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       threat_intelligence: {
         Row: {
@@ -495,6 +1959,7 @@ export type Database = {
           source: string
           tags: string[] | null
           threat_level: Database["public"]["Enums"]["threat_level"]
+          workspace_id: string | null
         }
         Insert: {
           description?: string | null
@@ -508,6 +1973,7 @@ export type Database = {
           source: string
           tags?: string[] | null
           threat_level: Database["public"]["Enums"]["threat_level"]
+          workspace_id?: string | null
         }
         Update: {
           description?: string | null
@@ -521,6 +1987,172 @@ export type Database = {
           source?: string
           tags?: string[] | null
           threat_level?: Database["public"]["Enums"]["threat_level"]
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "threat_intelligence_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_settings: {
+        Row: {
+          api_key_rotation: boolean
+          auto_analysis: boolean
+          created_at: string
+          default_threat_level: Database["public"]["Enums"]["threat_level"]
+          id: string
+          max_concurrent_scans: number
+          notify_agent_errors: boolean
+          notify_scan_complete: boolean
+          notify_threat_detected: boolean
+          notify_weekly_report: boolean
+          session_timeout_minutes: number
+          two_factor_enabled: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          api_key_rotation?: boolean
+          auto_analysis?: boolean
+          created_at?: string
+          default_threat_level?: Database["public"]["Enums"]["threat_level"]
+          id?: string
+          max_concurrent_scans?: number
+          notify_agent_errors?: boolean
+          notify_scan_complete?: boolean
+          notify_threat_detected?: boolean
+          notify_weekly_report?: boolean
+          session_timeout_minutes?: number
+          two_factor_enabled?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          api_key_rotation?: boolean
+          auto_analysis?: boolean
+          created_at?: string
+          default_threat_level?: Database["public"]["Enums"]["threat_level"]
+          id?: string
+          max_concurrent_scans?: number
+          notify_agent_errors?: boolean
+          notify_scan_complete?: boolean
+          notify_threat_detected?: boolean
+          notify_weekly_report?: boolean
+          session_timeout_minutes?: number
+          two_factor_enabled?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      workspace_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["workspace_role"]
+          workspace_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by: string
+          revoked_at?: string | null
+          role: Database["public"]["Enums"]["workspace_role"]
+          workspace_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["workspace_role"]
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invitations_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          id: string
+          member_name: string | null
+          role: Database["public"]["Enums"]["workspace_role"]
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          member_name?: string | null
+          role: Database["public"]["Enums"]["workspace_role"]
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          member_name?: string | null
+          role?: Database["public"]["Enums"]["workspace_role"]
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
         }
         Relationships: []
       }
@@ -529,7 +2161,172 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_workspace_invitation: {
+        Args: {
+          _invitation_id: string
+        }
+        Returns: string
+      }
+      active_workspace_id: {
+        Args: {
+          _user_id: string
+        }
+        Returns: string
+      }
+      attack_path_requires_approval: {
+        Args: {
+          _campaign_id: string
+          _risk_level: string
+        }
+        Returns: boolean
+      }
+      audit_event_hash: {
+        Args: {
+          _event: Database["public"]["Tables"]["audit_events"]["Row"]
+        }
+        Returns: string
+      }
+      can_manage_engagement_rules: {
+        Args: {
+          _campaign_id: string
+          _workspace_id: string
+        }
+        Returns: boolean
+      }
+      can_review_attack_paths: {
+        Args: {
+          _user_id: string
+          _workspace_id: string
+        }
+        Returns: boolean
+      }
+      claim_scan_job: {
+        Args: {
+          _lease_seconds?: number
+          _worker_id: string
+        }
+        Returns: Database["public"]["Tables"]["scan_jobs"]["Row"][]
+      }
+      create_workspace: {
+        Args: {
+          _name: string
+        }
+        Returns: string
+      }
+      finding_fingerprint: {
+        Args: {
+          _cve: string
+          _cwe: string
+          _name: string
+          _port: number
+          _service: string
+        }
+        Returns: string
+      }
+      finding_transition_allowed: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: boolean
+      }
+      has_workspace_role: {
+        Args: {
+          _roles: Database["public"]["Enums"]["workspace_role"][]
+          _workspace_id: string
+        }
+        Returns: boolean
+      }
+      is_approver: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_workspace_member: {
+        Args: {
+          _workspace_id: string
+        }
+        Returns: boolean
+      }
+      llm_secret_prefix: {
+        Args: {
+          _workspace_id: string
+        }
+        Returns: string
+      }
+      normalize_finding_severity: {
+        Args: {
+          _severity: string
+        }
+        Returns: Database["public"]["Enums"]["threat_level"]
+      }
+      preview_retention: {
+        Args: {
+          _workspace_id: string
+        }
+        Returns: Json
+      }
+      publish_agent_prompt: {
+        Args: {
+          _agent_id: string
+          _change_note: string
+          _template: string
+          _workspace_id: string
+        }
+        Returns: string
+      }
+      revoke_workspace_invitation: {
+        Args: {
+          _invitation_id: string
+        }
+        Returns: undefined
+      }
+      risk_level_rank: {
+        Args: {
+          _risk_level: string
+        }
+        Returns: number
+      }
+      set_current_agent_prompt: {
+        Args: {
+          _version_id: string
+        }
+        Returns: undefined
+      }
+      verify_audit_chain: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          events_checked: number
+          first_invalid_sequence: number
+          is_valid: boolean
+          problem: string
+        }[]
+      }
+      verify_audit_chain_of: {
+        Args: {
+          _user_id: string
+        }
+        Returns: {
+          events_checked: number
+          first_invalid_sequence: number
+          is_valid: boolean
+          problem: string
+        }[]
+      }
+      verify_workspace_audit_chains: {
+        Args: {
+          _workspace_id: string
+        }
+        Returns: {
+          events_checked: number
+          first_invalid_sequence: number
+          is_valid: boolean
+          member_name: string
+          problem: string
+          user_id: string
+        }[]
+      }
     }
     Enums: {
       agent_type:
@@ -538,8 +2335,10 @@ export type Database = {
         | "threat_intelligence"
         | "network_analysis"
       asset_type: "domain" | "ip" | "url" | "hash" | "email"
-      scan_status: "pending" | "running" | "completed" | "failed"
+      scan_status: "pending" | "running" | "completed" | "failed" | "cancelled"
+      scope_rule_type: "cidr" | "domain" | "url_prefix"
       threat_level: "low" | "medium" | "high" | "critical"
+      workspace_role: "owner" | "lead" | "operator" | "analyst" | "client"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -674,8 +2473,10 @@ export const Constants = {
         "network_analysis",
       ],
       asset_type: ["domain", "ip", "url", "hash", "email"],
-      scan_status: ["pending", "running", "completed", "failed"],
+      scan_status: ["pending", "running", "completed", "failed", "cancelled"],
+      scope_rule_type: ["cidr", "domain", "url_prefix"],
       threat_level: ["low", "medium", "high", "critical"],
+      workspace_role: ["owner", "lead", "operator", "analyst", "client"],
     },
   },
 } as const
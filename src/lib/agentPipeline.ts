@@ -0,0 +1,2 @@
+// Agent pipelines, planned by the same module scan-worker runs agents with
+export * from "../../supabase/functions/_shared/agentPipeline.ts";
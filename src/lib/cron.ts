@@ -0,0 +1,2 @@
+// Five-field cron expressions, parsed by the same module the scheduler runs on
+export * from "../../supabase/functions/_shared/cron.ts";
@@ -0,0 +1,20 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+/**
+ * Extracts the most useful message from a `supabase.functions.invoke` error.
+ * Edge functions report policy rejections (scope, time windows, ...) as JSON
+ * bodies with an `error` and an optional human-readable `reason`.
+ */
+export const getFunctionErrorMessage = async (error: unknown): Promise<string> => {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (body?.reason) return body.error ? `${body.error}: ${body.reason}` : body.reason;
+      if (body?.error) return body.error;
+    } catch {
+      // Body was not JSON, fall through to the generic message
+    }
+  }
+
+  return error instanceof Error ? error.message : 'Unknown error occurred';
+};
@@ -0,0 +1,44 @@
+export type FindingStatus =
+  | 'open'
+  | 'triaged'
+  | 'in_remediation'
+  | 'fixed'
+  | 'false_positive'
+  | 'risk_accepted';
+
+export const FINDING_STATUS_LABELS: Record<FindingStatus, string> = {
+  open: 'Open',
+  triaged: 'Triaged',
+  in_remediation: 'In Remediation',
+  fixed: 'Fixed',
+  false_positive: 'False Positive',
+  risk_accepted: 'Risk Accepted',
+};
+
+/**
+ * Statuses a finding may move to next. Mirrors
+ * `public.finding_transition_allowed`, which enforces it server-side.
+ */
+export const FINDING_TRANSITIONS: Record<FindingStatus, FindingStatus[]> = {
+  open: ['triaged', 'false_positive', 'risk_accepted'],
+  triaged: ['open', 'in_remediation', 'false_positive', 'risk_accepted'],
+  in_remediation: ['triaged', 'fixed', 'risk_accepted'],
+  fixed: ['open'],
+  false_positive: ['open'],
+  risk_accepted: ['open'],
+};
+
+export const getFindingStatusColor = (status: string) => {
+  switch (status) {
+    case 'open': return 'bg-red-500';
+    case 'triaged': return 'bg-orange-500';
+    case 'in_remediation': return 'bg-blue-500';
+    case 'fixed': return 'bg-green-500';
+    case 'false_positive': return 'bg-gray-500';
+    case 'risk_accepted': return 'bg-purple-500';
+    default: return 'bg-gray-500';
+  }
+};
+
+export const getFindingStatusLabel = (status: string) =>
+  FINDING_STATUS_LABELS[status as FindingStatus] ?? status;
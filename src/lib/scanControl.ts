@@ -0,0 +1,41 @@
+import { supabase } from "@/integrations/supabase/client";
+
+interface ExecutionRef {
+  id: string;
+  scan_id: string;
+  agent_id: string;
+  status: string | null;
+  created_at: string;
+}
+
+// Cancels a pending or running scan, along with its job and running agents
+export const cancelScan = async (scanId: string) => {
+  const { data, error } = await supabase.functions.invoke('scan-control', {
+    body: { action: 'cancel', scanId }
+  });
+
+  if (error) throw error;
+  return data as { scan_id: string; cancelled_executions: number };
+};
+
+// Reruns a failed agent execution against the scan's stored reconnaissance, then re-aggregates the scan
+export const retryAgentExecution = async (scanId: string, executionId: string) => {
+  const { data, error } = await supabase.functions.invoke('scan-control', {
+    body: { action: 'retry_agent', scanId, executionId }
+  });
+
+  if (error) throw error;
+  return data as { scan_id: string; execution_id: string };
+};
+
+/**
+ * Only the latest run of an agent in a scan can be retried; earlier failed
+ * runs were already superseded by a resume or an earlier retry.
+ */
+export const isRetryable = (execution: ExecutionRef, executions: ExecutionRef[]) =>
+  execution.status === 'failed' &&
+  !executions.some(other =>
+    other.scan_id === execution.scan_id &&
+    other.agent_id === execution.agent_id &&
+    other.created_at > execution.created_at
+  );
@@ -16,6 +16,10 @@ import { NeuromorphicPlanner } from "@/components/NeuromorphicPlanner";
 import NetworkTopology3D from "@/components/NetworkTopology3D";
 import InteractiveTimeline from "@/components/InteractiveTimeline";
 import AnalyticsDashboard from "@/components/AnalyticsDashboard";
+import { ScopeManager } from "@/components/ScopeManager";
+import { EngagementWindowManager } from "@/components/EngagementWindowManager";
+import { AttackPathApprovals } from "@/components/AttackPathApprovals";
+import { EmergencyStopControl } from "@/components/EmergencyStopControl";
 
 interface DemoTarget {
   id: string;
@@ -321,6 +325,21 @@ const APTPlanning = () => {
           </Card>
         </div>
 
+        {/* Engagement Scope for the selected campaign */}
+        {selectedCampaign && (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <EmergencyStopControl campaignId={selectedCampaign} />
+            </div>
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <ScopeManager campaignId={selectedCampaign} />
+              <EngagementWindowManager campaignId={selectedCampaign} />
+            </div>
+          </div>
+        )}
+
+        <AttackPathApprovals />
+
         {/* Legal & Educational Notice */}
         <Alert>
           <AlertTriangle className="h-4 w-4" />
@@ -3,6 +3,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/components/ui/use-toast";
 import { 
   Brain,
@@ -14,7 +15,8 @@ import {
   Zap,
   Target,
   BarChart3,
-  RefreshCw
+  RefreshCw,
+  FlaskConical
 } from "lucide-react";
 
 interface AgentExecution {
@@ -28,6 +30,39 @@ interface AgentExecution {
   completed_at: string;
   error_message?: string;
   scan_id: string;
+  output_validation: { status: 'valid' | 'repaired' | 'reasked' | 'invalid' } | null;
+  prompt_version_id: string | null;
+  prompt_experiment_id: string | null;
+}
+
+interface PromptVersion {
+  id: string;
+  agent_id: string;
+  version: number;
+  change_note: string;
+  is_current: boolean;
+}
+
+interface PromptExperiment {
+  id: string;
+  agent_id: string;
+  version_a_id: string;
+  version_b_id: string;
+  traffic_b: number;
+  status: string;
+  started_at: string;
+  stopped_at: string | null;
+}
+
+// Outcomes of the finished runs of one prompt version
+interface VersionMetrics {
+  versionId: string | null;
+  runs: number;
+  successRate: number;
+  avgFindings: number;
+  validationFailures: number;
+  repaired: number;
+  avgLatency: number;
 }
 
 interface AIAgent {
@@ -57,6 +92,8 @@ const AgentAnalytics = () => {
   const [metrics, setMetrics] = useState<AgentMetrics[]>([]);
   const [loading, setLoading] = useState(true);
   const [liveExecutions, setLiveExecutions] = useState<AgentExecution[]>([]);
+  const [promptVersions, setPromptVersions] = useState<PromptVersion[]>([]);
+  const [promptExperiments, setPromptExperiments] = useState<PromptExperiment[]>([]);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -88,8 +125,25 @@ const AgentAnalytics = () => {
 
       if (executionsError) throw executionsError;
 
+      // Prompt versions and experiments of the workspaces the user belongs to
+      const [versionsResult, experimentsResult] = await Promise.all([
+        supabase
+          .from('agent_prompt_versions')
+          .select('id, agent_id, version, change_note, is_current')
+          .order('version'),
+        supabase
+          .from('agent_prompt_experiments')
+          .select('id, agent_id, version_a_id, version_b_id, traffic_b, status, started_at, stopped_at')
+          .order('started_at', { ascending: false }),
+      ]);
+
+      if (versionsResult.error) throw versionsResult.error;
+      if (experimentsResult.error) throw experimentsResult.error;
+
       setAgents(agentsData || []);
-      setExecutions(executionsData || []);
+      setExecutions((executionsData || []) as unknown as AgentExecution[]);
+      setPromptVersions(versionsResult.data || []);
+      setPromptExperiments(experimentsResult.data || []);
     } catch (error) {
       console.error('Error fetching data:', error);
       toast({
@@ -174,6 +228,43 @@ const AgentAnalytics = () => {
     setMetrics(agentMetrics);
   };
 
+  // Success rate, findings, validation failures and latency per prompt version; runs
+  // still in progress and agents skipped before they ran are left out
+  const compareVersions = (agentExecutions: AgentExecution[]): VersionMetrics[] => {
+    const finished = agentExecutions.filter(exec => exec.status === 'completed' || exec.status === 'failed');
+    const byVersion = new Map<string | null, AgentExecution[]>();
+    finished.forEach(exec => {
+      byVersion.set(exec.prompt_version_id, [...(byVersion.get(exec.prompt_version_id) || []), exec]);
+    });
+
+    return [...byVersion.entries()].map(([versionId, runs]) => {
+      const completed = runs.filter(exec => exec.status === 'completed');
+      const findings = completed.reduce((sum, exec) =>
+        sum + (Array.isArray(exec.output_data?.vulnerabilities) ? exec.output_data.vulnerabilities.length : 0), 0);
+      const timed = runs.filter(exec => exec.execution_time_ms);
+
+      return {
+        versionId,
+        runs: runs.length,
+        successRate: Math.round((completed.length / runs.length) * 100),
+        avgFindings: completed.length > 0 ? Math.round((findings / completed.length) * 10) / 10 : 0,
+        validationFailures: runs.filter(exec => exec.output_validation?.status === 'invalid').length,
+        repaired: runs.filter(exec => exec.output_validation?.status === 'repaired' || exec.output_validation?.status === 'reasked').length,
+        avgLatency: timed.length > 0
+          ? Math.round(timed.reduce((sum, exec) => sum + exec.execution_time_ms, 0) / timed.length)
+          : 0
+      };
+    }).sort((a, b) => versionNumber(a.versionId) - versionNumber(b.versionId));
+  };
+
+  const versionNumber = (versionId: string | null) =>
+    promptVersions.find(version => version.id === versionId)?.version ?? 0;
+
+  const versionLabel = (versionId: string | null) => {
+    const version = promptVersions.find(entry => entry.id === versionId);
+    return version ? `v${version.version}` : versionId ? 'Unknown version' : 'Built-in';
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'completed': return <CheckCircle className="w-4 h-4 text-green-500" />;
@@ -198,6 +289,64 @@ const AgentAnalytics = () => {
   const runningExecutions = executions.filter(exec => exec.status === 'running').length;
   const overallSuccessRate = totalExecutions > 0 ? Math.round((completedExecutions / totalExecutions) * 100) : 0;
 
+  // Agents with a published prompt version, and the latest experiment of each
+  const versionedAgents = agents
+    .filter(agent => promptVersions.some(version => version.agent_id === agent.id))
+    .map(agent => ({
+      agent,
+      experiment: promptExperiments.find(experiment => experiment.agent_id === agent.id) ?? null
+    }));
+
+  const renderVersionTable = (rows: VersionMetrics[], experiment: PromptExperiment | null) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Version</TableHead>
+          <TableHead className="text-right">Runs</TableHead>
+          <TableHead className="text-right">Success Rate</TableHead>
+          <TableHead className="text-right">Avg Findings</TableHead>
+          <TableHead className="text-right">Validation Failures</TableHead>
+          <TableHead className="text-right">Avg Latency</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => {
+          const version = promptVersions.find(entry => entry.id === row.versionId);
+          return (
+            <TableRow key={row.versionId ?? 'builtin'}>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{versionLabel(row.versionId)}</span>
+                  {version?.is_current && <Badge variant="secondary" className="text-xs">Current</Badge>}
+                  {experiment?.version_a_id === row.versionId && <Badge variant="outline" className="text-xs">A</Badge>}
+                  {experiment?.version_b_id === row.versionId && <Badge variant="outline" className="text-xs">B</Badge>}
+                </div>
+                {version && <p className="text-xs text-muted-foreground">{version.change_note}</p>}
+              </TableCell>
+              <TableCell className="text-right">{row.runs}</TableCell>
+              <TableCell className="text-right">{row.successRate}%</TableCell>
+              <TableCell className="text-right">{row.avgFindings}</TableCell>
+              <TableCell className="text-right">
+                {row.validationFailures}
+                {row.repaired > 0 && (
+                  <span className="text-xs text-muted-foreground"> ({row.repaired} repaired)</span>
+                )}
+              </TableCell>
+              <TableCell className="text-right">{row.avgLatency}ms</TableCell>
+            </TableRow>
+          );
+        })}
+        {rows.length === 0 && (
+          <TableRow>
+            <TableCell colSpan={6} className="text-center text-muted-foreground">
+              No finished runs yet
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -379,6 +528,48 @@ const AgentAnalytics = () => {
             </Card>
           </div>
         </div>
+
+        {/* Prompt Version Comparison */}
+        {versionedAgents.length > 0 && (
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold">Prompt Version Comparison</h2>
+            {versionedAgents.map(({ agent, experiment }) => {
+              const agentExecutions = executions.filter(exec => exec.agent_id === agent.id);
+              return (
+                <Card key={agent.id}>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      {getAgentTypeIcon(agent.agent_type)}
+                      {agent.name}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {renderVersionTable(compareVersions(agentExecutions), experiment?.status === 'running' ? experiment : null)}
+                    {experiment && (
+                      <div className="space-y-2 border-t pt-4">
+                        <h4 className="font-medium flex items-center gap-2 text-sm">
+                          <FlaskConical className="w-4 h-4" />
+                          Experiment: {versionLabel(experiment.version_a_id)} (A) against {versionLabel(experiment.version_b_id)} (B), {experiment.traffic_b}% of scans on B
+                          <Badge variant={experiment.status === 'running' ? "default" : "secondary"} className="text-xs capitalize">
+                            {experiment.status}
+                          </Badge>
+                        </h4>
+                        <p className="text-xs text-muted-foreground">
+                          Scans split between the two versions from {new Date(experiment.started_at).toLocaleString()}
+                          {experiment.stopped_at && ` to ${new Date(experiment.stopped_at).toLocaleString()}`}
+                        </p>
+                        {renderVersionTable(
+                          compareVersions(agentExecutions.filter(exec => exec.prompt_experiment_id === experiment.id)),
+                          experiment
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
       </div>
     </div>
   );
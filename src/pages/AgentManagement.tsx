@@ -15,8 +15,15 @@ import {
   AlertTriangle,
   CheckCircle,
   Clock,
-  Zap
+  Zap,
+  RotateCcw,
+  XCircle,
+  History
 } from "lucide-react";
+import { getFunctionErrorMessage } from "@/lib/edgeFunctions";
+import { cancelScan, isRetryable, retryAgentExecution } from "@/lib/scanControl";
+import { AgentPipelineView } from "@/components/AgentPipelineView";
+import { AgentPromptVersions } from "@/components/AgentPromptVersions";
 
 interface AIAgent {
   id: string;
@@ -32,6 +39,7 @@ interface AIAgent {
 
 interface AgentExecution {
   id: string;
+  scan_id: string;
   agent_id: string;
   status: string;
   execution_time_ms: number;
@@ -44,6 +52,10 @@ const AgentManagement = () => {
   const [agents, setAgents] = useState<AIAgent[]>([]);
   const [executions, setExecutions] = useState<AgentExecution[]>([]);
   const [loading, setLoading] = useState(true);
+  // The execution whose scan is being cancelled or which is being retried
+  const [controlling, setControlling] = useState<string | null>(null);
+  // The agent whose prompt versions are open
+  const [promptAgent, setPromptAgent] = useState<AIAgent | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -170,6 +182,46 @@ const AgentManagement = () => {
     }
   };
 
+  const cancelExecutionScan = async (execution: AgentExecution) => {
+    setControlling(execution.id);
+    try {
+      await cancelScan(execution.scan_id);
+      toast({
+        title: "Scan Cancelled",
+        description: "The scan and its running agents were cancelled",
+      });
+    } catch (error) {
+      console.error('Error cancelling scan:', error);
+      toast({
+        title: "Error",
+        description: await getFunctionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setControlling(null);
+    }
+  };
+
+  const retryExecution = async (execution: AgentExecution, agentName: string) => {
+    setControlling(execution.id);
+    try {
+      await retryAgentExecution(execution.scan_id, execution.id);
+      toast({
+        title: "Agent Retry Queued",
+        description: `${agentName} will rerun on the scan's stored reconnaissance data`,
+      });
+    } catch (error) {
+      console.error('Error retrying agent:', error);
+      toast({
+        title: "Error",
+        description: await getFunctionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setControlling(null);
+    }
+  };
+
   const getAgentTypeIcon = (type: string) => {
     switch (type) {
       case 'reconnaissance': return <Search className="w-5 h-5" />;
@@ -196,6 +248,7 @@ const AgentManagement = () => {
       case 'completed': return <CheckCircle className="w-4 h-4 text-green-500" />;
       case 'failed': return <AlertTriangle className="w-4 h-4 text-red-500" />;
       case 'running': return <Clock className="w-4 h-4 text-blue-500 animate-spin" />;
+      case 'cancelled': return <XCircle className="w-4 h-4 text-muted-foreground" />;
       default: return <Clock className="w-4 h-4 text-yellow-500" />;
     }
   };
@@ -277,6 +330,10 @@ const AgentManagement = () => {
           </Card>
         </div>
 
+        <AgentPipelineView agents={agents} />
+
+        <AgentPromptVersions agent={promptAgent} onOpenChange={(open) => !open && setPromptAgent(null)} />
+
         {/* Agents List */}
         <div className="space-y-4">
           <h2 className="text-xl font-semibold">AI Agents</h2>
@@ -341,7 +398,11 @@ const AgentManagement = () => {
                     </div>
                   </div>
 
-                  <div className="flex justify-end">
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setPromptAgent(agent)}>
+                      <History className="w-4 h-4 mr-2" />
+                      Prompt Versions
+                    </Button>
                     <Button variant="outline" size="sm">
                       <Settings className="w-4 h-4 mr-2" />
                       Configure
@@ -374,15 +435,42 @@ const AgentManagement = () => {
                         <p className="text-sm text-muted-foreground">
                           {new Date(execution.created_at).toLocaleString()}
                         </p>
+                        {execution.status === 'failed' && execution.error_message && (
+                          <p className="text-sm text-red-500">{execution.error_message}</p>
+                        )}
                       </div>
                     </div>
-                    <div className="text-right">
-                      <p className="text-sm font-medium capitalize">{execution.status}</p>
-                      {execution.execution_time_ms && (
-                        <p className="text-sm text-muted-foreground">
-                          {execution.execution_time_ms}ms
-                        </p>
+                    <div className="flex items-center gap-3">
+                      {(execution.status === 'running' || execution.status === 'pending') && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => cancelExecutionScan(execution)}
+                          disabled={controlling !== null}
+                        >
+                          <XCircle className="w-4 h-4 mr-2" />
+                          {controlling === execution.id ? 'Cancelling...' : 'Cancel Scan'}
+                        </Button>
                       )}
+                      {isRetryable(execution, executions) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => retryExecution(execution, agent?.name || 'The agent')}
+                          disabled={controlling !== null}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                          {controlling === execution.id ? 'Retrying...' : 'Retry'}
+                        </Button>
+                      )}
+                      <div className="text-right">
+                        <p className="text-sm font-medium capitalize">{execution.status}</p>
+                        {execution.execution_time_ms && (
+                          <p className="text-sm text-muted-foreground">
+                            {execution.execution_time_ms}ms
+                          </p>
+                        )}
+                      </div>
                     </div>
                   </div>
                 );
@@ -0,0 +1,368 @@
+import { useCallback, useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  ArrowLeft,
+  Server,
+  Clock,
+  Network,
+  Bug,
+  History as HistoryIcon,
+  Activity,
+  Target
+} from "lucide-react";
+import { getFindingStatusColor, getFindingStatusLabel } from "@/lib/findingLifecycle";
+import type { Tables } from "@/integrations/supabase/types";
+
+type Asset = Tables<'assets'>;
+type AssetService = Tables<'asset_services'>;
+type Finding = Tables<'findings'>;
+type Scan = Tables<'scans'>;
+type ThreatIntel = Tables<'threat_intelligence'>;
+type Campaign = Tables<'apt_campaigns'>;
+
+const AssetDetails = () => {
+  const { assetId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [asset, setAsset] = useState<Asset | null>(null);
+  const [services, setServices] = useState<AssetService[]>([]);
+  const [findings, setFindings] = useState<Finding[]>([]);
+  const [scans, setScans] = useState<Scan[]>([]);
+  const [iocs, setIocs] = useState<ThreatIntel[]>([]);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAssetDetails = useCallback(async () => {
+    try {
+      const { data: assetData, error: assetError } = await supabase
+        .from('assets')
+        .select('*')
+        .eq('id', assetId)
+        .single();
+
+      if (assetError) throw assetError;
+      setAsset(assetData);
+
+      // Everything that names this host, by any of its identifiers
+      const identifiers = [...new Set([assetData.value, ...assetData.hostnames, ...assetData.ip_addresses])];
+
+      const [servicesResult, findingsResult, scansResult, iocsResult, pathsResult] = await Promise.all([
+        supabase.from('asset_services').select('*').eq('asset_id', assetId).order('port'),
+        supabase.from('findings').select('*').eq('asset_id', assetId).order('created_at', { ascending: false }),
+        supabase.from('scans').select('*').eq('asset_id', assetId).order('created_at', { ascending: false }),
+        supabase.from('threat_intelligence').select('*').in('ioc_value', identifiers).order('last_seen', { ascending: false }),
+        supabase.from('attack_paths').select('campaign_id').in('target', identifiers),
+      ]);
+
+      setServices(servicesResult.data || []);
+      setFindings(findingsResult.data || []);
+      setScans(scansResult.data || []);
+      setIocs(iocsResult.data || []);
+
+      const campaignIds = new Set<string>();
+      (scansResult.data || []).forEach(scan => {
+        const campaignId = (scan.metadata as { campaign_id?: string | null } | null)?.campaign_id;
+        if (campaignId) campaignIds.add(campaignId);
+      });
+      (pathsResult.data || []).forEach(path => campaignIds.add(path.campaign_id));
+
+      if (campaignIds.size > 0) {
+        const { data: campaignData } = await supabase
+          .from('apt_campaigns')
+          .select('*')
+          .in('id', [...campaignIds])
+          .order('start_date', { ascending: false });
+        setCampaigns(campaignData || []);
+      } else {
+        setCampaigns([]);
+      }
+    } catch (error) {
+      console.error('Error fetching asset details:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load asset details",
+        variant: "destructive",
+      });
+      navigate('/assets');
+    } finally {
+      setLoading(false);
+    }
+  }, [assetId, navigate, toast]);
+
+  useEffect(() => {
+    if (assetId) {
+      fetchAssetDetails();
+    }
+  }, [assetId, fetchAssetDetails]);
+
+  const getThreatBadgeColor = (level: string | null) => {
+    switch (level) {
+      case 'critical': return 'bg-red-500 hover:bg-red-600';
+      case 'high': return 'bg-orange-500 hover:bg-orange-600';
+      case 'medium': return 'bg-yellow-500 hover:bg-yellow-600';
+      default: return 'bg-green-500 hover:bg-green-600';
+    }
+  };
+
+  if (loading || !asset) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Clock className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-6xl">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="sm" onClick={() => navigate('/assets')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Assets
+          </Button>
+          <div className="space-y-1">
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Server className="w-8 h-8 text-primary" />
+              {asset.value}
+            </h1>
+            <p className="text-muted-foreground">
+              Everything recorded about this asset across scans and campaigns
+            </p>
+          </div>
+        </div>
+
+        {/* Asset Overview */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm font-medium">Type</p>
+                <Badge variant="secondary" className="capitalize mt-1">{asset.asset_type}</Badge>
+              </div>
+              <div>
+                <p className="text-sm font-medium">First Seen</p>
+                <p className="text-lg">{new Date(asset.first_seen).toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium">Last Seen</p>
+                <p className="text-lg">{new Date(asset.last_seen).toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium">Scans</p>
+                <p className="text-lg">{scans.length}</p>
+              </div>
+              <div className="md:col-span-2">
+                <p className="text-sm font-medium">Hostnames</p>
+                <p className="font-mono text-sm text-muted-foreground">{asset.hostnames.join(', ') || '-'}</p>
+              </div>
+              <div className="md:col-span-2">
+                <p className="text-sm font-medium">IP Addresses</p>
+                <p className="font-mono text-sm text-muted-foreground">{asset.ip_addresses.join(', ') || '-'}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Tabs defaultValue="services" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="services">
+              <Network className="w-4 h-4 mr-2" />
+              Services ({services.length})
+            </TabsTrigger>
+            <TabsTrigger value="findings">
+              <Bug className="w-4 h-4 mr-2" />
+              Findings ({findings.length})
+            </TabsTrigger>
+            <TabsTrigger value="scans">
+              <HistoryIcon className="w-4 h-4 mr-2" />
+              Scans ({scans.length})
+            </TabsTrigger>
+            <TabsTrigger value="iocs">
+              <Activity className="w-4 h-4 mr-2" />
+              IOCs ({iocs.length})
+            </TabsTrigger>
+            <TabsTrigger value="campaigns">
+              <Target className="w-4 h-4 mr-2" />
+              Campaigns ({campaigns.length})
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="services">
+            <Card>
+              <CardContent className="pt-6">
+                {services.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No services observed on this asset yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Port</TableHead>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Version</TableHead>
+                        <TableHead>First Seen</TableHead>
+                        <TableHead>Last Seen</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {services.map(service => (
+                        <TableRow key={service.id}>
+                          <TableCell className="font-mono">{service.port}/{service.protocol}</TableCell>
+                          <TableCell>{service.product || '-'}</TableCell>
+                          <TableCell>{service.version || '-'}</TableCell>
+                          <TableCell className="whitespace-nowrap">{new Date(service.first_seen).toLocaleDateString()}</TableCell>
+                          <TableCell className="whitespace-nowrap">{new Date(service.last_seen).toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="findings">
+            <Card>
+              <CardContent className="pt-6">
+                {findings.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No findings recorded for this asset</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Finding</TableHead>
+                        <TableHead>CVE</TableHead>
+                        <TableHead>Severity</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Service</TableHead>
+                        <TableHead>Reported</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {findings.map(finding => (
+                        <TableRow
+                          key={finding.id}
+                          className="cursor-pointer"
+                          onClick={() => navigate(`/scan-details/${finding.scan_id}`)}
+                        >
+                          <TableCell className="font-medium">{finding.name}</TableCell>
+                          <TableCell className="font-mono text-xs">{finding.cve || '-'}</TableCell>
+                          <TableCell>
+                            <Badge className={`${getThreatBadgeColor(finding.severity)} text-white capitalize`}>
+                              {finding.severity}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={`${getFindingStatusColor(finding.status)} text-white`}>
+                              {getFindingStatusLabel(finding.status)}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{finding.port !== null ? `${finding.port} ` : ''}{finding.service || ''}</TableCell>
+                          <TableCell className="whitespace-nowrap">{new Date(finding.created_at).toLocaleDateString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="scans">
+            <Card>
+              <CardContent className="pt-6 space-y-3">
+                {scans.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No scans recorded for this asset</p>
+                ) : (
+                  scans.map(scan => (
+                    <div
+                      key={scan.id}
+                      className="border rounded-lg p-3 flex items-center justify-between cursor-pointer hover:bg-muted/50"
+                      onClick={() => navigate(`/scan-details/${scan.id}`)}
+                    >
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="capitalize">{scan.status}</Badge>
+                        <Badge className={`${getThreatBadgeColor(scan.threat_level)} text-white capitalize`}>
+                          {scan.threat_level}
+                        </Badge>
+                      </div>
+                      <span className="text-sm text-muted-foreground">
+                        {new Date(scan.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="iocs">
+            <Card>
+              <CardContent className="pt-6 space-y-3">
+                {iocs.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No threat intelligence matches this asset</p>
+                ) : (
+                  iocs.map(ioc => (
+                    <div key={ioc.id} className="border rounded-lg p-3 space-y-1">
+                      <div className="flex items-center justify-between">
+                        <span className="font-mono text-sm">{ioc.ioc_value}</span>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">{ioc.source}</Badge>
+                          <Badge className={`${getThreatBadgeColor(ioc.threat_level)} text-white capitalize`}>
+                            {ioc.threat_level}
+                          </Badge>
+                        </div>
+                      </div>
+                      {ioc.description && <p className="text-sm text-muted-foreground">{ioc.description}</p>}
+                      <p className="text-xs text-muted-foreground">
+                        Seen {new Date(ioc.first_seen).toLocaleDateString()} – {new Date(ioc.last_seen).toLocaleDateString()}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="campaigns">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Campaigns that scanned or targeted this asset</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {campaigns.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No campaigns have touched this asset</p>
+                ) : (
+                  campaigns.map(campaign => (
+                    <div
+                      key={campaign.id}
+                      className="border rounded-lg p-3 flex items-center justify-between cursor-pointer hover:bg-muted/50"
+                      onClick={() => navigate('/apt-planning')}
+                    >
+                      <div>
+                        <p className="font-medium">{campaign.name}</p>
+                        {campaign.target_organization && (
+                          <p className="text-sm text-muted-foreground">{campaign.target_organization}</p>
+                        )}
+                      </div>
+                      <Badge variant="outline" className="capitalize">{campaign.status}</Badge>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+};
+
+export default AssetDetails;
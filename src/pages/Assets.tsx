@@ -0,0 +1,164 @@
+import { useCallback, useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { useNavigate } from "react-router-dom";
+import { Server, Search, Clock } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+type Asset = Tables<'assets'> & {
+  asset_services: { count: number }[];
+  findings: { count: number }[];
+};
+
+const Assets = () => {
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [typeFilter, setTypeFilter] = useState("all");
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const fetchAssets = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('assets')
+        .select('*, asset_services(count), findings(count)')
+        .order('last_seen', { ascending: false });
+
+      if (error) throw error;
+      setAssets(data || []);
+    } catch (error) {
+      console.error('Error fetching assets:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load asset inventory",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchAssets();
+  }, [fetchAssets]);
+
+  const filteredAssets = assets.filter(asset => {
+    const term = searchTerm.toLowerCase();
+    if (term && ![asset.value, ...asset.hostnames, ...asset.ip_addresses].some(v => v.toLowerCase().includes(term))) {
+      return false;
+    }
+    return typeFilter === "all" || asset.asset_type === typeFilter;
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Clock className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-6xl">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Server className="w-8 h-8 text-primary" />
+            Asset Inventory
+          </h1>
+          <p className="text-muted-foreground">
+            Every host your scans have touched, with the services seen on it
+          </p>
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                  <Input
+                    placeholder="Search targets, hostnames or IPs..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+              </div>
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Asset Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  <SelectItem value="domain">Domain</SelectItem>
+                  <SelectItem value="ip">IP</SelectItem>
+                  <SelectItem value="url">URL</SelectItem>
+                  <SelectItem value="hash">Hash</SelectItem>
+                  <SelectItem value="email">Email</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Asset List */}
+        <Card>
+          <CardContent className="pt-6">
+            {filteredAssets.length === 0 ? (
+              <div className="text-center py-8">
+                <Server className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">
+                  {assets.length === 0 ? 'Assets appear here once you run a scan' : 'No assets match your current filters'}
+                </p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Asset</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Addresses</TableHead>
+                    <TableHead>Services</TableHead>
+                    <TableHead>Findings</TableHead>
+                    <TableHead>First Seen</TableHead>
+                    <TableHead>Last Seen</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredAssets.map(asset => (
+                    <TableRow
+                      key={asset.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/assets/${asset.id}`)}
+                    >
+                      <TableCell className="font-medium">{asset.value}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className="capitalize">{asset.asset_type}</Badge>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{asset.ip_addresses.join(', ') || '-'}</TableCell>
+                      <TableCell>{asset.asset_services[0]?.count ?? 0}</TableCell>
+                      <TableCell>{asset.findings[0]?.count ?? 0}</TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(asset.first_seen).toLocaleDateString()}</TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(asset.last_seen).toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Assets;
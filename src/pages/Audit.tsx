@@ -0,0 +1,425 @@
+import { Fragment, useCallback, useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  ScrollText,
+  Search,
+  ShieldCheck,
+  ShieldX,
+  Download,
+  ChevronDown,
+  ChevronRight,
+  RefreshCw
+} from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+type AuditEvent = Tables<'audit_events'>;
+type AuditView = 'mine' | 'workspace';
+
+interface AuditContext {
+  userId: string;
+  workspaceId: string | null;
+  // Owners and leads also see and verify the audit trail of everyone in the workspace
+  canViewWorkspace: boolean;
+  memberNames: Record<string, string>;
+}
+
+interface ChainVerification {
+  events_checked: number;
+  is_valid: boolean;
+  first_invalid_sequence: number | null;
+  problem: string | null;
+}
+
+const AUDITED_FUNCTIONS = [
+  'kali-tools',
+  'reconnaissance',
+  'threat-analysis',
+  'ai-attack-planner',
+  'ai-agent-orchestrator',
+  'emergency-stop',
+  'retention',
+];
+
+// Most recent events loaded into the browser; verification always covers the whole chain
+const EVENT_LIMIT = 1000;
+
+const Audit = () => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [functionFilter, setFunctionFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [context, setContext] = useState<AuditContext | null>(null);
+  const [view, setView] = useState<AuditView>('mine');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadContext = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          setLoading(false);
+          return;
+        }
+
+        const { data: profile, error: profileError } = await supabase
+          .from('profiles')
+          .select('active_workspace_id')
+          .eq('user_id', user.id)
+          .maybeSingle();
+        if (profileError) throw profileError;
+
+        const workspaceId = profile?.active_workspace_id ?? null;
+        let members: { user_id: string; role: string; member_name: string | null }[] = [];
+        if (workspaceId) {
+          const { data, error } = await supabase
+            .from('workspace_members')
+            .select('user_id, role, member_name')
+            .eq('workspace_id', workspaceId);
+          if (error) throw error;
+          members = data || [];
+        }
+
+        setContext({
+          userId: user.id,
+          workspaceId,
+          canViewWorkspace: members.some(member => member.user_id === user.id && ['owner', 'lead'].includes(member.role)),
+          memberNames: Object.fromEntries(members.map(member => [member.user_id, member.member_name ?? 'Unknown member'])),
+        });
+      } catch (error) {
+        console.error('Error loading workspace for audit log:', error);
+        setLoading(false);
+        toast({
+          title: "Error",
+          description: "Failed to load audit log",
+          variant: "destructive",
+        });
+      }
+    };
+
+    loadContext();
+  }, [toast]);
+
+  const fetchEvents = useCallback(async () => {
+    if (!context) return;
+
+    setLoading(true);
+    try {
+      let query = supabase.from('audit_events').select('*');
+      query = view === 'workspace' && context.workspaceId
+        ? query.eq('workspace_id', context.workspaceId)
+        : query.eq('user_id', context.userId);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(EVENT_LIMIT);
+
+      if (error) throw error;
+      setEvents(data || []);
+    } catch (error) {
+      console.error('Error fetching audit events:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [context, view, toast]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const changeView = (next: AuditView) => {
+    setView(next);
+    setVerification(null);
+  };
+
+  // The workspace view verifies every member's chain and reports the first broken one
+  const verifyWorkspaceChains = async (workspaceId: string): Promise<ChainVerification> => {
+    const { data, error } = await supabase.rpc('verify_workspace_audit_chains', { _workspace_id: workspaceId });
+    if (error) throw error;
+
+    const broken = (data || []).find(chain => !chain.is_valid);
+    if (broken) {
+      return {
+        events_checked: broken.events_checked,
+        is_valid: false,
+        first_invalid_sequence: broken.first_invalid_sequence,
+        problem: `${broken.member_name ?? 'A member'}'s chain: ${broken.problem}`,
+      };
+    }
+    return {
+      events_checked: (data || []).reduce((total, chain) => total + chain.events_checked, 0),
+      is_valid: true,
+      first_invalid_sequence: null,
+      problem: null,
+    };
+  };
+
+  const verifyChain = async () => {
+    setVerifying(true);
+    try {
+      let result: ChainVerification | null;
+      if (view === 'workspace' && context?.workspaceId) {
+        result = await verifyWorkspaceChains(context.workspaceId);
+      } else {
+        const { data, error } = await supabase.rpc('verify_audit_chain');
+        if (error) throw error;
+        result = data?.[0] ?? null;
+      }
+
+      setVerification(result);
+      toast({
+        title: result?.is_valid ? "Audit Chain Intact" : "Audit Chain Broken",
+        description: result?.is_valid
+          ? `${result.events_checked} events verified`
+          : result?.problem ?? "Verification failed",
+        variant: result?.is_valid ? "default" : "destructive",
+      });
+    } catch (error) {
+      console.error('Error verifying audit chain:', error);
+      toast({
+        title: "Error",
+        description: "Failed to verify audit chain",
+        variant: "destructive",
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const filteredEvents = events.filter(event => {
+    const term = searchTerm.toLowerCase();
+    if (term && !`${event.action} ${event.target ?? ''} ${event.result_detail ?? ''}`.toLowerCase().includes(term)) {
+      return false;
+    }
+    if (functionFilter !== "all" && event.function_name !== functionFilter) return false;
+    if (statusFilter !== "all" && event.result_status !== statusFilter) return false;
+    if (fromDate && new Date(event.created_at) < new Date(fromDate)) return false;
+    if (toDate && new Date(event.created_at) >= new Date(new Date(toDate).getTime() + 24 * 60 * 60 * 1000)) return false;
+    return true;
+  });
+
+  const exportEvents = () => {
+    const payload = {
+      exported_at: new Date().toISOString(),
+      verification,
+      events: [...filteredEvents].reverse(),
+    };
+    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `audit-log-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'success': return 'bg-green-500';
+      case 'denied': return 'bg-orange-500';
+      case 'error': return 'bg-red-500';
+      default: return 'bg-gray-500';
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <ScrollText className="w-8 h-8 text-primary" />
+              Audit Log
+            </h1>
+            <p className="text-muted-foreground">
+              Append-only, hash-chained record of every tool, scan and planning action
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {context?.canViewWorkspace && (
+              <Select value={view} onValueChange={(value) => changeView(value as AuditView)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mine">My actions</SelectItem>
+                  <SelectItem value="workspace">Whole workspace</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="outline" onClick={fetchEvents} disabled={loading}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Refresh
+            </Button>
+            <Button variant="outline" onClick={exportEvents} disabled={filteredEvents.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              Export
+            </Button>
+            <Button onClick={verifyChain} disabled={verifying}>
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              {verifying ? 'Verifying...' : 'Verify Chain'}
+            </Button>
+          </div>
+        </div>
+
+        {verification && (
+          <Card className={verification.is_valid ? 'border-green-500/50' : 'border-destructive'}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {verification.is_valid
+                  ? <ShieldCheck className="w-5 h-5 text-green-500" />
+                  : <ShieldX className="w-5 h-5 text-destructive" />}
+                {verification.is_valid ? 'Chain verified' : 'Chain verification failed'}
+              </CardTitle>
+              <CardDescription>
+                {verification.is_valid
+                  ? `All ${verification.events_checked} events link to their predecessor and match their recorded hash.`
+                  : `${verification.problem}. ${verification.events_checked} events before sequence ${verification.first_invalid_sequence} are intact.`}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                  <Input
+                    placeholder="Search actions, targets or outcomes..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+              </div>
+              <Select value={functionFilter} onValueChange={setFunctionFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Function" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Functions</SelectItem>
+                  {AUDITED_FUNCTIONS.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-36">
+                  <SelectValue placeholder="Result" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Results</SelectItem>
+                  <SelectItem value="success">Success</SelectItem>
+                  <SelectItem value="denied">Denied</SelectItem>
+                  <SelectItem value="error">Error</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input type="date" className="w-40" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+              <Input type="date" className="w-40" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Event List */}
+        <Card>
+          <CardContent className="pt-6">
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <RefreshCw className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : filteredEvents.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                {events.length === 0 ? 'No audited actions yet' : 'No events match your current filters'}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>#</TableHead>
+                    <TableHead>Time</TableHead>
+                    {view === 'workspace' && <TableHead>Actor</TableHead>}
+                    <TableHead>Function</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Target</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredEvents.map(event => (
+                    <Fragment key={event.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                      >
+                        <TableCell>
+                          {expanded === event.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{event.sequence}</TableCell>
+                        <TableCell className="whitespace-nowrap">{new Date(event.created_at).toLocaleString()}</TableCell>
+                        {view === 'workspace' && (
+                          <TableCell>{(event.user_id && context?.memberNames[event.user_id]) || 'Former member'}</TableCell>
+                        )}
+                        <TableCell>{event.function_name}</TableCell>
+                        <TableCell>{event.action}</TableCell>
+                        <TableCell className="font-mono text-xs max-w-xs truncate">{event.target || '-'}</TableCell>
+                        <TableCell>
+                          <Badge className={`${getStatusColor(event.result_status)} text-white`}>
+                            {event.result_status} {event.status_code}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                      {expanded === event.id && (
+                        <TableRow>
+                          <TableCell colSpan={view === 'workspace' ? 8 : 7} className="bg-muted/30">
+                            <div className="space-y-2 text-xs">
+                              {event.result_detail && (
+                                <div><span className="font-medium">Outcome:</span> {event.result_detail}</div>
+                              )}
+                              <div className="font-medium">Parameters:</div>
+                              <pre className="bg-muted p-3 rounded overflow-x-auto max-h-64">
+                                {JSON.stringify(event.parameters, null, 2)}
+                              </pre>
+                              <div className="font-mono break-all">
+                                <div>hash: {event.hash}</div>
+                                <div>prev: {event.prev_hash || '(start of chain)'}</div>
+                              </div>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default Audit;
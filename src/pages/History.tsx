@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
 import { useNavigate } from "react-router-dom";
+import { ScanScheduleManager } from "@/components/ScanScheduleManager";
 import { 
   History as HistoryIcon, 
   Search, 
@@ -16,7 +17,8 @@ import {
   AlertTriangle,
   CheckCircle,
   Clock,
-  ExternalLink
+  ExternalLink,
+  GitCompare
 } from "lucide-react";
 
 interface Scan {
@@ -29,6 +31,9 @@ interface Scan {
   completed_at: string;
   results: any;
   metadata: any;
+  schedule_id: string | null;
+  parent_scan_id: string | null;
+  is_batch: boolean;
 }
 
 const History = () => {
@@ -57,6 +62,9 @@ const History = () => {
         (payload) => {
           console.log('Real-time scan update:', payload);
           
+          // Targets of a batch are listed on the batch's details page
+          if ((payload.new as Scan | undefined)?.parent_scan_id) return;
+
           if (payload.eventType === 'INSERT') {
             setScans(prev => [payload.new as Scan, ...prev]);
           } else if (payload.eventType === 'UPDATE') {
@@ -84,6 +92,7 @@ const History = () => {
       const { data, error } = await supabase
         .from('scans')
         .select('*')
+        .is('parent_scan_id', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -144,6 +153,23 @@ const History = () => {
     return new Date(dateString).toLocaleString();
   };
 
+  // The most recent completed scan of the same target that ran before this one
+  const getPreviousScan = (scan: Scan) =>
+    scans
+      .filter(other =>
+        other.id !== scan.id &&
+        other.target === scan.target &&
+        other.asset_type === scan.asset_type &&
+        other.status === 'completed' &&
+        new Date(other.created_at) < new Date(scan.created_at)
+      )
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+
+  const compareWithPrevious = (scan: Scan) => {
+    const previous = getPreviousScan(scan);
+    if (previous) navigate(`/scan-compare/${scan.id}?base=${previous.id}`);
+  };
+
   const viewScanDetails = (scanId: string) => {
     navigate(`/scan-details/${scanId}`);
   };
@@ -176,6 +202,8 @@ const History = () => {
           </Button>
         </div>
 
+        <ScanScheduleManager />
+
         {/* Filters */}
         <Card>
           <CardContent className="pt-6">
@@ -201,6 +229,7 @@ const History = () => {
                   <SelectItem value="running">Running</SelectItem>
                   <SelectItem value="completed">Completed</SelectItem>
                   <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
                 </SelectContent>
               </Select>
               <Select value={threatFilter} onValueChange={setThreatFilter}>
@@ -250,7 +279,7 @@ const History = () => {
                         <div>
                           <h3 className="font-semibold">{scan.target}</h3>
                           <p className="text-sm text-muted-foreground">
-                            {scan.asset_type} scan
+                            {scan.is_batch ? 'batch' : scan.asset_type} scan
                           </p>
                         </div>
                       </div>
@@ -270,6 +299,12 @@ const History = () => {
                     </div>
 
                     <div className="flex items-center gap-3">
+                      {scan.schedule_id && (
+                        <Badge variant="outline">Scheduled</Badge>
+                      )}
+                      {scan.is_batch && (
+                        <Badge variant="outline">Batch · {scan.metadata?.target_count ?? 0} targets</Badge>
+                      )}
                       <Badge 
                         variant="secondary"
                         className="capitalize"
@@ -281,6 +316,17 @@ const History = () => {
                         {scan.threat_level} Risk
                       </Badge>
 
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => compareWithPrevious(scan)}
+                        disabled={scan.status !== 'completed' || !getPreviousScan(scan)}
+                        title="Compare with the previous scan of this target"
+                      >
+                        <GitCompare className="w-4 h-4 mr-2" />
+                        Compare
+                      </Button>
+
                       <Button
                         variant="outline"
                         size="sm"
@@ -8,6 +8,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/components/ui/use-toast";
+import { getFunctionErrorMessage } from "@/lib/edgeFunctions";
+import { EmergencyStopControl } from "@/components/EmergencyStopControl";
 import { 
   Network, 
   Terminal, 
@@ -264,10 +266,11 @@ const NetworkTools = () => {
 
     } catch (error) {
       console.error('Tool execution error:', error);
-      setOutput(prev => prev + `\nError: ${error.message || 'Tool execution failed'}`);
+      const message = await getFunctionErrorMessage(error);
+      setOutput(prev => prev + `\nError: ${message}`);
       toast({
         title: "Execution Failed",
-        description: error.message || "Tool execution failed",
+        description: message,
         variant: "destructive",
       });
     } finally {
@@ -277,7 +280,7 @@ const NetworkTools = () => {
 
   const stopExecution = () => {
     setLoading(false);
-    setOutput(prev => prev + "\n\n--- Execution stopped by user ---");
+    setOutput(prev => prev + "\n\n--- Stopped waiting for output. Use Emergency Stop to kill the tool on the server ---");
   };
 
   const copyOutput = () => {
@@ -312,12 +315,15 @@ const NetworkTools = () => {
               Kali Linux security tools integration
             </p>
           </div>
-          <Badge 
-            variant={isKaliDetected ? "default" : "secondary"}
-            className={isKaliDetected ? "bg-green-500" : ""}
-          >
-            {isKaliDetected ? "Kali Linux Detected" : "Simulation Mode"}
-          </Badge>
+          <div className="flex items-center gap-2">
+            <Badge 
+              variant={isKaliDetected ? "default" : "secondary"}
+              className={isKaliDetected ? "bg-green-500" : ""}
+            >
+              {isKaliDetected ? "Kali Linux Detected" : "Simulation Mode"}
+            </Badge>
+            <EmergencyStopControl />
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
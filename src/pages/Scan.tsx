@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,10 +8,16 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { getFunctionErrorMessage } from "@/lib/edgeFunctions";
+import { ScanAgentProgress } from "@/components/ScanAgentProgress";
+import { ScanScheduleManager } from "@/components/ScanScheduleManager";
+import type { Tables } from "@/integrations/supabase/types";
 import { 
   Target, 
   Brain, 
@@ -20,9 +26,63 @@ import {
   AlertTriangle,
   CheckCircle,
   Loader2,
-  ExternalLink
+  ExternalLink,
+  XCircle
 } from "lucide-react";
 
+type ScanJob = Tables<'scan_jobs'>;
+type ScanProfile = Pick<Tables<'scan_profiles'>, 'id' | 'name' | 'agent_ids'>;
+
+// Entries of a pasted or uploaded list; the orchestrator validates, dedupes and expands them
+const parseTargetList = (text: string) =>
+  text
+    .split('\n')
+    .map(line => line.replace(/#.*$/, ''))
+    .flatMap(line => line.split(/[\s,;]+/))
+    .map(entry => entry.replace(/^["']|["']$/g, ''))
+    .filter(Boolean);
+type ScanStage = 'reconnaissance' | 'threat_intel' | 'agents' | 'aggregation';
+
+interface StageProgress {
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+  attempts: number;
+  error?: string;
+}
+
+const SCAN_STAGES: { stage: ScanStage; label: string; status: string; icon: typeof Search }[] = [
+  { stage: 'reconnaissance', label: 'Reconnaissance', status: '🔍 Gathering reconnaissance data from Shodan, VirusTotal, and IPInfo...', icon: Search },
+  { stage: 'threat_intel', label: 'Perplexity', status: '🌐 Searching for recent vulnerabilities with Perplexity AI...', icon: AlertTriangle },
+  { stage: 'agents', label: 'AI Analysis', status: '🤖 AI agents analyzing security posture and identifying threats...', icon: Brain },
+  { stage: 'aggregation', label: 'Results', status: '📊 Aggregating results and calculating threat level...', icon: Shield },
+];
+
+// A vulnerability as the aggregation stage reports it; agents fill in what they know
+interface ScanVulnerability {
+  name?: string;
+  title?: string;
+  description?: string;
+  severity?: string;
+  cve?: string;
+  cvss_score?: string | number;
+  exploitability?: string;
+  mitigation?: string;
+  ip?: string;
+  port?: string | number;
+  service?: string;
+}
+
+interface ScanResults {
+  scan_id: string;
+  status: string;
+  threat_level: string | null;
+  results: {
+    target?: string;
+    risk_score?: number;
+    summary?: { total_agents?: number };
+    vulnerabilities?: ScanVulnerability[];
+  } | null;
+}
+
 interface AIAgent {
   id: string;
   name: string;
@@ -49,24 +109,147 @@ interface DemoTarget {
 
 const Scan = () => {
   const [target, setTarget] = useState("");
+  const [targetMode, setTargetMode] = useState<'single' | 'bulk'>('single');
+  const [bulkTargets, setBulkTargets] = useState("");
   const [assetType, setAssetType] = useState<'domain' | 'ip' | 'url' | 'hash' | 'email'>('domain');
   const [selectedAgents, setSelectedAgents] = useState<string[]>([]);
   const [agents, setAgents] = useState<AIAgent[]>([]);
   const [loading, setLoading] = useState(false);
   const [scanProgress, setScanProgress] = useState(0);
   const [scanStatus, setScanStatus] = useState<string>("");
-  const [scanResults, setScanResults] = useState<any>(null);
+  const [scanResults, setScanResults] = useState<ScanResults | null>(null);
+  const [activeScanId, setActiveScanId] = useState<string | null>(null);
+  const [scanJob, setScanJob] = useState<ScanJob | null>(null);
   const [demoTargets, setDemoTargets] = useState<DemoTarget[]>([]);
   const [selectedDemoTarget, setSelectedDemoTarget] = useState<DemoTarget | null>(null);
+  const [profiles, setProfiles] = useState<ScanProfile[]>([]);
+  const [profileDefaults, setProfileDefaults] = useState<Partial<Record<typeof assetType, string>>>({});
+  // 'default' follows the user's default profile for the asset type, 'none' runs without a profile
+  const [profileChoice, setProfileChoice] = useState<string>('default');
   const { toast } = useToast();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const effectiveProfile = useMemo(
+    () => profileChoice === 'default'
+      ? profiles.find(profile => profile.id === profileDefaults[assetType])
+      : profiles.find(profile => profile.id === profileChoice),
+    [profileChoice, profiles, profileDefaults, assetType]
+  );
 
+  // Picking a profile (or an asset type with a default one) selects the profile's agents
   useEffect(() => {
-    fetchAgents();
-    fetchDemoTargets();
-  }, []);
+    if (!effectiveProfile || loading) return;
+    setSelectedAgents(effectiveProfile.agent_ids.length > 0
+      ? effectiveProfile.agent_ids
+      : agents.map(agent => agent.id));
+  }, [effectiveProfile, agents, loading]);
+
+  // Coming back to the page picks up the scan in the URL, or else the user's latest running scan
+  const resumeScan = useCallback(async () => {
+    const scanId = searchParams.get('scan');
+    let query = supabase.from('scan_jobs').select('*');
+
+    if (scanId) {
+      query = query.eq('scan_id', scanId);
+    } else {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      query = query
+        .eq('user_id', user.id)
+        .in('status', ['queued', 'running'])
+        // Targets of a batch are followed on the batch's details page
+        .filter('payload->>parentScanId', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(1);
+    }
+
+    const { data: job, error } = await query.maybeSingle();
+    if (error) {
+      console.error('Error resuming scan:', error);
+      return;
+    }
+    if (!job) return;
+
+    const payload = job.payload as { target?: string; assetType?: typeof assetType; agentIds?: string[] };
+    setTarget(payload.target ?? "");
+    if (payload.assetType) setAssetType(payload.assetType);
+    if (payload.agentIds) setSelectedAgents(payload.agentIds);
+    setSearchParams({ scan: job.scan_id }, { replace: true });
+    setLoading(true);
+    setActiveScanId(job.scan_id);
+  }, [searchParams, setSearchParams]);
+
+  const applyJobUpdate = useCallback(async (job: ScanJob) => {
+    setScanJob(job);
+    setScanProgress(job.progress);
+
+    const stage = SCAN_STAGES.find(entry => entry.stage === job.current_stage);
+    if (job.status === 'queued') {
+      setScanStatus(job.last_error ? `Waiting to retry: ${job.last_error}` : "Queued, waiting for a worker...");
+    } else if (job.status === 'running' && stage) {
+      setScanStatus(stage.status);
+    }
+
+    if (job.status === 'completed') {
+      const { data: scan, error } = await supabase
+        .from('scans')
+        .select('id, status, threat_level, results')
+        .eq('id', job.scan_id)
+        .single();
+
+      setActiveScanId(null);
+      setLoading(false);
+      if (error) {
+        console.error('Error fetching scan results:', error);
+        return;
+      }
+
+      setScanStatus("✅ Scan complete!");
+      setScanResults({ scan_id: scan.id, status: scan.status, threat_level: scan.threat_level, results: scan.results as ScanResults['results'] });
+      toast({
+        title: "Scan Complete",
+        description: `Successfully analyzed ${(job.payload as { target?: string }).target}`,
+      });
+    } else if (job.status === 'failed' || job.status === 'cancelled') {
+      setActiveScanId(null);
+      setLoading(false);
+      toast({
+        title: job.status === 'failed' ? "Scan Failed" : "Scan Cancelled",
+        description: job.last_error || (job.status === 'cancelled' ? "The scan was cancelled" : "The scan could not be completed"),
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  // The scan runs in a background job; follow its stages until it finishes
+  useEffect(() => {
+    if (!activeScanId) return;
+
+    const channel = supabase
+      .channel(`scan-job-${activeScanId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'scan_jobs',
+        filter: `scan_id=eq.${activeScanId}`
+      }, (payload) => applyJobUpdate(payload.new as ScanJob))
+      .subscribe();
 
-  const fetchAgents = async () => {
+    // Catch up on anything that happened before the subscription was ready
+    supabase
+      .from('scan_jobs')
+      .select('*')
+      .eq('scan_id', activeScanId)
+      .maybeSingle()
+      .then(({ data }) => { if (data) applyJobUpdate(data); });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [activeScanId, applyJobUpdate]);
+
+  const fetchAgents = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('ai_agents')
@@ -76,8 +259,8 @@ const Scan = () => {
 
       if (error) throw error;
       setAgents(data || []);
-      // Select all agents by default
-      setSelectedAgents(data?.map(agent => agent.id) || []);
+      // Select all agents by default, unless a resumed scan has already picked its own
+      setSelectedAgents(prev => prev.length > 0 ? prev : data?.map(agent => agent.id) || []);
     } catch (error) {
       console.error('Error fetching agents:', error);
       toast({
@@ -86,9 +269,40 @@ const Scan = () => {
         variant: "destructive",
       });
     }
-  };
+  }, [toast]);
 
-  const fetchDemoTargets = async () => {
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('active_workspace_id')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (profileError) throw profileError;
+      if (!profile?.active_workspace_id) return;
+
+      const [profilesResult, defaultsResult] = await Promise.all([
+        supabase.from('scan_profiles').select('id, name, agent_ids').eq('workspace_id', profile.active_workspace_id).order('name'),
+        supabase.from('scan_profile_defaults').select('asset_type, profile_id').eq('workspace_id', profile.active_workspace_id),
+      ]);
+      if (profilesResult.error) throw profilesResult.error;
+      if (defaultsResult.error) throw defaultsResult.error;
+
+      setProfiles(profilesResult.data || []);
+      setProfileDefaults(Object.fromEntries((defaultsResult.data || []).map(entry => [entry.asset_type, entry.profile_id])));
+    } catch (error) {
+      console.error('Error fetching scan profiles:', error);
+    }
+  }, []);
+
+  // Sent as the orchestrator expects it: omitted for the default, null for none
+  const requestedProfileId = () =>
+    profileChoice === 'default' ? undefined : profileChoice === 'none' ? null : profileChoice;
+
+  const fetchDemoTargets = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('demo_targets')
@@ -101,7 +315,21 @@ const Scan = () => {
     } catch (error) {
       console.error('Error fetching demo targets:', error);
     }
-  };
+  }, []);
+
+  useEffect(() => {
+    fetchAgents();
+    fetchDemoTargets();
+    fetchProfiles();
+  }, [fetchAgents, fetchDemoTargets, fetchProfiles]);
+
+  // Resume once, on arrival; after that the page keeps the URL in step itself
+  const resumed = useRef(false);
+  useEffect(() => {
+    if (resumed.current) return;
+    resumed.current = true;
+    resumeScan();
+  }, [resumeScan]);
 
   const handleDemoTargetSelect = (targetId: string) => {
     if (targetId === "custom") {
@@ -151,7 +379,87 @@ const Scan = () => {
     }
   };
 
+  const checkRateLimit = async () => {
+    const { data: rateLimitResponse, error: rateLimitError } = await supabase.functions
+      .invoke('rate-limiter', {
+        body: { endpoint: '/ai-agent-orchestrator' }
+      });
+
+    if (rateLimitError || !rateLimitResponse?.allowed) {
+      toast({
+        title: "Rate Limited",
+        description: rateLimitError
+          ? await getFunctionErrorMessage(rateLimitError)
+          : rateLimitResponse?.message || "Too many requests. Please try again later.",
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const handleBulkScan = async () => {
+    const entries = parseTargetList(bulkTargets);
+    if (entries.length === 0) {
+      toast({
+        title: "Error",
+        description: "Paste or upload at least one target",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (selectedAgents.length === 0) {
+      toast({
+        title: "Error",
+        description: "Please select at least one AI agent",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (!await checkRateLimit()) return;
+
+      const { data: queued, error: scanError } = await supabase.functions
+        .invoke('ai-agent-orchestrator', {
+          body: {
+            targets: entries,
+            agentIds: selectedAgents,
+            profileId: requestedProfileId()
+          }
+        });
+
+      if (scanError) {
+        throw scanError;
+      }
+
+      const childCount = queued.child_scan_ids?.length ?? 0;
+      const rejectedCount = queued.rejected?.length ?? 0;
+      toast({
+        title: "Batch Scan Queued",
+        description: `${childCount} target${childCount === 1 ? '' : 's'} queued${rejectedCount > 0 ? `, ${rejectedCount} skipped` : ''}`,
+      });
+      navigate(`/scan-details/${queued.scan_id}`);
+    } catch (error) {
+      console.error('Batch scan error:', error);
+      toast({
+        title: "Scan Failed",
+        description: await getFunctionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleScan = async () => {
+    if (targetMode === 'bulk') {
+      await handleBulkScan();
+      return;
+    }
+
     if (!target.trim()) {
       toast({
         title: "Error",
@@ -183,75 +491,60 @@ const Scan = () => {
     setScanProgress(0);
     setScanStatus("Initializing scan...");
     setScanResults(null);
+    setScanJob(null);
 
     try {
       // Check rate limiting first
-      const { data: rateLimitResponse, error: rateLimitError } = await supabase.functions
-        .invoke('rate-limiter', {
-          body: { endpoint: '/ai-agent-orchestrator' }
-        });
-
-      if (rateLimitError || !rateLimitResponse?.allowed) {
-        toast({
-          title: "Rate Limited",
-          description: rateLimitResponse?.message || "Too many requests. Please try again later.",
-          variant: "destructive",
-        });
+      if (!await checkRateLimit()) {
+        setLoading(false);
         return;
       }
 
-      // Simulate progress updates with status messages
-      let currentProgress = 0;
-      const progressInterval = setInterval(() => {
-        currentProgress += 8;
-        if (currentProgress <= 25) {
-          setScanStatus("🔍 Gathering reconnaissance data from Shodan, VirusTotal, and IPInfo...");
-        } else if (currentProgress <= 45) {
-          setScanStatus("🌐 Searching for recent vulnerabilities with Perplexity AI...");
-        } else if (currentProgress <= 75) {
-          setScanStatus("🤖 AI agents analyzing security posture and identifying threats...");
-        } else if (currentProgress <= 90) {
-          setScanStatus("📊 Aggregating results and calculating threat level...");
-        }
-        setScanProgress(Math.min(currentProgress, 90));
-      }, 800);
-
-      // Start the scan
-      const { data: scanResult, error: scanError } = await supabase.functions
+      // Enqueue the scan; progress arrives from its job over realtime
+      const { data: queued, error: scanError } = await supabase.functions
         .invoke('ai-agent-orchestrator', {
           body: {
             target,
             assetType,
-            agentIds: selectedAgents
+            agentIds: selectedAgents,
+            profileId: requestedProfileId()
           }
         });
 
-      clearInterval(progressInterval);
-      setScanProgress(100);
-      setScanStatus("✅ Scan complete!");
-
       if (scanError) {
         throw scanError;
       }
 
-      setScanResults(scanResult);
-      toast({
-        title: "Scan Complete",
-        description: `Successfully analyzed ${target} with ${selectedAgents.length} AI agents`,
-      });
-
+      setScanStatus("Queued, waiting for a worker...");
+      setSearchParams({ scan: queued.scan_id }, { replace: true });
+      setActiveScanId(queued.scan_id);
     } catch (error) {
       console.error('Scan error:', error);
       toast({
         title: "Scan Failed",
-        description: error.message || "An error occurred during the scan",
+        description: await getFunctionErrorMessage(error),
         variant: "destructive",
       });
-    } finally {
       setLoading(false);
     }
   };
 
+  const stageClasses = (stage: ScanStage) => {
+    const status = (scanJob?.stages as Partial<Record<ScanStage, StageProgress>> | undefined)?.[stage]?.status;
+    if (status === 'failed') return 'border-destructive bg-destructive/10 text-destructive';
+    if (status === 'completed' || status === 'running') return 'border-primary bg-primary/10 text-primary';
+    return 'border-border text-muted-foreground';
+  };
+
+  const stageDetail = (stage: ScanStage) => {
+    const progress = (scanJob?.stages as Partial<Record<ScanStage, StageProgress>> | undefined)?.[stage];
+    if (!progress || progress.status === 'pending') return null;
+    if (progress.status === 'running' && progress.attempts > 1) return `retry ${progress.attempts - 1}`;
+    if (progress.status === 'failed') return 'failed';
+    if (progress.status === 'skipped') return 'skipped';
+    return progress.status === 'running' ? 'running' : null;
+  };
+
   const getAgentTypeIcon = (type: string) => {
     switch (type) {
       case 'reconnaissance': return <Search className="w-4 h-4" />;
@@ -399,59 +692,120 @@ const Scan = () => {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-6">
-            {/* Target Input */}
-            <div className="space-y-2">
-              <Label htmlFor="target">Target</Label>
-              <Input
-                id="target"
-                placeholder="Enter domain, IP, URL, hash, or email"
-                value={target}
-                onChange={(e) => {
-                  setTarget(e.target.value);
-                  // Clear selected demo if manually editing
-                  if (selectedDemoTarget && e.target.value !== selectedDemoTarget.target_value) {
-                    setSelectedDemoTarget(null);
-                  }
-                }}
-                className="text-lg"
-              />
-              {selectedDemoTarget && (
-                <p className="text-xs text-muted-foreground">
-                  Using demo target: {selectedDemoTarget.name}
-                </p>
-              )}
-            </div>
+            <Tabs value={targetMode} onValueChange={(value) => setTargetMode(value as 'single' | 'bulk')}>
+              <TabsList>
+                <TabsTrigger value="single">Single Target</TabsTrigger>
+                <TabsTrigger value="bulk">Bulk Import</TabsTrigger>
+              </TabsList>
 
-            {/* Asset Type Selection */}
-            <div className="space-y-3">
-              <Label>Asset Type</Label>
-              <RadioGroup
-                value={assetType}
-                onValueChange={(value) => setAssetType(value as any)}
-                className="grid grid-cols-2 md:grid-cols-5 gap-4"
-              >
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="domain" id="domain" />
-                  <Label htmlFor="domain">Domain</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="ip" id="ip" />
-                  <Label htmlFor="ip">IP Address</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="url" id="url" />
-                  <Label htmlFor="url">URL</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="hash" id="hash" />
-                  <Label htmlFor="hash">Hash</Label>
+              <TabsContent value="single" className="space-y-6">
+                {/* Target Input */}
+                <div className="space-y-2">
+                  <Label htmlFor="target">Target</Label>
+                  <Input
+                    id="target"
+                    placeholder="Enter domain, IP, URL, hash, or email"
+                    value={target}
+                    onChange={(e) => {
+                      setTarget(e.target.value);
+                      // Clear selected demo if manually editing
+                      if (selectedDemoTarget && e.target.value !== selectedDemoTarget.target_value) {
+                        setSelectedDemoTarget(null);
+                      }
+                    }}
+                    className="text-lg"
+                  />
+                  {selectedDemoTarget && (
+                    <p className="text-xs text-muted-foreground">
+                      Using demo target: {selectedDemoTarget.name}
+                    </p>
+                  )}
                 </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="email" id="email" />
-                  <Label htmlFor="email">Email</Label>
+
+                {/* Asset Type Selection */}
+                <div className="space-y-3">
+                  <Label>Asset Type</Label>
+                  <RadioGroup
+                    value={assetType}
+                    onValueChange={(value) => setAssetType(value as typeof assetType)}
+                    className="grid grid-cols-2 md:grid-cols-5 gap-4"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="domain" id="domain" />
+                      <Label htmlFor="domain">Domain</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="ip" id="ip" />
+                      <Label htmlFor="ip">IP Address</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="url" id="url" />
+                      <Label htmlFor="url">URL</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="hash" id="hash" />
+                      <Label htmlFor="hash">Hash</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="email" id="email" />
+                      <Label htmlFor="email">Email</Label>
+                    </div>
+                  </RadioGroup>
                 </div>
-              </RadioGroup>
-            </div>
+              </TabsContent>
+
+              <TabsContent value="bulk" className="space-y-2">
+                <Label htmlFor="bulk-targets">Targets</Label>
+                <Textarea
+                  id="bulk-targets"
+                  placeholder={"example.com\n192.0.2.0/28\nhttps://app.example.com/login"}
+                  value={bulkTargets}
+                  onChange={(e) => setBulkTargets(e.target.value)}
+                  rows={8}
+                  className="font-mono text-sm"
+                />
+                <Input
+                  type="file"
+                  accept=".txt,.csv,text/plain,text/csv"
+                  onChange={async (e) => {
+                    const file = e.target.files?.[0];
+                    if (file) setBulkTargets(await file.text());
+                  }}
+                />
+                <p className="text-xs text-muted-foreground">
+                  One target per line or comma separated, from a TXT or CSV file or pasted. Asset types are detected,
+                  IPv4 CIDR ranges are expanded (up to 256 addresses per batch) and duplicates or out-of-scope
+                  targets are skipped. Each target runs as its own scan within the batch.
+                  {bulkTargets.trim() && ` ${parseTargetList(bulkTargets).length} entries.`}
+                </p>
+              </TabsContent>
+            </Tabs>
+
+            {/* Scan Profile */}
+            {profiles.length > 0 && (
+              <div className="space-y-2">
+                <Label>Scan Profile</Label>
+                <Select value={profileChoice} onValueChange={setProfileChoice}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">
+                      {targetMode === 'bulk'
+                        ? 'Default profile for each asset type'
+                        : `Default for ${assetType}${effectiveProfile ? ` (${effectiveProfile.name})` : ' (none)'}`}
+                    </SelectItem>
+                    <SelectItem value="none">No profile</SelectItem>
+                    {profiles.map(profile => (
+                      <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Sets the agents, reconnaissance services, tool parameters, model and risk policy. Manage profiles in Settings.
+                </p>
+              </div>
+            )}
 
             {/* AI Agents Selection */}
             <div className="space-y-3">
@@ -493,7 +847,7 @@ const Scan = () => {
             {/* Scan Button */}
             <Button
               onClick={handleScan}
-              disabled={loading || !target.trim()}
+              disabled={loading || !(targetMode === 'bulk' ? bulkTargets.trim() : target.trim())}
               className="w-full gap-2"
               size="lg"
             >
@@ -505,15 +859,18 @@ const Scan = () => {
               ) : (
                 <>
                   <Target className="w-4 h-4" />
-                  Start Reconnaissance Scan
+                  {targetMode === 'bulk' ? 'Start Batch Scan' : 'Start Reconnaissance Scan'}
                 </>
               )}
             </Button>
           </CardContent>
         </Card>
 
+        {/* Recurring scans of the configured target */}
+        <ScanScheduleManager defaults={{ target, assetType, agentIds: selectedAgents }} />
+
         {/* Progress */}
-        {loading && (
+        {loading && targetMode === 'single' && (
           <Card>
             <CardContent className="pt-6">
               <div className="space-y-4">
@@ -538,31 +895,28 @@ const Scan = () => {
 
                 {/* Stage Indicators */}
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-                  <div className={`p-3 rounded-lg border text-center transition-colors ${
-                    scanProgress > 0 ? 'border-primary bg-primary/10' : 'border-border'
-                  }`}>
-                    <Search className={`w-4 h-4 mx-auto mb-1 ${scanProgress > 0 ? 'text-primary' : 'text-muted-foreground'}`} />
-                    <p className="text-xs font-medium">Reconnaissance</p>
-                  </div>
-                  <div className={`p-3 rounded-lg border text-center transition-colors ${
-                    scanProgress > 25 ? 'border-primary bg-primary/10' : 'border-border'
-                  }`}>
-                    <AlertTriangle className={`w-4 h-4 mx-auto mb-1 ${scanProgress > 25 ? 'text-primary' : 'text-muted-foreground'}`} />
-                    <p className="text-xs font-medium">Perplexity</p>
-                  </div>
-                  <div className={`p-3 rounded-lg border text-center transition-colors ${
-                    scanProgress > 45 ? 'border-primary bg-primary/10' : 'border-border'
-                  }`}>
-                    <Brain className={`w-4 h-4 mx-auto mb-1 ${scanProgress > 45 ? 'text-primary' : 'text-muted-foreground'}`} />
-                    <p className="text-xs font-medium">AI Analysis</p>
-                  </div>
-                  <div className={`p-3 rounded-lg border text-center transition-colors ${
-                    scanProgress > 75 ? 'border-primary bg-primary/10' : 'border-border'
-                  }`}>
-                    <Shield className={`w-4 h-4 mx-auto mb-1 ${scanProgress > 75 ? 'text-primary' : 'text-muted-foreground'}`} />
-                    <p className="text-xs font-medium">Results</p>
-                  </div>
+                  {SCAN_STAGES.map(({ stage, label, icon: Icon }) => (
+                    <div key={stage} className={`p-3 rounded-lg border text-center transition-colors ${stageClasses(stage)}`}>
+                      {stageDetail(stage) === 'failed'
+                        ? <XCircle className="w-4 h-4 mx-auto mb-1" />
+                        : <Icon className="w-4 h-4 mx-auto mb-1" />}
+                      <p className="text-xs font-medium text-foreground">{label}</p>
+                      {stageDetail(stage) && <p className="text-[10px]">{stageDetail(stage)}</p>}
+                    </div>
+                  ))}
                 </div>
+
+                {activeScanId && (
+                  <ScanAgentProgress
+                    scanId={activeScanId}
+                    agents={agents.filter(agent => selectedAgents.includes(agent.id))}
+                    skipped={(scanJob?.stages as Partial<Record<ScanStage, StageProgress>> | undefined)?.agents?.status === 'skipped'}
+                  />
+                )}
+
+                <p className="text-xs text-muted-foreground">
+                  The scan runs in the background; you can leave this page and come back to it here or find it in History.
+                </p>
               </div>
             </CardContent>
           </Card>
@@ -599,19 +953,19 @@ const Scan = () => {
                   </div>
                   <div className="text-center p-3 bg-muted rounded-lg">
                     <p className="text-2xl font-bold text-red-500">
-                      {scanResults.results?.vulnerabilities?.filter((v: any) => v.severity === 'High' || v.severity === 'Critical').length || 0}
+                      {scanResults.results?.vulnerabilities?.filter((v) => v.severity === 'High' || v.severity === 'Critical').length || 0}
                     </p>
                     <p className="text-xs text-muted-foreground">High Risk</p>
                   </div>
                   <div className="text-center p-3 bg-muted rounded-lg">
                     <p className="text-2xl font-bold text-yellow-500">
-                      {scanResults.results?.vulnerabilities?.filter((v: any) => v.severity === 'Medium').length || 0}
+                      {scanResults.results?.vulnerabilities?.filter((v) => v.severity === 'Medium').length || 0}
                     </p>
                     <p className="text-xs text-muted-foreground">Medium Risk</p>
                   </div>
                   <div className="text-center p-3 bg-muted rounded-lg">
                     <p className="text-2xl font-bold text-green-500">
-                      {scanResults.results?.vulnerabilities?.filter((v: any) => v.severity === 'Low').length || 0}
+                      {scanResults.results?.vulnerabilities?.filter((v) => v.severity === 'Low').length || 0}
                     </p>
                     <p className="text-xs text-muted-foreground">Low Risk</p>
                   </div>
@@ -620,7 +974,7 @@ const Scan = () => {
             </Card>
 
             {/* High Risk Vulnerabilities */}
-            {scanResults.results?.vulnerabilities?.filter((v: any) => v.severity === 'High' || v.severity === 'Critical').length > 0 && (
+            {scanResults.results?.vulnerabilities?.filter((v) => v.severity === 'High' || v.severity === 'Critical').length > 0 && (
               <Card className="border-red-500/30">
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2 text-red-500">
@@ -643,8 +997,8 @@ const Scan = () => {
                       </thead>
                       <tbody>
                         {scanResults.results.vulnerabilities
-                          .filter((v: any) => v.severity === 'High' || v.severity === 'Critical')
-                          .map((vuln: any, idx: number) => (
+                          .filter((v) => v.severity === 'High' || v.severity === 'Critical')
+                          .map((vuln, idx) => (
                             <tr key={idx} className="border-b hover:bg-muted/50">
                               <td className="p-2 font-mono text-xs">{vuln.ip || scanResults.results?.target}</td>
                               <td className="p-2">{vuln.port || '-'}</td>
@@ -661,7 +1015,7 @@ const Scan = () => {
                                 </div>
                               </td>
                               <td className="p-2">
-                                <span className={`font-bold ${parseFloat(vuln.cvss_score) >= 7 ? 'text-red-500' : parseFloat(vuln.cvss_score) >= 4 ? 'text-yellow-500' : 'text-green-500'}`}>
+                                <span className={`font-bold ${parseFloat(String(vuln.cvss_score)) >= 7 ? 'text-red-500' : parseFloat(String(vuln.cvss_score)) >= 4 ? 'text-yellow-500' : 'text-green-500'}`}>
                                   {vuln.cvss_score || '-'}
                                 </span>
                               </td>
@@ -675,7 +1029,7 @@ const Scan = () => {
             )}
 
             {/* Medium/Low Risk Vulnerabilities */}
-            {scanResults.results?.vulnerabilities?.filter((v: any) => v.severity === 'Medium' || v.severity === 'Low').length > 0 && (
+            {scanResults.results?.vulnerabilities?.filter((v) => v.severity === 'Medium' || v.severity === 'Low').length > 0 && (
               <Card className="border-yellow-500/30">
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2 text-yellow-500">
@@ -697,8 +1051,8 @@ const Scan = () => {
                       </thead>
                       <tbody>
                         {scanResults.results.vulnerabilities
-                          .filter((v: any) => v.severity === 'Medium' || v.severity === 'Low')
-                          .map((vuln: any, idx: number) => (
+                          .filter((v) => v.severity === 'Medium' || v.severity === 'Low')
+                          .map((vuln, idx) => (
                             <tr key={idx} className="border-b hover:bg-muted/50">
                               <td className="p-2 font-mono text-xs">{vuln.ip || scanResults.results?.target}</td>
                               <td className="p-2">{vuln.port || '-'}</td>
@@ -732,7 +1086,7 @@ const Scan = () => {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
-                    {scanResults.results.vulnerabilities.slice(0, 5).map((vuln: any, idx: number) => (
+                    {scanResults.results.vulnerabilities.slice(0, 5).map((vuln, idx) => (
                       <div key={idx} className="border rounded-lg p-4 space-y-3">
                         <div className="flex items-start justify-between">
                           <div className="space-y-1">
@@ -758,7 +1112,7 @@ const Scan = () => {
                           </div>
                           <div>
                             <span className="font-medium text-muted-foreground">CVSS:</span>
-                            <p className={`font-bold ${parseFloat(vuln.cvss_score) >= 7 ? 'text-red-500' : parseFloat(vuln.cvss_score) >= 4 ? 'text-yellow-500' : 'text-green-500'}`}>
+                            <p className={`font-bold ${parseFloat(String(vuln.cvss_score)) >= 7 ? 'text-red-500' : parseFloat(String(vuln.cvss_score)) >= 4 ? 'text-yellow-500' : 'text-green-500'}`}>
                               {vuln.cvss_score || 'N/A'}
                             </p>
                           </div>
@@ -798,6 +1152,7 @@ const Scan = () => {
                       setScanResults(null);
                       setScanProgress(0);
                       setSelectedDemoTarget(null);
+                      setSearchParams({});
                     }}
                   >
                     New Scan
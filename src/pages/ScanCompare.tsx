@@ -0,0 +1,316 @@
+import { useCallback, useState, useEffect } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { getFunctionErrorMessage } from "@/lib/edgeFunctions";
+import { getFindingStatusColor, getFindingStatusLabel } from "@/lib/findingLifecycle";
+import {
+  ArrowLeft,
+  GitCompare,
+  Clock,
+  Plus,
+  Minus,
+  Equal,
+  TrendingUp,
+  TrendingDown,
+  Network
+} from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+type Scan = Tables<'scans'>;
+
+interface DiffFinding {
+  id: string;
+  name: string;
+  cve: string | null;
+  severity: string;
+  status: string;
+  port: number | null;
+  service: string | null;
+}
+
+interface DiffScan {
+  id: string;
+  created_at: string;
+  threat_level: string | null;
+  risk_score: number | null;
+}
+
+interface ServiceVersion {
+  product: string | null;
+  version: string | null;
+}
+
+interface ScanDiff {
+  target: string;
+  base: DiffScan;
+  compare: DiffScan;
+  findings: { new: DiffFinding[]; resolved: DiffFinding[]; unchanged: DiffFinding[] };
+  ports: { opened: number[]; closed: number[] };
+  services: { changed: { port: number; protocol: string; before: ServiceVersion; after: ServiceVersion }[] };
+  threat_level: { before: string | null; after: string | null; delta: number };
+  risk_score: { before: number | null; after: number | null; delta: number | null };
+}
+
+const ScanCompare = () => {
+  const { scanId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [candidates, setCandidates] = useState<Scan[]>([]);
+  const [diff, setDiff] = useState<ScanDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const baseScanId = searchParams.get('base');
+
+  // Earlier completed scans of the same target that can serve as the baseline
+  const fetchCandidates = useCallback(async () => {
+    const { data: scan } = await supabase.from('scans').select('*').eq('id', scanId).single();
+    if (!scan) return;
+
+    const { data, error } = await supabase
+      .from('scans')
+      .select('*')
+      .eq('target', scan.target)
+      .eq('asset_type', scan.asset_type)
+      .eq('status', 'completed')
+      .lt('created_at', scan.created_at)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching comparable scans:', error);
+      return;
+    }
+    setCandidates(data || []);
+  }, [scanId]);
+
+  const fetchDiff = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('scan-diff', {
+        body: { compareScanId: scanId, baseScanId: baseScanId ?? undefined }
+      });
+
+      if (error) throw error;
+      setDiff(data);
+    } catch (error) {
+      console.error('Error comparing scans:', error);
+      setDiff(null);
+      toast({
+        title: "Comparison Failed",
+        description: await getFunctionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [scanId, baseScanId, toast]);
+
+  useEffect(() => {
+    if (scanId) {
+      fetchCandidates();
+      fetchDiff();
+    }
+  }, [scanId, fetchCandidates, fetchDiff]);
+
+  const getThreatBadgeColor = (level: string | null) => {
+    switch (level) {
+      case 'critical': return 'bg-red-500 hover:bg-red-600';
+      case 'high': return 'bg-orange-500 hover:bg-orange-600';
+      case 'medium': return 'bg-yellow-500 hover:bg-yellow-600';
+      default: return 'bg-green-500 hover:bg-green-600';
+    }
+  };
+
+  const renderDelta = (delta: number | null, suffix = '') => {
+    if (delta === null) return <span className="text-muted-foreground">n/a</span>;
+    if (delta === 0) return <span className="text-muted-foreground">no change</span>;
+    return delta > 0 ? (
+      <span className="text-red-500 flex items-center gap-1"><TrendingUp className="w-4 h-4" />+{delta}{suffix}</span>
+    ) : (
+      <span className="text-green-500 flex items-center gap-1"><TrendingDown className="w-4 h-4" />{delta}{suffix}</span>
+    );
+  };
+
+  const renderFindings = (findings: DiffFinding[], empty: string) => (
+    findings.length === 0 ? (
+      <p className="text-sm text-muted-foreground">{empty}</p>
+    ) : (
+      <ul className="space-y-2">
+        {findings.map(finding => (
+          <li key={finding.id} className="flex items-center justify-between border rounded-lg p-2 text-sm">
+            <div>
+              <span className="font-medium">{finding.name}</span>
+              {finding.cve && <span className="font-mono text-xs text-muted-foreground ml-2">{finding.cve}</span>}
+              {finding.port !== null && <span className="text-xs text-muted-foreground ml-2">port {finding.port}</span>}
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge className={`${getThreatBadgeColor(finding.severity)} text-white capitalize`}>{finding.severity}</Badge>
+              <Badge className={`${getFindingStatusColor(finding.status)} text-white`}>{getFindingStatusLabel(finding.status)}</Badge>
+            </div>
+          </li>
+        ))}
+      </ul>
+    )
+  );
+
+  return (
+    <div className="container mx-auto p-6 max-w-6xl">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" onClick={() => navigate('/history')}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to History
+            </Button>
+            <div className="space-y-1">
+              <h1 className="text-3xl font-bold flex items-center gap-2">
+                <GitCompare className="w-8 h-8 text-primary" />
+                Compare Scans
+              </h1>
+              <p className="text-muted-foreground">
+                {diff ? `What changed on ${diff.target}` : 'What changed between two scans of the same target'}
+              </p>
+            </div>
+          </div>
+          <Select
+            value={baseScanId ?? diff?.base.id ?? ''}
+            onValueChange={(value) => setSearchParams({ base: value })}
+            disabled={candidates.length === 0}
+          >
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Compare against..." />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map(candidate => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {new Date(candidate.created_at).toLocaleString()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <Clock className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : !diff ? (
+          <Card>
+            <CardContent className="pt-6 text-center text-muted-foreground">
+              There is no earlier completed scan of this target to compare against.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Summary */}
+            <Card>
+              <CardContent className="pt-6">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div>
+                    <p className="text-sm font-medium">Baseline</p>
+                    <p className="text-sm text-muted-foreground">{new Date(diff.base.created_at).toLocaleString()}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium">This scan</p>
+                    <p className="text-sm text-muted-foreground">{new Date(diff.compare.created_at).toLocaleString()}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium">Threat Level</p>
+                    <div className="flex items-center gap-2 mt-1">
+                      <Badge className={`${getThreatBadgeColor(diff.threat_level.before)} text-white capitalize`}>{diff.threat_level.before}</Badge>
+                      →
+                      <Badge className={`${getThreatBadgeColor(diff.threat_level.after)} text-white capitalize`}>{diff.threat_level.after}</Badge>
+                    </div>
+                    <div className="text-sm mt-1">{renderDelta(diff.threat_level.delta, ' levels')}</div>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium">Risk Score</p>
+                    <p className="text-lg">
+                      {diff.risk_score.before ?? 'N/A'} → {diff.risk_score.after ?? 'N/A'}
+                    </p>
+                    <div className="text-sm">{renderDelta(diff.risk_score.delta)}</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Findings */}
+            <div className="grid gap-4 md:grid-cols-3">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <Plus className="w-4 h-4 text-red-500" />
+                    New ({diff.findings.new.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>{renderFindings(diff.findings.new, 'No new findings')}</CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <Minus className="w-4 h-4 text-green-500" />
+                    Resolved ({diff.findings.resolved.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>{renderFindings(diff.findings.resolved, 'Nothing resolved since the baseline')}</CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <Equal className="w-4 h-4" />
+                    Unchanged ({diff.findings.unchanged.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>{renderFindings(diff.findings.unchanged, 'No findings in both scans')}</CardContent>
+              </Card>
+            </div>
+
+            {/* Ports and services */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Network className="w-5 h-5" />
+                  Ports and Services
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium w-20">Opened</span>
+                  {diff.ports.opened.length === 0
+                    ? <span className="text-sm text-muted-foreground">none</span>
+                    : diff.ports.opened.map(port => <Badge key={port} className="bg-red-500 text-white">{port}</Badge>)}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium w-20">Closed</span>
+                  {diff.ports.closed.length === 0
+                    ? <span className="text-sm text-muted-foreground">none</span>
+                    : diff.ports.closed.map(port => <Badge key={port} className="bg-green-500 text-white">{port}</Badge>)}
+                </div>
+                <div className="space-y-2">
+                  <span className="text-sm font-medium">Changed versions</span>
+                  {diff.services.changed.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No service versions changed</p>
+                  ) : (
+                    diff.services.changed.map(service => (
+                      <div key={`${service.port}/${service.protocol}`} className="border rounded-lg p-2 text-sm font-mono">
+                        {service.port}/{service.protocol}: {service.before.product} {service.before.version} → {service.after.product} {service.after.version}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScanCompare;
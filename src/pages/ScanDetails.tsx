@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useCallback, useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -17,9 +17,28 @@ import {
   Shield,
   FileText,
   Download,
-  Bug
+  Bug,
+  Server,
+  RotateCcw,
+  XCircle
 } from "lucide-react";
 import VulnerabilityAssessment from "@/components/VulnerabilityAssessment";
+import { FindingTriage } from "@/components/FindingTriage";
+import { BatchScanSummary } from "@/components/BatchScanSummary";
+import { getFindingStatusColor, getFindingStatusLabel } from "@/lib/findingLifecycle";
+import { getFunctionErrorMessage } from "@/lib/edgeFunctions";
+import { cancelScan, isRetryable, retryAgentExecution } from "@/lib/scanControl";
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+type Finding = Tables<'findings'>;
+type FindingStatusChange = Tables<'finding_status_history'>;
+
+interface FindingSource {
+  agent_id: string | null;
+  agent_name: string;
+  severity: string;
+  cvss_score: number | null;
+}
 
 interface ScanDetails {
   id: string;
@@ -31,10 +50,22 @@ interface ScanDetails {
   completed_at: string;
   results: any;
   metadata: any;
+  asset_id: string | null;
+  is_batch: boolean;
+  parent_scan_id: string | null;
+  profile_snapshot: Json | null;
+}
+
+// The scan profile as it was when the scan started
+interface ProfileSnapshot {
+  name: string;
+  llm_model: string;
+  recon_services: string[];
 }
 
 interface AgentExecution {
   id: string;
+  scan_id: string;
   agent_id: string;
   status: string;
   input_data: any;
@@ -43,6 +74,28 @@ interface AgentExecution {
   created_at: string;
   completed_at: string;
   error_message?: string;
+  attempts: Json;
+  output_validation: Json | null;
+}
+
+// One model request of an agent execution, recorded by scan-worker's call policy
+interface CallAttempt {
+  attempt: number;
+  provider: string;
+  model: string;
+  duration_ms: number;
+  status: 'succeeded' | 'failed';
+  http_status?: number;
+  failure?: string;
+  error?: string;
+  retry_in_ms?: number;
+}
+
+// How scan-worker checked the agent's response against its output schema
+interface OutputValidation {
+  schema: string;
+  status: 'valid' | 'repaired' | 'reasked' | 'invalid';
+  errors: { path: string; message: string }[];
 }
 
 const ScanDetails = () => {
@@ -52,17 +105,13 @@ const ScanDetails = () => {
   const [scan, setScan] = useState<ScanDetails | null>(null);
   const [executions, setExecutions] = useState<AgentExecution[]>([]);
   const [agents, setAgents] = useState<any[]>([]);
+  const [findings, setFindings] = useState<Finding[]>([]);
+  const [findingHistory, setFindingHistory] = useState<FindingStatusChange[]>([]);
   const [loading, setLoading] = useState(true);
+  // The cancel or retried execution in flight, so its button can be disabled
+  const [controlling, setControlling] = useState<string | null>(null);
 
-  useEffect(() => {
-    if (scanId) {
-      fetchScanDetails();
-      fetchAgentExecutions();
-      fetchAgents();
-    }
-  }, [scanId]);
-
-  const fetchScanDetails = async () => {
+  const fetchScanDetails = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('scans')
@@ -81,9 +130,9 @@ const ScanDetails = () => {
       });
       navigate('/history');
     }
-  };
+  }, [scanId, navigate, toast]);
 
-  const fetchAgentExecutions = async () => {
+  const fetchAgentExecutions = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('agent_executions')
@@ -96,9 +145,35 @@ const ScanDetails = () => {
     } catch (error) {
       console.error('Error fetching agent executions:', error);
     }
-  };
+  }, [scanId]);
 
-  const fetchAgents = async () => {
+  const fetchFindings = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('findings')
+        .select('*')
+        .eq('scan_id', scanId)
+        .order('cvss_score', { ascending: false, nullsFirst: false });
+
+      if (error) throw error;
+      setFindings(data || []);
+
+      if (data && data.length > 0) {
+        const { data: history, error: historyError } = await supabase
+          .from('finding_status_history')
+          .select('*')
+          .in('finding_id', data.map(finding => finding.id))
+          .order('created_at', { ascending: true });
+
+        if (historyError) throw historyError;
+        setFindingHistory(history || []);
+      }
+    } catch (error) {
+      console.error('Error fetching findings:', error);
+    }
+  }, [scanId]);
+
+  const fetchAgents = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('ai_agents')
@@ -111,13 +186,53 @@ const ScanDetails = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
+
+  useEffect(() => {
+    if (scanId) {
+      fetchScanDetails();
+      fetchAgentExecutions();
+      fetchFindings();
+      fetchAgents();
+    }
+  }, [scanId, fetchScanDetails, fetchAgentExecutions, fetchFindings, fetchAgents]);
+
+  // Keep status and threat level current while the scan (or a batch's children) runs,
+  // and pick up the findings and agent runs of a retry once it is re-aggregated
+  useEffect(() => {
+    if (!scanId) return;
+
+    const channel = supabase
+      .channel(`scan-details-${scanId}`)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'scans',
+        filter: `id=eq.${scanId}`
+      }, (payload) => {
+        const updated = payload.new as ScanDetails;
+        setScan(updated);
+        if (updated.status === 'completed') fetchFindings();
+      })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'agent_executions',
+        filter: `scan_id=eq.${scanId}`
+      }, () => fetchAgentExecutions())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [scanId, fetchAgentExecutions, fetchFindings]);
 
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'completed': return <CheckCircle className="w-4 h-4 text-green-500" />;
       case 'failed': return <AlertTriangle className="w-4 h-4 text-red-500" />;
       case 'running': return <Clock className="w-4 h-4 text-blue-500 animate-spin" />;
+      case 'cancelled': return <XCircle className="w-4 h-4 text-muted-foreground" />;
       default: return <Clock className="w-4 h-4 text-yellow-500" />;
     }
   };
@@ -136,6 +251,65 @@ const ScanDetails = () => {
     return agent?.name || 'Unknown Agent';
   };
 
+  // Which agents reported a finding, and how many of the scan's agents agreed on it
+  const getSourceBadge = (finding: Finding) => {
+    const sources = (finding.sources as unknown as FindingSource[] | null) ?? [];
+    const names = sources.length > 0
+      ? [...new Set(sources.map(source => source.agent_name))]
+      : finding.agent_id ? [getAgentName(finding.agent_id)] : [];
+
+    if (names.length === 0) return null;
+
+    return (
+      <Badge variant="outline" title={`Reported by ${names.join(', ')}`}>
+        {names.length === 1 ? names[0] : `${names.length} agents`}
+        {finding.confidence !== null && ` · ${Math.round(finding.confidence * 100)}% consensus`}
+      </Badge>
+    );
+  };
+
+  const handleCancel = async () => {
+    if (!scan) return;
+
+    setControlling('cancel');
+    try {
+      const { cancelled_executions } = await cancelScan(scan.id);
+      toast({
+        title: "Scan Cancelled",
+        description: `${scan.target} was cancelled${cancelled_executions > 0 ? ` along with ${cancelled_executions} running agent${cancelled_executions === 1 ? '' : 's'}` : ''}`,
+      });
+    } catch (error) {
+      console.error('Error cancelling scan:', error);
+      toast({
+        title: "Error",
+        description: await getFunctionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setControlling(null);
+    }
+  };
+
+  const handleRetry = async (execution: AgentExecution) => {
+    setControlling(execution.id);
+    try {
+      await retryAgentExecution(execution.scan_id, execution.id);
+      toast({
+        title: "Agent Retry Queued",
+        description: `${getAgentName(execution.agent_id)} will rerun on the stored reconnaissance data, then the scan is re-aggregated`,
+      });
+    } catch (error) {
+      console.error('Error retrying agent:', error);
+      toast({
+        title: "Error",
+        description: await getFunctionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setControlling(null);
+    }
+  };
+
   const exportResults = () => {
     if (scan?.results) {
       const dataStr = JSON.stringify(scan.results, null, 2);
@@ -158,6 +332,8 @@ const ScanDetails = () => {
     );
   }
 
+  const profileSnapshot = scan.profile_snapshot as unknown as ProfileSnapshot | null;
+
   return (
     <div className="container mx-auto p-6 max-w-6xl">
       <div className="space-y-6">
@@ -183,6 +359,18 @@ const ScanDetails = () => {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {(scan.status === 'pending' || scan.status === 'running') && (
+              <Button onClick={handleCancel} variant="destructive" size="sm" disabled={controlling !== null}>
+                <XCircle className="w-4 h-4 mr-2" />
+                {controlling === 'cancel' ? 'Cancelling...' : 'Cancel Scan'}
+              </Button>
+            )}
+            {scan.asset_id && (
+              <Button onClick={() => navigate(`/assets/${scan.asset_id}`)} variant="outline" size="sm">
+                <Server className="w-4 h-4 mr-2" />
+                View Asset
+              </Button>
+            )}
             <Button onClick={exportResults} variant="outline" size="sm">
               <Download className="w-4 h-4 mr-2" />
               Export Results
@@ -224,352 +412,428 @@ const ScanDetails = () => {
                   <p className="text-lg">{new Date(scan.completed_at).toLocaleString()}</p>
                 </div>
               )}
+              {profileSnapshot && (
+                <div>
+                  <p className="text-sm font-medium">Profile</p>
+                  <p className="text-lg">{profileSnapshot.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {profileSnapshot.recon_services.join(', ')} · {profileSnapshot.llm_model}
+                  </p>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
 
+        {scan.parent_scan_id && (
+          <Button variant="link" className="px-0" onClick={() => navigate(`/scan-details/${scan.parent_scan_id}`)}>
+            Part of a batch scan; view the batch
+          </Button>
+        )}
+
         {/* Detailed Results */}
-        <Tabs defaultValue="overview" className="space-y-4">
-          <TabsList>
-            <TabsTrigger value="overview">Overview</TabsTrigger>
-            <TabsTrigger value="vulnerabilities">
-              <Bug className="w-4 h-4 mr-2" />
-              Vulnerabilities
-            </TabsTrigger>
-            <TabsTrigger value="agents">AI Analysis</TabsTrigger>
-            <TabsTrigger value="raw">Raw Data</TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="overview" className="space-y-4">
-            {/* Risk Assessment Summary - Show First */}
-            <Card className="border-l-4" style={{ borderLeftColor: scan.threat_level === 'critical' ? '#ef4444' : scan.threat_level === 'high' ? '#f97316' : scan.threat_level === 'medium' ? '#eab308' : '#22c55e' }}>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Shield className="w-5 h-5" />
-                  Risk Assessment Summary
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <div className="text-center p-4 bg-muted rounded-lg">
-                    <p className="text-sm font-medium text-muted-foreground">Overall Risk Score</p>
-                    <p className="text-3xl font-bold mt-1">
-                      {scan.results?.risk_score ? scan.results.risk_score.toFixed(1) : 'N/A'}/10
-                    </p>
-                  </div>
-                  <div className="text-center p-4 bg-muted rounded-lg">
-                    <p className="text-sm font-medium text-muted-foreground">Threat Level</p>
-                    <Badge className={`text-white mt-2 text-lg px-4 py-1 ${getThreatBadgeColor(scan.threat_level)}`}>
-                      {scan.threat_level.toUpperCase()}
-                    </Badge>
-                  </div>
-                  <div className="text-center p-4 bg-muted rounded-lg">
-                    <p className="text-sm font-medium text-muted-foreground">CVE Vulnerabilities</p>
-                    <p className="text-3xl font-bold mt-1">
-                      {scan.results?.vulnerabilities?.length || 0}
-                    </p>
+        {scan.is_batch ? (
+          <BatchScanSummary batchId={scan.id} rejected={scan.metadata?.rejected_targets} />
+        ) : (
+          <Tabs defaultValue="overview" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="overview">Overview</TabsTrigger>
+              <TabsTrigger value="vulnerabilities">
+                <Bug className="w-4 h-4 mr-2" />
+                Vulnerabilities
+              </TabsTrigger>
+              <TabsTrigger value="agents">AI Analysis</TabsTrigger>
+              <TabsTrigger value="raw">Raw Data</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="overview" className="space-y-4">
+              {/* Risk Assessment Summary - Show First */}
+              <Card className="border-l-4" style={{ borderLeftColor: scan.threat_level === 'critical' ? '#ef4444' : scan.threat_level === 'high' ? '#f97316' : scan.threat_level === 'medium' ? '#eab308' : '#22c55e' }}>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Shield className="w-5 h-5" />
+                    Risk Assessment Summary
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="text-center p-4 bg-muted rounded-lg">
+                      <p className="text-sm font-medium text-muted-foreground">Overall Risk Score</p>
+                      <p className="text-3xl font-bold mt-1">
+                        {scan.results?.risk_score ? scan.results.risk_score.toFixed(1) : 'N/A'}/10
+                      </p>
+                    </div>
+                    <div className="text-center p-4 bg-muted rounded-lg">
+                      <p className="text-sm font-medium text-muted-foreground">Threat Level</p>
+                      <Badge className={`text-white mt-2 text-lg px-4 py-1 ${getThreatBadgeColor(scan.threat_level)}`}>
+                        {scan.threat_level.toUpperCase()}
+                      </Badge>
+                    </div>
+                    <div className="text-center p-4 bg-muted rounded-lg">
+                      <p className="text-sm font-medium text-muted-foreground">CVE Vulnerabilities</p>
+                      <p className="text-3xl font-bold mt-1">
+                        {findings.length}
+                      </p>
+                    </div>
                   </div>
-                </div>
 
-                {/* Risk Factors - Show why it's marked as high risk */}
-                {scan.threat_level !== 'low' && (
-                  <div className="mt-4 p-4 bg-orange-50 dark:bg-orange-950/20 rounded-lg border border-orange-200 dark:border-orange-900">
-                    <h4 className="font-semibold text-orange-800 dark:text-orange-400 mb-2">
-                      Risk Factors Contributing to {scan.threat_level.toUpperCase()} Threat Level:
-                    </h4>
-                    <ul className="space-y-2 text-sm text-orange-700 dark:text-orange-300">
-                      {scan.results?.risk_score >= 6 && (
-                        <li className="flex items-start gap-2">
-                          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
-                          <span>AI agents detected a high risk score of {scan.results.risk_score.toFixed(1)}/10 based on security analysis</span>
-                        </li>
-                      )}
-                      {scan.results?.vulnerabilities?.length > 0 && (
-                        <li className="flex items-start gap-2">
-                          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
-                          <span>{scan.results.vulnerabilities.length} specific vulnerabilities identified with CVE references</span>
-                        </li>
-                      )}
-                      {scan.results?.findings?.length > 0 && (
-                        <li className="flex items-start gap-2">
-                          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
-                          <span>{scan.results.findings.length} security concerns and potential attack vectors detected</span>
-                        </li>
-                      )}
-                      {scan.results?.open_ports?.length > 0 && (
-                        <li className="flex items-start gap-2">
-                          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
-                          <span>{scan.results.open_ports.length} open ports discovered, expanding attack surface</span>
-                        </li>
-                      )}
-                      {scan.results?.recent_threat_intelligence && (
-                        <li className="flex items-start gap-2">
-                          <Activity className="w-4 h-4 mt-0.5 flex-shrink-0" />
-                          <span>Recent threat intelligence indicates potential vulnerabilities in this target</span>
+                  {/* Risk Factors - Show why it's marked as high risk */}
+                  {scan.threat_level !== 'low' && (
+                    <div className="mt-4 p-4 bg-orange-50 dark:bg-orange-950/20 rounded-lg border border-orange-200 dark:border-orange-900">
+                      <h4 className="font-semibold text-orange-800 dark:text-orange-400 mb-2">
+                        Risk Factors Contributing to {scan.threat_level.toUpperCase()} Threat Level:
+                      </h4>
+                      <ul className="space-y-2 text-sm text-orange-700 dark:text-orange-300">
+                        {scan.results?.risk_score >= 6 && (
+                          <li className="flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                            <span>AI agents detected a high risk score of {scan.results.risk_score.toFixed(1)}/10 based on security analysis</span>
+                          </li>
+                        )}
+                        {findings.length > 0 && (
+                          <li className="flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                            <span>{findings.length} specific vulnerabilities identified with CVE references</span>
+                          </li>
+                        )}
+                        {scan.results?.findings?.length > 0 && (
+                          <li className="flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                            <span>{scan.results.findings.length} security concerns and potential attack vectors detected</span>
+                          </li>
+                        )}
+                        {scan.results?.open_ports?.length > 0 && (
+                          <li className="flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                            <span>{scan.results.open_ports.length} open ports discovered, expanding attack surface</span>
+                          </li>
+                        )}
+                        {scan.results?.recent_threat_intelligence && (
+                          <li className="flex items-start gap-2">
+                            <Activity className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                            <span>Recent threat intelligence indicates potential vulnerabilities in this target</span>
+                          </li>
+                        )}
+                      </ul>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Security Findings from AI Analysis */}
+              {scan.results?.findings && Array.isArray(scan.results.findings) && scan.results.findings.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Brain className="w-5 h-5" />
+                      AI-Detected Security Concerns
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="space-y-2">
+                      {scan.results.findings.map((finding: string, idx: number) => (
+                        <li key={idx} className="flex items-start gap-2 p-3 bg-muted rounded-lg">
+                          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0 text-orange-500" />
+                          <span className="text-sm">{finding}</span>
                         </li>
-                      )}
+                      ))}
                     </ul>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Recent Threat Intelligence from Perplexity */}
+              {scan.results?.recent_threat_intelligence && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Activity className="h-5 w-5" />
+                      Recent Threat Intelligence
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="prose prose-sm max-w-none">
+                      <p className="whitespace-pre-wrap text-sm">
+                        {scan.results.recent_threat_intelligence.recent_vulnerabilities}
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-4">
+                        Data gathered: {new Date(scan.results.recent_threat_intelligence.timestamp).toLocaleString()}
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
 
-            {/* Security Findings from AI Analysis */}
-            {scan.results?.findings && Array.isArray(scan.results.findings) && scan.results.findings.length > 0 && (
+              {/* Vulnerabilities Section */}
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
-                    <Brain className="w-5 h-5" />
-                    AI-Detected Security Concerns
+                    <AlertTriangle className="w-5 h-5 text-orange-500" />
+                    Specific CVE Vulnerabilities
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <ul className="space-y-2">
-                    {scan.results.findings.map((finding: string, idx: number) => (
-                      <li key={idx} className="flex items-start gap-2 p-3 bg-muted rounded-lg">
-                        <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0 text-orange-500" />
-                        <span className="text-sm">{finding}</span>
-                      </li>
-                    ))}
-                  </ul>
+                  {findings.length > 0 ? (
+                    <div className="space-y-4">
+                      {findings.map((vuln) => (
+                        <div key={vuln.id} className="border rounded-lg p-4 space-y-3">
+                          <div className="flex items-start justify-between">
+                            <div className="space-y-1">
+                              <h4 className="font-semibold text-lg">{vuln.name}</h4>
+                              {vuln.cve && (
+                                <Badge variant="destructive" className="font-mono">
+                                  {vuln.cve}
+                                </Badge>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              {getSourceBadge(vuln)}
+                              <Badge className={`${getThreatBadgeColor(vuln.severity)} text-white capitalize`}>
+                                {vuln.severity}
+                              </Badge>
+                              <Badge className={`${getFindingStatusColor(vuln.status)} text-white`}>
+                                {getFindingStatusLabel(vuln.status)}
+                              </Badge>
+                            </div>
+                          </div>
+                        
+                          {vuln.description && (
+                            <p className="text-sm text-muted-foreground">{vuln.description}</p>
+                          )}
+                        
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                            {vuln.cvss_score !== null && (
+                              <div>
+                                <span className="font-medium">CVSS Score:</span>
+                                <p className="text-muted-foreground">{vuln.cvss_score}</p>
+                              </div>
+                            )}
+                            {vuln.exploitability && (
+                              <div>
+                                <span className="font-medium">Exploitability:</span>
+                                <p className="text-muted-foreground capitalize">{vuln.exploitability}</p>
+                              </div>
+                            )}
+                            {vuln.port !== null && (
+                              <div>
+                                <span className="font-medium">Port:</span>
+                                <p className="text-muted-foreground">{vuln.port}</p>
+                              </div>
+                            )}
+                            {vuln.service && (
+                              <div>
+                                <span className="font-medium">Service:</span>
+                                <p className="text-muted-foreground">{vuln.service}</p>
+                              </div>
+                            )}
+                          </div>
+                        
+                          {vuln.mitigation && (
+                            <div className="mt-3 p-3 bg-green-50 dark:bg-green-950/20 rounded border border-green-200 dark:border-green-900">
+                              <p className="text-sm font-medium text-green-800 dark:text-green-400 mb-1">
+                                Recommended Mitigation:
+                              </p>
+                              <p className="text-sm text-green-700 dark:text-green-300">{vuln.mitigation}</p>
+                            </div>
+                          )}
+
+                          <FindingTriage
+                            finding={vuln}
+                            history={findingHistory.filter(change => change.finding_id === vuln.id)}
+                            onTransition={fetchFindings}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  ) : scan.results?.open_ports ? (
+                    <div className="space-y-3">
+                      <p className="text-sm text-muted-foreground mb-3">
+                        No structured vulnerability data available. Showing open ports and services:
+                      </p>
+                      {Array.isArray(scan.results.open_ports) && scan.results.open_ports.map((port: any, idx: number) => (
+                        <div key={idx} className="border rounded-lg p-3 flex items-center justify-between">
+                          <div>
+                            <span className="font-medium">Port {port.port || port}</span>
+                            {port.service && (
+                              <span className="text-muted-foreground ml-2">- {port.service}</span>
+                            )}
+                          </div>
+                          {port.version && (
+                            <Badge variant="outline">{port.version}</Badge>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center py-8">
+                      <Shield className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                      <p className="text-muted-foreground">No vulnerabilities identified in this scan</p>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
-            )}
 
-            {/* Recent Threat Intelligence from Perplexity */}
-            {scan.results?.recent_threat_intelligence && (
+              {/* Security Assessment */}
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
-                    <Activity className="h-5 w-5" />
-                    Recent Threat Intelligence
+                    <Shield className="w-5 h-5" />
+                    Security Assessment Details
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="prose prose-sm max-w-none">
-                    <p className="whitespace-pre-wrap text-sm">
-                      {scan.results.recent_threat_intelligence.recent_vulnerabilities}
-                    </p>
-                    <p className="text-xs text-muted-foreground mt-4">
-                      Data gathered: {new Date(scan.results.recent_threat_intelligence.timestamp).toLocaleString()}
-                    </p>
-                  </div>
+                  {scan.results && typeof scan.results === 'object' ? (
+                    <div className="space-y-4">
+                      {Object.entries(scan.results)
+                        .filter(([key]) => key !== 'vulnerabilities') // Hide vulnerabilities as we show them above
+                        .map(([key, value]) => (
+                          <div key={key} className="border-l-4 border-primary pl-4">
+                            <h4 className="font-medium capitalize">{key.replace(/_/g, ' ')}</h4>
+                            <pre className="text-sm text-muted-foreground mt-2 whitespace-pre-wrap">
+                              {typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value)}
+                            </pre>
+                          </div>
+                        ))}
+                    </div>
+                  ) : (
+                    <p className="text-muted-foreground">No detailed results available</p>
+                  )}
                 </CardContent>
               </Card>
-            )}
+            </TabsContent>
+
+            <TabsContent value="vulnerabilities" className="space-y-4">
+              <VulnerabilityAssessment scanResults={scan.results} target={scan.target} />
+            </TabsContent>
 
-            {/* Vulnerabilities Section */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <AlertTriangle className="w-5 h-5 text-orange-500" />
-                  Specific CVE Vulnerabilities
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                {scan.results?.vulnerabilities && Array.isArray(scan.results.vulnerabilities) && scan.results.vulnerabilities.length > 0 ? (
-                  <div className="space-y-4">
-                    {scan.results.vulnerabilities.map((vuln: any, idx: number) => (
-                      <div key={idx} className="border rounded-lg p-4 space-y-3">
-                        <div className="flex items-start justify-between">
-                          <div className="space-y-1">
-                            <h4 className="font-semibold text-lg">{vuln.name || vuln.title || `Vulnerability #${idx + 1}`}</h4>
-                            {vuln.cve && (
-                              <Badge variant="destructive" className="font-mono">
-                                {vuln.cve}
+            <TabsContent value="agents" className="space-y-4">
+              <div className="space-y-4">
+                {executions.length === 0 ? (
+                  <Card>
+                    <CardContent className="pt-6 text-center">
+                      <Brain className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                      <h3 className="text-lg font-medium mb-2">No AI Analysis Available</h3>
+                      <p className="text-muted-foreground">
+                        This scan hasn't been analyzed by AI agents yet.
+                      </p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  executions.map((execution) => (
+                    <Card key={execution.id}>
+                      <CardHeader>
+                        <CardTitle className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <Brain className="w-5 h-5" />
+                            {getAgentName(execution.agent_id)}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {getStatusIcon(execution.status)}
+                            <Badge variant="outline" className="capitalize">
+                              {execution.status}
+                            </Badge>
+                            {execution.execution_time_ms && (
+                              <Badge variant="secondary">
+                                {execution.execution_time_ms}ms
                               </Badge>
                             )}
+                            {isRetryable(execution, executions) && (scan.status === 'completed' || scan.status === 'failed') && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleRetry(execution)}
+                                disabled={controlling !== null}
+                              >
+                                <RotateCcw className="w-4 h-4 mr-2" />
+                                {controlling === execution.id ? 'Retrying...' : 'Retry'}
+                              </Button>
+                            )}
+                          </div>
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        {execution.output_data && (
+                          <div>
+                            <h4 className="font-medium mb-2">Analysis Results</h4>
+                            <pre className="text-sm bg-muted p-4 rounded whitespace-pre-wrap">
+                              {JSON.stringify(execution.output_data, null, 2)}
+                            </pre>
                           </div>
-                          {vuln.severity && (
-                            <Badge className={`${getThreatBadgeColor(vuln.severity.toLowerCase())} text-white`}>
-                              {vuln.severity}
-                            </Badge>
-                          )}
-                        </div>
-                        
-                        {vuln.description && (
-                          <p className="text-sm text-muted-foreground">{vuln.description}</p>
                         )}
-                        
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
-                          {vuln.cvss_score && (
-                            <div>
-                              <span className="font-medium">CVSS Score:</span>
-                              <p className="text-muted-foreground">{vuln.cvss_score}</p>
-                            </div>
-                          )}
-                          {vuln.exploitability && (
-                            <div>
-                              <span className="font-medium">Exploitability:</span>
-                              <p className="text-muted-foreground capitalize">{vuln.exploitability}</p>
+                        {((execution.attempts as unknown as CallAttempt[] | null) ?? []).length > 1 && (
+                          <div>
+                            <h4 className="font-medium mb-2">Attempts</h4>
+                            <div className="space-y-1">
+                              {(execution.attempts as unknown as CallAttempt[]).map(attempt => (
+                                <p key={attempt.attempt} className="text-xs font-mono text-muted-foreground">
+                                  #{attempt.attempt} {attempt.provider}/{attempt.model} · {attempt.status}
+                                  {attempt.failure && ` (${attempt.failure}${attempt.http_status ? ` ${attempt.http_status}` : ''})`}
+                                  {` · ${attempt.duration_ms}ms`}
+                                  {attempt.retry_in_ms !== undefined && ` · retried after ${attempt.retry_in_ms}ms`}
+                                </p>
+                              ))}
                             </div>
-                          )}
-                          {vuln.port && (
-                            <div>
-                              <span className="font-medium">Port:</span>
-                              <p className="text-muted-foreground">{vuln.port}</p>
-                            </div>
-                          )}
-                          {vuln.service && (
+                          </div>
+                        )}
+                        {(() => {
+                          const validation = execution.output_validation as unknown as OutputValidation | null;
+                          if (!validation || validation.status === 'valid') return null;
+                          return (
                             <div>
-                              <span className="font-medium">Service:</span>
-                              <p className="text-muted-foreground">{vuln.service}</p>
+                              <h4 className="font-medium mb-2">
+                                Output Validation{' '}
+                                <Badge variant={validation.status === 'invalid' ? 'destructive' : 'outline'}>
+                                  {validation.schema} · {validation.status}
+                                </Badge>
+                              </h4>
+                              <div className="space-y-1">
+                                {validation.errors.map((error, index) => (
+                                  <p key={index} className="text-xs font-mono text-muted-foreground">
+                                    {error.path} {error.message}
+                                  </p>
+                                ))}
+                              </div>
                             </div>
-                          )}
-                        </div>
-                        
-                        {vuln.mitigation && (
-                          <div className="mt-3 p-3 bg-green-50 dark:bg-green-950/20 rounded border border-green-200 dark:border-green-900">
-                            <p className="text-sm font-medium text-green-800 dark:text-green-400 mb-1">
-                              Recommended Mitigation:
+                          );
+                        })()}
+                        {execution.error_message && (
+                          <div>
+                            <h4 className="font-medium mb-2 text-red-500">Error</h4>
+                            <p className="text-sm text-red-600 bg-red-50 p-3 rounded">
+                              {execution.error_message}
                             </p>
-                            <p className="text-sm text-green-700 dark:text-green-300">{vuln.mitigation}</p>
                           </div>
                         )}
-                      </div>
-                    ))}
-                  </div>
-                ) : scan.results?.open_ports ? (
-                  <div className="space-y-3">
-                    <p className="text-sm text-muted-foreground mb-3">
-                      No structured vulnerability data available. Showing open ports and services:
-                    </p>
-                    {Array.isArray(scan.results.open_ports) && scan.results.open_ports.map((port: any, idx: number) => (
-                      <div key={idx} className="border rounded-lg p-3 flex items-center justify-between">
-                        <div>
-                          <span className="font-medium">Port {port.port || port}</span>
-                          {port.service && (
-                            <span className="text-muted-foreground ml-2">- {port.service}</span>
+                        <div className="text-xs text-muted-foreground">
+                          Executed: {new Date(execution.created_at).toLocaleString()}
+                          {execution.completed_at && (
+                            <span> - Completed: {new Date(execution.completed_at).toLocaleString()}</span>
                           )}
                         </div>
-                        {port.version && (
-                          <Badge variant="outline">{port.version}</Badge>
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                ) : (
-                  <div className="text-center py-8">
-                    <Shield className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
-                    <p className="text-muted-foreground">No vulnerabilities identified in this scan</p>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-
-            {/* Security Assessment */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Shield className="w-5 h-5" />
-                  Security Assessment Details
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                {scan.results && typeof scan.results === 'object' ? (
-                  <div className="space-y-4">
-                    {Object.entries(scan.results)
-                      .filter(([key]) => key !== 'vulnerabilities') // Hide vulnerabilities as we show them above
-                      .map(([key, value]) => (
-                        <div key={key} className="border-l-4 border-primary pl-4">
-                          <h4 className="font-medium capitalize">{key.replace(/_/g, ' ')}</h4>
-                          <pre className="text-sm text-muted-foreground mt-2 whitespace-pre-wrap">
-                            {typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value)}
-                          </pre>
-                        </div>
-                      ))}
-                  </div>
-                ) : (
-                  <p className="text-muted-foreground">No detailed results available</p>
+                      </CardContent>
+                    </Card>
+                  ))
                 )}
-              </CardContent>
-            </Card>
-          </TabsContent>
-
-          <TabsContent value="vulnerabilities" className="space-y-4">
-            <VulnerabilityAssessment scanResults={scan.results} target={scan.target} />
-          </TabsContent>
+              </div>
+            </TabsContent>
 
-          <TabsContent value="agents" className="space-y-4">
-            <div className="space-y-4">
-              {executions.length === 0 ? (
-                <Card>
-                  <CardContent className="pt-6 text-center">
-                    <Brain className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                    <h3 className="text-lg font-medium mb-2">No AI Analysis Available</h3>
-                    <p className="text-muted-foreground">
-                      This scan hasn't been analyzed by AI agents yet.
-                    </p>
-                  </CardContent>
-                </Card>
-              ) : (
-                executions.map((execution) => (
-                  <Card key={execution.id}>
-                    <CardHeader>
-                      <CardTitle className="flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          <Brain className="w-5 h-5" />
-                          {getAgentName(execution.agent_id)}
-                        </div>
-                        <div className="flex items-center gap-2">
-                          {getStatusIcon(execution.status)}
-                          <Badge variant="outline" className="capitalize">
-                            {execution.status}
-                          </Badge>
-                          {execution.execution_time_ms && (
-                            <Badge variant="secondary">
-                              {execution.execution_time_ms}ms
-                            </Badge>
-                          )}
-                        </div>
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      {execution.output_data && (
-                        <div>
-                          <h4 className="font-medium mb-2">Analysis Results</h4>
-                          <pre className="text-sm bg-muted p-4 rounded whitespace-pre-wrap">
-                            {JSON.stringify(execution.output_data, null, 2)}
-                          </pre>
-                        </div>
-                      )}
-                      {execution.error_message && (
-                        <div>
-                          <h4 className="font-medium mb-2 text-red-500">Error</h4>
-                          <p className="text-sm text-red-600 bg-red-50 p-3 rounded">
-                            {execution.error_message}
-                          </p>
-                        </div>
-                      )}
-                      <div className="text-xs text-muted-foreground">
-                        Executed: {new Date(execution.created_at).toLocaleString()}
-                        {execution.completed_at && (
-                          <span> - Completed: {new Date(execution.completed_at).toLocaleString()}</span>
-                        )}
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))
-              )}
-            </div>
-          </TabsContent>
-
-          <TabsContent value="raw" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <FileText className="w-5 h-5" />
-                  Raw Scan Data
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <pre className="text-sm bg-muted p-4 rounded overflow-auto max-h-96">
-                  {JSON.stringify(scan, null, 2)}
-                </pre>
-              </CardContent>
-            </Card>
-          </TabsContent>
-        </Tabs>
+            <TabsContent value="raw" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileText className="w-5 h-5" />
+                    Raw Scan Data
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <pre className="text-sm bg-muted p-4 rounded overflow-auto max-h-96">
+                    {JSON.stringify(scan, null, 2)}
+                  </pre>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        )}
       </div>
     </div>
   );
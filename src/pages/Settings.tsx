@@ -5,8 +5,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/components/ui/use-toast";
+import { ScopeManager } from "@/components/ScopeManager";
+import { EngagementWindowManager } from "@/components/EngagementWindowManager";
+import { RetentionPolicyManager } from "@/components/RetentionPolicyManager";
+import { WorkspaceManager } from "@/components/WorkspaceManager";
+import { ScanProfileManager } from "@/components/ScanProfileManager";
+import { LlmProviderManager } from "@/components/LlmProviderManager";
 import { 
   Settings as SettingsIcon,
   User,
@@ -17,6 +24,9 @@ import {
   Save,
   RefreshCw
 } from "lucide-react";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+
+type UserSettingsRow = Tables<'user_settings'>;
 
 interface UserProfile {
   id: string;
@@ -42,11 +52,56 @@ interface SettingsData {
   scanning: {
     autoAnalysis: boolean;
     maxConcurrentScans: number;
-    retentionDays: number;
-    defaultThreatLevel: string;
+    defaultThreatLevel: UserSettingsRow['default_threat_level'];
   };
 }
 
+const fromRow = (row: UserSettingsRow): SettingsData => ({
+  notifications: {
+    scanComplete: row.notify_scan_complete,
+    threatDetected: row.notify_threat_detected,
+    agentErrors: row.notify_agent_errors,
+    weeklyReport: row.notify_weekly_report
+  },
+  security: {
+    twoFactorEnabled: row.two_factor_enabled,
+    sessionTimeout: row.session_timeout_minutes,
+    apiKeyRotation: row.api_key_rotation
+  },
+  scanning: {
+    autoAnalysis: row.auto_analysis,
+    maxConcurrentScans: row.max_concurrent_scans,
+    defaultThreatLevel: row.default_threat_level
+  }
+});
+
+const toRow = (userId: string, settings: SettingsData): TablesInsert<'user_settings'> => ({
+  user_id: userId,
+  notify_scan_complete: settings.notifications.scanComplete,
+  notify_threat_detected: settings.notifications.threatDetected,
+  notify_agent_errors: settings.notifications.agentErrors,
+  notify_weekly_report: settings.notifications.weeklyReport,
+  two_factor_enabled: settings.security.twoFactorEnabled,
+  session_timeout_minutes: settings.security.sessionTimeout,
+  api_key_rotation: settings.security.apiKeyRotation,
+  auto_analysis: settings.scanning.autoAnalysis,
+  max_concurrent_scans: settings.scanning.maxConcurrentScans,
+  default_threat_level: settings.scanning.defaultThreatLevel
+});
+
+// Same bounds as the user_settings check constraints
+const validateSettings = (settings: SettingsData): string | null => {
+  const { sessionTimeout } = settings.security;
+  const { maxConcurrentScans } = settings.scanning;
+  if (!Number.isInteger(sessionTimeout) || sessionTimeout < 5 || sessionTimeout > 1440) {
+    return 'Session timeout must be between 5 and 1440 minutes';
+  }
+  if (!Number.isInteger(maxConcurrentScans) || maxConcurrentScans < 1 || maxConcurrentScans > 50) {
+    return 'Maximum concurrent scans must be between 1 and 50';
+  }
+  return null;
+};
+
 const Settings = () => {
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [settings, setSettings] = useState<SettingsData>({
@@ -64,7 +119,6 @@ const Settings = () => {
     scanning: {
       autoAnalysis: true,
       maxConcurrentScans: 5,
-      retentionDays: 90,
       defaultThreatLevel: 'medium'
     }
   });
@@ -100,21 +154,49 @@ const Settings = () => {
     }
   };
 
-  const loadSettings = () => {
-    // Load settings from localStorage or API in the future
-    const savedSettings = localStorage.getItem('userSettings');
-    if (savedSettings) {
-      setSettings(JSON.parse(savedSettings));
+  const loadSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_settings')
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) setSettings(fromRow(data));
+    } catch (error) {
+      console.error('Error loading settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load settings",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
     }
-    setLoading(false);
   };
 
   const saveSettings = async () => {
+    const invalid = validateSettings(settings);
+    if (invalid) {
+      toast({
+        title: "Invalid Settings",
+        description: invalid,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setSaving(true);
     try {
-      // Save to localStorage for now, later can be saved to database
-      localStorage.setItem('userSettings', JSON.stringify(settings));
-      
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from('user_settings')
+        .upsert(toRow(user.id, settings), { onConflict: 'user_id' });
+
+      if (error) throw error;
+
       toast({
         title: "Success",
         description: "Settings saved successfully",
@@ -220,6 +302,8 @@ const Settings = () => {
             <TabsTrigger value="notifications">Notifications</TabsTrigger>
             <TabsTrigger value="security">Security</TabsTrigger>
             <TabsTrigger value="scanning">Scanning</TabsTrigger>
+            <TabsTrigger value="scope">Engagement</TabsTrigger>
+            <TabsTrigger value="team">Team</TabsTrigger>
           </TabsList>
 
           <TabsContent value="profile" className="space-y-4">
@@ -399,7 +483,7 @@ const Settings = () => {
                       onChange={(e) =>
                         setSettings(prev => ({
                           ...prev,
-                          security: { ...prev.security, sessionTimeout: parseInt(e.target.value) || 30 }
+                          security: { ...prev.security, sessionTimeout: parseInt(e.target.value) || 0 }
                         }))
                       }
                     />
@@ -440,7 +524,7 @@ const Settings = () => {
                     <div>
                       <p className="font-medium">Automatic AI Analysis</p>
                       <p className="text-sm text-muted-foreground">
-                        Automatically analyze scan results with AI agents
+                        Run AI agents on every scan. When off, scans only gather reconnaissance
                       </p>
                     </div>
                     <Switch
@@ -462,28 +546,51 @@ const Settings = () => {
                       onChange={(e) =>
                         setSettings(prev => ({
                           ...prev,
-                          scanning: { ...prev.scanning, maxConcurrentScans: parseInt(e.target.value) || 5 }
+                          scanning: { ...prev.scanning, maxConcurrentScans: parseInt(e.target.value) || 0 }
                         }))
                       }
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="retention">Data Retention (days)</Label>
-                    <Input
-                      id="retention"
-                      type="number"
-                      value={settings.scanning.retentionDays}
-                      onChange={(e) =>
+                    <Label htmlFor="defaultThreatLevel">Default Threat Level</Label>
+                    <Select
+                      value={settings.scanning.defaultThreatLevel}
+                      onValueChange={(value: SettingsData['scanning']['defaultThreatLevel']) =>
                         setSettings(prev => ({
                           ...prev,
-                          scanning: { ...prev.scanning, retentionDays: parseInt(e.target.value) || 90 }
+                          scanning: { ...prev.scanning, defaultThreatLevel: value }
                         }))
                       }
-                    />
+                    >
+                      <SelectTrigger id="defaultThreatLevel">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="low">Low</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="high">High</SelectItem>
+                        <SelectItem value="critical">Critical</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground">
+                      Assigned to scans that finish without an AI assessment
+                    </p>
                   </div>
                 </div>
               </CardContent>
             </Card>
+            <ScanProfileManager />
+            <LlmProviderManager />
+            <RetentionPolicyManager />
+          </TabsContent>
+
+          <TabsContent value="scope" className="space-y-4">
+            <ScopeManager />
+            <EngagementWindowManager />
+          </TabsContent>
+
+          <TabsContent value="team" className="space-y-4">
+            <WorkspaceManager />
           </TabsContent>
         </Tabs>
 
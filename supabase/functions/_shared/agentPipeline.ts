@@ -0,0 +1,145 @@
+// Agent pipelines: ai_agents.config may declare the agents an agent depends on
+// and which parts of their output it is given. Agents run as a DAG, each stage
+// once everything it depends on has finished.
+// Re-exported by src/lib/agentPipeline.ts so AgentManagement shows the pipeline scan-worker runs.
+
+export interface AgentInputMapping {
+  // Upstream agent id; must also be listed in depends_on
+  from: string;
+  // Dot path into the upstream output, e.g. "vulnerabilities"; the whole output when omitted
+  path?: string;
+  // Name of the input in the prompt: replaces {as} in the template, else added as a labelled section
+  as: string;
+}
+
+export interface AgentPipelineConfig {
+  depends_on: string[];
+  inputs: AgentInputMapping[];
+}
+
+export interface PipelineAgent {
+  id: string;
+  name: string;
+  config: unknown;
+}
+
+export interface AgentPipelinePlan {
+  // Agents grouped into stages; every agent's dependencies are in earlier stages
+  stages: string[][];
+  // Agents that cannot run, with the reason: part of a dependency cycle, or downstream of one
+  blocked: { id: string; reason: string }[];
+  // Dependencies outside the run (inactive or not selected), which are ignored
+  missing: { id: string; dependency: string }[];
+}
+
+/**
+ * The pipeline part of an agent's config. Malformed entries are dropped
+ * rather than failing the agent; validate_agent_pipeline rejects them on save.
+ */
+export function agentPipelineConfig(config: unknown): AgentPipelineConfig {
+  const value = (config && typeof config === 'object' ? config : {}) as Record<string, unknown>;
+  const dependsOn = Array.isArray(value.depends_on)
+    ? [...new Set(value.depends_on.filter((id): id is string => typeof id === 'string'))]
+    : [];
+  const inputs = Array.isArray(value.inputs)
+    ? value.inputs.filter((input): input is AgentInputMapping =>
+      !!input && typeof input === 'object' &&
+      typeof input.from === 'string' && dependsOn.includes(input.from) &&
+      typeof input.as === 'string' && input.as.trim() !== '' &&
+      (input.path === undefined || typeof input.path === 'string'))
+    : [];
+
+  return { depends_on: dependsOn, inputs };
+}
+
+// Follows dependencies from an agent until it comes back to one on the current path
+function findCycle(start: string, dependencies: Map<string, string[]>): string[] | null {
+  const path: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (id: string): string[] | null => {
+    const index = path.indexOf(id);
+    if (index >= 0) return [...path.slice(index), id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+    path.push(id);
+    for (const dependency of dependencies.get(id) ?? []) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    return null;
+  };
+
+  return visit(start);
+}
+
+/**
+ * Orders agents into stages by their dependencies (Kahn's algorithm). Agents
+ * left over are on a dependency cycle or wait on one, and are reported as
+ * blocked with the cycle that holds them up.
+ */
+export function planAgentPipeline(agents: PipelineAgent[]): AgentPipelinePlan {
+  const ids = new Set(agents.map(agent => agent.id));
+  const names = new Map(agents.map(agent => [agent.id, agent.name]));
+  const dependencies = new Map<string, string[]>();
+  const missing: AgentPipelinePlan['missing'] = [];
+
+  for (const agent of agents) {
+    const { depends_on } = agentPipelineConfig(agent.config);
+    dependencies.set(agent.id, depends_on.filter(dependency => ids.has(dependency)));
+    depends_on
+      .filter(dependency => !ids.has(dependency))
+      .forEach(dependency => missing.push({ id: agent.id, dependency }));
+  }
+
+  const stages: string[][] = [];
+  const placed = new Set<string>();
+  let remaining = agents.map(agent => agent.id);
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter(id => dependencies.get(id)!.every(dependency => placed.has(dependency)));
+    if (ready.length === 0) break;
+    stages.push(ready);
+    ready.forEach(id => placed.add(id));
+    remaining = remaining.filter(id => !placed.has(id));
+  }
+
+  const blocked = remaining.map(id => {
+    const cycle = findCycle(id, dependencies);
+    const described = cycle?.map(entry => names.get(entry) ?? entry).join(' → ');
+    return {
+      id,
+      reason: cycle && cycle[0] === id
+        ? `Dependency cycle: ${described}`
+        : `Waits on a dependency cycle${described ? `: ${described}` : ''}`,
+    };
+  });
+
+  return { stages, blocked, missing };
+}
+
+// Agents that depend on an agent, directly or through other agents, so rerunning it reruns them too
+export function downstreamAgents(agents: PipelineAgent[], agentId: string): string[] {
+  const downstream = new Set<string>();
+  let frontier = [agentId];
+
+  while (frontier.length > 0) {
+    frontier = agents
+      .filter(agent => !downstream.has(agent.id) && agent.id !== agentId &&
+        agentPipelineConfig(agent.config).depends_on.some(dependency => frontier.includes(dependency)))
+      .map(agent => agent.id);
+    frontier.forEach(id => downstream.add(id));
+  }
+
+  return [...downstream];
+}
+
+// Value at a dot path ("summary.open_ports") of an agent's output
+export function selectOutput(output: unknown, path?: string): unknown {
+  if (!path) return output;
+  return path.split('.').reduce<unknown>(
+    (value, key) => value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+    output
+  );
+}
@@ -0,0 +1,197 @@
+import {
+  chatCompletion,
+  findLlmProvider,
+  LlmError,
+  type ChatRequest,
+  type LlmFailure,
+  type LlmProvider,
+  type TokenUsage,
+  type UsageContext,
+} from "./llmProviders.ts";
+
+// How scan-worker calls an agent's model: request timeout, retries with
+// exponential backoff and jitter, which failures are worth retrying, and the
+// models or providers to fall back to. Set per agent in ai_agents.config.call_policy, e.g.
+// {"timeout_ms": 30000, "max_retries": 2, "retry_on": ["429", "5xx", "timeout"],
+//  "fallbacks": ["gpt-4o", {"provider": "lovable", "model": "google/gemini-2.5-flash"}]}
+// A fallback without a provider stays on the agent's provider; see _shared/llmProviders.ts.
+// Timeouts and backoff are capped so one attempt plus its wait fits in scan-worker's job lease.
+
+export interface ModelTarget {
+  provider: LlmProvider;
+  model: string;
+}
+
+// A fallback as configured: a provider reference (workspace provider id or name,
+// or a built-in kind), or null for the agent's own provider
+export interface FallbackTarget {
+  provider: string | null;
+  model: string;
+}
+
+// The failures of llmProviders.ts that a later attempt can succeed after
+export type RetryCondition = Extract<LlmFailure, '429' | '5xx' | 'timeout' | 'network' | 'invalid_response'>;
+
+export interface AgentCallPolicy {
+  timeout_ms: number;
+  // Retries of each model before moving on to the next fallback
+  max_retries: number;
+  backoff_base_ms: number;
+  backoff_max_ms: number;
+  retry_on: RetryCondition[];
+  fallbacks: FallbackTarget[];
+}
+
+// One request to a model, as recorded on the agent execution
+export interface CallAttempt {
+  attempt: number;
+  // The provider's name
+  provider: string;
+  model: string;
+  started_at: string;
+  duration_ms: number;
+  status: 'succeeded' | 'failed';
+  http_status?: number;
+  failure?: LlmFailure;
+  error?: string;
+  usage?: TokenUsage;
+  // Wait before the next attempt, when the failure was retried
+  retry_in_ms?: number;
+}
+
+export const DEFAULT_CALL_POLICY: AgentCallPolicy = {
+  timeout_ms: 60_000,
+  max_retries: 2,
+  backoff_base_ms: 1_000,
+  backoff_max_ms: 30_000,
+  retry_on: ['429', '5xx', 'timeout', 'network', 'invalid_response'],
+  fallbacks: [],
+};
+
+const RETRY_CONDITIONS: RetryCondition[] = ['429', '5xx', 'timeout', 'network', 'invalid_response'];
+
+// Every attempt failed; attempts holds what each one returned
+export class AgentCallError extends Error {
+  constructor(message: string, readonly attempts: CallAttempt[]) {
+    super(message);
+  }
+}
+
+const boundedInteger = (value: unknown, fallback: number, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(Math.round(value), min), max) : fallback;
+
+function parseTarget(entry: unknown): FallbackTarget | null {
+  if (typeof entry === 'string' && entry.trim()) return { provider: null, model: entry.trim() };
+  if (!entry || typeof entry !== 'object') return null;
+  const { provider = null, model } = entry as Record<string, unknown>;
+  if (typeof model !== 'string' || !model.trim() || !(provider === null || (typeof provider === 'string' && provider.trim()))) return null;
+  return { provider: provider as string | null, model: model.trim() };
+}
+
+/**
+ * The call policy in an agent's config, with defaults for anything missing.
+ * Out-of-range numbers are clamped and unknown entries dropped rather than
+ * failing the agent.
+ */
+export function agentCallPolicy(config: unknown): AgentCallPolicy {
+  const value = config && typeof config === 'object' ? (config as Record<string, unknown>).call_policy : undefined;
+  if (!value || typeof value !== 'object') return DEFAULT_CALL_POLICY;
+  const policy = value as Record<string, unknown>;
+
+  const backoffBase = boundedInteger(policy.backoff_base_ms, DEFAULT_CALL_POLICY.backoff_base_ms, 0, 30_000);
+  return {
+    timeout_ms: boundedInteger(policy.timeout_ms, DEFAULT_CALL_POLICY.timeout_ms, 1_000, 120_000),
+    max_retries: boundedInteger(policy.max_retries, DEFAULT_CALL_POLICY.max_retries, 0, 5),
+    backoff_base_ms: backoffBase,
+    backoff_max_ms: boundedInteger(policy.backoff_max_ms, Math.max(DEFAULT_CALL_POLICY.backoff_max_ms, backoffBase), backoffBase, 60_000),
+    retry_on: Array.isArray(policy.retry_on)
+      ? policy.retry_on.map(String).filter((condition): condition is RetryCondition => RETRY_CONDITIONS.includes(condition as RetryCondition))
+      : DEFAULT_CALL_POLICY.retry_on,
+    fallbacks: Array.isArray(policy.fallbacks)
+      ? policy.fallbacks.map(parseTarget).filter((target): target is FallbackTarget => target !== null)
+      : [],
+  };
+}
+
+// "Full jitter": a random wait up to the exponential backoff for this retry
+export function backoffDelay(policy: AgentCallPolicy, retry: number): number {
+  const ceiling = Math.min(policy.backoff_max_ms, policy.backoff_base_ms * 2 ** retry);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * The models an agent is called with in order: its primary model, then each
+ * fallback whose provider exists in the workspace or is built in.
+ */
+export function agentModelTargets(policy: AgentCallPolicy, primary: ModelTarget, providers: LlmProvider[]): ModelTarget[] {
+  const fallbacks = policy.fallbacks.flatMap(fallback => {
+    const provider = fallback.provider === null ? primary.provider : findLlmProvider(providers, fallback.provider);
+    if (!provider) {
+      console.warn(`[Agent Policy] Skipping fallback ${fallback.provider}/${fallback.model}: unknown provider`);
+      return [];
+    }
+    return [{ provider, model: fallback.model }];
+  });
+  return [primary, ...fallbacks];
+}
+
+/**
+ * Asks each target in turn for a completion under the agent's call policy,
+ * retrying failures the policy lists before moving on to the next one.
+ * onAttempt is called after every attempt, so progress can be recorded while
+ * slow retries are still running.
+ */
+export async function callAgentModel(
+  policy: AgentCallPolicy,
+  targets: ModelTarget[],
+  request: ChatRequest,
+  onAttempt: (attempts: CallAttempt[]) => Promise<void>,
+  usage?: UsageContext
+): Promise<{ content: string; target: ModelTarget; attempts: CallAttempt[] }> {
+  const attempts: CallAttempt[] = [];
+
+  for (const target of targets) {
+    for (let retry = 0; retry <= policy.max_retries; retry++) {
+      const startedAt = new Date();
+      let completion: Awaited<ReturnType<typeof chatCompletion>> | null = null;
+      let failure: LlmError | null = null;
+      try {
+        completion = await chatCompletion(target.provider, target.model, request, { timeoutMs: policy.timeout_ms, usage });
+      } catch (error) {
+        if (!(error instanceof LlmError)) throw error;
+        failure = error;
+      }
+
+      const httpStatus = completion?.http_status ?? failure?.httpStatus;
+      const attempt: CallAttempt = {
+        attempt: attempts.length + 1,
+        provider: target.provider.name,
+        model: target.model,
+        started_at: startedAt.toISOString(),
+        duration_ms: Date.now() - startedAt.getTime(),
+        status: completion ? 'succeeded' : 'failed',
+        ...(httpStatus ? { http_status: httpStatus } : {}),
+        ...(failure ? { failure: failure.failure, error: failure.message } : {}),
+        ...(completion?.usage ? { usage: completion.usage } : {}),
+      };
+
+      const retryable = failure !== null && retry < policy.max_retries &&
+        policy.retry_on.includes(failure.failure as RetryCondition);
+      if (retryable) attempt.retry_in_ms = backoffDelay(policy, retry);
+
+      attempts.push(attempt);
+      await onAttempt(attempts);
+
+      if (completion) return { content: completion.content, target, attempts };
+      console.warn(`[Agent Policy] ${target.provider.name}/${target.model} attempt ${attempt.attempt} failed (${attempt.failure}): ${attempt.error}`);
+      if (!retryable) break;
+      await new Promise(resolve => setTimeout(resolve, attempt.retry_in_ms));
+    }
+  }
+
+  const last = attempts[attempts.length - 1];
+  throw new AgentCallError(
+    `All ${attempts.length} attempt${attempts.length === 1 ? '' : 's'} failed; last: ${last.provider}/${last.model} ${last.error}`,
+    attempts
+  );
+}
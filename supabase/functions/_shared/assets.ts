@@ -0,0 +1,120 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Shodan-style reconnaissance output, as returned by the reconnaissance function
+export interface ReconHost {
+  ip?: string;
+  hostnames?: string[];
+  services?: {
+    port?: number | string;
+    protocol?: string;
+    product?: string;
+    version?: string;
+    banner?: string;
+  }[];
+}
+
+export interface InventoryObservation {
+  userId: string;
+  assetId: string;
+  scanId: string;
+  host: ReconHost | null | undefined;
+}
+
+const present = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  const trimmed = String(value).trim();
+  return trimmed.length > 0 ? trimmed : null;
+};
+
+const merge = (existing: string[] | null, incoming: (string | null)[]): string[] =>
+  [...new Set([...(existing ?? []), ...incoming.filter((value): value is string => value !== null)])].sort();
+
+/**
+ * Returns the id of the workspace's asset for a target, creating it on first
+ * sight and bumping last_seen on every later one. Members scanning the same
+ * target share the asset; user_id records who scanned it last.
+ */
+export async function upsertAsset(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  userId: string,
+  assetType: string,
+  value: string
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('assets')
+    .upsert(
+      { workspace_id: workspaceId, user_id: userId, asset_type: assetType, value, last_seen: new Date().toISOString() },
+      { onConflict: 'workspace_id,asset_type,value' }
+    )
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+/**
+ * Folds the hostnames, addresses and services a scan observed into the
+ * asset inventory. Services are keyed by port and protocol, so a rescan
+ * only moves last_seen and refreshes product and version when reported.
+ * Returns how many services were observed.
+ */
+export async function recordAssetInventory(
+  supabase: SupabaseClient,
+  observation: InventoryObservation
+): Promise<number> {
+  const { userId, assetId, scanId, host } = observation;
+  if (!host) return 0;
+
+  const seenAt = new Date().toISOString();
+
+  const { data: asset, error: assetError } = await supabase
+    .from('assets')
+    .select('hostnames, ip_addresses')
+    .eq('id', assetId)
+    .single();
+
+  if (assetError) throw assetError;
+
+  const { error: updateError } = await supabase
+    .from('assets')
+    .update({
+      hostnames: merge(asset.hostnames, (host.hostnames ?? []).map(present)),
+      ip_addresses: merge(asset.ip_addresses, [present(host.ip)]),
+      last_seen: seenAt,
+      last_scan_id: scanId
+    })
+    .eq('id', assetId);
+
+  if (updateError) throw updateError;
+
+  let observed = 0;
+  for (const service of host.services ?? []) {
+    const port = parseInt(String(service.port ?? ''), 10);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) continue;
+
+    const row: Record<string, unknown> = {
+      user_id: userId,
+      asset_id: assetId,
+      port,
+      protocol: present(service.protocol)?.toLowerCase() === 'udp' ? 'udp' : 'tcp',
+      last_seen: seenAt,
+      last_scan_id: scanId
+    };
+    // Only overwrite what this scan actually reported
+    for (const key of ['product', 'version', 'banner'] as const) {
+      const value = present(service[key]);
+      if (value) row[key] = value;
+    }
+
+    const { error } = await supabase
+      .from('asset_services')
+      .upsert(row, { onConflict: 'asset_id,port,protocol' });
+
+    if (error) throw error;
+    observed++;
+  }
+
+  return observed;
+}
@@ -0,0 +1,95 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveRequestUserId } from "./auth.ts";
+
+export interface AuditDescription {
+  action: string;
+  target?: string | null;
+  parameters?: Record<string, unknown>;
+}
+
+type AuditResultStatus = 'success' | 'denied' | 'error';
+
+type Describe = (body: Record<string, unknown>) => AuditDescription;
+
+// Parameters whose values are credentials or request content (sqlmap POST data, cookies,
+// custom headers). The audit log is append-only and hash-chained, so these are replaced
+// before the event is written and never reach it
+const SECRET_KEY = /pass(word|phrase)?|secret|token|api[_-]?key|cookie|authorization|headers?$|credential|session|private[_-]?key|^data$/i;
+
+export const redactAuditParameters = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(redactAuditParameters);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) =>
+    [key, SECRET_KEY.test(key) && entry !== null && entry !== '' ? '[REDACTED]' : redactAuditParameters(entry)]
+  ));
+};
+
+const resultStatus = (status: number): AuditResultStatus => {
+  if (status === 401 || status === 403) return 'denied';
+  return status >= 200 && status < 400 ? 'success' : 'error';
+};
+
+// Short human-readable outcome taken from the JSON body edge functions return on failure
+const resultDetail = async (response: Response): Promise<string | null> => {
+  if (response.ok) return null;
+  try {
+    const body = await response.clone().json();
+    if (body?.reason) return body.error ? `${body.error}: ${body.reason}` : body.reason;
+    return body?.error ?? null;
+  } catch {
+    return await response.clone().text().catch(() => null);
+  }
+};
+
+/**
+ * Wraps an edge function handler so every invocation is appended to the
+ * hash-chained `audit_events` table, including rejected and failed ones.
+ * Audit failures are logged but never change the response. Secret-looking
+ * parameters are redacted before they are recorded.
+ */
+export const withAudit = (
+  functionName: string,
+  describe: Describe,
+  handler: (req: Request) => Promise<Response>
+) => async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') return handler(req);
+
+  const body = await req.clone().json().catch(() => ({}));
+  let response: Response | null = null;
+  let thrown: unknown = null;
+
+  try {
+    response = await handler(req);
+  } catch (error) {
+    thrown = error;
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const { action, target = null, parameters = body } = describe(body ?? {});
+    const status = response?.status ?? 500;
+
+    const { error } = await supabase.from('audit_events').insert({
+      user_id: await resolveRequestUserId(supabase, req, body?.onBehalfOf),
+      function_name: functionName,
+      action,
+      target,
+      parameters: redactAuditParameters(parameters),
+      result_status: resultStatus(status),
+      status_code: status,
+      result_detail: response
+        ? await resultDetail(response)
+        : thrown instanceof Error ? thrown.message : 'Unhandled error',
+    });
+
+    if (error) console.error(`Failed to record audit event for ${functionName}:`, error);
+  } catch (error) {
+    console.error(`Failed to record audit event for ${functionName}:`, error);
+  }
+
+  if (thrown) throw thrown;
+  return response!;
+};
@@ -0,0 +1,22 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Resolves the user a request acts for. The scan worker calls other
+ * functions with the service role key and names the scan's owner in
+ * `onBehalfOf`; everyone else is identified by their own access token.
+ */
+export async function resolveRequestUserId(
+  supabase: SupabaseClient,
+  req: Request,
+  onBehalfOf?: unknown
+): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return typeof onBehalfOf === 'string' ? onBehalfOf : null;
+  }
+
+  const { data } = await supabase.auth.getUser(token);
+  return data?.user?.id ?? null;
+}
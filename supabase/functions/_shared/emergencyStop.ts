@@ -0,0 +1,57 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface EmergencyStop {
+  id: string;
+  campaign_id: string | null;
+  reason: string;
+  triggered_at: string;
+}
+
+/**
+ * Returns the active emergency stop covering a request, if any. A user-wide
+ * stop blocks everything the user runs; a campaign stop blocks work for that
+ * campaign whichever member engaged it. A request naming no campaign may still
+ * be work for one, so given its workspace, every campaign stop there blocks it.
+ */
+export async function getActiveEmergencyStop(
+  supabase: SupabaseClient,
+  userId: string,
+  campaignId?: string | null,
+  workspaceId?: string | null
+): Promise<EmergencyStop | null> {
+  const selectStops = () => supabase
+    .from('emergency_stops')
+    .select('id, campaign_id, reason, triggered_at')
+    .is('cleared_at', null)
+    .order('triggered_at');
+
+  let campaignIds = campaignId ? [campaignId] : [];
+  if (!campaignId && workspaceId) {
+    const { data: campaigns, error } = await supabase
+      .from('apt_campaigns')
+      .select('id')
+      .eq('workspace_id', workspaceId);
+    if (error) throw error;
+    campaignIds = (campaigns ?? []).map(campaign => campaign.id);
+  }
+
+  const [userWide, campaign] = await Promise.all([
+    selectStops().eq('user_id', userId).is('campaign_id', null),
+    campaignIds.length > 0 ? selectStops().in('campaign_id', campaignIds) : null,
+  ]);
+
+  if (userWide.error) throw userWide.error;
+  if (campaign?.error) throw campaign.error;
+
+  const stop = userWide.data?.[0] ?? campaign?.data?.[0] ?? null;
+  if (stop) {
+    console.warn('Blocked by emergency stop:', { userId, campaignId: stop.campaign_id, stopId: stop.id });
+  }
+
+  return stop;
+}
+
+export function describeEmergencyStop(stop: EmergencyStop): string {
+  const scope = stop.campaign_id ? 'for this campaign' : 'for all testing';
+  return `Emergency stop engaged ${scope} at ${stop.triggered_at} (${stop.reason}). Clear it before running anything else`;
+}
@@ -0,0 +1,227 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface EngagementWindow {
+  id: string;
+  timezone: string;
+  allowed_days: number[]; // 0 = Sunday ... 6 = Saturday, in the window's timezone
+  start_time: string; // HH:MM[:SS]
+  end_time: string; // HH:MM[:SS]; earlier than start_time means the window runs past midnight
+}
+
+export interface BlackoutPeriod {
+  id: string;
+  starts_at: string;
+  ends_at: string;
+  reason: string | null;
+}
+
+export interface CampaignPeriod {
+  name: string;
+  start_date: string;
+  end_date: string | null;
+}
+
+export interface WindowDecision {
+  allowed: boolean;
+  reason: string;
+  nextAllowedAt: string | null;
+}
+
+interface LocalTime {
+  day: number;
+  minutes: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far ahead to look for the next opening once all blackouts have ended
+const LOOKAHEAD_DAYS = 8;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function localTime(instant: Date, timezone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value ?? '';
+  return {
+    day: WEEKDAYS.indexOf(get('weekday')),
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+function timezoneOffsetMs(instant: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Instant at which the wall clock in `timezone` shows `minutes` past midnight on the local day containing `reference`
+function localMidnightPlus(reference: Date, timezone: string, minutes: number): Date {
+  const offset = timezoneOffsetMs(reference, timezone);
+  const local = new Date(reference.getTime() + offset);
+  const guess = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()) + minutes * 60 * 1000;
+  // Re-apply the offset at the candidate itself so DST transitions resolve correctly
+  return new Date(guess - timezoneOffsetMs(new Date(guess - offset), timezone));
+}
+
+function isInsideWindow(window: EngagementWindow, instant: Date): boolean {
+  const { day, minutes } = localTime(instant, window.timezone);
+  const start = toMinutes(window.start_time);
+  const end = toMinutes(window.end_time);
+
+  if (start < end) {
+    return window.allowed_days.includes(day) && minutes >= start && minutes < end;
+  }
+
+  // Overnight window: the evening part belongs to the listed day, the early-morning part to the day before
+  const previousDay = (day + 6) % 7;
+  return (window.allowed_days.includes(day) && minutes >= start)
+    || (window.allowed_days.includes(previousDay) && minutes < end);
+}
+
+function activeBlackout(blackouts: BlackoutPeriod[], instant: Date): BlackoutPeriod | undefined {
+  return blackouts.find(period =>
+    new Date(period.starts_at) <= instant && instant < new Date(period.ends_at)
+  );
+}
+
+function describeWindow(window: EngagementWindow): string {
+  const days = window.allowed_days.slice().sort().map(day => WEEKDAYS[day]).join(', ');
+  return `${days} ${window.start_time.slice(0, 5)}-${window.end_time.slice(0, 5)} ${window.timezone}`;
+}
+
+function rejection(instant: Date, windows: EngagementWindow[], blackouts: BlackoutPeriod[], campaign?: CampaignPeriod | null): string | null {
+  if (campaign) {
+    if (instant < new Date(campaign.start_date)) {
+      return `Campaign "${campaign.name}" does not start until ${campaign.start_date}`;
+    }
+    if (campaign.end_date && instant >= new Date(campaign.end_date)) {
+      return `Campaign "${campaign.name}" ended at ${campaign.end_date}`;
+    }
+  }
+
+  const blackout = activeBlackout(blackouts, instant);
+  if (blackout) {
+    return `Blackout period in effect until ${blackout.ends_at}${blackout.reason ? ` (${blackout.reason})` : ''}`;
+  }
+
+  if (windows.length > 0 && !windows.some(window => isInsideWindow(window, instant))) {
+    return `Outside the allowed testing windows: ${windows.map(describeWindow).join('; ')}`;
+  }
+
+  return null;
+}
+
+function findNextAllowed(now: Date, windows: EngagementWindow[], blackouts: BlackoutPeriod[], campaign?: CampaignPeriod | null): Date | null {
+  if (campaign?.end_date && now >= new Date(campaign.end_date)) return null;
+
+  const candidates: Date[] = [];
+  if (campaign) candidates.push(new Date(campaign.start_date));
+  blackouts.forEach(period => candidates.push(new Date(period.ends_at)));
+
+  const horizon = Math.max(now.getTime(), ...candidates.map(candidate => candidate.getTime())) + LOOKAHEAD_DAYS * DAY_MS;
+  for (const window of windows) {
+    for (let day = now.getTime() - DAY_MS; day <= horizon; day += DAY_MS) {
+      candidates.push(localMidnightPlus(new Date(day), window.timezone, toMinutes(window.start_time)));
+    }
+  }
+
+  return candidates
+    .filter(candidate => candidate > now)
+    .sort((a, b) => a.getTime() - b.getTime())
+    .find(candidate => rejection(candidate, windows, blackouts, campaign) === null) ?? null;
+}
+
+/**
+ * Decides whether tool execution is allowed at `now`. Campaign dates and
+ * blackout periods always apply; time windows only restrict execution once at
+ * least one is defined.
+ */
+export function evaluateEngagementWindow(
+  windows: EngagementWindow[],
+  blackouts: BlackoutPeriod[],
+  campaign?: CampaignPeriod | null,
+  now: Date = new Date()
+): WindowDecision {
+  const reason = rejection(now, windows, blackouts, campaign);
+  if (!reason) {
+    return { allowed: true, reason: 'Within rules of engagement', nextAllowedAt: null };
+  }
+
+  const next = findNextAllowed(now, windows, blackouts, campaign);
+  return {
+    allowed: false,
+    reason: next ? `${reason}. Next allowed window opens at ${next.toISOString()}` : `${reason}. No further testing window is scheduled`,
+    nextAllowedAt: next ? next.toISOString() : null,
+  };
+}
+
+/**
+ * Loads the rules of engagement that govern a request in a workspace. Campaign
+ * windows replace the workspace windows when present; blackouts from both
+ * apply. Workspace and campaign rules bind every member.
+ */
+export async function enforceEngagementWindow(
+  supabase: SupabaseClient,
+  userId: string,
+  workspaceId: string | null,
+  campaignId?: string | null,
+  now: Date = new Date()
+): Promise<WindowDecision> {
+  // Separate queries for the workspace's rules and the campaign's: campaignId comes from
+  // request bodies, so it is only ever passed as a value, never built into a filter string
+  const selectWindows = () => supabase
+    .from('engagement_windows')
+    .select('id, timezone, allowed_days, start_time, end_time')
+    .eq('is_active', true);
+  const selectBlackouts = () => supabase
+    .from('blackout_periods')
+    .select('id, starts_at, ends_at, reason')
+    .gt('ends_at', now.toISOString());
+  const none = Promise.resolve({ data: [], error: null });
+
+  const [workspaceWindowsResult, campaignWindowsResult, workspaceBlackoutsResult, campaignBlackoutsResult, campaignResult] = await Promise.all([
+    workspaceId ? selectWindows().eq('workspace_id', workspaceId).is('campaign_id', null) : none,
+    campaignId ? selectWindows().eq('campaign_id', campaignId) : none,
+    workspaceId ? selectBlackouts().eq('workspace_id', workspaceId).is('campaign_id', null) : none,
+    campaignId ? selectBlackouts().eq('campaign_id', campaignId) : none,
+    campaignId
+      ? supabase.from('apt_campaigns').select('name, start_date, end_date').eq('id', campaignId).maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+  ]);
+
+  for (const result of [workspaceWindowsResult, campaignWindowsResult, workspaceBlackoutsResult, campaignBlackoutsResult, campaignResult]) {
+    if (result.error) throw result.error;
+  }
+
+  const campaignWindows = (campaignWindowsResult.data ?? []) as EngagementWindow[];
+  const windows = campaignWindows.length > 0 ? campaignWindows : (workspaceWindowsResult.data ?? []) as EngagementWindow[];
+  const blackouts = [...(workspaceBlackoutsResult.data ?? []), ...(campaignBlackoutsResult.data ?? [])] as BlackoutPeriod[];
+
+  const decision = evaluateEngagementWindow(windows, blackouts, campaignResult.data, now);
+  if (!decision.allowed) {
+    console.warn('Rules of engagement violation:', { userId, workspaceId, campaignId, ...decision });
+  }
+
+  return decision;
+}
@@ -0,0 +1,156 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Record and replay of calls to external services (LLM providers, VirusTotal,
+// reconnaissance), so scans and threat analysis can be run repeatably for
+// demos, prompt regression tests and offline development. Set with function secrets:
+//   EXTERNAL_CALL_MODE      live (default) | record | replay | strict
+//   EXTERNAL_CALL_FIXTURES  fixture set to record into and replay from (default "default")
+// record makes live calls and stores each response; replay serves stored
+// responses by request hash and calls live for anything not recorded; strict
+// replays and fails any call that was not recorded.
+
+export type ExternalCallMode = 'live' | 'record' | 'replay' | 'strict';
+
+const MODES: ExternalCallMode[] = ['live', 'record', 'replay', 'strict'];
+
+// Credentials passed in the query string are never hashed or stored
+const SECRET_PARAMS = ['apikey', 'api_key', 'key', 'token', 'access_token'];
+
+// A strict replay was asked for a call that has no fixture
+export class UnrecordedCallError extends Error {}
+
+export function externalCallMode(): ExternalCallMode {
+  const mode = (Deno.env.get('EXTERNAL_CALL_MODE') ?? 'live').trim().toLowerCase();
+  if (MODES.includes(mode as ExternalCallMode)) return mode as ExternalCallMode;
+  console.warn(`[External Calls] Unknown EXTERNAL_CALL_MODE "${mode}", calling live`);
+  return 'live';
+}
+
+const fixtureSet = () => Deno.env.get('EXTERNAL_CALL_FIXTURES')?.trim() || 'default';
+
+let fixtureClient: SupabaseClient | null = null;
+
+function fixtures(): SupabaseClient {
+  if (!fixtureClient) {
+    fixtureClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+  }
+  return fixtureClient;
+}
+
+function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  for (const param of SECRET_PARAMS) {
+    if (parsed.searchParams.has(param)) parsed.searchParams.set(param, 'REDACTED');
+  }
+  return parsed.toString();
+}
+
+// JSON with object keys sorted, so equal bodies hash the same whatever their key order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function canonicalBody(body: string | null, ignoreFields: string[]): string {
+  if (!body) return '';
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      for (const field of ignoreFields) delete parsed[field];
+    }
+    return canonicalJson(parsed);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Identifies a call by service, method, URL without credentials and body.
+ * Headers are left out: they carry the API keys, which differ between environments.
+ * ignoreFields are top-level body fields that vary between runs of the same call.
+ */
+export async function requestHash(
+  service: string,
+  method: string,
+  url: string,
+  body: string | null,
+  ignoreFields: string[] = []
+): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode([service, method.toUpperCase(), redactUrl(url), canonicalBody(body, ignoreFields)].join('\n'))
+  );
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * fetch() for calls to external services, recording or replaying them as
+ * EXTERNAL_CALL_MODE says. Bodies must be strings. Fixture storage problems
+ * are logged and never fail a live call.
+ */
+export async function externalFetch(
+  service: string,
+  url: string,
+  init: RequestInit = {},
+  options: { ignoreFields?: string[] } = {}
+): Promise<Response> {
+  const mode = externalCallMode();
+  if (mode === 'live') return fetch(url, init);
+
+  const method = init.method ?? 'GET';
+  const body = typeof init.body === 'string' ? init.body : null;
+  const hash = await requestHash(service, method, url, body, options.ignoreFields);
+  const set = fixtureSet();
+
+  if (mode === 'replay' || mode === 'strict') {
+    const { data: fixture, error } = await fixtures()
+      .from('external_call_fixtures')
+      .select('response_status, response_headers, response_body')
+      .eq('fixture_set', set)
+      .eq('request_hash', hash)
+      .maybeSingle();
+    if (error) console.error('[External Calls] Failed to read fixture:', error);
+
+    if (fixture) {
+      return new Response(fixture.response_body, {
+        status: fixture.response_status,
+        headers: (fixture.response_headers ?? {}) as Record<string, string>,
+      });
+    }
+    if (mode === 'strict') {
+      throw new UnrecordedCallError(`No recorded ${service} response for ${method} ${redactUrl(url)} (${hash.slice(0, 12)}) in fixture set "${set}"`);
+    }
+    console.warn(`[External Calls] No recorded ${service} response for ${hash.slice(0, 12)}, calling live`);
+    return fetch(url, init);
+  }
+
+  const response = await fetch(url, init);
+  const responseBody = await response.text();
+  const contentType = response.headers.get('content-type');
+
+  const { error } = await fixtures()
+    .from('external_call_fixtures')
+    .upsert({
+      fixture_set: set,
+      request_hash: hash,
+      service,
+      method: method.toUpperCase(),
+      url: redactUrl(url),
+      request_body: body,
+      response_status: response.status,
+      response_headers: contentType ? { 'content-type': contentType } : {},
+      response_body: responseBody,
+      recorded_at: new Date().toISOString(),
+    }, { onConflict: 'fixture_set,request_hash' });
+  if (error) console.error('[External Calls] Failed to record fixture:', error);
+
+  // The body is already decoded, so only its type carries over
+  return new Response(responseBody, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: contentType ? { 'content-type': contentType } : {},
+  });
+}
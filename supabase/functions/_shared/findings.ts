@@ -0,0 +1,216 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+// A vulnerability as returned by an agent, before normalization
+export interface ReportedVulnerability {
+  agentId: string | null;
+  agentName: string;
+  vulnerability: Record<string, unknown>;
+}
+
+export interface FindingSource {
+  agent_id: string | null;
+  agent_name: string;
+  severity: Severity;
+  cvss_score: number | null;
+}
+
+// One issue after duplicates reported by several agents have been folded together
+export interface MergedFinding {
+  fingerprint: string;
+  name: string;
+  cve: string | null;
+  cwe: string | null;
+  severity: Severity;
+  cvss_score: number | null;
+  exploitability: string | null;
+  port: number | null;
+  service: string | null;
+  description: string | null;
+  mitigation: string | null;
+  sources: FindingSource[];
+  agent_count: number;
+  confidence: number;
+  raw: Record<string, unknown>[];
+}
+
+export interface FindingsInput {
+  userId: string;
+  scanId: string;
+  assetId: string;
+  findings: MergedFinding[];
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const text = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  const trimmed = String(value).trim();
+  return trimmed.length > 0 ? trimmed : null;
+};
+
+const numberInRange = (value: unknown, min: number, max: number): number | null => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) && parsed >= min && parsed <= max ? parsed : null;
+};
+
+// Mirrors public.normalize_finding_severity so backfilled and new rows agree
+export function normalizeSeverity(severity: unknown): Severity {
+  switch (text(severity)?.toLowerCase()) {
+    case 'critical': return 'critical';
+    case 'high': return 'high';
+    case 'medium':
+    case 'moderate': return 'medium';
+    default: return 'low';
+  }
+}
+
+/**
+ * Identifies the same issue regardless of which agent reported it: CVE, else
+ * CWE, else the name, plus port and the service's product name (versions are
+ * ignored so "OpenSSH 7.2" and "openssh" match). Mirrors public.finding_fingerprint.
+ */
+export function findingFingerprint(
+  finding: { cve: string | null; cwe: string | null; name: string; port: number | null; service: string | null }
+): string {
+  const issue = (finding.cve ?? finding.cwe ?? finding.name).toLowerCase();
+  const product = (finding.service ?? '').trim().split(' ')[0].toLowerCase();
+  return `${issue}:${finding.port ?? '*'}:${product}`;
+}
+
+const normalizeVulnerability = (v: Record<string, unknown>) => {
+  const cvss = numberInRange(v.cvss_score, 0, 10);
+  const port = numberInRange(v.port, 0, 65535);
+  return {
+    name: text(v.name) ?? text(v.title) ?? 'Unnamed vulnerability',
+    cve: text(v.cve)?.toUpperCase() ?? null,
+    cwe: text(v.cwe)?.toUpperCase() ?? null,
+    severity: normalizeSeverity(v.severity),
+    cvss_score: cvss === null ? null : Math.round(cvss * 10) / 10,
+    exploitability: text(v.exploitability),
+    port: port === null ? null : Math.trunc(port),
+    service: text(v.service),
+    description: text(v.description),
+    mitigation: text(v.mitigation),
+  };
+};
+
+/**
+ * Folds the vulnerabilities every agent reported into one finding per
+ * fingerprint. Merged findings keep the highest severity and CVSS any agent
+ * gave, list every reporting agent as a source, and carry a confidence equal
+ * to the share of responding agents that reported the issue.
+ */
+export function mergeReportedVulnerabilities(
+  reported: ReportedVulnerability[],
+  respondingAgents: number
+): MergedFinding[] {
+  const merged = new Map<string, MergedFinding>();
+
+  for (const { agentId, agentName, vulnerability } of reported) {
+    if (!vulnerability || typeof vulnerability !== 'object') continue;
+
+    const normalized = normalizeVulnerability(vulnerability);
+    const fingerprint = findingFingerprint(normalized);
+    const source: FindingSource = {
+      agent_id: agentId,
+      agent_name: agentName,
+      severity: normalized.severity,
+      cvss_score: normalized.cvss_score,
+    };
+
+    const existing = merged.get(fingerprint);
+    if (!existing) {
+      merged.set(fingerprint, { ...normalized, fingerprint, sources: [source], agent_count: 0, confidence: 0, raw: [vulnerability] });
+      continue;
+    }
+
+    existing.sources.push(source);
+    existing.raw.push(vulnerability);
+    if (SEVERITY_RANK[normalized.severity] > SEVERITY_RANK[existing.severity]) existing.severity = normalized.severity;
+    if (normalized.cvss_score !== null && (existing.cvss_score === null || normalized.cvss_score > existing.cvss_score)) {
+      existing.cvss_score = normalized.cvss_score;
+    }
+    // Fill gaps from later reports; the first agent's wording wins otherwise
+    for (const key of ['cve', 'cwe', 'exploitability', 'service', 'description', 'mitigation'] as const) {
+      existing[key] = existing[key] ?? normalized[key];
+    }
+  }
+
+  return [...merged.values()].map(finding => {
+    const agentCount = new Set(finding.sources.map(s => s.agent_id ?? s.agent_name)).size;
+    return {
+      ...finding,
+      agent_count: agentCount,
+      confidence: Math.round(Math.min(agentCount / Math.max(respondingAgents, 1), 1) * 100) / 100,
+    };
+  });
+}
+
+/**
+ * Writes one `findings` row per merged finding for a scan and returns how
+ * many were stored. Findings the scan already has, from an earlier attempt at
+ * aggregating it or before an agent was rerun, get the new merged sources and
+ * confidence; everything else about them, their triage included, is kept.
+ * Stored findings no longer in the merge are deleted, so an empty merge
+ * leaves the scan without findings.
+ */
+export async function recordFindings(supabase: SupabaseClient, input: FindingsInput): Promise<number> {
+  const { data: stored, error: storedError } = await supabase
+    .from('findings')
+    .select('id, fingerprint')
+    .eq('scan_id', input.scanId);
+
+  if (storedError) throw storedError;
+  const storedIds = new Map((stored ?? []).map(finding => [finding.fingerprint as string, finding.id as string]));
+
+  for (const finding of input.findings) {
+    const id = storedIds.get(finding.fingerprint);
+    if (!id) continue;
+
+    const { error } = await supabase
+      .from('findings')
+      .update({
+        sources: finding.sources,
+        confidence: finding.confidence,
+        raw: finding.raw.length === 1 ? finding.raw[0] : { merged: finding.raw },
+      })
+      .eq('id', id);
+    if (error) throw error;
+  }
+
+  const current = new Set(input.findings.map(finding => finding.fingerprint));
+  const dropped = [...storedIds].filter(([fingerprint]) => !current.has(fingerprint)).map(([, id]) => id);
+  if (dropped.length > 0) {
+    const { error } = await supabase.from('findings').delete().in('id', dropped);
+    if (error) throw error;
+  }
+
+  const rows = input.findings.filter(finding => !storedIds.has(finding.fingerprint)).map(finding => ({
+    user_id: input.userId,
+    scan_id: input.scanId,
+    asset_id: input.assetId,
+    agent_id: finding.sources[0]?.agent_id ?? null,
+    name: finding.name,
+    cve: finding.cve,
+    cwe: finding.cwe,
+    severity: finding.severity,
+    cvss_score: finding.cvss_score,
+    exploitability: finding.exploitability,
+    port: finding.port,
+    service: finding.service,
+    description: finding.description,
+    mitigation: finding.mitigation,
+    sources: finding.sources,
+    confidence: finding.confidence,
+    raw: finding.raw.length === 1 ? finding.raw[0] : { merged: finding.raw },
+  }));
+
+  if (rows.length > 0) {
+    const { error } = await supabase.from('findings').insert(rows);
+    if (error) throw error;
+  }
+
+  return input.findings.length;
+}
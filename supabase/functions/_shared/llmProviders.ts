@@ -0,0 +1,324 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { externalCallMode, externalFetch, UnrecordedCallError } from "./externalCalls.ts";
+
+// Where LLM calls go. Every function asks for a chat completion through here, so
+// providers, error handling and usage reporting are the same everywhere.
+//
+// A workspace may configure providers in llm_providers: hosted OpenAI, the
+// Lovable gateway, Perplexity, or any OpenAI-compatible endpoint such as
+// Ollama, vLLM or llama.cpp on our own hardware for client data that must not
+// leave the network. The workspace's default provider serves every call made
+// for it; a provider listing agent ids serves those agents instead. Without
+// any configured provider, calls use the built-in provider of each function.
+
+export type ProviderKind = 'openai' | 'openai_compatible' | 'lovable' | 'perplexity';
+
+export interface LlmProvider {
+  // null for the built-in providers
+  id: string | null;
+  workspace_id: string | null;
+  name: string;
+  kind: ProviderKind;
+  base_url: string;
+  // Name of the function secret holding the API key; null sends no key
+  api_key_secret: string | null;
+  default_model: string;
+  is_default: boolean;
+  agent_ids: string[];
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature: number;
+  max_tokens?: number;
+  // Provider-specific parameters, such as Perplexity's search_recency_filter
+  extra?: Record<string, unknown>;
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ChatCompletion {
+  content: string;
+  usage: TokenUsage | null;
+  http_status: number;
+  duration_ms: number;
+}
+
+// 429 and 5xx responses, requests that hit the timeout, connection failures,
+// 200 responses without a completion in them, other error responses, and
+// providers whose key is not set
+export type LlmFailure = '429' | '5xx' | 'timeout' | 'network' | 'invalid_response' | 'rejected' | 'not_configured';
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    readonly failure: LlmFailure,
+    readonly httpStatus?: number,
+    readonly durationMs = 0
+  ) {
+    super(message);
+  }
+}
+
+// Who a call is made for, as recorded in llm_usage
+export interface UsageContext {
+  supabase: SupabaseClient;
+  source: string;
+  workspaceId: string | null;
+  userId: string | null;
+  scanId?: string | null;
+  agentId?: string | null;
+}
+
+export const BUILTIN_PROVIDERS: Record<Exclude<ProviderKind, 'openai_compatible'>, LlmProvider> = {
+  openai: {
+    id: null,
+    workspace_id: null,
+    name: 'OpenAI',
+    kind: 'openai',
+    base_url: 'https://api.openai.com/v1',
+    api_key_secret: 'OPENAI_API_KEY',
+    default_model: 'gpt-4o-mini',
+    is_default: false,
+    agent_ids: [],
+  },
+  lovable: {
+    id: null,
+    workspace_id: null,
+    name: 'Lovable AI Gateway',
+    kind: 'lovable',
+    base_url: 'https://ai.gateway.lovable.dev/v1',
+    api_key_secret: 'LOVABLE_API_KEY',
+    default_model: 'google/gemini-2.5-flash',
+    is_default: false,
+    agent_ids: [],
+  },
+  perplexity: {
+    id: null,
+    workspace_id: null,
+    name: 'Perplexity',
+    kind: 'perplexity',
+    base_url: 'https://api.perplexity.ai',
+    api_key_secret: 'PERPLEXITY_API_KEY',
+    default_model: 'llama-3.1-sonar-small-128k-online',
+    is_default: false,
+    agent_ids: [],
+  },
+};
+
+// Workspaces may only point their own providers at these secrets, so a custom
+// endpoint can never be sent the platform's keys or the service role key
+const CUSTOM_SECRET = /^LLM_[A-Z0-9_]+$/;
+
+/**
+ * The prefix of the secrets a workspace's providers may use, e.g.
+ * LLM_0F8E…_ for workspace 0f8e…: the name carries the workspace, so one
+ * workspace cannot send another's key to an endpoint of its choosing.
+ * Mirrored by llm_providers_api_key_secret_check.
+ */
+export function workspaceSecretPrefix(workspaceId: string): string {
+  return `LLM_${workspaceId.toUpperCase().replace(/-/g, '_')}_`;
+}
+
+function apiKeySecret(provider: LlmProvider): string | null {
+  if (provider.id === null) return provider.api_key_secret;
+  if (provider.api_key_secret) {
+    if (
+      !provider.workspace_id
+      || !CUSTOM_SECRET.test(provider.api_key_secret)
+      || !provider.api_key_secret.startsWith(workspaceSecretPrefix(provider.workspace_id))
+    ) {
+      throw new LlmError(`${provider.name} uses a secret that does not belong to its workspace`, 'not_configured');
+    }
+    return provider.api_key_secret;
+  }
+  // Hosted providers fall back to the platform key; a custom endpoint gets no key
+  return provider.kind === 'openai_compatible' ? null : BUILTIN_PROVIDERS[provider.kind].api_key_secret;
+}
+
+/**
+ * The providers configured for a workspace. An empty list means every call
+ * uses its function's built-in provider.
+ */
+export async function listLlmProviders(supabase: SupabaseClient, workspaceId: string | null): Promise<LlmProvider[]> {
+  if (!workspaceId) return [];
+
+  const { data, error } = await supabase
+    .from('llm_providers')
+    .select('id, workspace_id, name, kind, base_url, api_key_secret, default_model, is_default, agent_ids')
+    .eq('workspace_id', workspaceId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data ?? []).map(row => ({
+    ...row,
+    // Hosted providers always use their own endpoint
+    base_url: row.kind === 'openai_compatible' ? row.base_url : BUILTIN_PROVIDERS[row.kind as Exclude<ProviderKind, 'openai_compatible'>].base_url,
+    agent_ids: row.agent_ids ?? [],
+  })) as LlmProvider[];
+}
+
+/**
+ * The provider a call is made with: the one assigned to the agent, else the
+ * workspace default, else the function's built-in provider.
+ */
+export function selectLlmProvider(
+  providers: LlmProvider[],
+  builtin: LlmProvider,
+  agentId?: string | null
+): LlmProvider {
+  return (agentId ? providers.find(provider => provider.agent_ids.includes(agentId)) : undefined)
+    ?? providers.find(provider => provider.is_default)
+    ?? builtin;
+}
+
+/**
+ * A provider named in agent config, e.g. a call policy fallback: a workspace
+ * provider by id or name, or a built-in provider by kind.
+ */
+export function findLlmProvider(providers: LlmProvider[], reference: string): LlmProvider | null {
+  const name = reference.trim().toLowerCase();
+  return providers.find(provider => provider.id === reference || provider.name.toLowerCase() === name)
+    ?? (name in BUILTIN_PROVIDERS ? BUILTIN_PROVIDERS[name as keyof typeof BUILTIN_PROVIDERS] : null);
+}
+
+/**
+ * The HTTP status an edge function answers with when its LLM call failed:
+ * rate limits and payment errors pass through, everything else is a bad gateway.
+ */
+export function llmErrorStatus(error: LlmError): number {
+  if (error.failure === '429') return 429;
+  if (error.httpStatus === 402) return 402;
+  if (error.failure === 'timeout') return 504;
+  if (error.failure === 'not_configured') return 503;
+  return 502;
+}
+
+async function recordUsage(
+  context: UsageContext,
+  provider: LlmProvider,
+  model: string,
+  outcome: { usage: TokenUsage | null; duration_ms: number; error?: LlmError }
+) {
+  const { error } = await context.supabase.from('llm_usage').insert({
+    workspace_id: context.workspaceId,
+    user_id: context.userId,
+    source: context.source,
+    scan_id: context.scanId ?? null,
+    agent_id: context.agentId ?? null,
+    provider_id: provider.id,
+    provider_kind: provider.kind,
+    model,
+    status: outcome.error ? 'failed' : 'succeeded',
+    failure: outcome.error?.failure ?? null,
+    prompt_tokens: outcome.usage?.prompt_tokens ?? null,
+    completion_tokens: outcome.usage?.completion_tokens ?? null,
+    total_tokens: outcome.usage?.total_tokens ?? null,
+    duration_ms: outcome.duration_ms,
+  });
+  // Usage reporting never fails the call it reports on
+  if (error) console.error('[LLM] Failed to record usage:', error);
+}
+
+async function requestChatCompletion(
+  provider: LlmProvider,
+  model: string,
+  request: ChatRequest,
+  timeoutMs: number
+): Promise<ChatCompletion> {
+  const startedAt = Date.now();
+  const secret = apiKeySecret(provider);
+  const apiKey = secret ? Deno.env.get(secret) : undefined;
+  // Replays are served from fixtures, so they run offline without keys
+  const replaying = ['replay', 'strict'].includes(externalCallMode());
+  if (secret && !apiKey && !replaying) {
+    throw new LlmError(`${secret} is not configured`, 'not_configured');
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const { extra, ...parameters } = request;
+
+  try {
+    const response = await externalFetch(provider.kind, `${provider.base_url.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model, ...parameters, ...extra }),
+      signal: controller.signal,
+    });
+    const body = await response.text();
+    const duration = Date.now() - startedAt;
+
+    if (!response.ok) {
+      const failure = response.status === 429 ? '429' : response.status >= 500 ? '5xx' : 'rejected';
+      throw new LlmError(`${provider.name} returned ${response.status}: ${body.slice(0, 500)}`, failure, response.status, duration);
+    }
+
+    let parsed: { choices?: { message?: { content?: unknown } }[]; usage?: Partial<TokenUsage> } | undefined;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      parsed = undefined;
+    }
+    const content = parsed?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new LlmError(`No completion in ${provider.name} response: ${body.slice(0, 500)}`, 'invalid_response', response.status, duration);
+    }
+
+    // Local servers do not always report usage
+    const usage = parsed?.usage;
+    return {
+      content,
+      usage: typeof usage?.total_tokens === 'number'
+        ? { prompt_tokens: usage.prompt_tokens ?? 0, completion_tokens: usage.completion_tokens ?? 0, total_tokens: usage.total_tokens }
+        : null,
+      http_status: response.status,
+      duration_ms: duration,
+    };
+  } catch (error) {
+    if (error instanceof LlmError) throw error;
+    const duration = Date.now() - startedAt;
+    // A strict replay without a recording; retrying cannot help
+    if (error instanceof UnrecordedCallError) throw new LlmError(error.message, 'rejected', undefined, duration);
+    if (controller.signal.aborted) {
+      throw new LlmError(`${provider.name} did not respond within ${timeoutMs}ms`, 'timeout', undefined, duration);
+    }
+    throw new LlmError(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`, 'network', undefined, duration);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Asks a provider for a chat completion. Failures are thrown as LlmError,
+ * and every call is recorded in llm_usage when a usage context is given.
+ */
+export async function chatCompletion(
+  provider: LlmProvider,
+  model: string,
+  request: ChatRequest,
+  options: { timeoutMs?: number; usage?: UsageContext } = {}
+): Promise<ChatCompletion> {
+  try {
+    const completion = await requestChatCompletion(provider, model, request, options.timeoutMs ?? 60_000);
+    if (options.usage) await recordUsage(options.usage, provider, model, completion);
+    return completion;
+  } catch (error) {
+    if (error instanceof LlmError && options.usage) {
+      await recordUsage(options.usage, provider, model, { usage: null, duration_ms: error.durationMs, error });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,152 @@
+import type { JsonSchema, OutputSchema } from "./structuredOutput.ts";
+
+// Output schemas of every LLM call. Changing what a schema accepts means a new
+// version, so stored validation results keep naming the schema they were checked against.
+
+const nullable = (schema: JsonSchema): JsonSchema => ({
+  ...schema,
+  type: [...(Array.isArray(schema.type) ? schema.type : [schema.type!]), 'null'],
+  default: null,
+});
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' }, default: [] };
+
+// Agent analysis of a scan, as aggregated into findings and the threat level by scan-worker
+export const AGENT_FINDINGS_SCHEMA: OutputSchema = {
+  name: 'agent_findings',
+  version: 1,
+  schema: {
+    type: 'object',
+    required: ['vulnerabilities', 'risk_score'],
+    properties: {
+      vulnerabilities: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name', 'severity'],
+          properties: {
+            name: { type: 'string' },
+            cve: nullable({ type: 'string' }),
+            cwe: nullable({ type: 'string' }),
+            severity: { type: 'string', enum: ['critical', 'high', 'medium', 'low', 'info'] },
+            description: nullable({ type: 'string' }),
+            cvss_score: nullable({ type: 'number', minimum: 0, maximum: 10 }),
+            exploitability: nullable({ type: 'string' }),
+            port: nullable({ type: 'integer', minimum: 0, maximum: 65535 }),
+            service: nullable({ type: 'string' }),
+            mitigation: nullable({ type: 'string' }),
+          },
+        },
+      },
+      findings: stringList,
+      risk_score: { type: 'number', minimum: 0, maximum: 10 },
+    },
+  },
+};
+
+export interface IocAnalysis {
+  description: string;
+  attack_methods: string[];
+  impact_assessment: string | null;
+  related_indicators: string[];
+  mitigation_steps: string[];
+  threat_context: string | null;
+  severity_level: 'low' | 'medium' | 'high' | 'critical';
+  confidence_score: number;
+}
+
+// AI analysis of an indicator of compromise in threat-analysis
+export const IOC_ANALYSIS_SCHEMA: OutputSchema = {
+  name: 'ioc_analysis',
+  version: 1,
+  schema: {
+    type: 'object',
+    required: ['description', 'severity_level', 'confidence_score'],
+    properties: {
+      description: { type: 'string' },
+      attack_methods: stringList,
+      impact_assessment: nullable({ type: 'string' }),
+      related_indicators: stringList,
+      mitigation_steps: stringList,
+      threat_context: nullable({ type: 'string' }),
+      severity_level: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+      confidence_score: { type: 'number', minimum: 0, maximum: 100 },
+    },
+  },
+};
+
+export interface AttackPathStep {
+  technique_name: string;
+  mitre_tactic: string | null;
+  mitre_technique: string;
+  phase: string;
+  description: string;
+  tools_required: string[];
+  tool_chain: string[];
+  fallback_tools: string[];
+  prerequisites: string[];
+  expected_outcome: string | null;
+  risk_level: 'low' | 'medium' | 'high' | 'critical';
+  risk_score: number | null;
+  exploitability: number | null;
+  impact: number | null;
+  stealth: number | null;
+  cvss_score: number | null;
+  ai_recommended: boolean;
+  execution_order: number | null;
+}
+
+// Attack path steps planned by ai-attack-planner
+export const ATTACK_RECOMMENDATIONS_SCHEMA: OutputSchema = {
+  name: 'attack_recommendations',
+  version: 1,
+  schema: {
+    type: 'array',
+    minItems: 1,
+    items: {
+      type: 'object',
+      required: ['technique_name', 'mitre_technique', 'phase', 'description', 'risk_level'],
+      properties: {
+        technique_name: { type: 'string' },
+        mitre_tactic: nullable({ type: 'string' }),
+        mitre_technique: { type: 'string' },
+        phase: { type: 'string' },
+        description: { type: 'string' },
+        tools_required: stringList,
+        tool_chain: stringList,
+        fallback_tools: stringList,
+        prerequisites: stringList,
+        expected_outcome: nullable({ type: 'string' }),
+        risk_level: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+        risk_score: nullable({ type: 'number', minimum: 0 }),
+        exploitability: nullable({ type: 'number', minimum: 1, maximum: 10 }),
+        impact: nullable({ type: 'number', minimum: 1, maximum: 10 }),
+        stealth: nullable({ type: 'number', minimum: 1, maximum: 10 }),
+        cvss_score: nullable({ type: 'number', minimum: 0, maximum: 10 }),
+        ai_recommended: { type: 'boolean', default: false },
+        execution_order: nullable({ type: 'integer', minimum: 1 }),
+      },
+    },
+  },
+};
+
+export interface PhaseAnalysis {
+  aiDecision: string[];
+  indicators: string[];
+  defenses: string[];
+}
+
+// Decisions, indicators and defenses for one APT phase in apt-phase-analysis
+export const PHASE_ANALYSIS_SCHEMA: OutputSchema = {
+  name: 'phase_analysis',
+  version: 1,
+  schema: {
+    type: 'object',
+    required: ['aiDecision', 'indicators', 'defenses'],
+    properties: {
+      aiDecision: { type: 'array', items: { type: 'string' }, minItems: 1 },
+      indicators: { type: 'array', items: { type: 'string' }, minItems: 1 },
+      defenses: { type: 'array', items: { type: 'string' }, minItems: 1 },
+    },
+  },
+};
@@ -0,0 +1,49 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { UserSettings } from "./userSettings.ts";
+
+export type NotificationKind = 'scan_complete' | 'threat_detected' | 'agent_error' | 'weekly_report' | 'schedule_alert';
+
+export interface Notification {
+  userId: string;
+  kind: NotificationKind;
+  title: string;
+  message: string;
+  scanId?: string | null;
+}
+
+const SETTING_FOR_KIND: Record<NotificationKind, keyof UserSettings> = {
+  scan_complete: 'notify_scan_complete',
+  threat_detected: 'notify_threat_detected',
+  agent_error: 'notify_agent_errors',
+  weekly_report: 'notify_weekly_report',
+  // New findings or ports on a recurring scan are threats the user has not seen yet
+  schedule_alert: 'notify_threat_detected',
+};
+
+/**
+ * Stores an in-app notification unless the user has turned that kind off.
+ * Returns whether it was sent. Failures are logged, never thrown, so a
+ * notification problem cannot fail the work it reports on.
+ */
+export async function notify(
+  supabase: SupabaseClient,
+  settings: UserSettings,
+  notification: Notification
+): Promise<boolean> {
+  if (!settings[SETTING_FOR_KIND[notification.kind]]) return false;
+
+  const { error } = await supabase.from('notifications').insert({
+    user_id: notification.userId,
+    kind: notification.kind,
+    title: notification.title,
+    message: notification.message,
+    scan_id: notification.scanId ?? null,
+  });
+
+  if (error) {
+    console.error('Error sending notification:', error);
+    return false;
+  }
+
+  return true;
+}
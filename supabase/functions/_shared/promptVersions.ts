@@ -0,0 +1,94 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// The prompt an agent runs with in a scan. A workspace may publish its own
+// versions of an agent's prompt (agent_prompt_versions); the current one is
+// used unless an experiment is running for the agent, which splits the
+// workspace's scans between two versions. Without any published version the
+// agent's built-in ai_agents.prompt_template is used.
+
+export interface AgentPrompt {
+  template: string;
+  // null for the built-in prompt
+  version_id: string | null;
+  version: number | null;
+  experiment_id: string | null;
+}
+
+interface PromptVersionRow {
+  id: string;
+  agent_id: string;
+  version: number;
+  template: string;
+  is_current: boolean;
+}
+
+interface PromptExperimentRow {
+  id: string;
+  agent_id: string;
+  version_a_id: string;
+  version_b_id: string;
+  traffic_b: number;
+}
+
+/**
+ * Which arm of an experiment a scan is in, 0-99 against the share of scans that
+ * get version B. Hashing the scan keeps its reruns and retries on the same version.
+ */
+export async function experimentBucket(experimentId: string, scanId: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${experimentId}:${scanId}`));
+  return new DataView(digest).getUint32(0) % 100;
+}
+
+/**
+ * The prompts of a scan's agents, by agent id.
+ */
+export async function resolveAgentPrompts(
+  supabase: SupabaseClient,
+  workspaceId: string | null,
+  scanId: string,
+  agents: { id: string; prompt_template: string }[]
+): Promise<Map<string, AgentPrompt>> {
+  const builtin = (agent: { prompt_template: string }): AgentPrompt =>
+    ({ template: agent.prompt_template, version_id: null, version: null, experiment_id: null });
+  if (!workspaceId || agents.length === 0) return new Map(agents.map(agent => [agent.id, builtin(agent)]));
+
+  const agentIds = agents.map(agent => agent.id);
+  const [versionsResult, experimentsResult] = await Promise.all([
+    supabase
+      .from('agent_prompt_versions')
+      .select('id, agent_id, version, template, is_current')
+      .eq('workspace_id', workspaceId)
+      .in('agent_id', agentIds),
+    supabase
+      .from('agent_prompt_experiments')
+      .select('id, agent_id, version_a_id, version_b_id, traffic_b')
+      .eq('workspace_id', workspaceId)
+      .eq('status', 'running')
+      .in('agent_id', agentIds),
+  ]);
+  if (versionsResult.error) throw versionsResult.error;
+  if (experimentsResult.error) throw experimentsResult.error;
+
+  const versions = new Map(((versionsResult.data ?? []) as PromptVersionRow[]).map(version => [version.id, version]));
+  const experiments = new Map(((experimentsResult.data ?? []) as PromptExperimentRow[]).map(experiment => [experiment.agent_id, experiment]));
+  const prompts = new Map<string, AgentPrompt>();
+
+  for (const agent of agents) {
+    const experiment = experiments.get(agent.id);
+    if (experiment) {
+      const arm = await experimentBucket(experiment.id, scanId) < experiment.traffic_b
+        ? experiment.version_b_id
+        : experiment.version_a_id;
+      const version = versions.get(arm)!;
+      prompts.set(agent.id, { template: version.template, version_id: version.id, version: version.version, experiment_id: experiment.id });
+      continue;
+    }
+
+    const current = [...versions.values()].find(version => version.agent_id === agent.id && version.is_current);
+    prompts.set(agent.id, current
+      ? { template: current.template, version_id: current.id, version: current.version, experiment_id: null }
+      : builtin(agent));
+  }
+
+  return prompts;
+}
@@ -0,0 +1,295 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { upsertAsset } from "./assets.ts";
+import { downstreamAgents } from "./agentPipeline.ts";
+import type { PreparedTarget, RejectedTarget } from "./targets.ts";
+import type { ScanProfileSnapshot } from "./scanProfiles.ts";
+
+export type ScanStage = 'reconnaissance' | 'threat_intel' | 'agents' | 'aggregation';
+
+export type StageStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface StageProgress {
+  status: StageStatus;
+  attempts: number;
+  started_at?: string;
+  completed_at?: string;
+  error?: string;
+}
+
+// The scan request as accepted by ai-agent-orchestrator
+export interface ScanJobPayload {
+  target: string;
+  assetType: 'domain' | 'ip' | 'url' | 'hash' | 'email';
+  agentIds?: string[];
+  campaignId?: string | null;
+  assetId: string | null;
+  autoAnalysis: boolean;
+  // Set for runs of a recurring scan, which are compared with the schedule's previous run
+  scheduleId?: string | null;
+  // Set for the child scans of a bulk import
+  parentScanId?: string | null;
+  // Recon services, tool parameters, model and risk policy to run with; defaults apply without one
+  profile?: ScanProfileSnapshot | null;
+  // Set when a finished scan is requeued to rerun one failed agent; only that agent and the
+  // agents downstream of it (dependentIds) run again
+  retry?: { executionId: string; agentId: string; dependentIds?: string[] } | null;
+}
+
+export interface EnqueueScanInput extends Omit<ScanJobPayload, 'assetId'> {
+  userId: string;
+  workspaceId: string | null;
+  scopeId: string | null;
+}
+
+// Runs in this order; progress is the share of the scan done once the stage completes
+export const SCAN_STAGES: { stage: ScanStage; progress: number }[] = [
+  { stage: 'reconnaissance', progress: 25 },
+  { stage: 'threat_intel', progress: 45 },
+  { stage: 'agents', progress: 85 },
+  { stage: 'aggregation', progress: 100 },
+];
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+// Keeps the function alive for the promise after the response is sent, where the runtime supports it
+export function runInBackground(promise: Promise<unknown>): boolean {
+  if (typeof EdgeRuntime === 'undefined') return false;
+  EdgeRuntime.waitUntil(promise);
+  return true;
+}
+
+/**
+ * Asks scan-worker to pick up queued jobs now rather than on the next cron
+ * sweep. A failed wake-up only delays the job until then.
+ */
+export function wakeScanWorker() {
+  runInBackground(fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/scan-worker`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      'Content-Type': 'application/json',
+    },
+    body: '{}',
+  }).catch(error => console.error('Failed to wake scan worker:', error)));
+}
+
+/**
+ * Records a pending scan and the job scan-worker runs it from. Callers check
+ * scope, rules of engagement and concurrency first.
+ */
+export async function enqueueScan(
+  supabase: SupabaseClient,
+  input: EnqueueScanInput
+): Promise<{ scanId: string; jobId: string }> {
+  const { userId, workspaceId: requestedWorkspaceId, scopeId, ...request } = input;
+
+  // The scan and its asset go to the user's active workspace unless the caller names one
+  let workspaceId = requestedWorkspaceId;
+  if (!workspaceId) {
+    const { data, error } = await supabase.rpc('active_workspace_id', { _user_id: userId });
+    if (error || !data) {
+      console.error('Error resolving workspace:', error);
+      throw new Error('Failed to create scan');
+    }
+    workspaceId = data as string;
+  }
+  const assetId = await upsertAsset(supabase, workspaceId, userId, request.assetType, request.target);
+
+  const { data: scan, error: scanError } = await supabase
+    .from('scans')
+    .insert({
+      user_id: userId,
+      target: request.target,
+      asset_type: request.assetType,
+      asset_id: assetId,
+      workspace_id: workspaceId,
+      schedule_id: request.scheduleId ?? null,
+      parent_scan_id: request.parentScanId ?? null,
+      profile_id: request.profile?.id ?? null,
+      profile_snapshot: request.profile ?? null,
+      status: 'pending',
+      metadata: {
+        queued_at: new Date().toISOString(),
+        campaign_id: request.campaignId ?? null,
+        scope_id: scopeId,
+        auto_analysis: request.autoAnalysis
+      }
+    })
+    .select('id')
+    .single();
+
+  if (scanError) {
+    console.error('Error creating scan:', scanError);
+    throw new Error('Failed to create scan');
+  }
+
+  const payload: ScanJobPayload = { ...request, assetId };
+  const { data: job, error: jobError } = await supabase
+    .from('scan_jobs')
+    .insert({
+      scan_id: scan.id,
+      user_id: userId,
+      payload
+    })
+    .select('id')
+    .single();
+
+  if (jobError) {
+    console.error('Error enqueueing scan:', jobError);
+    await supabase.from('scans').update({ status: 'failed' }).eq('id', scan.id);
+    throw new Error('Failed to enqueue scan');
+  }
+
+  return { scanId: scan.id, jobId: job.id };
+}
+
+export interface EnqueueBatchInput extends Omit<EnqueueScanInput, 'target' | 'assetType' | 'parentScanId' | 'profile'> {
+  targets: PreparedTarget[];
+  // Profile for each asset type in the batch; the batch records it when every target shares one
+  profiles: Partial<Record<PreparedTarget['assetType'], ScanProfileSnapshot | null>>;
+  // Entries dropped while preparing the list, kept on the batch for the user to review
+  rejected: RejectedTarget[];
+}
+
+// "10.0.0.0/28, example.com (+3 more)" from the entries the targets came from
+function batchLabel(targets: PreparedTarget[]): string {
+  const sources = [...new Set(targets.map(target => target.source))];
+  const shown = sources.slice(0, 3).join(', ');
+  return sources.length > 3 ? `${shown} (+${sources.length - 3} more)` : shown;
+}
+
+/**
+ * Records a batch scan and enqueues a child scan per target. The batch's
+ * status follows its children (see sync_batch_scan); a child that cannot be
+ * enqueued is added to the batch's rejected targets instead of failing the rest.
+ */
+export async function enqueueBatchScan(
+  supabase: SupabaseClient,
+  input: EnqueueBatchInput
+): Promise<{ scanId: string; childScanIds: string[]; rejected: RejectedTarget[] }> {
+  const { targets, rejected, profiles, ...request } = input;
+  const distinctProfiles = [...new Set(Object.values(profiles).map(profile => profile?.id ?? null))];
+  const sharedProfile = distinctProfiles.length === 1 ? Object.values(profiles)[0] ?? null : null;
+
+  const typeCounts = new Map<PreparedTarget['assetType'], number>();
+  targets.forEach(target => typeCounts.set(target.assetType, (typeCounts.get(target.assetType) ?? 0) + 1));
+  const [assetType] = [...typeCounts.entries()].sort((a, b) => b[1] - a[1])[0];
+  const queuedAt = new Date().toISOString();
+  const batchMetadata = (targetCount: number, rejectedTargets: RejectedTarget[]) => ({
+    queued_at: queuedAt,
+    campaign_id: request.campaignId ?? null,
+    scope_id: request.scopeId,
+    target_count: targetCount,
+    rejected_targets: rejectedTargets
+  });
+
+  const { data: batch, error: batchError } = await supabase
+    .from('scans')
+    .insert({
+      user_id: request.userId,
+      target: batchLabel(targets),
+      asset_type: assetType,
+      workspace_id: request.workspaceId,
+      is_batch: true,
+      profile_id: sharedProfile?.id ?? null,
+      profile_snapshot: sharedProfile,
+      status: 'pending',
+      metadata: batchMetadata(targets.length, rejected)
+    })
+    .select('id')
+    .single();
+
+  if (batchError) {
+    console.error('Error creating batch scan:', batchError);
+    throw new Error('Failed to create batch scan');
+  }
+
+  const childScanIds: string[] = [];
+  const failed: RejectedTarget[] = [];
+  for (const { target, assetType: childAssetType } of targets) {
+    try {
+      const profile = profiles[childAssetType] ?? null;
+      const { scanId } = await enqueueScan(supabase, {
+        ...request,
+        target,
+        assetType: childAssetType,
+        agentIds: request.agentIds ?? profile?.agent_ids,
+        parentScanId: batch.id,
+        profile
+      });
+      childScanIds.push(scanId);
+    } catch (error) {
+      failed.push({ input: target, reason: error instanceof Error ? error.message : 'Failed to enqueue scan' });
+    }
+  }
+
+  if (failed.length > 0) {
+    await supabase
+      .from('scans')
+      .update({
+        ...(childScanIds.length === 0 ? { status: 'failed' } : {}),
+        metadata: batchMetadata(childScanIds.length, [...rejected, ...failed])
+      })
+      .eq('id', batch.id);
+  }
+
+  if (childScanIds.length === 0) throw new Error('Failed to enqueue any scan of the batch');
+
+  return { scanId: batch.id, childScanIds, rejected: [...rejected, ...failed] };
+}
+
+/**
+ * Requeues a finished scan's job to rerun one failed agent execution, along
+ * with the agents in the scan's pipeline that depend on it. The
+ * reconnaissance and threat intelligence kept in the job's state are reused,
+ * so only the agent and aggregation stages run again. The caller has already
+ * moved the scan back to pending.
+ */
+export async function requeueAgentRetry(
+  supabase: SupabaseClient,
+  scanId: string,
+  retry: { executionId: string; agentId: string }
+): Promise<string | null> {
+  const { data: job, error } = await supabase
+    .from('scan_jobs')
+    .select('id, payload, stages')
+    .eq('scan_id', scanId)
+    .in('status', ['completed', 'failed'])
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!job) return null;
+
+  // The same agents the worker runs the scan with
+  const { agentIds } = job.payload as ScanJobPayload;
+  let agentsQuery = supabase.from('ai_agents').select('id, name, config').eq('is_active', true);
+  if (agentIds && agentIds.length > 0) agentsQuery = agentsQuery.in('id', agentIds);
+  const { data: agents, error: agentsError } = await agentsQuery;
+
+  if (agentsError) throw agentsError;
+  const dependentIds = downstreamAgents(agents ?? [], retry.agentId);
+
+  const reset: StageProgress = { status: 'pending', attempts: 0 };
+  const { data: requeued, error: requeueError } = await supabase
+    .from('scan_jobs')
+    .update({
+      status: 'queued',
+      payload: { ...job.payload, retry: { ...retry, dependentIds } },
+      stages: { ...job.stages, agents: reset, aggregation: reset },
+      progress: SCAN_STAGES.find(entry => entry.stage === 'threat_intel')!.progress,
+      current_stage: null,
+      attempts: 0,
+      last_error: null,
+      run_after: new Date().toISOString(),
+      locked_by: null,
+      locked_until: null,
+      completed_at: null
+    })
+    .eq('id', job.id)
+    .in('status', ['completed', 'failed'])
+    .select('id')
+    .maybeSingle();
+
+  if (requeueError) throw requeueError;
+  return requeued?.id ?? null;
+}
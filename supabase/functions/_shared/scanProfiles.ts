@@ -0,0 +1,133 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type ReconService = 'shodan' | 'virustotal' | 'ipinfo';
+
+export interface NmapParameters {
+  ports?: string;
+  timing?: number; // -T0 to -T5
+}
+
+export interface ToolParameters {
+  nmap?: NmapParameters;
+}
+
+// A scan's threat level is the first level whose thresholds it reaches, otherwise low
+export interface RiskPolicy {
+  critical: { high_severity: number; risk_score: number };
+  high: { high_severity: number; risk_score: number };
+  medium: { vulnerabilities: number; risk_score: number };
+}
+
+// The profile as it was when a scan started; stored on the scan and in its job payload
+export interface ScanProfileSnapshot {
+  id: string;
+  name: string;
+  agent_ids: string[];
+  recon_services: ReconService[];
+  tool_parameters: ToolParameters;
+  llm_model: string;
+  llm_temperature: number;
+  risk_policy: RiskPolicy;
+  captured_at: string;
+}
+
+// Matches the column defaults of scan_profiles, and how scans ran before profiles existed
+export const DEFAULT_RECON_SERVICES: ReconService[] = ['shodan', 'virustotal', 'ipinfo'];
+export const DEFAULT_LLM_MODEL = 'gpt-4o-mini';
+export const DEFAULT_LLM_TEMPERATURE = 0.7;
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+  critical: { high_severity: 3, risk_score: 8 },
+  high: { high_severity: 1, risk_score: 6 },
+  medium: { vulnerabilities: 3, risk_score: 4 },
+};
+
+export function assessThreatLevel(
+  policy: RiskPolicy,
+  assessment: { highSeverity: number; vulnerabilities: number; riskScore: number }
+): 'critical' | 'high' | 'medium' | 'low' {
+  const { highSeverity, vulnerabilities, riskScore } = assessment;
+  if (highSeverity >= policy.critical.high_severity || riskScore >= policy.critical.risk_score) return 'critical';
+  if (highSeverity >= policy.high.high_severity || riskScore >= policy.high.risk_score) return 'high';
+  if (vulnerabilities >= policy.medium.vulnerabilities || riskScore >= policy.medium.risk_score) return 'medium';
+  return 'low';
+}
+
+export type ProfileResolution =
+  | { ok: true; profile: ScanProfileSnapshot | null }
+  | { ok: false; reason: string };
+
+/**
+ * The profile a scan runs with: the requested one, none when profileId is
+ * null, or else the user's default for the asset type in the workspace.
+ * Edge functions bypass RLS, so visibility is checked here: the profile must
+ * belong to the workspace and be shared or the user's own.
+ */
+export async function resolveScanProfile(
+  supabase: SupabaseClient,
+  userId: string,
+  workspaceId: string,
+  options: { profileId?: string | null; assetType: string }
+): Promise<ProfileResolution> {
+  if (options.profileId === null) return { ok: true, profile: null };
+  let profileId = options.profileId;
+
+  if (!profileId) {
+    const { data: fallback, error } = await supabase
+      .from('scan_profile_defaults')
+      .select('profile_id')
+      .eq('user_id', userId)
+      .eq('workspace_id', workspaceId)
+      .eq('asset_type', options.assetType)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!fallback) return { ok: true, profile: null };
+    profileId = fallback.profile_id;
+  }
+
+  const { data: profile, error } = await supabase
+    .from('scan_profiles')
+    .select('*')
+    .eq('id', profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!profile || profile.workspace_id !== workspaceId || (profile.visibility === 'personal' && profile.user_id !== userId)) {
+    return { ok: false, reason: `Scan profile ${profileId} not found in this workspace` };
+  }
+
+  return {
+    ok: true,
+    profile: {
+      id: profile.id,
+      name: profile.name,
+      agent_ids: profile.agent_ids ?? [],
+      recon_services: profile.recon_services ?? DEFAULT_RECON_SERVICES,
+      tool_parameters: profile.tool_parameters ?? {},
+      llm_model: profile.llm_model,
+      llm_temperature: Number(profile.llm_temperature),
+      risk_policy: { ...DEFAULT_RISK_POLICY, ...profile.risk_policy },
+      captured_at: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Parses an nmap-style port list ("22,80,443,8000-8100") into a predicate.
+ * Returns null for an empty or invalid list, meaning every port.
+ */
+export function parsePortList(spec: string | undefined): ((port: number) => boolean) | null {
+  if (!spec?.trim()) return null;
+
+  const ranges: [number, number][] = [];
+  for (const part of spec.split(',')) {
+    const match = part.trim().match(/^(\d{1,5})(?:-(\d{1,5}))?$/);
+    if (!match) return null;
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start;
+    if (start > end || end > 65535) return null;
+    ranges.push([start, end]);
+  }
+
+  return (port: number) => ranges.some(([start, end]) => port >= start && port <= end);
+}
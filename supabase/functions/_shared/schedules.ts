@@ -0,0 +1,88 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { nextCronRun } from "./cron.ts";
+import type { MergedFinding } from "./findings.ts";
+
+export interface ScanSchedule {
+  id: string;
+  user_id: string;
+  workspace_id: string;
+  name: string;
+  target: string;
+  asset_type: 'domain' | 'ip' | 'url' | 'hash' | 'email';
+  agent_ids: string[];
+  campaign_id: string | null;
+  cron_expression: string | null;
+  interval_minutes: number | null;
+  next_run_at: string;
+}
+
+// What a scheduled run found that the schedule's previous completed run did not
+export interface ScheduleChanges {
+  previous_scan_id: string;
+  new_findings: { name: string; severity: string; cve: string | null }[];
+  new_ports: number[];
+}
+
+/**
+ * When a schedule runs next. Interval schedules count from the run that was
+ * due, skipping runs missed while the scheduler was down rather than firing
+ * them all at once.
+ */
+export function nextScheduleRun(schedule: ScanSchedule, now: Date = new Date()): Date {
+  if (schedule.cron_expression) return nextCronRun(schedule.cron_expression, now);
+
+  const intervalMs = (schedule.interval_minutes ?? 0) * 60 * 1000;
+  let next = new Date(schedule.next_run_at).getTime() + intervalMs;
+  if (next <= now.getTime()) {
+    next += Math.ceil((now.getTime() - next + 1) / intervalMs) * intervalMs;
+  }
+  return new Date(next);
+}
+
+const HIGH_SEVERITIES = ['high', 'critical'];
+
+/**
+ * Compares a scheduled run with the schedule's previous completed run:
+ * high and critical findings whose fingerprint the previous run did not
+ * have, and ports that were not open then. Returns null for a first run.
+ */
+export async function compareWithPreviousRun(
+  supabase: SupabaseClient,
+  scheduleId: string,
+  scanId: string,
+  findings: MergedFinding[],
+  openPorts: number[]
+): Promise<ScheduleChanges | null> {
+  const { data: previous, error } = await supabase
+    .from('scans')
+    .select('id, results')
+    .eq('schedule_id', scheduleId)
+    .eq('status', 'completed')
+    .neq('id', scanId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!previous) return null;
+
+  const { data: previousFindings, error: findingsError } = await supabase
+    .from('findings')
+    .select('fingerprint')
+    .eq('scan_id', previous.id);
+
+  if (findingsError) throw findingsError;
+
+  const knownFingerprints = new Set((previousFindings || []).map(finding => finding.fingerprint));
+  const previousPorts = new Set<number>(
+    Array.isArray(previous.results?.open_ports) ? previous.results.open_ports.map(Number) : []
+  );
+
+  return {
+    previous_scan_id: previous.id,
+    new_findings: findings
+      .filter(finding => HIGH_SEVERITIES.includes(finding.severity) && !knownFingerprints.has(finding.fingerprint))
+      .map(finding => ({ name: finding.name, severity: finding.severity, cve: finding.cve })),
+    new_ports: openPorts.map(Number).filter(port => !previousPorts.has(port)).sort((a, b) => a - b),
+  };
+}
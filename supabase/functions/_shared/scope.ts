@@ -0,0 +1,301 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type ScopeRuleType = 'cidr' | 'domain' | 'url_prefix';
+
+export interface ScopeRule {
+  id: string;
+  rule_type: ScopeRuleType;
+  value: string;
+  is_exclusion: boolean;
+}
+
+export interface EngagementScope {
+  id: string;
+  name: string;
+  campaign_id: string | null;
+  rules: ScopeRule[];
+}
+
+export interface ScopeDecision {
+  allowed: boolean;
+  reason: string;
+  target: string;
+  scopeId?: string;
+  rule?: ScopeRule;
+}
+
+export interface IpRange {
+  bits: 32 | 128;
+  start: bigint;
+  end: bigint;
+}
+
+// Asset types that never reach the network, so scope rules do not apply to them
+const NON_NETWORK_ASSET_TYPES = ['hash'];
+
+function parseIPv4(value: string): bigint | null {
+  const parts = value.split('.');
+  if (parts.length !== 4) return null;
+
+  let result = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    result = (result << 8n) + BigInt(octet);
+  }
+  return result;
+}
+
+function parseIPv6(value: string): bigint | null {
+  if (!value.includes(':')) return null;
+
+  const halves = value.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 && missing !== 0) return null;
+  if (missing < 0) return null;
+
+  const groups = [...head, ...Array(missing).fill('0'), ...tail];
+  let result = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    result = (result << 16n) + BigInt(parseInt(group, 16));
+  }
+  return result;
+}
+
+function parseIp(value: string): { bits: 32 | 128; value: bigint } | null {
+  const v4 = parseIPv4(value);
+  if (v4 !== null) return { bits: 32, value: v4 };
+
+  const v6 = parseIPv6(value.replace(/^\[|\]$/g, ''));
+  if (v6 !== null) return { bits: 128, value: v6 };
+
+  return null;
+}
+
+export function parseCidr(value: string): IpRange | null {
+  const [address, prefix] = value.trim().split('/');
+  const ip = parseIp(address);
+  if (!ip) return null;
+
+  const prefixLength = prefix === undefined ? ip.bits : Number(prefix);
+  if (!Number.isInteger(prefixLength) || prefixLength < 0 || prefixLength > ip.bits) return null;
+
+  const hostBits = BigInt(ip.bits - prefixLength);
+  const mask = ((1n << BigInt(ip.bits)) - 1n) ^ ((1n << hostBits) - 1n);
+  const start = ip.value & mask;
+  const end = start + (1n << hostBits) - 1n;
+
+  return { bits: ip.bits, start, end };
+}
+
+function rangeContains(outer: IpRange, inner: IpRange): boolean {
+  return outer.bits === inner.bits && outer.start <= inner.start && inner.end <= outer.end;
+}
+
+function rangesOverlap(a: IpRange, b: IpRange): boolean {
+  return a.bits === b.bits && a.start <= b.end && b.start <= a.end;
+}
+
+function normalizeHost(host: string): string {
+  return host.trim().toLowerCase().replace(/\.$/, '');
+}
+
+// "example.com" matches only itself; "*.example.com" matches any subdomain but not the apex
+function domainMatches(rule: string, host: string): boolean {
+  const pattern = normalizeHost(rule);
+  if (pattern.startsWith('*.')) {
+    return host.endsWith(pattern.slice(1));
+  }
+  return host === pattern;
+}
+
+function normalizeUrl(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    return `${url.protocol}//${url.host}${url.pathname}${url.search}`;
+  } catch {
+    return null;
+  }
+}
+
+type ParsedTarget =
+  | { kind: 'ip'; range: IpRange; host: string }
+  | { kind: 'domain'; host: string }
+  | { kind: 'url'; url: string; host: string; range: IpRange | null };
+
+function parseTarget(raw: string, assetType?: string): ParsedTarget | null {
+  const value = raw.trim();
+  if (!value) return null;
+
+  if (value.includes('://')) {
+    const url = normalizeUrl(value);
+    if (!url) return null;
+    const host = normalizeHost(new URL(value).hostname).replace(/^\[|\]$/g, '');
+    return { kind: 'url', url, host, range: parseCidr(host) };
+  }
+
+  if (assetType === 'email' || (value.includes('@') && !value.includes('/'))) {
+    const domain = value.split('@').pop() ?? '';
+    return domain ? { kind: 'domain', host: normalizeHost(domain) } : null;
+  }
+
+  const range = parseCidr(value);
+  if (range) return { kind: 'ip', range, host: value };
+
+  // host:port and bare hostnames
+  const host = normalizeHost(value.replace(/:\d+$/, ''));
+  if (!/^[a-z0-9_]([a-z0-9_-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/.test(host)) {
+    return null;
+  }
+  const hostRange = parseCidr(host);
+  return hostRange ? { kind: 'ip', range: hostRange, host } : { kind: 'domain', host };
+}
+
+function ruleMatches(rule: ScopeRule, target: ParsedTarget, mode: 'include' | 'exclude'): boolean {
+  switch (rule.rule_type) {
+    case 'cidr': {
+      const ruleRange = parseCidr(rule.value);
+      const targetRange = target.kind === 'domain' ? null : target.range;
+      if (!ruleRange || !targetRange) return false;
+      // A target range is only in scope when fully covered, but is out as soon as it touches an exclusion
+      return mode === 'include' ? rangeContains(ruleRange, targetRange) : rangesOverlap(ruleRange, targetRange);
+    }
+    case 'domain':
+      return target.kind !== 'ip' && domainMatches(rule.value, target.host);
+    case 'url_prefix': {
+      const prefix = normalizeUrl(rule.value);
+      if (!prefix) return false;
+      if (target.kind === 'url') return target.url.startsWith(prefix);
+      // Excluding a URL prefix that covers a whole host also excludes the bare host
+      if (mode === 'exclude') {
+        const prefixUrl = new URL(rule.value.trim());
+        return prefixUrl.pathname === '/' && normalizeHost(prefixUrl.hostname) === target.host;
+      }
+      return false;
+    }
+    default:
+      return false;
+  }
+}
+
+function checkSingleTarget(raw: string, scope: EngagementScope, assetType?: string): ScopeDecision {
+  const parsed = parseTarget(raw, assetType);
+  if (!parsed) {
+    return { allowed: false, reason: `Unrecognised target format: "${raw}"`, target: raw, scopeId: scope.id };
+  }
+
+  const exclusion = scope.rules.find(rule => rule.is_exclusion && ruleMatches(rule, parsed, 'exclude'));
+  if (exclusion) {
+    return {
+      allowed: false,
+      reason: `${raw} matches exclusion ${exclusion.rule_type} "${exclusion.value}" in scope "${scope.name}"`,
+      target: raw,
+      scopeId: scope.id,
+      rule: exclusion,
+    };
+  }
+
+  const inclusion = scope.rules.find(rule => !rule.is_exclusion && ruleMatches(rule, parsed, 'include'));
+  if (!inclusion) {
+    return {
+      allowed: false,
+      reason: `${raw} is not covered by any allowed rule in scope "${scope.name}"`,
+      target: raw,
+      scopeId: scope.id,
+    };
+  }
+
+  return {
+    allowed: true,
+    reason: `${raw} allowed by ${inclusion.rule_type} "${inclusion.value}"`,
+    target: raw,
+    scopeId: scope.id,
+    rule: inclusion,
+  };
+}
+
+/**
+ * Checks a target string against a scope. Space or comma separated target
+ * lists (as accepted by nmap/masscan) are only allowed when every entry is.
+ */
+export function checkTargetInScope(target: string, scope: EngagementScope | null, assetType?: string): ScopeDecision {
+  if (assetType && NON_NETWORK_ASSET_TYPES.includes(assetType)) {
+    return { allowed: true, reason: `Scope rules do not apply to ${assetType} assets`, target };
+  }
+
+  if (!scope) {
+    return { allowed: false, reason: 'No engagement scope is defined for this campaign or workspace', target };
+  }
+
+  const entries = target.split(/[\s,]+/).filter(Boolean);
+  if (entries.length === 0) {
+    return { allowed: false, reason: 'Target is empty', target, scopeId: scope.id };
+  }
+
+  const decisions = entries.map(entry => checkSingleTarget(entry, scope, assetType));
+  const rejected = decisions.find(decision => !decision.allowed);
+  if (rejected) return { ...rejected, target };
+
+  return decisions.length === 1
+    ? decisions[0]
+    : { allowed: true, reason: `All ${entries.length} targets are in scope "${scope.name}"`, target, scopeId: scope.id };
+}
+
+/**
+ * Loads the scope that governs a request: the campaign's own scope when a
+ * campaign is given and has rules, otherwise the workspace-level scope of the
+ * workspace the request acts in. Both apply to every member, whoever set them up.
+ */
+export async function loadEngagementScope(
+  supabase: SupabaseClient,
+  workspaceId: string | null,
+  campaignId?: string | null
+): Promise<EngagementScope | null> {
+  const selectScope = () => supabase
+    .from('engagement_scopes')
+    .select('id, name, campaign_id, scope_rules(id, rule_type, value, is_exclusion)')
+    .eq('is_active', true);
+
+  if (campaignId) {
+    const { data: campaignScope, error } = await selectScope().eq('campaign_id', campaignId).maybeSingle();
+    if (error) throw error;
+    if (campaignScope?.scope_rules?.length) return toScope(campaignScope);
+  }
+
+  if (!workspaceId) return null;
+
+  const { data: workspaceScope, error } = await selectScope().eq('workspace_id', workspaceId).is('campaign_id', null).maybeSingle();
+  if (error) throw error;
+  return workspaceScope ? toScope(workspaceScope) : null;
+}
+
+function toScope(row: { id: string; name: string; campaign_id: string | null; scope_rules: ScopeRule[] | null }): EngagementScope {
+  return {
+    id: row.id,
+    name: row.name,
+    campaign_id: row.campaign_id,
+    rules: row.scope_rules ?? [],
+  };
+}
+
+export async function enforceScope(
+  supabase: SupabaseClient,
+  userId: string,
+  target: string,
+  options: { workspaceId: string | null; campaignId?: string | null; assetType?: string }
+): Promise<ScopeDecision> {
+  const scope = await loadEngagementScope(supabase, options.workspaceId, options.campaignId);
+  const decision = checkTargetInScope(target, scope, options.assetType);
+
+  if (!decision.allowed) {
+    console.warn('Scope violation:', { userId, workspaceId: options.workspaceId, campaignId: options.campaignId, ...decision });
+  }
+
+  return decision;
+}
@@ -0,0 +1,243 @@
+// Structured LLM output: model text is parsed and checked against a versioned
+// JSON schema before anything else sees it. Supports the subset of JSON Schema
+// the schemas in llmSchemas.ts use: type, properties, required, items, enum,
+// minimum, maximum, minItems and default.
+
+export type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  // Filled in for a missing optional property
+  default?: unknown;
+  description?: string;
+}
+
+export interface OutputSchema {
+  name: string;
+  version: number;
+  schema: JsonSchema;
+}
+
+export interface ValidationError {
+  path: string;
+  message: string;
+}
+
+// How a response was checked, as stored alongside the output
+export interface OutputValidation {
+  schema: string;
+  // valid as returned, repaired locally, fixed by re-asking the model, or still invalid
+  status: 'valid' | 'repaired' | 'reasked' | 'invalid';
+  errors: ValidationError[];
+}
+
+export type StructuredOutput<T> =
+  | { ok: true; value: T; validation: OutputValidation }
+  | { ok: false; validation: OutputValidation };
+
+export const schemaId = (schema: OutputSchema) => `${schema.name}@${schema.version}`;
+
+const typeOf = (value: unknown): JsonType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+};
+
+const matchesType = (value: unknown, type: JsonType) => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+/**
+ * Checks a value against a schema and returns it with defaults filled in, or
+ * the errors found. Properties the schema does not mention are kept.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): { value: unknown; errors: ValidationError[] } {
+  const types = schema.type === undefined ? null : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types && !types.some(type => matchesType(value, type))) {
+    return { value, errors: [{ path, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` }] };
+  }
+
+  const errors: ValidationError[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push({ path, message: `must be one of ${schema.enum.join(', ')}` });
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push({ path, message: `must be at least ${schema.minimum}` });
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push({ path, message: `must be at most ${schema.maximum}` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.items) {
+      const items = value.map((item, index) => validateSchema(item, schema.items!, `${path}[${index}]`));
+      items.forEach(item => errors.push(...item.errors));
+      return { value: items.map(item => item.value), errors };
+    }
+    return { value, errors };
+  }
+
+  if (typeOf(value) === 'object' && schema.properties) {
+    const object = { ...(value as Record<string, unknown>) };
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) errors.push({ path: `${path}.${key}`, message: 'is required' });
+    }
+    for (const [key, property] of Object.entries(schema.properties)) {
+      if (object[key] === undefined) {
+        if (property.default !== undefined && !(schema.required ?? []).includes(key)) {
+          object[key] = structuredClone(property.default);
+        }
+        continue;
+      }
+      const result = validateSchema(object[key], property, `${path}.${key}`);
+      object[key] = result.value;
+      errors.push(...result.errors);
+    }
+    return { value: object, errors };
+  }
+
+  return { value, errors };
+}
+
+// The JSON in a response that may wrap it in a markdown fence or surrounding prose
+function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Not bare JSON; look for a fenced or embedded block
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const candidates = [fenced?.[1], trimmed.match(/\{[\s\S]*\}/)?.[0], trimmed.match(/\[[\s\S]*\]/)?.[0]];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new Error('Response contains no parseable JSON');
+}
+
+/**
+ * Local fixes for the usual ways models drift from a schema: numbers and
+ * booleans sent as strings, enum values in the wrong case, a single value
+ * where a list is expected, and a bare list where an object wraps it.
+ */
+export function repairValue(value: unknown, schema: JsonSchema): unknown {
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  const accepts = (type: JsonType) => types.includes(type);
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if ((accepts('number') || accepts('integer')) && trimmed !== '' && Number.isFinite(Number(trimmed))) {
+      return accepts('integer') && !accepts('number') ? Math.round(Number(trimmed)) : Number(trimmed);
+    }
+    if (accepts('boolean') && /^(true|false)$/i.test(trimmed)) return trimmed.toLowerCase() === 'true';
+    if (accepts('null') && /^(null|none|n\/a|)$/i.test(trimmed)) return null;
+    if (schema.enum) {
+      const match = schema.enum.find(option => String(option).toLowerCase() === trimmed.toLowerCase());
+      if (match !== undefined) return match;
+    }
+  }
+
+  if (accepts('integer') && !accepts('number') && typeof value === 'number' && !Number.isInteger(value)) {
+    return Math.round(value);
+  }
+
+  if (accepts('array') && !Array.isArray(value) && value !== null && value !== undefined) {
+    return [repairValue(value, schema.items ?? {})];
+  }
+  if (Array.isArray(value) && schema.items) {
+    return value.map(item => repairValue(item, schema.items!));
+  }
+
+  if (accepts('object') && Array.isArray(value) && schema.required?.length === 1) {
+    // A bare list of what the object's one required property holds
+    const [key] = schema.required;
+    if (schema.properties?.[key]) return repairValue({ [key]: value }, schema);
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value) && schema.properties) {
+    const object = { ...(value as Record<string, unknown>) };
+    for (const [key, property] of Object.entries(schema.properties)) {
+      if (object[key] !== undefined) object[key] = repairValue(object[key], property);
+    }
+    return object;
+  }
+
+  return value;
+}
+
+const describeErrors = (errors: ValidationError[]) =>
+  errors.slice(0, 20).map(error => `${error.path} ${error.message}`).join('; ');
+
+function check<T>(text: string, schema: OutputSchema): { value?: T; errors: ValidationError[]; repaired: boolean } {
+  let parsed: unknown;
+  try {
+    parsed = extractJson(text);
+  } catch (error) {
+    return { errors: [{ path: '$', message: error instanceof Error ? error.message : 'Invalid JSON' }], repaired: false };
+  }
+
+  const strict = validateSchema(parsed, schema.schema);
+  if (strict.errors.length === 0) return { value: strict.value as T, errors: [], repaired: false };
+
+  const repaired = validateSchema(repairValue(parsed, schema.schema), schema.schema);
+  if (repaired.errors.length === 0) return { value: repaired.value as T, errors: strict.errors, repaired: true };
+
+  return { errors: strict.errors, repaired: false };
+}
+
+/**
+ * Parses a model response into a value that satisfies the schema. A response
+ * that does not is repaired locally where possible, and otherwise the model is
+ * re-asked once with the errors. Callers only ever get a valid value, or the
+ * validation errors and no value.
+ */
+export async function parseStructuredOutput<T>(
+  schema: OutputSchema,
+  text: string,
+  reask?: (correction: string) => Promise<string>
+): Promise<StructuredOutput<T>> {
+  const id = schemaId(schema);
+  const first = check<T>(text, schema);
+  if (first.value !== undefined) {
+    return { ok: true, value: first.value, validation: { schema: id, status: first.repaired ? 'repaired' : 'valid', errors: first.errors } };
+  }
+
+  console.warn(`[Structured Output] Response does not match ${id}: ${describeErrors(first.errors)}`);
+  if (!reask) return { ok: false, validation: { schema: id, status: 'invalid', errors: first.errors } };
+
+  const correction = `Your previous response did not match the required JSON schema (${id}): ${describeErrors(first.errors)}.
+Return only the corrected JSON, with no other text. The schema is:
+${JSON.stringify(schema.schema)}`;
+
+  let retried: string;
+  try {
+    retried = await reask(correction);
+  } catch (error) {
+    console.error(`[Structured Output] Re-asking for ${id} failed:`, error);
+    return { ok: false, validation: { schema: id, status: 'invalid', errors: first.errors } };
+  }
+
+  const second = check<T>(retried, schema);
+  if (second.value !== undefined) {
+    return { ok: true, value: second.value, validation: { schema: id, status: 'reasked', errors: first.errors } };
+  }
+
+  return { ok: false, validation: { schema: id, status: 'invalid', errors: [...first.errors, ...second.errors.map(error => ({ ...error, path: `retry:${error.path}` }))] } };
+}
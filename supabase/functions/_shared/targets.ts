@@ -0,0 +1,149 @@
+import { parseCidr } from "./scope.ts";
+
+export type AssetType = 'domain' | 'ip' | 'url' | 'hash' | 'email';
+
+export interface PreparedTarget {
+  target: string;
+  assetType: AssetType;
+  // The list entry it came from, e.g. the CIDR range an address was expanded from
+  source: string;
+}
+
+export interface RejectedTarget {
+  input: string;
+  reason: string;
+}
+
+// Child scans per batch; larger imports must be split up
+export const MAX_BATCH_TARGETS = 256;
+
+const DOMAIN_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*\.[a-z]{2,}$/;
+const HASH_PATTERN = /^[a-f0-9]{32,128}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function formatIPv4(value: bigint): string {
+  return [24n, 16n, 8n, 0n].map(shift => Number((value >> shift) & 255n)).join('.');
+}
+
+function detectAssetType(value: string): AssetType | null {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) return 'url';
+  if (value.includes('@')) return 'email';
+  if (parseCidr(value)) return 'ip';
+  if (HASH_PATTERN.test(value.toLowerCase())) return 'hash';
+  if (DOMAIN_PATTERN.test(value.toLowerCase().replace(/\.$/, ''))) return 'domain';
+  return null;
+}
+
+/**
+ * Canonical form of a target, or null when it is not a valid value of the
+ * asset type: lower-cased hosts without a trailing dot, IPv4 addresses
+ * without leading zeros, and URLs as the URL parser prints them.
+ */
+export function normalizeTarget(raw: string, assetType: AssetType): string | null {
+  const value = raw.trim();
+  if (!value) return null;
+
+  switch (assetType) {
+    case 'domain': {
+      const host = value.toLowerCase().replace(/\.$/, '');
+      return DOMAIN_PATTERN.test(host) ? host : null;
+    }
+    case 'ip': {
+      if (value.includes('/')) return null;
+      const range = parseCidr(value);
+      if (!range) return null;
+      return range.bits === 32 ? formatIPv4(range.start) : value.toLowerCase().replace(/^\[|\]$/g, '');
+    }
+    case 'url': {
+      try {
+        const url = new URL(value);
+        return ['http:', 'https:'].includes(url.protocol) ? url.toString() : null;
+      } catch {
+        return null;
+      }
+    }
+    case 'hash':
+      return HASH_PATTERN.test(value.toLowerCase()) ? value.toLowerCase() : null;
+    case 'email':
+      return EMAIL_PATTERN.test(value) ? value.toLowerCase() : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Host addresses in an IPv4 CIDR range, without the network and broadcast
+ * addresses of ranges that have them. IPv6 ranges are never expanded.
+ */
+function expandCidr(value: string, limit: number): string[] | RejectedTarget {
+  const range = parseCidr(value);
+  if (!range) return { input: value, reason: 'Invalid CIDR range' };
+  if (range.bits !== 32) {
+    return range.start === range.end
+      ? [value.split('/')[0].toLowerCase()]
+      : { input: value, reason: 'IPv6 ranges cannot be expanded; list the addresses instead' };
+  }
+
+  const size = range.end - range.start + 1n;
+  const [first, last] = size > 2n ? [range.start + 1n, range.end - 1n] : [range.start, range.end];
+  if (last - first + 1n > BigInt(limit)) {
+    return { input: value, reason: `Expands to ${last - first + 1n} addresses; at most ${limit} targets fit in one batch` };
+  }
+
+  const addresses: string[] = [];
+  for (let address = first; address <= last; address++) {
+    addresses.push(formatIPv4(address));
+  }
+  return addresses;
+}
+
+/**
+ * Turns a pasted or uploaded target list into the targets of a batch:
+ * detects each entry's asset type, normalizes it, expands CIDR ranges and
+ * drops duplicates. Entries that cannot be scanned are returned with the
+ * reason rather than failing the whole list.
+ */
+export function prepareTargets(
+  entries: string[],
+  limit: number = MAX_BATCH_TARGETS
+): { targets: PreparedTarget[]; rejected: RejectedTarget[] } {
+  const targets: PreparedTarget[] = [];
+  const rejected: RejectedTarget[] = [];
+  const seen = new Set<string>();
+
+  const add = (target: string, assetType: AssetType, source: string) => {
+    const key = `${assetType}:${target}`;
+    if (seen.has(key)) return;
+    if (targets.length >= limit) {
+      rejected.push({ input: source === target ? target : `${target} (from ${source})`, reason: `Batch limit of ${limit} targets reached` });
+      return;
+    }
+    seen.add(key);
+    targets.push({ target, assetType, source });
+  };
+
+  for (const raw of entries) {
+    const entry = raw.trim();
+    if (!entry) continue;
+
+    if (entry.includes('/') && !entry.includes('://')) {
+      const expanded = expandCidr(entry, limit);
+      if (Array.isArray(expanded)) {
+        expanded.forEach(address => add(address, 'ip', entry));
+      } else {
+        rejected.push(expanded);
+      }
+      continue;
+    }
+
+    const assetType = detectAssetType(entry);
+    const target = assetType ? normalizeTarget(entry, assetType) : null;
+    if (!assetType || !target) {
+      rejected.push({ input: entry, reason: 'Not a recognised domain, IP address, URL, hash or email address' });
+      continue;
+    }
+    add(target, assetType, entry);
+  }
+
+  return { targets, rejected };
+}
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface UserSettings {
+  notify_scan_complete: boolean;
+  notify_threat_detected: boolean;
+  notify_agent_errors: boolean;
+  notify_weekly_report: boolean;
+  session_timeout_minutes: number;
+  auto_analysis: boolean;
+  max_concurrent_scans: number;
+  default_threat_level: 'low' | 'medium' | 'high' | 'critical';
+}
+
+export interface ConcurrencyDecision {
+  allowed: boolean;
+  active: number;
+  limit: number;
+  reason?: string;
+}
+
+// Mirrors the column defaults of public.user_settings, for users without a row
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  notify_scan_complete: true,
+  notify_threat_detected: true,
+  notify_agent_errors: true,
+  notify_weekly_report: false,
+  session_timeout_minutes: 30,
+  auto_analysis: true,
+  max_concurrent_scans: 5,
+  default_threat_level: 'medium',
+};
+
+export async function getUserSettings(supabase: SupabaseClient, userId: string): Promise<UserSettings> {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return { ...DEFAULT_USER_SETTINGS, ...(data ?? {}) };
+}
+
+/**
+ * Checks the user's running and pending scans against their
+ * max_concurrent_scans setting.
+ */
+export async function checkScanConcurrency(
+  supabase: SupabaseClient,
+  userId: string,
+  settings: UserSettings
+): Promise<ConcurrencyDecision> {
+  const { count, error } = await supabase
+    .from('scans')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .in('status', ['pending', 'running'])
+    // A batch counts once, through its parent scan
+    .is('parent_scan_id', null);
+
+  if (error) throw error;
+
+  const active = count ?? 0;
+  const limit = settings.max_concurrent_scans;
+  if (active < limit) {
+    return { allowed: true, active, limit };
+  }
+
+  console.warn('Blocked by concurrent scan limit:', { userId, active, limit });
+  return {
+    allowed: false,
+    active,
+    limit,
+    reason: `${active} scans are already running and your limit is ${limit}. Wait for one to finish or raise the limit in Settings`,
+  };
+}
@@ -0,0 +1,84 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type WorkspaceRole = 'owner' | 'lead' | 'operator' | 'analyst' | 'client';
+
+// May run scans, tools and attack paths against targets
+export const OPERATOR_ROLES: WorkspaceRole[] = ['owner', 'lead', 'operator'];
+// May additionally run passive analysis such as threat intelligence lookups
+export const ANALYST_ROLES: WorkspaceRole[] = ['owner', 'lead', 'operator', 'analyst'];
+
+export interface WorkspaceDecision {
+  allowed: boolean;
+  workspaceId: string | null;
+  role: WorkspaceRole | null;
+  reason?: string;
+}
+
+interface WorkspaceContext {
+  // Work for a campaign happens in the campaign's workspace
+  campaignId?: string | null;
+  // Otherwise in this workspace, defaulting to the user's active one
+  workspaceId?: string | null;
+}
+
+/**
+ * Resolves the workspace a request acts in and checks that the user holds
+ * one of the given roles there. Edge functions use the service role and
+ * bypass RLS, so this is what keeps read-only clients from running tools.
+ */
+export async function enforceWorkspaceRole(
+  supabase: SupabaseClient,
+  userId: string,
+  roles: WorkspaceRole[],
+  context: WorkspaceContext = {}
+): Promise<WorkspaceDecision> {
+  let workspaceId = context.workspaceId ?? null;
+
+  if (context.campaignId) {
+    const { data: campaign, error } = await supabase
+      .from('apt_campaigns')
+      .select('workspace_id')
+      .eq('id', context.campaignId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!campaign) {
+      return { allowed: false, workspaceId: null, role: null, reason: `Campaign ${context.campaignId} not found` };
+    }
+    workspaceId = campaign.workspace_id;
+  }
+
+  if (!workspaceId) {
+    const { data, error } = await supabase.rpc('active_workspace_id', { _user_id: userId });
+    if (error) throw error;
+    workspaceId = data;
+  }
+
+  if (!workspaceId) {
+    return { allowed: false, workspaceId: null, role: null, reason: 'You are not a member of any workspace' };
+  }
+
+  const { data: membership, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const role = (membership?.role ?? null) as WorkspaceRole | null;
+  if (role && roles.includes(role)) {
+    return { allowed: true, workspaceId, role };
+  }
+
+  console.warn('Blocked by workspace role:', { userId, workspaceId, role, required: roles });
+  return {
+    allowed: false,
+    workspaceId,
+    role,
+    reason: role
+      ? `Your role in this workspace (${role}) cannot do this; it needs one of: ${roles.join(', ')}`
+      : 'You are not a member of this workspace',
+  };
+}
@@ -1,6 +1,19 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { withAudit } from "../_shared/audit.ts";
+import { enforceWorkspaceRole, OPERATOR_ROLES } from "../_shared/workspaces.ts";
+import {
+  BUILTIN_PROVIDERS,
+  chatCompletion,
+  listLlmProviders,
+  selectLlmProvider,
+  type ChatMessage,
+  type LlmProvider,
+  type UsageContext,
+} from "../_shared/llmProviders.ts";
+import { parseStructuredOutput } from "../_shared/structuredOutput.ts";
+import { ATTACK_RECOMMENDATIONS_SCHEMA, type AttackPathStep } from "../_shared/llmSchemas.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,7 +22,6 @@ const corsHeaders = {
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const openaiApiKey = Deno.env.get('OPENAI_API_KEY')!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
@@ -33,26 +45,45 @@ interface AttackRecommendation {
   aiRecommended?: boolean;
 }
 
-serve(async (req) => {
+serve(withAudit('ai-attack-planner', (body) => ({
+  action: 'generate_attack_plan',
+  target: body.campaignId ? `campaign:${body.campaignId}` : null,
+}), async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+
+    if (!user) {
+      return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+    }
+
     const { campaignId, scanIds } = await req.json();
     
     if (!campaignId || !scanIds || !Array.isArray(scanIds) || scanIds.length === 0) {
       throw new Error('Campaign ID and at least one scan ID are required');
     }
 
+    const workspaceDecision = await enforceWorkspaceRole(supabase, user.id, OPERATOR_ROLES, { campaignId });
+    if (!workspaceDecision.allowed) {
+      return new Response(JSON.stringify({ error: 'Not permitted in this workspace', reason: workspaceDecision.reason }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     console.log(`[AI Attack Planner] Starting analysis for campaign ${campaignId}`);
     console.log(`[AI Attack Planner] Processing ${scanIds.length} scan(s):`, scanIds);
 
-    // Fetch scan results
+    // Fetch scan results; only scans from the campaign's workspace can feed its plan
     const { data: scans, error: scanError } = await supabase
       .from('scans')
       .select('*')
-      .in('id', scanIds);
+      .in('id', scanIds)
+      .eq('workspace_id', workspaceDecision.workspaceId);
 
     if (scanError) {
       console.error('[AI Attack Planner] Error fetching scans:', scanError);
@@ -67,7 +98,13 @@ serve(async (req) => {
     console.log('[AI Attack Planner] Scan targets:', scans.map(s => s.target).join(', '));
 
     // Analyze scans with AI
-    const attackRecommendations = await analyzeScansWithAI(scans);
+    const providers = await listLlmProviders(supabase, workspaceDecision.workspaceId);
+    const attackRecommendations = await analyzeScansWithAI(scans, selectLlmProvider(providers, BUILTIN_PROVIDERS.openai), {
+      supabase,
+      source: 'ai-attack-planner',
+      workspaceId: workspaceDecision.workspaceId,
+      userId: user.id
+    });
 
     if (!attackRecommendations || attackRecommendations.length === 0) {
       throw new Error('Failed to generate attack recommendations');
@@ -82,7 +119,9 @@ serve(async (req) => {
         .from('attack_paths')
         .insert({
           campaign_id: campaignId,
-          user_id: scans[0].user_id,
+          user_id: user.id,
+          // With several scans the step's target is ambiguous; execution falls back to the campaign target
+          target: scans.length === 1 ? scans[0].target : null,
           phase: rec.phase,
           mitre_technique: rec.mitreId,
           technique_name: rec.techniqueName,
@@ -113,7 +152,7 @@ serve(async (req) => {
         .from('mitre_mappings')
         .insert({
           scan_id: scanIds[0],
-          user_id: scans[0].user_id,
+          user_id: user.id,
           mitre_technique: rec.mitreId,
           technique_name: rec.techniqueName,
           mitre_tactic: rec.phase,
@@ -148,16 +187,10 @@ serve(async (req) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
-});
+}));
 
-async function analyzeScansWithAI(scans: any[]): Promise<AttackRecommendation[]> {
+async function analyzeScansWithAI(scans: any[], provider: LlmProvider, usage: UsageContext): Promise<AttackRecommendation[]> {
   try {
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openaiApiKey) {
-      console.log('OpenAI API key not found, using fallback recommendations');
-      return generateFallbackRecommendations(scans);
-    }
-
     const scanSummary = scans.map(scan => {
       const ports = scan.results?.ports || [];
       const services = scan.results?.services || [];
@@ -212,57 +245,50 @@ Focus on creating realistic, actionable attack paths based on the actual vulnera
 
 Return ONLY a valid JSON array of attack recommendations, no other text.`;
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'You are a cybersecurity expert specializing in penetration testing and APT simulation. Return only valid JSON arrays.' },
-          { role: 'user', content: prompt }
-        ],
+    const messages: ChatMessage[] = [
+      { role: 'system', content: 'You are a cybersecurity expert specializing in penetration testing and APT simulation. Return only valid JSON arrays.' },
+      { role: 'user', content: prompt }
+    ];
+    const requestPlan = async (conversation: ChatMessage[]) => {
+      const completion = await chatCompletion(provider, provider.default_model, {
+        messages: conversation,
         temperature: 0.7,
         max_tokens: 4000,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI API error:', response.status, errorText);
+      }, { usage });
+      return completion.content;
+    };
+
+    const content = await requestPlan(messages);
+    const structured = await parseStructuredOutput<AttackPathStep[]>(
+      ATTACK_RECOMMENDATIONS_SCHEMA,
+      content,
+      (correction) => requestPlan([...messages, { role: 'assistant', content }, { role: 'user', content: correction }])
+    );
+
+    if (!structured.ok) {
+      console.error('AI attack plan is invalid, using fallback recommendations:', structured.validation.errors);
       return generateFallbackRecommendations(scans);
     }
 
-    const data = await response.json();
-    const content = data.choices[0].message.content.trim();
-    
-    let recommendations = JSON.parse(content);
-    
-    if (!Array.isArray(recommendations)) {
-      recommendations = [recommendations];
-    }
-
-    // Calculate risk scores for any missing values
-    recommendations = recommendations.map((rec: any, index: number) => ({
-      phase: rec.phase || 'reconnaissance',
-      mitreId: rec.mitre_technique || rec.mitreId || 'T1595',
-      techniqueName: rec.technique_name || rec.techniqueName || 'Unknown Technique',
-      description: rec.description || 'No description',
-      riskLevel: rec.risk_level || rec.riskLevel || 'medium',
-      toolsRequired: rec.tools_required || rec.toolsRequired || ['nmap'],
-      prerequisites: rec.prerequisites || [],
-      expectedOutcome: rec.expected_outcome || rec.expectedOutcome || 'Technique executed',
-      executionOrder: rec.execution_order || rec.executionOrder || index + 1,
-      riskScore: rec.risk_score || rec.riskScore || (rec.exploitability || 5) * (rec.impact || 5) * (rec.stealth || 5),
-      exploitability: rec.exploitability || 5,
-      impact: rec.impact || 5,
-      stealth: rec.stealth || 5,
-      aiRecommended: rec.ai_recommended || rec.aiRecommended || false,
-      toolChain: rec.tool_chain || rec.toolChain || rec.tools_required || rec.toolsRequired || ['nmap'],
-      fallbackTools: rec.fallback_tools || rec.fallbackTools || [],
-      cvssScore: rec.cvss_score || rec.cvssScore || 0
+    // Scores the model left out default to the middle of their range
+    const recommendations: AttackRecommendation[] = structured.value.map((rec, index) => ({
+      phase: rec.phase,
+      mitreId: rec.mitre_technique,
+      techniqueName: rec.technique_name,
+      description: rec.description,
+      riskLevel: rec.risk_level,
+      toolsRequired: rec.tools_required.length ? rec.tools_required : ['nmap'],
+      prerequisites: rec.prerequisites,
+      expectedOutcome: rec.expected_outcome ?? 'Technique executed',
+      executionOrder: rec.execution_order ?? index + 1,
+      riskScore: rec.risk_score ?? (rec.exploitability ?? 5) * (rec.impact ?? 5) * (rec.stealth ?? 5),
+      exploitability: rec.exploitability ?? 5,
+      impact: rec.impact ?? 5,
+      stealth: rec.stealth ?? 5,
+      aiRecommended: rec.ai_recommended,
+      toolChain: rec.tool_chain.length ? rec.tool_chain : rec.tools_required.length ? rec.tools_required : ['nmap'],
+      fallbackTools: rec.fallback_tools,
+      cvssScore: rec.cvss_score ?? 0
     }));
 
     console.log(`Generated ${recommendations.length} AI-powered attack recommendations with risk analysis`);
@@ -1,4 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  BUILTIN_PROVIDERS,
+  chatCompletion,
+  listLlmProviders,
+  LlmError,
+  llmErrorStatus,
+  selectLlmProvider,
+  type ChatMessage,
+} from "../_shared/llmProviders.ts";
+import { parseStructuredOutput } from "../_shared/structuredOutput.ts";
+import { PHASE_ANALYSIS_SCHEMA, type PhaseAnalysis } from "../_shared/llmSchemas.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,11 +24,20 @@ serve(async (req) => {
 
   try {
     const { phase } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Signed-in users get their active workspace's provider; the analysis itself holds no client data
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    let workspaceId: string | null = null;
+    if (user) {
+      const { data } = await supabase.rpc('active_workspace_id', { _user_id: user.id });
+      workspaceId = data ?? null;
     }
+    const provider = selectLlmProvider(await listLlmProviders(supabase, workspaceId), BUILTIN_PROVIDERS.lovable);
 
     console.log(`Generating AI analysis for APT phase: ${phase}`);
 
@@ -72,66 +93,54 @@ Format as JSON:
 
 Provide comprehensive technical details to enable realistic security testing and defense preparation.`;
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ];
+    const requestAnalysis = async (conversation: ChatMessage[]) => {
+      const completion = await chatCompletion(provider, provider.default_model, {
+        messages: conversation,
         temperature: 0.7,
-      }),
-    });
+      }, { usage: { supabase, source: 'apt-phase-analysis', workspaceId, userId: user?.id ?? null } });
+      return completion.content;
+    };
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI Gateway error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }), {
-          status: 429,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-      
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: 'Payment required. Please add credits to your workspace.' }), {
-          status: 402,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-
-      throw new Error(`AI Gateway returned ${response.status}: ${errorText}`);
+    let content: string;
+    try {
+      content = await requestAnalysis(messages);
+    } catch (error) {
+      if (!(error instanceof LlmError)) throw error;
+      console.error('AI provider error:', error.message);
+      const status = llmErrorStatus(error);
+      const message = status === 429
+        ? 'Rate limit exceeded. Please try again later.'
+        : status === 402
+          ? 'Payment required. Please add credits to your workspace.'
+          : error.message;
+      return new Response(JSON.stringify({ error: message }), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-    
     console.log('AI response:', content);
 
-    // Parse JSON from AI response
-    let analysis;
-    try {
-      // Try to extract JSON from markdown code blocks if present
-      const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/) || content.match(/\{[\s\S]*\}/);
-      const jsonStr = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : content;
-      analysis = JSON.parse(jsonStr);
-    } catch (parseError) {
-      console.error('Failed to parse AI response as JSON:', parseError);
-      // Fallback to basic structure
-      analysis = {
-        aiDecision: [content.substring(0, 200)],
-        indicators: ['AI response formatting error - please try again'],
-        defenses: ['AI response formatting error - please try again']
-      };
+    // The analysis must match the phase schema; a response that does not is repaired or re-asked once
+    const structured = await parseStructuredOutput<PhaseAnalysis>(PHASE_ANALYSIS_SCHEMA, content, (correction) =>
+      requestAnalysis([...messages, { role: 'assistant', content }, { role: 'user', content: correction }])
+    );
+
+    if (!structured.ok) {
+      return new Response(JSON.stringify({
+        error: `AI response did not match ${structured.validation.schema}. Please try again.`,
+        validation: structured.validation
+      }), {
+        status: 502,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
-    return new Response(JSON.stringify(analysis), {
+    return new Response(JSON.stringify({ ...structured.value, validation: structured.validation }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
@@ -1,4 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enforceScope } from "../_shared/scope.ts";
+import { enforceEngagementWindow } from "../_shared/engagementWindows.ts";
+import { getActiveEmergencyStop, describeEmergencyStop } from "../_shared/emergencyStop.ts";
+import { enforceWorkspaceRole, OPERATOR_ROLES } from "../_shared/workspaces.ts";
+import { withAudit } from "../_shared/audit.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -180,7 +186,17 @@ const checkToolAvailability = async (tool: string): Promise<boolean> => {
   }
 };
 
-const executeTool = async (tool: string, target: string, parameters: Record<string, string>): Promise<string> => {
+// How often a running tool checks whether an emergency stop has been engaged
+const STOP_POLL_INTERVAL_MS = 2000;
+
+class ExecutionCancelledError extends Error {}
+
+const executeTool = async (
+  tool: string,
+  target: string,
+  parameters: Record<string, string>,
+  shouldStop?: () => Promise<boolean>
+): Promise<string> => {
   let command: string[] = [];
   
   switch (tool) {
@@ -234,27 +250,50 @@ const executeTool = async (tool: string, target: string, parameters: Record<stri
 
   console.log(`Executing command: ${command.join(' ')}`);
 
+  let cancelled = false;
+  let watcher: number | undefined;
+
   try {
-    const cmd = new Deno.Command(command[0], {
+    const child = new Deno.Command(command[0], {
       args: command.slice(1),
       stdout: "piped",
       stderr: "piped",
-    });
+    }).spawn();
+
+    if (shouldStop) {
+      watcher = setInterval(async () => {
+        if (cancelled || !(await shouldStop().catch(() => false))) return;
+        cancelled = true;
+        console.warn(`Emergency stop: killing ${tool} (pid ${child.pid})`);
+        try {
+          child.kill('SIGKILL');
+        } catch {
+          // Process already exited
+        }
+      }, STOP_POLL_INTERVAL_MS);
+    }
 
-    const { success, stdout, stderr, code } = await cmd.output();
+    const { success, stdout, stderr, code } = await child.output();
 
     const output = new TextDecoder().decode(stdout);
     const error = new TextDecoder().decode(stderr);
 
+    if (cancelled) {
+      throw new ExecutionCancelledError(`${tool} was killed by an emergency stop\n\nPartial output:\n${output}`);
+    }
+
     if (!success) {
       return `Command failed with exit code ${code}\n\nSTDOUT:\n${output}\n\nSTDERR:\n${error}`;
     }
 
     return output || error || 'Command completed successfully (no output)';
   } catch (error) {
+    if (error instanceof ExecutionCancelledError) throw error;
     console.error('Tool execution error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     throw new Error(`Failed to execute ${tool}: ${errorMessage}`);
+  } finally {
+    clearInterval(watcher);
   }
 };
 
@@ -268,14 +307,141 @@ const getDefaultWordlists = (): Record<string, string> => {
   };
 };
 
-serve(async (req) => {
+// Every tool parameter that reaches the command line, with the values it accepts. Values are
+// passed as separate arguments, so the danger is an extra option (-iL /file) or another host
+// operand that the target scope check never sees. Parameters not listed here are ignored.
+const PORTS = /^\d{1,5}(-\d{1,5})?(,\d{1,5}(-\d{1,5})?)*$/;
+const matches = (pattern: RegExp) => (value: string) => pattern.test(value);
+const oneOf = (...values: string[]) => (value: string) => values.includes(value);
+const integerBetween = (min: number, max: number) => (value: string) =>
+  /^\d+$/.test(value) && Number(value) >= min && Number(value) <= max;
+const flag = oneOf('true', 'false');
+const knownWordlist = (value: string) => Object.values(getDefaultWordlists()).includes(value);
+// Free-form request data: no options, no URLs or IP addresses and no line breaks
+const requestData = (value: string) =>
+  !value.startsWith('-') && !/:\/\/|\b\d{1,3}(\.\d{1,3}){3}\b|[\r\n\0]/.test(value);
+
+const TOOL_PARAMETERS: Record<string, Record<string, (value: string) => boolean>> = {
+  nmap: {
+    scan_type: oneOf('-sS', '-sT', '-sU', '-sA', '-sN', '-sF', '-sX', '-sn'),
+    service_version: flag,
+    timing: integerBetween(0, 5),
+    ports: matches(PORTS),
+  },
+  nikto: {
+    port: matches(PORTS),
+    ssl: flag,
+  },
+  dirb: {
+    wordlist: knownWordlist,
+    extensions: matches(/^\.[A-Za-z0-9]{1,10}(,\.[A-Za-z0-9]{1,10})*$/),
+    recursive: flag,
+  },
+  gobuster: {
+    mode: oneOf('dir', 'dns', 'vhost'),
+    wordlist: knownWordlist,
+    extensions: matches(/^\.?[A-Za-z0-9]{1,10}(,\.?[A-Za-z0-9]{1,10})*$/),
+    threads: integerBetween(1, 100),
+  },
+  masscan: {
+    ports: matches(PORTS),
+    rate: integerBetween(1, 100000),
+    banners: flag,
+  },
+  sqlmap: {
+    data: requestData,
+    cookie: requestData,
+    level: integerBetween(1, 5),
+    risk: integerBetween(1, 3),
+  },
+};
+
+// Returns why a tool may not run with these parameters, or null if every value is allowed
+const validateToolParameters = (tool: string, target: string, parameters: Record<string, unknown>): string | null => {
+  const allowed = TOOL_PARAMETERS[tool];
+  if (!allowed) return `Unsupported tool: ${tool}`;
+  if (target.startsWith('-')) return 'Target must be a host or URL, not an option';
+
+  for (const [name, value] of Object.entries(parameters)) {
+    if (!(name in allowed) || value === '' || value === undefined || value === null) continue;
+    if (typeof value !== 'string' || !allowed[name](value)) {
+      return `Invalid ${tool} parameter ${name}: ${String(value).slice(0, 100)}`;
+    }
+  }
+  if (tool === 'masscan' && !parameters.ports) return 'masscan needs a port range';
+
+  return null;
+};
+
+// What an attack path runs its primary tool with. Paths store no tool parameters, and
+// these go through validateToolParameters like the ones of an execute request
+const ATTACK_PATH_PARAMETERS: Record<string, Record<string, string>> = {
+  nmap: { ports: '80,443,22', service_version: 'true', timing: '4' },
+  dirb: { wordlist: getDefaultWordlists().dirb_common },
+  gobuster: { mode: 'dir', wordlist: getDefaultWordlists().gobuster_common },
+  masscan: { ports: '80,443,22', rate: '1000' },
+};
+
+const RISK_LEVEL_RANK: Record<string, number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+interface ApprovalSubject {
+  id: string;
+  risk_level: string | null;
+  approval_requested_at: string | null;
+}
+
+// Returns why the path may not run yet, or null once a second person has approved it.
+// Mirrors public.attack_path_requires_approval so the decision never depends on the path's status column.
+const getApprovalBlocker = async (
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  path: ApprovalSubject,
+  threshold: string
+): Promise<string | null> => {
+  const risk = path.risk_level || 'medium';
+  if ((RISK_LEVEL_RANK[risk] ?? 2) < (RISK_LEVEL_RANK[threshold] ?? 3)) return null;
+
+  const { data: review, error } = await supabase
+    .from('attack_path_approvals')
+    .select('decision, approver_id, approver_name, comment, created_at')
+    .eq('attack_path_id', path.id)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const stale = review && path.approval_requested_at
+    && new Date(review.created_at) < new Date(path.approval_requested_at);
+  if (!review || stale) {
+    return `${risk} risk attack paths need sign-off from an approver before they can be executed`;
+  }
+
+  const reviewer = review.approver_name || 'an approver';
+  if (review.decision !== 'approved') {
+    return `Attack path was rejected by ${reviewer}: ${review.comment}`;
+  }
+  if (review.approver_id === userId) {
+    return 'Attack paths cannot be approved by the user who executes them';
+  }
+
+  return null;
+};
+
+serve(withAudit('kali-tools', (body) => {
+  const attackPath = body.attackPath as { id?: string } | undefined;
+  return {
+    action: String(body.action ?? 'unknown'),
+    target: (body.target as string | undefined) ?? (attackPath?.id ? `attack_path:${attackPath.id}` : null),
+  };
+}, async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { action, tool, target, attackPath, parameters = {} } = await req.json();
+    const { action, tool, target, attackPath, campaignId, parameters = {} } = await req.json();
     
     console.log(`Kali Tools - Action: ${action}, Tool: ${tool}, Target: ${target}`);
 
@@ -310,11 +476,103 @@ serve(async (req) => {
       });
     }
 
+    // Everything below touches a target, so it needs an authenticated user and a scope
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization') ?? '';
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+
+    if (!user) {
+      return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+    }
+
     if (action === 'execute' && tool && target) {
+      const parameterProblem = validateToolParameters(tool, target, parameters);
+      if (parameterProblem) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Invalid tool parameters',
+          reason: parameterProblem,
+          tool,
+          target,
+          timestamp: new Date().toISOString()
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const workspaceDecision = await enforceWorkspaceRole(supabase, user.id, OPERATOR_ROLES, { campaignId });
+      if (!workspaceDecision.allowed) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Not permitted in this workspace',
+          reason: workspaceDecision.reason,
+          tool,
+          target,
+          timestamp: new Date().toISOString()
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const emergencyStop = await getActiveEmergencyStop(supabase, user.id, campaignId, workspaceDecision.workspaceId);
+      if (emergencyStop) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Emergency stop active',
+          reason: describeEmergencyStop(emergencyStop),
+          tool,
+          target,
+          timestamp: new Date().toISOString()
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const scopeDecision = await enforceScope(supabase, user.id, target, { workspaceId: workspaceDecision.workspaceId, campaignId });
+      if (!scopeDecision.allowed) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Target out of scope',
+          reason: scopeDecision.reason,
+          tool,
+          target,
+          timestamp: new Date().toISOString()
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const windowDecision = await enforceEngagementWindow(supabase, user.id, workspaceDecision.workspaceId, campaignId);
+      if (!windowDecision.allowed) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Outside rules of engagement',
+          reason: windowDecision.reason,
+          next_allowed_at: windowDecision.nextAllowedAt,
+          tool,
+          target,
+          timestamp: new Date().toISOString()
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
       console.log(`Executing tool: ${tool} against target: ${target}`);
       
+      const stopRequested = async () => (await getActiveEmergencyStop(supabase, user.id, campaignId, workspaceDecision.workspaceId)) !== null;
+
       try {
-        const output = await executeTool(tool, target, parameters);
+        const output = await executeTool(tool, target, parameters, stopRequested);
         
         return new Response(JSON.stringify({
           success: true,
@@ -326,6 +584,21 @@ serve(async (req) => {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       } catch (error) {
+        if (error instanceof ExecutionCancelledError) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'Emergency stop active',
+            reason: `${tool} was cancelled by an emergency stop`,
+            output: error.message,
+            tool,
+            target,
+            timestamp: new Date().toISOString()
+          }), {
+            status: 403,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
         console.error('Tool execution error:', error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
         
@@ -343,14 +616,150 @@ serve(async (req) => {
     }
 
     if (action === 'execute_attack' && attackPath) {
-      console.log(`Executing attack path: ${attackPath.technique} (${attackPath.phase})`);
+      // Everything that runs comes from the stored path, as approved and scope-checked,
+      // never from the client's copy of it
+      const { data: pathRecord } = await supabase
+        .from('attack_paths')
+        .select('id, campaign_id, workspace_id, target, risk_level, status, approval_requested_at, technique_name, phase, tools_required, description')
+        .eq('id', attackPath.id)
+        .maybeSingle();
+
+      if (!pathRecord) {
+        return new Response(JSON.stringify({ error: 'Attack path not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const storedPath = {
+        technique: pathRecord.technique_name ?? 'Unnamed technique',
+        phase: pathRecord.phase,
+        tools: (pathRecord.tools_required ?? []) as string[],
+        description: pathRecord.description,
+      };
+
+      // Any operator in the path's workspace may execute it, not only the user who planned it
+      const workspaceDecision = await enforceWorkspaceRole(supabase, user.id, OPERATOR_ROLES, { workspaceId: pathRecord.workspace_id });
+      if (!workspaceDecision.allowed) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Not permitted in this workspace',
+          reason: workspaceDecision.reason,
+          technique: storedPath.technique,
+          timestamp: new Date().toISOString()
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: campaign } = await supabase
+        .from('apt_campaigns')
+        .select('status, target_organization, approval_risk_threshold')
+        .eq('id', pathRecord.campaign_id)
+        .maybeSingle();
+
+      if (campaign?.status !== 'active') {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Campaign not active',
+          reason: `Campaign must be active to execute attack paths (current status: ${campaign?.status ?? 'unknown'})`,
+          technique: storedPath.technique,
+          timestamp: new Date().toISOString()
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const emergencyStop = await getActiveEmergencyStop(supabase, user.id, pathRecord.campaign_id);
+      if (emergencyStop) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Emergency stop active',
+          reason: describeEmergencyStop(emergencyStop),
+          technique: storedPath.technique,
+          timestamp: new Date().toISOString()
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const approvalBlocker = await getApprovalBlocker(supabase, user.id, pathRecord, campaign.approval_risk_threshold);
+      if (approvalBlocker) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Approval required',
+          reason: approvalBlocker,
+          approval_status: pathRecord.status,
+          technique: storedPath.technique,
+          timestamp: new Date().toISOString()
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const attackTarget: string = pathRecord.target || campaign.target_organization || '';
+
+      const scopeDecision = await enforceScope(supabase, user.id, attackTarget, { workspaceId: pathRecord.workspace_id, campaignId: pathRecord.campaign_id });
+      if (!scopeDecision.allowed) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Target out of scope',
+          reason: attackTarget ? scopeDecision.reason : 'Attack path has no target to check against the engagement scope',
+          target: attackTarget,
+          technique: storedPath.technique,
+          timestamp: new Date().toISOString()
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const windowDecision = await enforceEngagementWindow(supabase, user.id, pathRecord.workspace_id, pathRecord.campaign_id);
+      if (!windowDecision.allowed) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Outside rules of engagement',
+          reason: windowDecision.reason,
+          next_allowed_at: windowDecision.nextAllowedAt,
+          target: attackTarget,
+          technique: storedPath.technique,
+          timestamp: new Date().toISOString()
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      console.log(`Executing attack path: ${storedPath.technique} (${storedPath.phase}) against ${attackTarget}`);
       
       const isKali = await isKaliLinux();
-      const tools = attackPath.tools || [];
-      const primaryTool = tools[0] || 'nmap';
+      const primaryTool = storedPath.tools[0] || 'nmap';
       
-      // Check if primary tool is available
-      const toolAvailable = isKali ? await checkToolAvailability(primaryTool) : false;
+      // Check if primary tool is available; tools this function has no command line for are simulated
+      const toolAvailable = isKali && primaryTool in TOOL_PARAMETERS ? await checkToolAvailability(primaryTool) : false;
+      const toolParameters = ATTACK_PATH_PARAMETERS[primaryTool] ?? {};
+
+      if (toolAvailable) {
+        const parameterProblem = validateToolParameters(primaryTool, attackTarget, toolParameters);
+        if (parameterProblem) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'Invalid tool parameters',
+            reason: parameterProblem,
+            target: attackTarget,
+            technique: storedPath.technique,
+            timestamp: new Date().toISOString()
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+      }
+      const stopRequested = async () => (await getActiveEmergencyStop(supabase, user.id, pathRecord.campaign_id)) !== null;
       
       const startTime = Date.now();
       let output = '';
@@ -366,49 +775,65 @@ serve(async (req) => {
           
           // Generate appropriate command based on tool and phase
           if (primaryTool === 'nmap') {
-            command = `nmap -sV -T4 simulated-target`;
-            const toolOutput = await executeTool('nmap', 'localhost', { ports: '80,443,22' });
+            command = `nmap -sV -T4 -p 80,443,22 ${attackTarget}`;
+            const toolOutput = await executeTool('nmap', attackTarget, toolParameters, stopRequested);
             output = toolOutput;
             findings.push('Port scan completed', 'Services identified');
             success = true;
           } else if (primaryTool === 'nikto') {
-            command = `nikto -h simulated-target`;
+            command = `nikto -h ${attackTarget}`;
             output = 'Nikto execution simulated - Web vulnerability scan completed';
             findings.push('Web server fingerprinted', 'Common vulnerabilities checked');
             success = true;
           } else if (primaryTool === 'sqlmap') {
-            command = `sqlmap -u simulated-target --batch`;
+            command = `sqlmap -u ${attackTarget} --batch`;
             output = 'SQLMap execution simulated - SQL injection testing completed';
             findings.push('Database fingerprinted', 'Injection points tested');
             success = true;
           } else {
-            command = `${primaryTool} --help`;
-            output = await executeTool(primaryTool, 'localhost', {});
+            command = `${primaryTool} ${attackTarget}`;
+            output = await executeTool(primaryTool, attackTarget, toolParameters, stopRequested);
             findings.push(`${primaryTool} executed successfully`);
             success = true;
           }
         } catch (error) {
+          if (error instanceof ExecutionCancelledError) {
+            return new Response(JSON.stringify({
+              success: false,
+              error: 'Emergency stop active',
+              reason: `${storedPath.technique} was cancelled by an emergency stop`,
+              output: error.message,
+              command,
+              technique: storedPath.technique,
+              target: attackTarget,
+              timestamp: new Date().toISOString()
+            }), {
+              status: 403,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+          }
+
           console.error('Real tool execution failed:', error);
           errors.push(error instanceof Error ? error.message : 'Tool execution failed');
-          output = generateAttackOutput(attackPath);
+          output = generateAttackOutput(storedPath);
           command = `${primaryTool} (simulated due to error)`;
           success = false;
         }
       } else {
         // Simulate execution
         await new Promise(resolve => setTimeout(resolve, Math.random() * 2000 + 1000));
-        output = generateAttackOutput(attackPath);
+        output = generateAttackOutput(storedPath);
         command = `Simulated: ${primaryTool}`;
         
         // Generate realistic findings based on phase
-        if (attackPath.phase === 'reconnaissance') {
+        if (storedPath.phase === 'reconnaissance') {
           findings.push('Target IP identified', 'Open ports discovered: 22, 80, 443', 'Services enumerated');
-        } else if (attackPath.phase === 'exploitation') {
+        } else if (storedPath.phase === 'exploitation') {
           findings.push('Vulnerability exploited', 'Access gained', 'Privilege escalation attempted');
-        } else if (attackPath.phase === 'command_control') {
+        } else if (storedPath.phase === 'command_control') {
           findings.push('C2 channel established', 'Persistent access configured');
         } else {
-          findings.push(`${attackPath.phase} phase executed successfully`);
+          findings.push(`${storedPath.phase} phase executed successfully`);
         }
         
         success = Math.random() > 0.2; // 80% success rate for simulated
@@ -425,8 +850,9 @@ serve(async (req) => {
         output,
         command,
         executionTime,
-        technique: attackPath.technique,
-        phase: attackPath.phase,
+        technique: storedPath.technique,
+        phase: storedPath.phase,
+        target: attackTarget,
         isKali,
         toolAvailable,
         findings,
@@ -456,10 +882,10 @@ serve(async (req) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
-});
+}));
 
-function generateAttackOutput(attackPath: any): string {
-  const { technique, phase, tools = [], description } = attackPath;
+function generateAttackOutput(attackPath: { technique: string; phase: string; tools: string[]; description: string | null }): string {
+  const { technique, phase, tools, description } = attackPath;
   
   const outputs = [
     `[${new Date().toLocaleString()}] Executing: ${technique}`,
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getUserSettings, checkScanConcurrency } from "../_shared/userSettings.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -47,6 +48,25 @@ serve(async (req) => {
       });
     }
 
+    // Scans are additionally capped by the user's concurrent scan setting
+    if (endpoint === '/ai-agent-orchestrator') {
+      const settings = await getUserSettings(supabase, user.id);
+      const concurrency = await checkScanConcurrency(supabase, user.id, settings);
+      if (!concurrency.allowed) {
+        return new Response(JSON.stringify({
+          allowed: false,
+          error: 'Too many concurrent scans',
+          message: 'Too many concurrent scans',
+          reason: concurrency.reason,
+          limit: concurrency.limit,
+          current: concurrency.active
+        }), {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
     const windowStart = new Date();
     windowStart.setMinutes(windowStart.getMinutes() - rateLimitConfig.windowMinutes);
 
@@ -66,6 +86,7 @@ serve(async (req) => {
         
         return new Response(JSON.stringify({
           allowed: false,
+          error: 'Rate limit exceeded',
           message: 'Rate limit exceeded',
           limit: rateLimitConfig.maxRequests,
           windowMinutes: rateLimitConfig.windowMinutes,
@@ -1,6 +1,12 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enforceScope } from "../_shared/scope.ts";
+import { getActiveEmergencyStop, describeEmergencyStop } from "../_shared/emergencyStop.ts";
+import { enforceWorkspaceRole, OPERATOR_ROLES } from "../_shared/workspaces.ts";
+import { withAudit } from "../_shared/audit.ts";
+import { resolveRequestUserId } from "../_shared/auth.ts";
+import { DEFAULT_RECON_SERVICES, parsePortList, type NmapParameters } from "../_shared/scanProfiles.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,6 +16,10 @@ const corsHeaders = {
 interface ReconRequest {
   target: string;
   services: string[]; // ['shodan', 'virustotal', 'ipinfo']
+  nmap?: NmapParameters; // from the scan profile; limits the ports probed
+  campaignId?: string;
+  assetType?: string;
+  onBehalfOf?: string; // set by scan-worker, which calls with the service role key
 }
 
 // Demo target domains that should return HIGH RISK simulated data
@@ -251,7 +261,7 @@ const LOW_RISK_VULNERABILITIES = [
 ];
 
 // Generate simulated scan results based on risk level
-function generateScanResults(target: string, riskLevel: 'high' | 'medium' | 'low') {
+function generateScanResults(target: string, riskLevel: 'high' | 'medium' | 'low', portFilter: ((port: number) => boolean) | null = null) {
   const baseTimestamp = new Date();
   const scanDuration = Math.floor(Math.random() * 45000) + 15000;
   
@@ -295,7 +305,7 @@ function generateScanResults(target: string, riskLevel: 'high' | 'medium' | 'low
   const allVulnerabilities = [...selectedHigh, ...selectedLow].map((v, idx) => ({
     ...v,
     ip: target.match(/^\d+\.\d+\.\d+\.\d+$/) ? target : `192.168.${Math.floor(idx / 2) + 1}.${(idx * 17 + 10) % 255}`
-  }));
+  })).filter(v => !portFilter || portFilter(v.port));
   
   // Calculate risk score based on vulnerabilities
   const criticalCount = allVulnerabilities.filter(v => v.severity === 'Critical').length;
@@ -436,7 +446,10 @@ function generateScanResults(target: string, riskLevel: 'high' | 'medium' | 'low
   };
 }
 
-serve(async (req) => {
+serve(withAudit('reconnaissance', (body) => ({
+  action: 'reconnaissance',
+  target: body.target as string | undefined,
+}), async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
@@ -447,16 +460,14 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const authHeader = req.headers.get('Authorization')!;
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user } } = await supabase.auth.getUser(token);
+    const requestBody = await req.json();
+    const { target, services = [], nmap, campaignId, assetType, onBehalfOf }: ReconRequest = requestBody;
+
+    const userId = await resolveRequestUserId(supabase, req, onBehalfOf);
 
-    if (!user) {
+    if (!userId) {
       return new Response('Unauthorized', { status: 401, headers: corsHeaders });
     }
-
-    const requestBody = await req.json();
-    const { target, services = [] }: ReconRequest = requestBody;
     
     console.log('Reconnaissance request:', { target, services });
     
@@ -467,6 +478,30 @@ serve(async (req) => {
       });
     }
 
+    const workspaceDecision = await enforceWorkspaceRole(supabase, userId, OPERATOR_ROLES, { campaignId });
+    if (!workspaceDecision.allowed) {
+      return new Response(JSON.stringify({ error: 'Not permitted in this workspace', reason: workspaceDecision.reason, target }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const emergencyStop = await getActiveEmergencyStop(supabase, userId, campaignId, workspaceDecision.workspaceId);
+    if (emergencyStop) {
+      return new Response(JSON.stringify({ error: 'Emergency stop active', reason: describeEmergencyStop(emergencyStop), target }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const scopeDecision = await enforceScope(supabase, userId, target, { workspaceId: workspaceDecision.workspaceId, campaignId, assetType });
+    if (!scopeDecision.allowed) {
+      return new Response(JSON.stringify({ error: 'Target out of scope', reason: scopeDecision.reason, target }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Generate simulated results for ALL targets with risk-based classification
     const riskLevel = getTargetRiskLevel(target);
     console.log(`Target ${target} classified as ${riskLevel} risk`);
@@ -474,11 +509,15 @@ serve(async (req) => {
     // Add slight delay to simulate real scan
     await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 2000));
     
-    const scanResults = generateScanResults(target, riskLevel);
+    const queriedServices = services.length > 0 ? services : DEFAULT_RECON_SERVICES;
+    const scanResults: Record<string, unknown> = generateScanResults(target, riskLevel, parsePortList(nmap?.ports));
+    for (const service of DEFAULT_RECON_SERVICES) {
+      if (!queriedServices.includes(service)) delete scanResults[service];
+    }
     
     // Log API usage for tracking
     await supabase.from('api_usage').insert({
-      user_id: user.id,
+      user_id: userId,
       service_name: 'simulated_scan',
       endpoint: '/reconnaissance',
       response_status: 200
@@ -487,7 +526,8 @@ serve(async (req) => {
     return new Response(JSON.stringify({
       target,
       timestamp: new Date().toISOString(),
-      services_queried: services.length > 0 ? services : ['shodan', 'virustotal', 'ipinfo'],
+      services_queried: queriedServices,
+      tool_parameters: nmap ? { nmap } : {},
       results: scanResults
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -502,4 +542,4 @@ serve(async (req) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
-});
+}));
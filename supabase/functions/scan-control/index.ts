@@ -0,0 +1,232 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getActiveEmergencyStop, describeEmergencyStop } from "../_shared/emergencyStop.ts";
+import { withAudit } from "../_shared/audit.ts";
+import { getUserSettings, checkScanConcurrency } from "../_shared/userSettings.ts";
+import { enforceWorkspaceRole, OPERATOR_ROLES } from "../_shared/workspaces.ts";
+import { requeueAgentRetry, wakeScanWorker } from "../_shared/scanJobs.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ScanControlRequest {
+  action: 'cancel' | 'retry_agent';
+  scanId?: string;
+  // The failed agent_executions row to rerun, for retry_agent
+  executionId?: string;
+}
+
+interface ScanRow {
+  id: string;
+  user_id: string;
+  workspace_id: string;
+  target: string;
+  status: string;
+  is_batch: boolean;
+  parent_scan_id: string | null;
+  completed_at: string | null;
+  metadata: { campaign_id?: string | null } | null;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Cancels a pending or running scan. The scan's job, and a batch's unfinished
+ * children, are stopped by triggers; scan-worker leaves cancelled agent
+ * executions alone, so marking them here is final.
+ */
+async function cancelScan(supabase: SupabaseClient, scan: ScanRow) {
+  const { data: cancelled, error } = await supabase
+    .from('scans')
+    .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+    .eq('id', scan.id)
+    .in('status', ['pending', 'running'])
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!cancelled) {
+    return jsonResponse({ error: 'Scan is not running', reason: `The scan is already ${scan.status}` }, 409);
+  }
+
+  const scanIds = [scan.id];
+  if (scan.is_batch) {
+    const { data: children, error: childrenError } = await supabase
+      .from('scans')
+      .select('id')
+      .eq('parent_scan_id', scan.id);
+
+    if (childrenError) throw childrenError;
+    scanIds.push(...(children ?? []).map(child => child.id));
+  }
+
+  const { data: executions, error: executionsError } = await supabase
+    .from('agent_executions')
+    .update({ status: 'cancelled', error_message: 'Cancelled by user', completed_at: new Date().toISOString() })
+    .in('scan_id', scanIds)
+    .in('status', ['pending', 'running'])
+    .select('id');
+
+  if (executionsError) throw executionsError;
+
+  console.log(`[Scan Control] Cancelled scan ${scan.id} and ${executions?.length ?? 0} agent executions`);
+  return jsonResponse({ scan_id: scan.id, status: 'cancelled', cancelled_executions: executions?.length ?? 0 });
+}
+
+/**
+ * Reruns one failed agent of a finished scan against the reconnaissance it
+ * already gathered, then re-aggregates the scan's findings and threat level.
+ * The failed execution is kept; the rerun is recorded as a new one.
+ */
+async function retryAgent(supabase: SupabaseClient, userId: string, scan: ScanRow, executionId: string | undefined) {
+  if (!executionId) {
+    return jsonResponse({ error: 'executionId is required' }, 400);
+  }
+  // A batch has no job of its own; its agents run in the scan of each target
+  if (scan.is_batch) {
+    return jsonResponse({ error: 'Batch scans cannot be retried', reason: 'Retry the agent in the scan of its target instead' }, 400);
+  }
+
+  const { data: execution, error: executionError } = await supabase
+    .from('agent_executions')
+    .select('id, agent_id, status, created_at, ai_agents(name, is_active)')
+    .eq('id', executionId)
+    .eq('scan_id', scan.id)
+    .maybeSingle();
+
+  if (executionError) throw executionError;
+  if (!execution) {
+    return jsonResponse({ error: 'Agent execution not found' }, 404);
+  }
+  if (execution.status !== 'failed') {
+    return jsonResponse({ error: 'Only failed agent executions can be retried', reason: `The execution is ${execution.status}` }, 409);
+  }
+
+  const agent = execution.ai_agents as { name?: string; is_active?: boolean } | null;
+  if (!agent?.is_active) {
+    return jsonResponse({ error: 'Agent is not active', reason: `Activate ${agent?.name ?? 'the agent'} before retrying it` }, 400);
+  }
+
+  if (!['completed', 'failed'].includes(scan.status)) {
+    return jsonResponse({ error: 'Scan is not finished', reason: `The scan is ${scan.status}` }, 409);
+  }
+
+  // A newer run of the same agent supersedes this one
+  const { count: newer } = await supabase
+    .from('agent_executions')
+    .select('id', { count: 'exact', head: true })
+    .eq('scan_id', scan.id)
+    .eq('agent_id', execution.agent_id)
+    .gt('created_at', execution.created_at);
+
+  if (newer) {
+    return jsonResponse({ error: 'A newer run of this agent exists', reason: 'Retry the latest execution instead' }, 409);
+  }
+
+  const campaignId = scan.metadata?.campaign_id ?? null;
+  const emergencyStop = await getActiveEmergencyStop(supabase, userId, campaignId);
+  if (emergencyStop) {
+    return jsonResponse({ error: 'Emergency stop active', reason: describeEmergencyStop(emergencyStop) }, 403);
+  }
+
+  const settings = await getUserSettings(supabase, userId);
+  const concurrency = await checkScanConcurrency(supabase, userId, settings);
+  if (!concurrency.allowed) {
+    return jsonResponse({ error: 'Too many concurrent scans', reason: concurrency.reason }, 429);
+  }
+
+  // Claim the scan first so a second retry or cancel cannot race this one
+  const { data: claimed, error: claimError } = await supabase
+    .from('scans')
+    .update({ status: 'pending', completed_at: null })
+    .eq('id', scan.id)
+    .in('status', ['completed', 'failed'])
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) throw claimError;
+  if (!claimed) {
+    return jsonResponse({ error: 'Scan is not finished', reason: 'The scan changed while retrying' }, 409);
+  }
+
+  let jobId: string | null;
+  try {
+    jobId = await requeueAgentRetry(supabase, scan.id, { executionId: execution.id, agentId: execution.agent_id });
+  } catch (error) {
+    await supabase.from('scans').update({ status: scan.status, completed_at: scan.completed_at }).eq('id', scan.id);
+    throw error;
+  }
+  if (!jobId) {
+    await supabase.from('scans').update({ status: scan.status, completed_at: scan.completed_at }).eq('id', scan.id);
+    return jsonResponse({ error: 'Scan cannot be retried', reason: 'The scan has no finished job to requeue' }, 409);
+  }
+
+  // The batch reports again once this child is re-aggregated
+  if (scan.parent_scan_id) {
+    await supabase.from('scans').update({ completed_at: null }).eq('id', scan.parent_scan_id);
+  }
+
+  wakeScanWorker();
+
+  console.log(`[Scan Control] Requeued scan ${scan.id} to retry ${agent.name} (execution ${execution.id})`);
+  return jsonResponse({ scan_id: scan.id, execution_id: execution.id, status: 'queued' }, 202);
+}
+
+serve(withAudit('scan-control', (body) => ({
+  action: body.action === 'retry_agent' ? 'retry_agent' : 'cancel_scan',
+  target: body.scanId as string | undefined,
+}), async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+
+    if (!user) {
+      return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+    }
+
+    const { action, scanId, executionId }: ScanControlRequest = await req.json();
+
+    if (!scanId || !['cancel', 'retry_agent'].includes(action)) {
+      return jsonResponse({ error: 'scanId and an action of cancel or retry_agent are required' }, 400);
+    }
+
+    const { data: scan } = await supabase
+      .from('scans')
+      .select('id, user_id, workspace_id, target, status, is_batch, parent_scan_id, completed_at, metadata')
+      .eq('id', scanId)
+      .maybeSingle();
+
+    if (!scan) {
+      return jsonResponse({ error: 'Scan not found' }, 404);
+    }
+
+    // Anyone who may start scans in the workspace may stop or rerun them
+    const workspaceDecision = await enforceWorkspaceRole(supabase, user.id, OPERATOR_ROLES, { workspaceId: scan.workspace_id });
+    if (!workspaceDecision.allowed) {
+      return jsonResponse({ error: 'Not permitted in this workspace', reason: workspaceDecision.reason }, 403);
+    }
+
+    return action === 'cancel'
+      ? await cancelScan(supabase, scan)
+      : await retryAgent(supabase, user.id, scan, executionId);
+  } catch (error) {
+    console.error('Error in scan control:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+}));
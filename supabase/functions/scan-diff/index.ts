@@ -0,0 +1,238 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enforceWorkspaceRole, type WorkspaceRole } from "../_shared/workspaces.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface ScanDiffRequest {
+  baseScanId?: string;
+  compareScanId: string;
+}
+
+interface ScanRow {
+  id: string;
+  user_id: string;
+  workspace_id: string;
+  target: string;
+  asset_type: string;
+  status: string;
+  threat_level: string | null;
+  results: Record<string, unknown> | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+interface FindingRow {
+  id: string;
+  fingerprint: string | null;
+  name: string;
+  cve: string | null;
+  severity: string;
+  status: string;
+  port: number | null;
+  service: string | null;
+}
+
+interface ServiceObservation {
+  port: number;
+  protocol: string;
+  product: string | null;
+  version: string | null;
+}
+
+const THREAT_RANK: Record<string, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const riskScore = (scan: ScanRow): number | null => {
+  const value = scan.results?.risk_score;
+  return typeof value === 'number' && Number.isFinite(value) ? Math.round(value * 10) / 10 : null;
+};
+
+// open_ports holds bare port numbers from reconnaissance, or {port, ...} objects from older scans
+const openPorts = (scan: ScanRow): number[] => {
+  const ports = Array.isArray(scan.results?.open_ports) ? scan.results!.open_ports as unknown[] : [];
+  return [...new Set(ports
+    .map(entry => parseInt(String(typeof entry === 'object' && entry !== null ? (entry as { port?: unknown }).port : entry), 10))
+    .filter(port => Number.isInteger(port)))]
+    .sort((a, b) => a - b);
+};
+
+const services = (scan: ScanRow): Map<string, ServiceObservation> => {
+  const entries = Array.isArray(scan.results?.services) ? scan.results!.services as Record<string, unknown>[] : [];
+  const byPort = new Map<string, ServiceObservation>();
+  for (const entry of entries) {
+    const port = parseInt(String(entry?.port ?? ''), 10);
+    if (!Number.isInteger(port)) continue;
+    const protocol = String(entry.protocol ?? 'tcp').toLowerCase();
+    byPort.set(`${port}/${protocol}`, {
+      port,
+      protocol,
+      product: entry.product ? String(entry.product) : null,
+      version: entry.version ? String(entry.version) : null,
+    });
+  }
+  return byPort;
+};
+
+const summarizeScan = (scan: ScanRow) => ({
+  id: scan.id,
+  created_at: scan.created_at,
+  completed_at: scan.completed_at,
+  status: scan.status,
+  threat_level: scan.threat_level,
+  risk_score: riskScore(scan),
+});
+
+/**
+ * Compares a scan against an earlier scan of the same target. Findings are
+ * matched by fingerprint, so the same issue reported again counts as
+ * unchanged even if its wording or severity moved.
+ */
+function diffScans(base: ScanRow, compare: ScanRow, baseFindings: FindingRow[], compareFindings: FindingRow[]) {
+  const key = (finding: FindingRow) => finding.fingerprint ?? finding.id;
+  const baseKeys = new Set(baseFindings.map(key));
+  const compareKeys = new Set(compareFindings.map(key));
+
+  const basePorts = openPorts(base);
+  const comparePorts = openPorts(compare);
+
+  const baseServices = services(base);
+  const compareServices = services(compare);
+  const changedServices = [...compareServices.entries()]
+    .filter(([id, after]) => {
+      const before = baseServices.get(id);
+      return before && (before.product !== after.product || before.version !== after.version);
+    })
+    .map(([id, after]) => ({ port: after.port, protocol: after.protocol, before: baseServices.get(id), after }));
+
+  const baseRisk = riskScore(base);
+  const compareRisk = riskScore(compare);
+
+  return {
+    target: compare.target,
+    base: summarizeScan(base),
+    compare: summarizeScan(compare),
+    findings: {
+      new: compareFindings.filter(finding => !baseKeys.has(key(finding))),
+      resolved: baseFindings.filter(finding => !compareKeys.has(key(finding))),
+      unchanged: compareFindings.filter(finding => baseKeys.has(key(finding))),
+    },
+    ports: {
+      opened: comparePorts.filter(port => !basePorts.includes(port)),
+      closed: basePorts.filter(port => !comparePorts.includes(port)),
+    },
+    services: {
+      changed: changedServices,
+    },
+    threat_level: {
+      before: base.threat_level,
+      after: compare.threat_level,
+      delta: (THREAT_RANK[compare.threat_level ?? 'low'] ?? 0) - (THREAT_RANK[base.threat_level ?? 'low'] ?? 0),
+    },
+    risk_score: {
+      before: baseRisk,
+      after: compareRisk,
+      delta: baseRisk !== null && compareRisk !== null ? Math.round((compareRisk - baseRisk) * 10) / 10 : null,
+    },
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const authHeader = req.headers.get('Authorization')!;
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+
+    if (!user) {
+      return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+    }
+
+    const { baseScanId, compareScanId }: ScanDiffRequest = await req.json();
+
+    if (!compareScanId) {
+      return jsonResponse({ error: 'compareScanId is required' }, 400);
+    }
+
+    const { data: compare } = await supabase
+      .from('scans')
+      .select('*')
+      .eq('id', compareScanId)
+      .maybeSingle();
+
+    if (!compare) {
+      return jsonResponse({ error: 'Scan not found' }, 404);
+    }
+
+    // Every member of the scan's workspace, including read-only clients, can compare its scans
+    const viewerRoles: WorkspaceRole[] = ['owner', 'lead', 'operator', 'analyst', 'client'];
+    const workspaceDecision = await enforceWorkspaceRole(supabase, user.id, viewerRoles, { workspaceId: compare.workspace_id });
+    if (!workspaceDecision.allowed) {
+      return jsonResponse({ error: 'Scan not found' }, 404);
+    }
+
+    // Without an explicit base, diff against the previous completed scan of the same target
+    let baseQuery = supabase
+      .from('scans')
+      .select('*')
+      .eq('workspace_id', compare.workspace_id);
+
+    baseQuery = baseScanId
+      ? baseQuery.eq('id', baseScanId)
+      : baseQuery
+        .eq('target', compare.target)
+        .eq('asset_type', compare.asset_type)
+        .eq('status', 'completed')
+        .lt('created_at', compare.created_at)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+    const { data: base } = await baseQuery.maybeSingle();
+
+    if (!base) {
+      return jsonResponse({
+        error: 'No scan to compare against',
+        reason: baseScanId ? 'Base scan not found' : `No earlier completed scan of ${compare.target}`,
+      }, 404);
+    }
+    if (base.target !== compare.target || base.asset_type !== compare.asset_type) {
+      return jsonResponse({ error: 'Scans must be of the same target', reason: `${base.target} vs ${compare.target}` }, 400);
+    }
+
+    const { data: findings, error: findingsError } = await supabase
+      .from('findings')
+      .select('id, scan_id, fingerprint, name, cve, severity, status, port, service')
+      .in('scan_id', [base.id, compare.id]);
+
+    if (findingsError) throw findingsError;
+
+    const diff = diffScans(
+      base,
+      compare,
+      (findings ?? []).filter(finding => finding.scan_id === base.id),
+      (findings ?? []).filter(finding => finding.scan_id === compare.id)
+    );
+
+    return jsonResponse(diff);
+  } catch (error) {
+    console.error('Error in scan diff:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
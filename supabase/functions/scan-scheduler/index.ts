@@ -0,0 +1,172 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enforceScope } from "../_shared/scope.ts";
+import { getActiveEmergencyStop, describeEmergencyStop } from "../_shared/emergencyStop.ts";
+import { enforceWorkspaceRole, OPERATOR_ROLES } from "../_shared/workspaces.ts";
+import { getUserSettings, checkScanConcurrency } from "../_shared/userSettings.ts";
+import { notify } from "../_shared/notifications.ts";
+import { enqueueScan, wakeScanWorker } from "../_shared/scanJobs.ts";
+import { nextScheduleRun, type ScanSchedule } from "../_shared/schedules.ts";
+import { resolveScanProfile } from "../_shared/scanProfiles.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Due schedules handled per invocation; the rest wait for the next minute
+const BATCH_SIZE = 20;
+
+type RunOutcome = { enqueued: true; scanId: string } | { enqueued: false; reason: string };
+
+// Applies the same checks as a scan started by hand. Rules of engagement are
+// left to scan-worker, which holds the job until the next window opens.
+async function runSchedule(supabase: SupabaseClient, schedule: ScanSchedule): Promise<RunOutcome> {
+  const { user_id: userId, target, asset_type: assetType, campaign_id: campaignId } = schedule;
+
+  const emergencyStop = await getActiveEmergencyStop(supabase, userId, campaignId);
+  if (emergencyStop) {
+    return { enqueued: false, reason: `Emergency stop active: ${describeEmergencyStop(emergencyStop)}` };
+  }
+
+  const workspaceDecision = await enforceWorkspaceRole(supabase, userId, OPERATOR_ROLES, {
+    campaignId,
+    workspaceId: schedule.workspace_id
+  });
+  if (!workspaceDecision.allowed) {
+    return { enqueued: false, reason: `Not permitted in this workspace: ${workspaceDecision.reason}` };
+  }
+
+  const scopeDecision = await enforceScope(supabase, userId, target, { workspaceId: workspaceDecision.workspaceId, campaignId, assetType });
+  if (!scopeDecision.allowed) {
+    return { enqueued: false, reason: `Target out of scope: ${scopeDecision.reason}` };
+  }
+
+  // Runs with the schedule owner's default profile for the asset type
+  const profileResolution = await resolveScanProfile(supabase, userId, workspaceDecision.workspaceId!, { assetType });
+  if (!profileResolution.ok) {
+    return { enqueued: false, reason: profileResolution.reason };
+  }
+  const profile = profileResolution.profile;
+
+  const settings = await getUserSettings(supabase, userId);
+  const concurrency = await checkScanConcurrency(supabase, userId, settings);
+  if (!concurrency.allowed) {
+    return { enqueued: false, reason: `Too many concurrent scans: ${concurrency.reason}` };
+  }
+
+  const { scanId } = await enqueueScan(supabase, {
+    userId,
+    workspaceId: workspaceDecision.workspaceId,
+    scopeId: scopeDecision.scopeId ?? null,
+    target,
+    assetType,
+    agentIds: schedule.agent_ids.length > 0 ? schedule.agent_ids : profile?.agent_ids,
+    campaignId,
+    autoAnalysis: settings.auto_analysis,
+    scheduleId: schedule.id,
+    profile
+  });
+
+  return { enqueued: true, scanId };
+}
+
+async function runDueSchedules(supabase: SupabaseClient): Promise<number> {
+  const now = new Date();
+  const { data: schedules, error } = await supabase
+    .from('scan_schedules')
+    .select('*')
+    .eq('is_active', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  let enqueued = 0;
+  for (const schedule of (schedules || []) as ScanSchedule[]) {
+    let nextRunAt: string | null = null;
+    try {
+      nextRunAt = nextScheduleRun(schedule, now).toISOString();
+    } catch (scheduleError) {
+      console.error(`[Scan Scheduler] Schedule ${schedule.id} has an invalid frequency:`, scheduleError);
+    }
+
+    // Moving next_run_at claims the run, so overlapping scheduler invocations cannot both enqueue it
+    const { data: claimed, error: claimError } = await supabase
+      .from('scan_schedules')
+      .update(nextRunAt
+        ? { next_run_at: nextRunAt, last_run_at: now.toISOString() }
+        : { is_active: false, last_error: 'Invalid schedule frequency; schedule paused' })
+      .eq('id', schedule.id)
+      .eq('next_run_at', schedule.next_run_at)
+      .select('id');
+
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0 || !nextRunAt) continue;
+
+    let outcome: RunOutcome;
+    try {
+      outcome = await runSchedule(supabase, schedule);
+    } catch (runError) {
+      outcome = { enqueued: false, reason: runError instanceof Error ? runError.message : 'Unknown error occurred' };
+    }
+
+    if (outcome.enqueued) {
+      enqueued++;
+      console.log(`[Scan Scheduler] ✓ ${schedule.name}: enqueued scan ${outcome.scanId}, next run ${nextRunAt}`);
+      await supabase
+        .from('scan_schedules')
+        .update({ last_scan_id: outcome.scanId, last_error: null })
+        .eq('id', schedule.id);
+      continue;
+    }
+
+    console.warn(`[Scan Scheduler] Skipped ${schedule.name}: ${outcome.reason}`);
+    await supabase
+      .from('scan_schedules')
+      .update({ last_error: outcome.reason })
+      .eq('id', schedule.id);
+
+    await notify(supabase, await getUserSettings(supabase, schedule.user_id), {
+      userId: schedule.user_id,
+      kind: 'schedule_alert',
+      title: `Scheduled scan "${schedule.name}" skipped`,
+      message: outcome.reason
+    });
+  }
+
+  return enqueued;
+}
+
+// Called every minute by pg_cron while schedules are due
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token || token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const enqueued = await runDueSchedules(supabase);
+    if (enqueued > 0) wakeScanWorker();
+
+    return new Response(JSON.stringify({ enqueued }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[Scan Scheduler] ✗ Error:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error occurred' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
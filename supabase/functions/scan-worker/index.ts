@@ -0,0 +1,1015 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enforceEngagementWindow } from "../_shared/engagementWindows.ts";
+import { describeEmergencyStop, getActiveEmergencyStop } from "../_shared/emergencyStop.ts";
+import { mergeReportedVulnerabilities, recordFindings, type ReportedVulnerability } from "../_shared/findings.ts";
+import { recordAssetInventory, type ReconHost } from "../_shared/assets.ts";
+import { getUserSettings, type UserSettings } from "../_shared/userSettings.ts";
+import { notify } from "../_shared/notifications.ts";
+import { compareWithPreviousRun, type ScheduleChanges } from "../_shared/schedules.ts";
+import { agentPipelineConfig, planAgentPipeline, selectOutput } from "../_shared/agentPipeline.ts";
+import { agentCallPolicy, agentModelTargets, callAgentModel, type CallAttempt, type ModelTarget } from "../_shared/agentPolicy.ts";
+import {
+  BUILTIN_PROVIDERS,
+  chatCompletion,
+  listLlmProviders,
+  LlmError,
+  selectLlmProvider,
+  type ChatRequest,
+  type LlmProvider,
+  type UsageContext,
+} from "../_shared/llmProviders.ts";
+import { parseStructuredOutput } from "../_shared/structuredOutput.ts";
+import { externalCallMode, externalFetch, UnrecordedCallError } from "../_shared/externalCalls.ts";
+import { AGENT_FINDINGS_SCHEMA } from "../_shared/llmSchemas.ts";
+import { resolveAgentPrompts, type AgentPrompt } from "../_shared/promptVersions.ts";
+import {
+  assessThreatLevel,
+  DEFAULT_LLM_MODEL,
+  DEFAULT_LLM_TEMPERATURE,
+  DEFAULT_RECON_SERVICES,
+  DEFAULT_RISK_POLICY
+} from "../_shared/scanProfiles.ts";
+import {
+  runInBackground,
+  SCAN_STAGES,
+  type ScanJobPayload,
+  type ScanStage,
+  type StageProgress,
+} from "../_shared/scanJobs.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const WORKER_ID = `scan-worker-${crypto.randomUUID()}`;
+// A job whose lease runs out is taken to be abandoned and resumed by the next worker
+const LEASE_SECONDS = 300;
+// Stop claiming new jobs after this long so the invocation ends well inside the platform limit
+const RUN_BUDGET_MS = 100_000;
+// Tries per stage within one run before the stage is given up on
+const STAGE_ATTEMPTS = 2;
+// Failed jobs are retried after 30s, 60s, 120s...
+const RETRY_BASE_SECONDS = 30;
+// Reconnaissance and threat intelligence only enrich the analysis; the scan goes on without them
+const OPTIONAL_STAGES: ScanStage[] = ['reconnaissance', 'threat_intel'];
+
+// Output of the reconnaissance function
+interface ReconData {
+  target?: string;
+  results?: { shodan?: ReconHost & { ports?: number[] } };
+  [key: string]: unknown;
+}
+
+interface JobState {
+  recon?: ReconData;
+  threat_intel?: { recent_vulnerabilities: string; timestamp: string } | null;
+}
+
+interface ScanJob {
+  id: string;
+  scan_id: string;
+  user_id: string;
+  stages: Partial<Record<ScanStage, StageProgress>>;
+  payload: ScanJobPayload;
+  state: JobState;
+  attempts: number;
+  max_attempts: number;
+}
+
+interface JobContext {
+  supabase: SupabaseClient;
+  job: ScanJob;
+  settings: UserSettings;
+  workspaceId: string | null;
+  // The scan workspace's LLM providers; empty uses the built-in ones
+  providers: LlmProvider[];
+}
+
+interface AgentRow {
+  id: string;
+  name: string;
+  prompt_template: string;
+  config: unknown;
+}
+
+interface AgentResult {
+  agent: string;
+  agent_id: string;
+  result?: Record<string, unknown>;
+  error?: string;
+  execution_time_ms: number;
+}
+
+// The job was cancelled, or its lease expired and another worker took it over
+class JobStoppedError extends Error {}
+
+// Persists job progress and renews the lease; fails if this worker no longer owns the job
+async function saveJob(ctx: JobContext, patch: Record<string, unknown>) {
+  const { data, error } = await ctx.supabase
+    .from('scan_jobs')
+    .update({
+      ...patch,
+      locked_until: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString(),
+    })
+    .eq('id', ctx.job.id)
+    .eq('locked_by', WORKER_ID)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new JobStoppedError(`Job ${ctx.job.id} is no longer held by this worker`);
+  }
+}
+
+async function setStage(ctx: JobContext, stage: ScanStage, progress: StageProgress, patch: Record<string, unknown> = {}) {
+  ctx.job.stages = { ...ctx.job.stages, [stage]: progress };
+  await saveJob(ctx, { stages: ctx.job.stages, ...patch });
+}
+
+async function runStage(ctx: JobContext, stage: ScanStage, run: () => Promise<StageProgress['status'] | void>) {
+  const previous = ctx.job.stages[stage];
+  const stageProgress = SCAN_STAGES.find(entry => entry.stage === stage)!.progress;
+
+  // Resuming: stages that already finished keep their outcome
+  if (previous && previous.status !== 'pending' && previous.status !== 'running') {
+    console.log(`[Scan Worker] Job ${ctx.job.id}: ${stage} already ${previous.status}, skipping`);
+    return;
+  }
+
+  let attempts = previous?.attempts ?? 0;
+  const startedAt = new Date().toISOString();
+  let lastError = 'Unknown error occurred';
+
+  for (let attempt = 1; attempt <= STAGE_ATTEMPTS; attempt++) {
+    attempts++;
+    await setStage(ctx, stage, { status: 'running', attempts, started_at: startedAt }, { current_stage: stage });
+
+    try {
+      const status = (await run()) || 'completed';
+      await setStage(ctx, stage, {
+        status,
+        attempts,
+        started_at: startedAt,
+        completed_at: new Date().toISOString(),
+      }, { progress: stageProgress, state: ctx.job.state });
+      return;
+    } catch (error) {
+      if (error instanceof JobStoppedError) throw error;
+      lastError = error instanceof Error ? error.message : String(error);
+      console.error(`[Scan Worker] Job ${ctx.job.id}: ${stage} attempt ${attempts} failed:`, error);
+      // A strict replay without a fixture fails the same way every time
+      if (error instanceof UnrecordedCallError) break;
+    }
+  }
+
+  // Strict replays must fail on a missing fixture, not complete with limited data,
+  // and LLM calls report one as an LlmError, so no stage is optional in strict mode
+  const optional = OPTIONAL_STAGES.includes(stage) && externalCallMode() !== 'strict';
+
+  await setStage(ctx, stage, {
+    status: 'failed',
+    attempts,
+    started_at: startedAt,
+    completed_at: new Date().toISOString(),
+    error: lastError,
+  }, optional ? { progress: stageProgress } : {});
+
+  if (!optional) {
+    throw new Error(`${stage} failed: ${lastError}`);
+  }
+  console.warn(`[Scan Worker] Job ${ctx.job.id}: ${stage} failed, continuing with limited data`);
+}
+
+async function ensureNotCancelled(ctx: JobContext) {
+  const { data: scan } = await ctx.supabase.from('scans').select('status').eq('id', ctx.job.scan_id).single();
+  if (scan?.status === 'cancelled') {
+    throw new JobStoppedError(`Scan ${ctx.job.scan_id} was cancelled`);
+  }
+}
+
+// Cancels the scan, and with it the job, for an emergency stop that covers it
+async function cancelForEmergencyStop(supabase: SupabaseClient, job: ScanJob) {
+  const completedAt = new Date().toISOString();
+  await supabase
+    .from('agent_executions')
+    .update({ status: 'cancelled', error_message: 'Cancelled by emergency stop', completed_at: completedAt })
+    .eq('scan_id', job.scan_id)
+    .in('status', ['pending', 'running']);
+  await supabase
+    .from('scans')
+    .update({ status: 'cancelled', completed_at: completedAt })
+    .eq('id', job.scan_id)
+    .in('status', ['pending', 'running']);
+}
+
+// A stop engaged while the job runs may not have reached its scan row, e.g. a
+// campaign stop for a scan queued after it; check the stops themselves
+async function ensureNoEmergencyStop(ctx: JobContext) {
+  const emergencyStop = await getActiveEmergencyStop(ctx.supabase, ctx.job.user_id, ctx.job.payload.campaignId);
+  if (emergencyStop) {
+    await cancelForEmergencyStop(ctx.supabase, ctx.job);
+    throw new JobStoppedError(describeEmergencyStop(emergencyStop));
+  }
+}
+
+async function reconnaissanceStage(ctx: JobContext) {
+  const { target, assetType, campaignId, assetId, profile } = ctx.job.payload;
+  console.log('Gathering reconnaissance data for:', target);
+
+  // Reconnaissance stands in for live scanning services, so it is recorded and replayed like them
+  const reconResponse = await externalFetch('reconnaissance', `${Deno.env.get('SUPABASE_URL')}/functions/v1/reconnaissance`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      target,
+      services: profile?.recon_services ?? DEFAULT_RECON_SERVICES,
+      nmap: profile?.tool_parameters.nmap,
+      campaignId,
+      assetType,
+      onBehalfOf: ctx.job.user_id
+    }),
+  }, { ignoreFields: ['campaignId', 'onBehalfOf'] });
+
+  if (!reconResponse.ok) {
+    throw new Error(`Reconnaissance returned ${reconResponse.status}: ${await reconResponse.text()}`);
+  }
+
+  const reconData: ReconData = await reconResponse.json();
+  ctx.job.state = { ...ctx.job.state, recon: reconData };
+  console.log('Reconnaissance data gathered:', reconData);
+
+  if (assetId) {
+    try {
+      const services = await recordAssetInventory(ctx.supabase, {
+        userId: ctx.job.user_id,
+        assetId,
+        scanId: ctx.job.scan_id,
+        host: reconData.results?.shodan
+      });
+      console.log(`Updated inventory for ${target}: ${services} services observed`);
+    } catch (error) {
+      console.error('Error updating asset inventory:', error);
+    }
+  }
+}
+
+// Who the worker's LLM calls are made for, as recorded in llm_usage
+function usageContext(ctx: JobContext, agentId?: string): UsageContext {
+  return {
+    supabase: ctx.supabase,
+    source: 'scan-worker',
+    workspaceId: ctx.workspaceId,
+    userId: ctx.job.user_id,
+    scanId: ctx.job.scan_id,
+    agentId,
+  };
+}
+
+async function threatIntelStage(ctx: JobContext): Promise<StageProgress['status'] | void> {
+  const { target, autoAnalysis } = ctx.job.payload;
+
+  if (!autoAnalysis) {
+    console.log('Automatic AI analysis disabled, skipping threat intelligence');
+    return 'skipped';
+  }
+
+  // The target goes into the prompt, so a workspace with its own provider keeps it there
+  const provider = selectLlmProvider(ctx.providers, BUILTIN_PROVIDERS.perplexity);
+  console.log(`Gathering recent vulnerability data from ${provider.name} for:`, target);
+
+  let completion;
+  try {
+    completion = await chatCompletion(provider, provider.default_model, {
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a cybersecurity expert. Provide recent vulnerability information about the given target. Be precise and concise. Focus on CVEs, exploits, and security advisories from the last 6 months.'
+        },
+        {
+          role: 'user',
+          content: `Find recent vulnerabilities, CVEs, security advisories, and exploit information for: ${target}. Include any known security issues, patches, and threat intelligence.`
+        }
+      ],
+      temperature: 0.2,
+      max_tokens: 1000,
+      extra: provider.kind === 'perplexity' ? { top_p: 0.9, search_recency_filter: 'month' } : undefined
+    }, { usage: usageContext(ctx) });
+  } catch (error) {
+    if (error instanceof LlmError && error.failure === 'not_configured') {
+      console.warn(`${provider.name} is not configured: ${error.message}`);
+      return 'skipped';
+    }
+    throw error;
+  }
+
+  ctx.job.state = {
+    ...ctx.job.state,
+    threat_intel: {
+      recent_vulnerabilities: completion.content,
+      timestamp: new Date().toISOString()
+    }
+  };
+  console.log('Perplexity data gathered:', ctx.job.state.threat_intel);
+}
+
+// Outputs of the agents an agent depends on, placed into its prompt as its config maps them
+function upstreamContext(prompt: string, agent: AgentRow, outputs: Map<string, unknown>, names: Map<string, string>) {
+  const { depends_on, inputs } = agentPipelineConfig(agent.config);
+  const sections: string[] = [];
+
+  for (const input of inputs) {
+    const value = outputs.has(input.from)
+      ? JSON.stringify(selectOutput(outputs.get(input.from), input.path) ?? null, null, 2)
+      : 'Not available';
+    if (prompt.includes(`{${input.as}}`)) {
+      prompt = prompt.replaceAll(`{${input.as}}`, value);
+    } else if (outputs.has(input.from)) {
+      sections.push(`${input.as.toUpperCase()} (from ${names.get(input.from)}):\n${value}`);
+    }
+  }
+
+  // Dependencies without a mapping are given whole
+  depends_on
+    .filter(dependency => outputs.has(dependency) && !inputs.some(input => input.from === dependency))
+    .forEach(dependency => sections.push(`OUTPUT OF ${names.get(dependency)}:\n${JSON.stringify(outputs.get(dependency), null, 2)}`));
+
+  return {
+    prompt,
+    context: sections.length > 0 ? `\n\nUPSTREAM AGENT ANALYSIS:\n${sections.join('\n\n')}` : '',
+    upstream: depends_on.filter(dependency => outputs.has(dependency)),
+  };
+}
+
+// An agent that could not run is recorded as a failed execution, so it shows up and can be retried
+async function recordSkippedAgent(ctx: JobContext, agent: AgentRow, reason: string) {
+  const { target, assetType } = ctx.job.payload;
+  console.warn(`[Scan Worker] Skipping agent ${agent.name}: ${reason}`);
+
+  const { error } = await ctx.supabase
+    .from('agent_executions')
+    .insert({
+      scan_id: ctx.job.scan_id,
+      agent_id: agent.id,
+      user_id: ctx.job.user_id,
+      status: 'failed',
+      input_data: { target, asset_type: assetType },
+      error_message: reason,
+      execution_time_ms: 0,
+      completed_at: new Date().toISOString()
+    });
+
+  if (error) throw error;
+}
+
+// Runs one agent on the recon data and its upstream outputs; returns its parsed output, or null if it failed
+async function runAgent(
+  ctx: JobContext,
+  agent: AgentRow,
+  prompt: AgentPrompt,
+  outputs: Map<string, unknown>,
+  names: Map<string, string>
+) {
+  const { supabase, job } = ctx;
+  const { target, assetType } = job.payload;
+  const retry = job.payload.retry ?? null;
+  const reconData = job.state.recon ?? { target };
+  const threatIntelData = job.state.threat_intel ?? null;
+  const startTime = Date.now();
+  let executionId: string | null = null;
+
+  try {
+    const upstream = upstreamContext(prompt.template.replace('{target}', target), agent, outputs, names);
+
+    // Create agent execution record
+    const { data: execution, error: executionError } = await supabase
+      .from('agent_executions')
+      .insert({
+        scan_id: job.scan_id,
+        agent_id: agent.id,
+        user_id: job.user_id,
+        status: 'running',
+        prompt_version_id: prompt.version_id,
+        prompt_experiment_id: prompt.experiment_id,
+        input_data: {
+          target,
+          asset_type: assetType,
+          ...(retry?.agentId === agent.id ? { retry_of: retry.executionId } : {}),
+          ...(upstream.upstream.length > 0 ? { upstream_agents: upstream.upstream } : {})
+        }
+      })
+      .select()
+      .single();
+
+    if (executionError) throw executionError;
+    executionId = execution.id;
+
+    // Enhance prompt with real reconnaissance findings and recent vulnerability data
+    let reconContext = `\n\nREAL RECONNAISSANCE DATA:\n${JSON.stringify(reconData, null, 2)}`;
+
+    if (threatIntelData) {
+      reconContext += `\n\nRECENT VULNERABILITY INTELLIGENCE:\n${threatIntelData.recent_vulnerabilities}`;
+    }
+
+    reconContext += upstream.context;
+    reconContext += `\n\nAnalyze this data and identify specific vulnerabilities.`;
+
+    // Timeouts, retries and fallback models follow the agent's call policy. Each attempt is
+    // recorded on the execution as it happens, and renews the job's lease during slow retries
+    const policy = agentCallPolicy(agent.config);
+    // The scan profile's model applies to the built-in provider; workspace providers name their own
+    const provider = selectLlmProvider(ctx.providers, BUILTIN_PROVIDERS.openai, agent.id);
+    const primary: ModelTarget = {
+      provider,
+      model: provider.id === null ? job.payload.profile?.llm_model ?? DEFAULT_LLM_MODEL : provider.default_model
+    };
+    const targets = agentModelTargets(policy, primary, ctx.providers);
+    const messages: ChatRequest['messages'] = [
+      {
+        role: 'system',
+        content: 'You are a cybersecurity expert. Analyze reconnaissance data and identify vulnerabilities. Return JSON with: {vulnerabilities: [{name, cve, cwe, severity, description, cvss_score, exploitability, port, service, mitigation}], findings: string[], risk_score: number}'
+      },
+      { role: 'user', content: upstream.prompt + reconContext }
+    ];
+    let recorded: CallAttempt[] = [];
+    const complete = async (conversation: ChatRequest['messages']) => {
+      const earlier = recorded;
+      const result = await callAgentModel(policy, targets, {
+        messages: conversation,
+        temperature: job.payload.profile?.llm_temperature ?? DEFAULT_LLM_TEMPERATURE,
+        max_tokens: 2000
+      }, async (attempts) => {
+        recorded = [...earlier, ...attempts];
+        await supabase.from('agent_executions').update({ attempts: recorded }).eq('id', execution.id);
+        await saveJob(ctx, {});
+      }, usageContext(ctx, agent.id));
+      return result.content;
+    };
+
+    // The output must match the findings schema; a response that does not is repaired or re-asked once
+    const analysisResult = await complete(messages);
+    const structured = await parseStructuredOutput<Record<string, unknown>>(
+      AGENT_FINDINGS_SCHEMA,
+      analysisResult,
+      (correction) => complete([...messages, { role: 'assistant', content: analysisResult }, { role: 'user', content: correction }])
+    );
+
+    if (!structured.ok) {
+      await supabase
+        .from('agent_executions')
+        .update({ output_validation: { ...structured.validation, response: analysisResult.slice(0, 4000) } })
+        .eq('id', execution.id);
+      throw new Error(`Output did not match ${structured.validation.schema}: ${structured.validation.errors.slice(0, 3).map(error => `${error.path} ${error.message}`).join('; ')}`);
+    }
+    const parsedResult = structured.value;
+
+    await supabase
+      .from('agent_executions')
+      .update({
+        status: 'completed',
+        output_data: parsedResult,
+        output_validation: structured.validation,
+        execution_time_ms: Date.now() - startTime,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', executionId)
+      .neq('status', 'cancelled');
+
+    return parsedResult;
+  } catch (error) {
+    if (error instanceof JobStoppedError) throw error;
+    console.error(`Agent ${agent.name} failed:`, error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    if (executionId) {
+      await supabase
+        .from('agent_executions')
+        .update({
+          status: 'failed',
+          error_message: errorMessage,
+          execution_time_ms: Date.now() - startTime,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', executionId)
+        .neq('status', 'cancelled');
+    }
+    return null;
+  }
+}
+
+async function agentsStage(ctx: JobContext): Promise<StageProgress['status'] | void> {
+  const { supabase, job } = ctx;
+  const { target, agentIds, autoAnalysis } = job.payload;
+
+  // With automatic analysis turned off the scan only gathers reconnaissance
+  if (!autoAnalysis) {
+    console.log('Automatic AI analysis disabled, skipping agents for:', target);
+    return 'skipped';
+  }
+
+  const { data: activeAgents, error: agentsError } = await supabase
+    .from('ai_agents')
+    .select('*')
+    .eq('is_active', true);
+
+  if (agentsError) throw agentsError;
+
+  // Filter agents if specific ones requested
+  const agents: AgentRow[] = agentIds && agentIds.length > 0
+    ? (activeAgents || []).filter(agent => agentIds.includes(agent.id))
+    : activeAgents || [];
+  const byId = new Map(agents.map(agent => [agent.id, agent]));
+  const names = new Map(agents.map(agent => [agent.id, agent.name]));
+  const prompts = await resolveAgentPrompts(supabase, ctx.workspaceId, job.scan_id, agents);
+
+  // A resumed job keeps the agents that already finished and reruns the ones that were cut off.
+  // Their outputs still feed the agents downstream of them
+  const { data: previousExecutions, error: executionsError } = await supabase
+    .from('agent_executions')
+    .select('id, agent_id, status, output_data')
+    .eq('scan_id', job.scan_id)
+    .order('created_at', { ascending: true });
+
+  if (executionsError) throw executionsError;
+
+  const outputs = new Map<string, unknown>(
+    (previousExecutions || [])
+      .filter(execution => execution.status === 'completed')
+      .map(execution => [execution.agent_id, execution.output_data ?? {}])
+  );
+  const interrupted = (previousExecutions || []).filter(execution => execution.status === 'running' || execution.status === 'pending');
+  if (interrupted.length > 0) {
+    await supabase
+      .from('agent_executions')
+      .update({ status: 'failed', error_message: 'Interrupted; rerun by scan worker', completed_at: new Date().toISOString() })
+      .in('id', interrupted.map(execution => execution.id));
+  }
+
+  // A retry of a finished scan reruns just the failed agent it was requested for and the agents
+  // downstream of it, which are given its new output rather than keeping what they made without it
+  const retry = job.payload.retry ?? null;
+  const rerun = retry ? new Set([retry.agentId, ...(retry.dependentIds ?? [])]) : null;
+  rerun?.forEach(id => outputs.delete(id));
+  const pending = new Set(agents
+    .filter(agent => rerun ? rerun.has(agent.id) : !outputs.has(agent.id))
+    .map(agent => agent.id));
+  const plan = planAgentPipeline(agents);
+  plan.missing.forEach(({ id, dependency }) =>
+    console.warn(`[Scan Worker] ${names.get(id)} depends on agent ${dependency}, which is not part of this scan; running without it`));
+
+  const [startProgress, endProgress] = [SCAN_STAGES[1].progress, SCAN_STAGES[2].progress];
+  let done = outputs.size;
+  const total = Math.max(done + pending.size, 1);
+  const advance = async () => {
+    done++;
+    await saveJob(ctx, { progress: Math.round(startProgress + (endProgress - startProgress) * (done / total)) });
+  };
+
+  console.log(`[Scan Worker] Running ${pending.size} agents for ${target} in ${plan.stages.length} stages (${outputs.size} already finished)`);
+
+  for (const { id, reason } of plan.blocked.filter(entry => pending.has(entry.id))) {
+    await recordSkippedAgent(ctx, byId.get(id)!, reason);
+    await advance();
+  }
+
+  // Agents of a stage run in parallel; each stage waits for the outputs of the ones before it
+  for (const stage of plan.stages) {
+    await Promise.all(stage.filter(id => pending.has(id)).map(async (id) => {
+      const agent = byId.get(id)!;
+      const unmet = agentPipelineConfig(agent.config).depends_on.filter(dependency => byId.has(dependency) && !outputs.has(dependency));
+
+      if (unmet.length > 0) {
+        await recordSkippedAgent(ctx, agent, `Upstream agent${unmet.length === 1 ? '' : 's'} ${unmet.map(dependency => names.get(dependency)).join(', ')} did not complete`);
+      } else {
+        const output = await runAgent(ctx, agent, prompts.get(id)!, outputs, names);
+        if (output) outputs.set(id, output);
+      }
+
+      await advance();
+    }));
+  }
+}
+
+async function aggregationStage(ctx: JobContext) {
+  const { supabase, job, settings } = ctx;
+  const { target, assetType, assetId } = job.payload;
+  const reconData: ReconData = job.state.recon ?? { target };
+  const threatIntelData = job.state.threat_intel ?? null;
+
+  // The latest execution of each agent counts; earlier ones were interrupted and rerun
+  const { data: executions, error: executionsError } = await supabase
+    .from('agent_executions')
+    .select('agent_id, status, output_data, error_message, execution_time_ms, created_at, ai_agents(name)')
+    .eq('scan_id', job.scan_id)
+    .in('status', ['completed', 'failed'])
+    .order('created_at', { ascending: true });
+
+  if (executionsError) throw executionsError;
+
+  const latest = new Map<string, AgentResult>();
+  for (const execution of executions || []) {
+    const agentName = (execution.ai_agents as { name?: string } | null)?.name ?? 'Unknown agent';
+    latest.set(execution.agent_id, execution.status === 'completed'
+      ? { agent: agentName, agent_id: execution.agent_id, result: execution.output_data ?? {}, execution_time_ms: execution.execution_time_ms ?? 0 }
+      : { agent: agentName, agent_id: execution.agent_id, error: execution.error_message ?? 'Unknown error occurred', execution_time_ms: execution.execution_time_ms ?? 0 });
+  }
+  const results = [...latest.values()];
+
+  // Aggregate vulnerabilities from all agents
+  const reportedVulnerabilities: ReportedVulnerability[] = [];
+  const allFindings: string[] = [];
+  let totalRiskScore = 0;
+
+  results.forEach(r => {
+    if (r.result && !r.error) {
+      if (r.result.vulnerabilities && Array.isArray(r.result.vulnerabilities)) {
+        reportedVulnerabilities.push(...r.result.vulnerabilities.map((vulnerability: Record<string, unknown>) => ({
+          agentId: r.agent_id,
+          agentName: r.agent,
+          vulnerability
+        })));
+      }
+      if (r.result.findings && Array.isArray(r.result.findings)) {
+        allFindings.push(...r.result.findings);
+      }
+      if (typeof r.result.risk_score === 'number') {
+        totalRiskScore += r.result.risk_score;
+      }
+    }
+  });
+
+  // Agents frequently report the same issue; merge duplicates so they count once towards the threat level
+  const successfulAgents = results.filter(r => !r.error).length;
+  const allVulnerabilities = mergeReportedVulnerabilities(reportedVulnerabilities, successfulAgents);
+
+  // Extract open ports from Shodan data
+  const openPorts = reconData.results?.shodan?.ports || [];
+  const services = reconData.results?.shodan?.services || [];
+
+  // Aggregate results and determine threat level
+  const aggregatedResults = {
+    target,
+    asset_type: assetType,
+    vulnerabilities: allVulnerabilities.map(({ raw, fingerprint, ...vulnerability }) => vulnerability),
+    findings: allFindings,
+    open_ports: openPorts,
+    services: services,
+    risk_score: totalRiskScore / Math.max(successfulAgents, 1),
+    reconnaissance_data: reconData,
+    recent_threat_intelligence: threatIntelData,
+    agents: results,
+    stages: job.stages,
+    summary: {
+      total_agents: results.length,
+      successful: successfulAgents,
+      failed: results.filter(r => r.error).length,
+      total_vulnerabilities: allVulnerabilities.length,
+      reported_vulnerabilities: reportedVulnerabilities.length,
+      total_execution_time: results.reduce((sum, r) => sum + r.execution_time_ms, 0)
+    }
+  };
+
+  // Determine threat level based on vulnerabilities and risk score.
+  // Without any agent assessment the user's default threat level applies
+  let threatLevel: string = successfulAgents > 0 ? 'low' : settings.default_threat_level;
+  const highSeverityVulns = allVulnerabilities.filter(v =>
+    v.severity === 'critical' || v.severity === 'high'
+  ).length;
+
+  const avgRiskScore = totalRiskScore / Math.max(successfulAgents, 1);
+
+  // Detailed threat level calculation with logging
+  const threatFactors = {
+    highSeverityCount: highSeverityVulns,
+    totalVulnerabilities: allVulnerabilities.length,
+    avgRiskScore: avgRiskScore.toFixed(2),
+    findingsCount: allFindings.length,
+    openPortsCount: openPorts.length,
+    hasRecentThreats: !!threatIntelData
+  };
+
+  // Thresholds come from the scan profile's risk policy
+  const assessedLevel = assessThreatLevel(job.payload.profile?.risk_policy ?? DEFAULT_RISK_POLICY, {
+    highSeverity: highSeverityVulns,
+    vulnerabilities: allVulnerabilities.length,
+    riskScore: avgRiskScore
+  });
+
+  if (assessedLevel === 'critical') {
+    threatLevel = 'critical';
+    console.log('🔴 CRITICAL threat level assigned:', threatFactors);
+  } else if (assessedLevel === 'high') {
+    threatLevel = 'high';
+    console.log('🟠 HIGH threat level assigned:', threatFactors);
+  } else if (assessedLevel === 'medium') {
+    threatLevel = 'medium';
+    console.log('🟡 MEDIUM threat level assigned:', threatFactors);
+  } else if (successfulAgents > 0) {
+    console.log('🟢 LOW threat level assigned:', threatFactors);
+  } else {
+    console.log(`No agent assessment, default ${threatLevel} threat level assigned:`, threatFactors);
+  }
+
+  console.log('Threat assessment complete:', {
+    threatLevel,
+    ...threatFactors,
+    calculationReason: `Risk score: ${avgRiskScore.toFixed(1)}/10, CVEs: ${allVulnerabilities.length}, High severity: ${highSeverityVulns}, Findings: ${allFindings.length}`
+  });
+
+  await ensureNotCancelled(ctx);
+  await ensureNoEmergencyStop(ctx);
+
+  if (assetId) {
+    // Store each merged vulnerability as a normalized finding; results keeps the raw agent output.
+    // A retried aggregation, or one after an agent was rerun, reconciles the findings already stored
+    const storedFindings = await recordFindings(supabase, {
+      userId: job.user_id,
+      scanId: job.scan_id,
+      assetId,
+      findings: allVulnerabilities
+    });
+    console.log(`Recorded ${storedFindings} findings for scan ${job.scan_id}`);
+  }
+
+  // Recurring scans alert on what changed since the schedule's previous run
+  let scheduleChanges: ScheduleChanges | null = null;
+  if (job.payload.scheduleId) {
+    try {
+      scheduleChanges = await compareWithPreviousRun(supabase, job.payload.scheduleId, job.scan_id, allVulnerabilities, openPorts);
+    } catch (error) {
+      console.error('Error comparing with the previous scheduled run:', error);
+    }
+  }
+
+  const { error: scanError } = await supabase
+    .from('scans')
+    .update({
+      status: 'completed',
+      threat_level: threatLevel,
+      results: scheduleChanges ? { ...aggregatedResults, schedule_changes: scheduleChanges } : aggregatedResults,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', job.scan_id)
+    .neq('status', 'cancelled');
+
+  if (scanError) throw scanError;
+
+  // Targets of a batch are reported together once the whole batch is done
+  if (job.payload.parentScanId) {
+    await closeBatchIfFinished(ctx, job.payload.parentScanId);
+  } else {
+    await notify(supabase, settings, {
+      userId: job.user_id,
+      kind: 'scan_complete',
+      title: `Scan of ${target} complete`,
+      message: `${allVulnerabilities.length} vulnerabilities found, threat level ${threatLevel}`,
+      scanId: job.scan_id
+    });
+  }
+
+  if (threatLevel === 'high' || threatLevel === 'critical') {
+    await notify(supabase, settings, {
+      userId: job.user_id,
+      kind: 'threat_detected',
+      title: `${threatLevel === 'critical' ? 'Critical' : 'High'} threat on ${target}`,
+      message: `${highSeverityVulns} high or critical vulnerabilities, average risk score ${avgRiskScore.toFixed(1)}`,
+      scanId: job.scan_id
+    });
+  }
+
+  const failedAgents = results.filter(r => r.error);
+  if (failedAgents.length > 0) {
+    await notify(supabase, settings, {
+      userId: job.user_id,
+      kind: 'agent_error',
+      title: `${failedAgents.length} agent${failedAgents.length === 1 ? '' : 's'} failed on ${target}`,
+      message: failedAgents.map(r => `${r.agent}: ${r.error}`).join('; '),
+      scanId: job.scan_id
+    });
+  }
+
+  if (scheduleChanges && (scheduleChanges.new_findings.length > 0 || scheduleChanges.new_ports.length > 0)) {
+    const changes = [
+      scheduleChanges.new_findings.length > 0 &&
+        `${scheduleChanges.new_findings.length} new high/critical finding${scheduleChanges.new_findings.length === 1 ? '' : 's'} (${scheduleChanges.new_findings.map(f => f.cve ?? f.name).join(', ')})`,
+      scheduleChanges.new_ports.length > 0 &&
+        `newly open port${scheduleChanges.new_ports.length === 1 ? '' : 's'} ${scheduleChanges.new_ports.join(', ')}`,
+    ].filter(Boolean);
+
+    await notify(supabase, settings, {
+      userId: job.user_id,
+      kind: 'schedule_alert',
+      title: `Changes on ${target} since the last scheduled scan`,
+      message: changes.join('; '),
+      scanId: job.scan_id
+    });
+  }
+}
+
+/**
+ * Sends a batch's completion notification once its last child has finished.
+ * sync_batch_scan keeps the batch's status current; setting completed_at
+ * claims the notification, so concurrent workers finishing the last children
+ * cannot both send it.
+ */
+async function closeBatchIfFinished(ctx: JobContext, batchId: string) {
+  const { supabase, job, settings } = ctx;
+  const { data: batch, error } = await supabase
+    .from('scans')
+    .update({ completed_at: new Date().toISOString() })
+    .eq('id', batchId)
+    .in('status', ['completed', 'failed'])
+    .is('completed_at', null)
+    .select('target, status, threat_level, results')
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[Scan Worker] Error closing batch ${batchId}:`, error);
+    return;
+  }
+  if (!batch) return;
+
+  const counts = batch.results?.batch ?? {};
+  await notify(supabase, settings, {
+    userId: job.user_id,
+    kind: 'scan_complete',
+    title: `Batch scan of ${batch.target} ${batch.status === 'completed' ? 'complete' : 'failed'}`,
+    message: `${counts.completed ?? 0} of ${counts.total ?? 0} targets scanned, ${counts.failed ?? 0} failed, highest threat level ${batch.threat_level}`,
+    scanId: batchId
+  });
+}
+
+// Hands the job back to the queue, or fails it and its scan once it is out of attempts
+async function releaseFailedJob(ctx: JobContext, error: unknown) {
+  const { supabase, job } = ctx;
+  const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+  if (job.attempts >= job.max_attempts) {
+    console.error(`[Scan Worker] Job ${job.id} failed after ${job.attempts} attempts:`, message);
+    await supabase
+      .from('scan_jobs')
+      .update({ status: 'failed', last_error: message, locked_by: null, locked_until: null, completed_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .eq('locked_by', WORKER_ID);
+    await supabase
+      .from('scans')
+      .update({ status: 'failed', completed_at: new Date().toISOString() })
+      .eq('id', job.scan_id)
+      .in('status', ['pending', 'running']);
+    if (job.payload.parentScanId) await closeBatchIfFinished(ctx, job.payload.parentScanId);
+    return;
+  }
+
+  const retryAt = new Date(Date.now() + RETRY_BASE_SECONDS * 2 ** (job.attempts - 1) * 1000);
+  console.warn(`[Scan Worker] Job ${job.id} attempt ${job.attempts} failed, retrying at ${retryAt.toISOString()}:`, message);
+  await supabase
+    .from('scan_jobs')
+    .update({ status: 'queued', last_error: message, run_after: retryAt.toISOString(), locked_by: null, locked_until: null })
+    .eq('id', job.id)
+    .eq('locked_by', WORKER_ID);
+}
+
+async function processJob(supabase: SupabaseClient, job: ScanJob) {
+  const { target, campaignId } = job.payload;
+  console.log(`[Scan Worker] Claimed job ${job.id} for ${target} (attempt ${job.attempts}/${job.max_attempts})`);
+
+  const emergencyStop = await getActiveEmergencyStop(supabase, job.user_id, campaignId);
+  if (emergencyStop) {
+    await cancelForEmergencyStop(supabase, job);
+    console.warn(`[Scan Worker] Stopped job ${job.id}: ${describeEmergencyStop(emergencyStop)}`);
+    return;
+  }
+
+  const { data: scan } = await supabase.from('scans').select('workspace_id').eq('id', job.scan_id).maybeSingle();
+  const workspaceId = scan?.workspace_id ?? null;
+
+  // Retries can land outside the rules of engagement; wait for the next window instead of running
+  const windowDecision = await enforceEngagementWindow(supabase, job.user_id, workspaceId, campaignId);
+  if (!windowDecision.allowed) {
+    const runAfter = windowDecision.nextAllowedAt ?? new Date(Date.now() + 15 * 60 * 1000).toISOString();
+    await supabase
+      .from('scan_jobs')
+      .update({
+        status: 'queued',
+        attempts: job.attempts - 1,
+        last_error: windowDecision.reason,
+        run_after: runAfter,
+        locked_by: null,
+        locked_until: null
+      })
+      .eq('id', job.id)
+      .eq('locked_by', WORKER_ID);
+    console.warn(`[Scan Worker] Job ${job.id} deferred to ${runAfter}: ${windowDecision.reason}`);
+    return;
+  }
+
+  const ctx: JobContext = {
+    supabase,
+    job,
+    settings: await getUserSettings(supabase, job.user_id),
+    workspaceId,
+    providers: await listLlmProviders(supabase, workspaceId)
+  };
+
+  try {
+    await ensureNotCancelled(ctx);
+    await runStage(ctx, 'reconnaissance', () => reconnaissanceStage(ctx));
+    await ensureNotCancelled(ctx);
+    await ensureNoEmergencyStop(ctx);
+    await runStage(ctx, 'threat_intel', () => threatIntelStage(ctx));
+    // The emergency stop cancels the scan row; don't start agents for a scan that is no longer running
+    await ensureNotCancelled(ctx);
+    await ensureNoEmergencyStop(ctx);
+    await runStage(ctx, 'agents', () => agentsStage(ctx));
+    await ensureNotCancelled(ctx);
+    await ensureNoEmergencyStop(ctx);
+    await runStage(ctx, 'aggregation', () => aggregationStage(ctx));
+
+    await supabase
+      .from('scan_jobs')
+      .update({ status: 'completed', progress: 100, current_stage: null, locked_by: null, locked_until: null, completed_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .eq('locked_by', WORKER_ID);
+    console.log(`[Scan Worker] ✓ Job ${job.id} completed`);
+  } catch (error) {
+    if (error instanceof JobStoppedError) {
+      console.warn(`[Scan Worker] Stopped job ${job.id}: ${error.message}`);
+      return;
+    }
+    await releaseFailedJob(ctx, error);
+  }
+}
+
+async function drainQueue(supabase: SupabaseClient): Promise<number> {
+  const startedAt = Date.now();
+  let processed = 0;
+
+  while (Date.now() - startedAt < RUN_BUDGET_MS) {
+    const { data, error } = await supabase.rpc('claim_scan_job', {
+      _worker_id: WORKER_ID,
+      _lease_seconds: LEASE_SECONDS
+    });
+
+    if (error) throw error;
+    const job = (data as ScanJob[] | null)?.[0];
+    if (!job) break;
+
+    await processJob(supabase, job);
+    processed++;
+  }
+
+  return processed;
+}
+
+// Woken by ai-agent-orchestrator after enqueueing a scan and by a cron sweep every minute
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token || token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const run = drainQueue(supabase)
+    .then(processed => {
+      console.log(`[Scan Worker] Processed ${processed} job(s)`);
+      return processed;
+    })
+    .catch(error => {
+      console.error('[Scan Worker] ✗ Error:', error);
+      throw error;
+    });
+
+  // Answer right away and keep working in the background where the runtime allows it
+  if (runInBackground(run.catch(() => undefined))) {
+    return new Response(JSON.stringify({ status: 'started', worker: WORKER_ID }), {
+      status: 202,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const processed = await run;
+    return new Response(JSON.stringify({ status: 'done', processed }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error occurred' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,6 +1,12 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { withAudit } from "../_shared/audit.ts";
+import { ANALYST_ROLES, enforceWorkspaceRole } from "../_shared/workspaces.ts";
+import { externalFetch } from "../_shared/externalCalls.ts";
+import { BUILTIN_PROVIDERS, chatCompletion, listLlmProviders, selectLlmProvider, type ChatMessage } from "../_shared/llmProviders.ts";
+import { parseStructuredOutput } from "../_shared/structuredOutput.ts";
+import { IOC_ANALYSIS_SCHEMA, type IocAnalysis } from "../_shared/llmSchemas.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,7 +18,10 @@ interface ThreatAnalysisRequest {
   iocType: 'ip' | 'domain' | 'hash' | 'url' | 'email';
 }
 
-serve(async (req) => {
+serve(withAudit('threat-analysis', (body) => ({
+  action: 'analyze_ioc',
+  target: body.ioc as string | undefined,
+}), async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
@@ -33,14 +42,25 @@ serve(async (req) => {
 
     const { ioc, iocType }: ThreatAnalysisRequest = await req.json();
 
-    // Check existing threat intelligence
+    const workspaceDecision = await enforceWorkspaceRole(supabase, user.id, ANALYST_ROLES);
+    if (!workspaceDecision.allowed) {
+      return new Response(JSON.stringify({ error: 'Not permitted in this workspace', reason: workspaceDecision.reason }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    const visibleIntel = `workspace_id.is.null,workspace_id.eq.${workspaceDecision.workspaceId}`;
+
+    // Check existing threat intelligence from the shared feed or this workspace
     const { data: existingThreat } = await supabase
       .from('threat_intelligence')
       .select('*')
       .eq('ioc_value', ioc)
       .eq('ioc_type', iocType)
       .eq('is_active', true)
-      .single();
+      .or(visibleIntel)
+      .limit(1)
+      .maybeSingle();
 
     let threatIntelligence = existingThreat;
     let analysisResults: any = {};
@@ -74,7 +94,7 @@ serve(async (req) => {
         }
 
         if (vtEndpoint) {
-          const vtResponse = await fetch(`${vtEndpoint}?${vtParams}`);
+          const vtResponse = await externalFetch('virustotal', `${vtEndpoint}?${vtParams}`);
           
           // Log API usage
           await supabase.from('api_usage').insert({
@@ -158,7 +178,8 @@ serve(async (req) => {
                 source: 'virustotal',
                 description,
                 tags: ['automated_analysis'],
-                metadata: { virustotal: vtData }
+                metadata: { virustotal: vtData },
+                workspace_id: workspaceDecision.workspaceId
               })
               .select()
               .single();
@@ -197,53 +218,49 @@ Be specific and provide actionable intelligence that security teams can use imme
 Format your response as JSON with these exact fields: description, attack_methods, impact_assessment, related_indicators, mitigation_steps, threat_context, severity_level, confidence_score.
         `;
 
-        const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'gpt-4o-mini',
-            messages: [
-              { role: 'system', content: 'You are a cybersecurity threat intelligence analyst. Provide detailed, accurate threat analysis in JSON format.' },
-              { role: 'user', content: aiPrompt }
-            ],
+        const messages: ChatMessage[] = [
+          { role: 'system', content: 'You are a cybersecurity threat intelligence analyst. Provide detailed, accurate threat analysis in JSON format.' },
+          { role: 'user', content: aiPrompt }
+        ];
+        const provider = selectLlmProvider(await listLlmProviders(supabase, workspaceDecision.workspaceId), BUILTIN_PROVIDERS.openai);
+        const usage = { supabase, source: 'threat-analysis', workspaceId: workspaceDecision.workspaceId, userId: user.id };
+        const requestAnalysis = async (conversation: ChatMessage[]) => {
+          const completion = await chatCompletion(provider, provider.default_model, {
+            messages: conversation,
             temperature: 0.3,
             max_tokens: 1500
-          }),
-        });
+          }, { usage });
+          return completion.content;
+        };
 
-        if (openaiResponse.ok) {
-          const aiResult = await openaiResponse.json();
-          const aiAnalysis = aiResult.choices[0].message.content;
-          
-          try {
-            const parsedAnalysis = JSON.parse(aiAnalysis);
-            analysisResults.ai_analysis = parsedAnalysis;
-            
-            // Update threat intelligence with AI-generated description if it's more detailed
-            if (parsedAnalysis.description && parsedAnalysis.description.length > description.length) {
-              description = parsedAnalysis.description;
-            }
-            
-            // Update threat level if AI suggests higher severity
-            if (parsedAnalysis.severity_level) {
-              const aiThreatLevel = parsedAnalysis.severity_level.toLowerCase();
-              const threatLevels: Record<string, number> = { low: 1, medium: 2, high: 3, critical: 4 };
-              const currentLevel = threatLevels[threatLevel] || 1;
-              const aiLevel = threatLevels[aiThreatLevel] || 1;
-              
-              if (aiLevel > currentLevel) {
-                threatLevel = aiThreatLevel;
-              }
-            }
-          } catch {
-            analysisResults.ai_analysis = { 
-              raw_analysis: aiAnalysis,
-              error: "Failed to parse AI analysis as JSON"
-            };
+        const aiAnalysis = await requestAnalysis(messages);
+        const structured = await parseStructuredOutput<IocAnalysis>(
+          IOC_ANALYSIS_SCHEMA,
+          aiAnalysis,
+          (correction) => requestAnalysis([...messages, { role: 'assistant', content: aiAnalysis }, { role: 'user', content: correction }])
+        );
+
+        if (structured.ok) {
+          const parsedAnalysis = structured.value;
+          analysisResults.ai_analysis = parsedAnalysis;
+          analysisResults.ai_analysis_validation = structured.validation;
+
+          // Update threat intelligence with AI-generated description if it's more detailed
+          if (parsedAnalysis.description.length > description.length) {
+            description = parsedAnalysis.description;
+          }
+
+          // Update threat level if AI suggests higher severity
+          const threatLevels: Record<string, number> = { low: 1, medium: 2, high: 3, critical: 4 };
+          const currentLevel = threatLevels[threatLevel] || 1;
+          if (threatLevels[parsedAnalysis.severity_level] > currentLevel) {
+            threatLevel = parsedAnalysis.severity_level;
           }
+        } else {
+          analysisResults.ai_analysis = {
+            error: `AI analysis did not match ${structured.validation.schema}`,
+            validation: structured.validation
+          };
         }
 
       } catch (error) {
@@ -258,6 +275,7 @@ Format your response as JSON with these exact fields: description, attack_method
       .from('threat_intelligence')
       .select('*')
       .or(`tags.cs.{${ioc}},metadata.cs.${ioc}`)
+      .or(visibleIntel)
       .limit(5);
 
     return new Response(JSON.stringify({
@@ -279,4 +297,4 @@ Format your response as JSON with these exact fields: description, attack_method
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
-});
\ No newline at end of file
+}));
\ No newline at end of file
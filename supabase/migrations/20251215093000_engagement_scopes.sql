@@ -0,0 +1,92 @@
+-- Structured engagement scopes enforced by the target-touching edge functions
+
+CREATE TYPE public.scope_rule_type AS ENUM ('cidr', 'domain', 'url_prefix');
+
+-- A scope belongs either to a campaign or, when campaign_id is NULL, to the user's workspace
+CREATE TABLE public.engagement_scopes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES public.apt_campaigns(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.scope_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scope_id UUID NOT NULL REFERENCES public.engagement_scopes(id) ON DELETE CASCADE,
+  rule_type public.scope_rule_type NOT NULL,
+  value TEXT NOT NULL,
+  is_exclusion BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Attack paths carry the target they will be executed against so it can be scope-checked
+ALTER TABLE public.attack_paths ADD COLUMN target TEXT;
+
+-- Enable Row Level Security
+ALTER TABLE public.engagement_scopes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scope_rules ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for engagement_scopes
+CREATE POLICY "Users can view their own engagement scopes"
+ON public.engagement_scopes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own engagement scopes"
+ON public.engagement_scopes
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own engagement scopes"
+ON public.engagement_scopes
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own engagement scopes"
+ON public.engagement_scopes
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create RLS policies for scope_rules (ownership follows the parent scope)
+CREATE POLICY "Users can view rules of their own scopes"
+ON public.scope_rules
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.engagement_scopes s
+  WHERE s.id = scope_id AND s.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can create rules in their own scopes"
+ON public.scope_rules
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.engagement_scopes s
+  WHERE s.id = scope_id AND s.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can delete rules from their own scopes"
+ON public.scope_rules
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.engagement_scopes s
+  WHERE s.id = scope_id AND s.user_id = auth.uid()
+));
+
+-- One active scope per campaign, and one active workspace-level scope per user
+CREATE UNIQUE INDEX idx_engagement_scopes_campaign
+  ON public.engagement_scopes(campaign_id)
+  WHERE campaign_id IS NOT NULL AND is_active;
+CREATE UNIQUE INDEX idx_engagement_scopes_workspace
+  ON public.engagement_scopes(user_id)
+  WHERE campaign_id IS NULL AND is_active;
+CREATE INDEX idx_scope_rules_scope_id ON public.scope_rules(scope_id);
+
+CREATE TRIGGER update_engagement_scopes_updated_at
+  BEFORE UPDATE ON public.engagement_scopes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,78 @@
+-- Rules-of-engagement time windows and blackout periods for tool execution
+
+-- Allowed testing windows; campaign_id NULL means the window applies workspace-wide
+CREATE TABLE public.engagement_windows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES public.apt_campaigns(id) ON DELETE CASCADE,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  allowed_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}', -- 0 = Sunday ... 6 = Saturday
+  start_time TIME NOT NULL DEFAULT '09:00',
+  end_time TIME NOT NULL DEFAULT '17:00', -- earlier than start_time for overnight windows
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT engagement_windows_days_check CHECK (allowed_days <@ '{0,1,2,3,4,5,6}'::SMALLINT[]),
+  CONSTRAINT engagement_windows_times_check CHECK (start_time <> end_time)
+);
+
+-- Client-specified periods (change freezes, peak trading, ...) during which nothing may run
+CREATE TABLE public.blackout_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES public.apt_campaigns(id) ON DELETE CASCADE,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT blackout_periods_range_check CHECK (ends_at > starts_at)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.engagement_windows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.blackout_periods ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for engagement_windows
+CREATE POLICY "Users can view their own engagement windows"
+ON public.engagement_windows
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own engagement windows"
+ON public.engagement_windows
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own engagement windows"
+ON public.engagement_windows
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own engagement windows"
+ON public.engagement_windows
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create RLS policies for blackout_periods
+CREATE POLICY "Users can view their own blackout periods"
+ON public.blackout_periods
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own blackout periods"
+ON public.blackout_periods
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own blackout periods"
+ON public.blackout_periods
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_engagement_windows_user_campaign ON public.engagement_windows(user_id, campaign_id);
+CREATE INDEX idx_blackout_periods_user_ends_at ON public.blackout_periods(user_id, ends_at);
+
+CREATE TRIGGER update_engagement_windows_updated_at
+  BEFORE UPDATE ON public.engagement_windows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,228 @@
+-- Two-person approval for high-risk attack paths
+
+-- Paths at or above this risk level wait for an approver before they can be executed
+ALTER TABLE public.apt_campaigns
+  ADD COLUMN approval_risk_threshold TEXT NOT NULL DEFAULT 'high',
+  ADD CONSTRAINT apt_campaigns_approval_risk_threshold_check
+    CHECK (approval_risk_threshold IN ('low', 'medium', 'high', 'critical'));
+
+-- Reviews older than this are void; reset whenever a path (re-)enters the approval queue
+ALTER TABLE public.attack_paths ADD COLUMN approval_requested_at TIMESTAMP WITH TIME ZONE;
+
+-- Append-only record of approvals and rejections
+CREATE TABLE public.attack_path_approvals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  attack_path_id UUID NOT NULL REFERENCES public.attack_paths(id) ON DELETE CASCADE,
+  approver_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  approver_name TEXT, -- copied from the approver's profile, which path owners cannot read
+  decision TEXT NOT NULL,
+  comment TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT attack_path_approvals_decision_check CHECK (decision IN ('approved', 'rejected')),
+  CONSTRAINT attack_path_approvals_comment_check CHECK (length(btrim(comment)) > 0)
+);
+
+-- Unknown or missing risk levels are treated like the column default ('medium')
+CREATE OR REPLACE FUNCTION public.risk_level_rank(_risk_level TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _risk_level
+    WHEN 'low' THEN 1
+    WHEN 'medium' THEN 2
+    WHEN 'high' THEN 3
+    WHEN 'critical' THEN 4
+    ELSE 2
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_approver(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = _user_id AND role = 'approver'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.attack_path_requires_approval(_campaign_id UUID, _risk_level TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.risk_level_rank(_risk_level) >= public.risk_level_rank(COALESCE(
+    (SELECT approval_risk_threshold FROM public.apt_campaigns WHERE id = _campaign_id),
+    'high'
+  ));
+$$;
+
+-- Queue high-risk paths for approval and stop owners from approving or downgrading them themselves
+CREATE OR REPLACE FUNCTION public.route_attack_path_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.status IN ('approved', 'rejected')
+     AND NEW.status IS DISTINCT FROM OLD.status
+     AND pg_trigger_depth() = 1 THEN
+    RAISE EXCEPTION 'Attack paths can only be approved or rejected through attack_path_approvals';
+  END IF;
+
+  IF public.attack_path_requires_approval(NEW.campaign_id, NEW.risk_level) THEN
+    IF TG_OP = 'INSERT' OR NEW.risk_level IS DISTINCT FROM OLD.risk_level THEN
+      NEW.status := 'pending_approval';
+      NEW.approval_requested_at := now();
+    END IF;
+  ELSIF TG_OP = 'UPDATE' AND public.attack_path_requires_approval(OLD.campaign_id, OLD.risk_level) THEN
+    RAISE EXCEPTION 'Risk level of attack path % cannot be lowered below the approval threshold', OLD.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER route_attack_path_approval
+  BEFORE INSERT OR UPDATE ON public.attack_paths
+  FOR EACH ROW
+  EXECUTE FUNCTION public.route_attack_path_approval();
+
+-- Re-sort unexecuted paths when a campaign's approval threshold changes
+CREATE OR REPLACE FUNCTION public.reroute_campaign_approvals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.attack_paths
+  SET status = 'pending_approval', approval_requested_at = now()
+  WHERE campaign_id = NEW.id
+    AND status = 'planned'
+    AND public.attack_path_requires_approval(campaign_id, risk_level);
+
+  UPDATE public.attack_paths
+  SET status = 'planned'
+  WHERE campaign_id = NEW.id
+    AND status = 'pending_approval'
+    AND NOT public.attack_path_requires_approval(campaign_id, risk_level);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reroute_campaign_approvals
+  AFTER UPDATE OF approval_risk_threshold ON public.apt_campaigns
+  FOR EACH ROW
+  WHEN (NEW.approval_risk_threshold IS DISTINCT FROM OLD.approval_risk_threshold)
+  EXECUTE FUNCTION public.reroute_campaign_approvals();
+
+-- Validate a review and move the path to its decided state
+CREATE OR REPLACE FUNCTION public.apply_attack_path_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _path public.attack_paths%ROWTYPE;
+BEGIN
+  SELECT * INTO _path FROM public.attack_paths WHERE id = NEW.attack_path_id FOR UPDATE;
+
+  IF _path.status IS DISTINCT FROM 'pending_approval' THEN
+    RAISE EXCEPTION 'Attack path % is not awaiting approval', NEW.attack_path_id;
+  END IF;
+  IF _path.user_id = NEW.approver_id THEN
+    RAISE EXCEPTION 'Attack paths cannot be approved by the user who owns them';
+  END IF;
+  IF NOT public.is_approver(NEW.approver_id) THEN
+    RAISE EXCEPTION 'Only users with the approver role can review attack paths';
+  END IF;
+
+  NEW.approver_name := (SELECT username FROM public.profiles WHERE user_id = NEW.approver_id);
+
+  UPDATE public.attack_paths SET status = NEW.decision WHERE id = NEW.attack_path_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_attack_path_review
+  BEFORE INSERT ON public.attack_path_approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_attack_path_review();
+
+-- The approver role is granted by administrators, never by users themselves
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') THEN
+    IF (TG_OP = 'INSERT' AND COALESCE(NEW.role, 'user') <> 'user')
+       OR (TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role) THEN
+      RAISE EXCEPTION 'Profile roles can only be changed by an administrator';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_role
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_role();
+
+-- Enable Row Level Security
+ALTER TABLE public.attack_path_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reviews of their attack paths"
+ON public.attack_path_approvals
+FOR SELECT
+USING (
+  auth.uid() = approver_id
+  OR EXISTS (
+    SELECT 1 FROM public.attack_paths
+    WHERE attack_paths.id = attack_path_approvals.attack_path_id
+      AND attack_paths.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Approvers can review attack paths"
+ON public.attack_path_approvals
+FOR INSERT
+WITH CHECK (auth.uid() = approver_id AND public.is_approver(auth.uid()));
+
+-- Approvers need to see queued paths (and their campaigns) that belong to other users
+CREATE POLICY "Approvers can view attack paths awaiting approval"
+ON public.attack_paths
+FOR SELECT
+USING (status = 'pending_approval' AND public.is_approver(auth.uid()));
+
+CREATE POLICY "Approvers can view campaigns awaiting approval"
+ON public.apt_campaigns
+FOR SELECT
+USING (
+  public.is_approver(auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.attack_paths
+    WHERE attack_paths.campaign_id = apt_campaigns.id
+      AND attack_paths.status = 'pending_approval'
+  )
+);
+
+CREATE INDEX idx_attack_path_approvals_path_id ON public.attack_path_approvals(attack_path_id, created_at);
+CREATE INDEX idx_attack_paths_status ON public.attack_paths(status);
+
+-- Queue existing high-risk paths that have not run yet
+UPDATE public.attack_paths
+SET status = 'pending_approval', approval_requested_at = now()
+WHERE status = 'planned'
+  AND public.attack_path_requires_approval(campaign_id, risk_level);
@@ -0,0 +1,142 @@
+-- Tamper-evident audit log for edge function invocations
+
+-- Each actor has its own hash chain: every event stores the hash of the actor's previous event
+CREATE TABLE public.audit_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID, -- actor; NULL when the request could not be authenticated
+  sequence BIGINT NOT NULL,
+  function_name TEXT NOT NULL,
+  action TEXT NOT NULL,
+  target TEXT,
+  parameters JSONB NOT NULL DEFAULT '{}',
+  result_status TEXT NOT NULL,
+  status_code INTEGER,
+  result_detail TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  prev_hash TEXT,
+  hash TEXT NOT NULL,
+  CONSTRAINT audit_events_result_status_check CHECK (result_status IN ('success', 'denied', 'error'))
+);
+
+-- Canonical serialization shared by the insert trigger and the verifier
+CREATE OR REPLACE FUNCTION public.audit_event_hash(_event public.audit_events)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT encode(sha256(convert_to(jsonb_build_object(
+    'id', _event.id,
+    'user_id', _event.user_id,
+    'sequence', _event.sequence,
+    'function_name', _event.function_name,
+    'action', _event.action,
+    'target', _event.target,
+    'parameters', _event.parameters,
+    'result_status', _event.result_status,
+    'status_code', _event.status_code,
+    'result_detail', _event.result_detail,
+    'created_at', to_char(_event.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    'prev_hash', _event.prev_hash
+  )::text, 'UTF8')), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION public.chain_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _previous RECORD;
+BEGIN
+  -- Serialize appends per chain so two concurrent events cannot claim the same predecessor
+  PERFORM pg_advisory_xact_lock(hashtext('audit_events:' || COALESCE(NEW.user_id::text, 'anonymous')));
+
+  SELECT sequence, hash INTO _previous
+  FROM public.audit_events
+  WHERE user_id IS NOT DISTINCT FROM NEW.user_id
+  ORDER BY sequence DESC
+  LIMIT 1;
+
+  NEW.sequence := COALESCE(_previous.sequence, 0) + 1;
+  NEW.prev_hash := _previous.hash;
+  NEW.created_at := now();
+  NEW.hash := public.audit_event_hash(NEW);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_event_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$;
+
+CREATE TRIGGER chain_audit_event
+  BEFORE INSERT ON public.audit_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.chain_audit_event();
+
+CREATE TRIGGER prevent_audit_event_changes
+  BEFORE UPDATE OR DELETE ON public.audit_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_audit_event_changes();
+
+-- Walks the caller's chain and reports the first event that is missing, reordered or altered
+CREATE OR REPLACE FUNCTION public.verify_audit_chain()
+RETURNS TABLE (
+  events_checked BIGINT,
+  is_valid BOOLEAN,
+  first_invalid_sequence BIGINT,
+  problem TEXT
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  _event public.audit_events%ROWTYPE;
+  _checked BIGINT := 0;
+  _expected_prev TEXT := NULL;
+BEGIN
+  FOR _event IN
+    SELECT * FROM public.audit_events WHERE user_id = auth.uid() ORDER BY sequence
+  LOOP
+    IF _event.sequence <> _checked + 1 THEN
+      RETURN QUERY SELECT _checked, false, _checked + 1,
+        format('Event %s is missing from the chain', _checked + 1);
+      RETURN;
+    END IF;
+
+    IF _event.prev_hash IS DISTINCT FROM _expected_prev THEN
+      RETURN QUERY SELECT _checked, false, _event.sequence,
+        format('Event %s does not link to the hash of event %s', _event.sequence, _checked);
+      RETURN;
+    END IF;
+
+    IF _event.hash <> public.audit_event_hash(_event) THEN
+      RETURN QUERY SELECT _checked, false, _event.sequence,
+        format('Event %s was modified after it was recorded', _event.sequence);
+      RETURN;
+    END IF;
+
+    _checked := _checked + 1;
+    _expected_prev := _event.hash;
+  END LOOP;
+
+  RETURN QUERY SELECT _checked, true, NULL::BIGINT, NULL::TEXT;
+END;
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE public.audit_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by edge functions with the service role only
+CREATE POLICY "Users can view their own audit events"
+ON public.audit_events
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE UNIQUE INDEX idx_audit_events_user_sequence ON public.audit_events(user_id, sequence);
+CREATE INDEX idx_audit_events_created_at ON public.audit_events(created_at);
+CREATE INDEX idx_audit_events_function_name ON public.audit_events(function_name);
@@ -0,0 +1,2 @@
+-- Allow scans and agent executions to be cancelled (used by the emergency stop)
+ALTER TYPE public.scan_status ADD VALUE IF NOT EXISTS 'cancelled';
@@ -0,0 +1,135 @@
+-- Emergency stop (kill switch) for a whole user or a single campaign
+
+CREATE TABLE public.emergency_stops (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES public.apt_campaigns(id) ON DELETE CASCADE, -- NULL stops everything the user runs
+  reason TEXT NOT NULL,
+  triggered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  cancelled_counts JSONB NOT NULL DEFAULT '{}',
+  cleared_at TIMESTAMP WITH TIME ZONE,
+  cleared_by UUID REFERENCES auth.users(id),
+  CONSTRAINT emergency_stops_reason_check CHECK (length(btrim(reason)) > 0)
+);
+
+-- Cancel everything in flight that the stop covers, and log the trigger in the audit chain
+CREATE OR REPLACE FUNCTION public.engage_emergency_stop()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _scans INTEGER;
+  _executions INTEGER;
+  _paths INTEGER;
+BEGIN
+  UPDATE public.agent_executions
+  SET status = 'cancelled', error_message = 'Cancelled by emergency stop', completed_at = now()
+  WHERE user_id = NEW.user_id
+    AND status IN ('pending', 'running')
+    AND (NEW.campaign_id IS NULL OR scan_id IN (
+      SELECT id FROM public.scans WHERE user_id = NEW.user_id AND metadata->>'campaign_id' = NEW.campaign_id::text
+    ));
+  GET DIAGNOSTICS _executions = ROW_COUNT;
+
+  UPDATE public.scans
+  SET status = 'cancelled', completed_at = now()
+  WHERE user_id = NEW.user_id
+    AND status IN ('pending', 'running')
+    AND (NEW.campaign_id IS NULL OR metadata->>'campaign_id' = NEW.campaign_id::text);
+  GET DIAGNOSTICS _scans = ROW_COUNT;
+
+  UPDATE public.attack_paths
+  SET status = 'cancelled'
+  WHERE user_id = NEW.user_id
+    AND status = 'in_progress'
+    AND (NEW.campaign_id IS NULL OR campaign_id = NEW.campaign_id);
+  GET DIAGNOSTICS _paths = ROW_COUNT;
+
+  NEW.cancelled_counts := jsonb_build_object('scans', _scans, 'agent_executions', _executions, 'attack_paths', _paths);
+
+  INSERT INTO public.audit_events (user_id, function_name, action, target, parameters, result_status)
+  VALUES (
+    NEW.user_id,
+    'emergency-stop',
+    'engage',
+    CASE WHEN NEW.campaign_id IS NULL THEN 'all' ELSE 'campaign:' || NEW.campaign_id END,
+    jsonb_build_object('stop_id', NEW.id, 'reason', NEW.reason, 'cancelled', NEW.cancelled_counts),
+    'success'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Stops can only be cleared, never edited or reopened
+CREATE OR REPLACE FUNCTION public.clear_emergency_stop()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.cleared_at IS NOT NULL
+     OR NEW.cleared_at IS NULL
+     OR (NEW.user_id, NEW.campaign_id, NEW.reason, NEW.triggered_at, NEW.cancelled_counts)
+        IS DISTINCT FROM (OLD.user_id, OLD.campaign_id, OLD.reason, OLD.triggered_at, OLD.cancelled_counts) THEN
+    RAISE EXCEPTION 'Emergency stops can only be cleared';
+  END IF;
+
+  NEW.cleared_by := COALESCE(auth.uid(), NEW.cleared_by);
+
+  INSERT INTO public.audit_events (user_id, function_name, action, target, parameters, result_status)
+  VALUES (
+    NEW.user_id,
+    'emergency-stop',
+    'clear',
+    CASE WHEN NEW.campaign_id IS NULL THEN 'all' ELSE 'campaign:' || NEW.campaign_id END,
+    jsonb_build_object('stop_id', NEW.id, 'cleared_by', NEW.cleared_by),
+    'success'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER engage_emergency_stop
+  BEFORE INSERT ON public.emergency_stops
+  FOR EACH ROW
+  EXECUTE FUNCTION public.engage_emergency_stop();
+
+CREATE TRIGGER clear_emergency_stop
+  BEFORE UPDATE ON public.emergency_stops
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_emergency_stop();
+
+-- Enable Row Level Security
+ALTER TABLE public.emergency_stops ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own emergency stops"
+ON public.emergency_stops
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can engage their own emergency stops"
+ON public.emergency_stops
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can clear their own emergency stops"
+ON public.emergency_stops
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- One active stop per campaign, and one active user-wide stop per user
+CREATE UNIQUE INDEX idx_emergency_stops_campaign
+  ON public.emergency_stops(campaign_id)
+  WHERE campaign_id IS NOT NULL AND cleared_at IS NULL;
+CREATE UNIQUE INDEX idx_emergency_stops_user
+  ON public.emergency_stops(user_id)
+  WHERE campaign_id IS NULL AND cleared_at IS NULL;
+
+-- Let open pages react to stops engaged from another tab or by another tool
+ALTER TABLE public.emergency_stops REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.emergency_stops;
@@ -0,0 +1,110 @@
+-- Normalized findings: one row per vulnerability reported by a scan, tied to the scanned asset
+
+CREATE TABLE public.assets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  asset_type public.asset_type NOT NULL,
+  value TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT assets_user_type_value_key UNIQUE (user_id, asset_type, value)
+);
+
+CREATE TABLE public.findings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  scan_id UUID NOT NULL REFERENCES public.scans(id) ON DELETE CASCADE,
+  asset_id UUID NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+  agent_id UUID REFERENCES public.ai_agents(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  cve TEXT,
+  severity public.threat_level NOT NULL DEFAULT 'low',
+  cvss_score NUMERIC(3,1),
+  exploitability TEXT,
+  port INTEGER,
+  service TEXT,
+  description TEXT,
+  mitigation TEXT,
+  raw JSONB NOT NULL DEFAULT '{}', -- the vulnerability exactly as the agent reported it
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT findings_cvss_score_check CHECK (cvss_score IS NULL OR cvss_score BETWEEN 0 AND 10),
+  CONSTRAINT findings_port_check CHECK (port IS NULL OR port BETWEEN 0 AND 65535)
+);
+
+-- Agents report severities free-form ("High", "informational", ...); map them onto threat_level
+CREATE OR REPLACE FUNCTION public.normalize_finding_severity(_severity TEXT)
+RETURNS public.threat_level
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE lower(btrim(coalesce(_severity, '')))
+    WHEN 'critical' THEN 'critical'::public.threat_level
+    WHEN 'high' THEN 'high'::public.threat_level
+    WHEN 'medium' THEN 'medium'::public.threat_level
+    WHEN 'moderate' THEN 'medium'::public.threat_level
+    ELSE 'low'::public.threat_level
+  END;
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE public.assets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.findings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own assets"
+ON public.assets
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own assets"
+ON public.assets
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own findings"
+ON public.findings
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_findings_scan_id ON public.findings(scan_id);
+CREATE INDEX idx_findings_asset_id ON public.findings(asset_id);
+CREATE INDEX idx_findings_user_severity ON public.findings(user_id, severity);
+CREATE INDEX idx_findings_cve ON public.findings(cve) WHERE cve IS NOT NULL;
+
+-- Dashboards refresh when a scan's findings land
+ALTER TABLE public.findings REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.findings;
+
+-- Backfill from the vulnerabilities previously stored in scans.results
+INSERT INTO public.assets (user_id, asset_type, value, created_at)
+SELECT user_id, asset_type, target, min(created_at)
+FROM public.scans
+GROUP BY user_id, asset_type, target
+ON CONFLICT (user_id, asset_type, value) DO NOTHING;
+
+INSERT INTO public.findings (
+  user_id, scan_id, asset_id, name, cve, severity, cvss_score, exploitability,
+  port, service, description, mitigation, raw, created_at
+)
+SELECT
+  s.user_id,
+  s.id,
+  a.id,
+  coalesce(nullif(v->>'name', ''), nullif(v->>'title', ''), 'Unnamed vulnerability'),
+  nullif(v->>'cve', ''),
+  public.normalize_finding_severity(v->>'severity'),
+  CASE WHEN v->>'cvss_score' ~ '^\d+(\.\d+)?$' AND (v->>'cvss_score')::numeric <= 10
+    THEN round((v->>'cvss_score')::numeric, 1) END,
+  nullif(v->>'exploitability', ''),
+  CASE WHEN v->>'port' ~ '^\d{1,5}$' AND (v->>'port')::integer <= 65535
+    THEN (v->>'port')::integer END,
+  nullif(v->>'service', ''),
+  nullif(v->>'description', ''),
+  nullif(v->>'mitigation', ''),
+  v,
+  coalesce(s.completed_at, s.created_at)
+FROM public.scans s
+JOIN public.assets a
+  ON a.user_id = s.user_id AND a.asset_type = s.asset_type AND a.value = s.target
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(s.results->'vulnerabilities') = 'array' THEN s.results->'vulnerabilities' ELSE '[]'::jsonb END
+) AS v
+WHERE jsonb_typeof(v) = 'object';
@@ -0,0 +1,118 @@
+-- Persistent asset inventory: hosts and the services seen on them, deduplicated across scans
+
+ALTER TABLE public.assets
+  ADD COLUMN hostnames TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN ip_addresses TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN first_seen TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN last_seen TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN last_scan_id UUID REFERENCES public.scans(id) ON DELETE SET NULL;
+
+ALTER TABLE public.scans
+  ADD COLUMN asset_id UUID REFERENCES public.assets(id) ON DELETE SET NULL;
+
+CREATE TABLE public.asset_services (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  asset_id UUID NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+  port INTEGER NOT NULL,
+  protocol TEXT NOT NULL DEFAULT 'tcp',
+  product TEXT,
+  version TEXT,
+  banner TEXT,
+  first_seen TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_scan_id UUID REFERENCES public.scans(id) ON DELETE SET NULL,
+  CONSTRAINT asset_services_port_check CHECK (port BETWEEN 0 AND 65535),
+  CONSTRAINT asset_services_protocol_check CHECK (protocol IN ('tcp', 'udp')),
+  CONSTRAINT asset_services_asset_port_protocol_key UNIQUE (asset_id, port, protocol)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.asset_services ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own asset services"
+ON public.asset_services
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_scans_asset_id ON public.scans(asset_id);
+CREATE INDEX idx_assets_user_last_seen ON public.assets(user_id, last_seen DESC);
+CREATE INDEX idx_asset_services_asset_id ON public.asset_services(asset_id);
+
+-- Backfill from scans recorded before the inventory existed
+UPDATE public.scans s
+SET asset_id = a.id
+FROM public.assets a
+WHERE a.user_id = s.user_id AND a.asset_type = s.asset_type AND a.value = s.target;
+
+UPDATE public.assets a
+SET first_seen = seen.first_seen,
+    last_seen = seen.last_seen,
+    last_scan_id = seen.last_scan_id
+FROM (
+  SELECT
+    asset_id,
+    min(created_at) AS first_seen,
+    max(coalesce(completed_at, created_at)) AS last_seen,
+    (array_agg(id ORDER BY created_at DESC))[1] AS last_scan_id
+  FROM public.scans
+  WHERE asset_id IS NOT NULL
+  GROUP BY asset_id
+) seen
+WHERE a.id = seen.asset_id;
+
+UPDATE public.assets a
+SET hostnames = coalesce(recon.hostnames, '{}'),
+    ip_addresses = coalesce(recon.ip_addresses, '{}')
+FROM (
+  SELECT
+    s.asset_id,
+    array_agg(DISTINCT h.hostname) FILTER (WHERE h.hostname IS NOT NULL) AS hostnames,
+    array_agg(DISTINCT s.results->'reconnaissance_data'->'results'->'shodan'->>'ip')
+      FILTER (WHERE s.results->'reconnaissance_data'->'results'->'shodan'->>'ip' IS NOT NULL) AS ip_addresses
+  FROM public.scans s
+  LEFT JOIN LATERAL jsonb_array_elements_text(
+    CASE WHEN jsonb_typeof(s.results->'reconnaissance_data'->'results'->'shodan'->'hostnames') = 'array'
+      THEN s.results->'reconnaissance_data'->'results'->'shodan'->'hostnames' ELSE '[]'::jsonb END
+  ) AS h(hostname) ON true
+  WHERE s.asset_id IS NOT NULL
+  GROUP BY s.asset_id
+) recon
+WHERE a.id = recon.asset_id;
+
+INSERT INTO public.asset_services (
+  user_id, asset_id, port, protocol, product, version, banner, first_seen, last_seen, last_scan_id
+)
+SELECT DISTINCT ON (observed.asset_id, observed.port, observed.protocol)
+  observed.user_id,
+  observed.asset_id,
+  observed.port,
+  observed.protocol,
+  observed.product,
+  observed.version,
+  observed.banner,
+  min(observed.seen_at) OVER w,
+  max(observed.seen_at) OVER w,
+  observed.scan_id
+FROM (
+  SELECT
+    s.user_id,
+    s.asset_id,
+    s.id AS scan_id,
+    coalesce(s.completed_at, s.created_at) AS seen_at,
+    (svc->>'port')::integer AS port,
+    CASE WHEN lower(svc->>'protocol') = 'udp' THEN 'udp' ELSE 'tcp' END AS protocol,
+    nullif(svc->>'product', '') AS product,
+    nullif(svc->>'version', '') AS version,
+    nullif(svc->>'banner', '') AS banner
+  FROM public.scans s
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(s.results->'reconnaissance_data'->'results'->'shodan'->'services') = 'array'
+      THEN s.results->'reconnaissance_data'->'results'->'shodan'->'services' ELSE '[]'::jsonb END
+  ) AS svc
+  WHERE s.asset_id IS NOT NULL
+    AND svc->>'port' ~ '^\d{1,5}$'
+    AND (svc->>'port')::integer <= 65535
+) observed
+WINDOW w AS (PARTITION BY observed.asset_id, observed.port, observed.protocol)
+ORDER BY observed.asset_id, observed.port, observed.protocol, observed.seen_at DESC;
@@ -0,0 +1,176 @@
+-- Finding lifecycle: open -> triaged -> in remediation -> fixed / false positive / risk accepted,
+-- with a transition history and triage decisions carried over to rescans of the same asset
+
+ALTER TABLE public.findings
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'open',
+  ADD COLUMN status_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN carried_over_from UUID REFERENCES public.findings(id) ON DELETE SET NULL,
+  -- Identifies "the same issue" on an asset across scans
+  ADD COLUMN fingerprint TEXT GENERATED ALWAYS AS (
+    lower(coalesce(cve, name)) || ':' || coalesce(port::text, '*')
+  ) STORED,
+  ADD CONSTRAINT findings_status_check CHECK (
+    status IN ('open', 'triaged', 'in_remediation', 'fixed', 'false_positive', 'risk_accepted')
+  );
+
+CREATE INDEX idx_findings_asset_fingerprint ON public.findings(asset_id, fingerprint, created_at DESC);
+
+CREATE TABLE public.finding_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  finding_id UUID NOT NULL REFERENCES public.findings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- owner of the finding
+  actor_id UUID REFERENCES auth.users(id), -- NULL when the platform carried a decision over
+  actor_name TEXT,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  comment TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT finding_status_history_comment_check CHECK (length(btrim(comment)) > 0)
+);
+
+CREATE INDEX idx_finding_status_history_finding_id ON public.finding_status_history(finding_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.finding_transition_allowed(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _from
+    WHEN 'open' THEN _to IN ('triaged', 'false_positive', 'risk_accepted')
+    WHEN 'triaged' THEN _to IN ('open', 'in_remediation', 'false_positive', 'risk_accepted')
+    WHEN 'in_remediation' THEN _to IN ('triaged', 'fixed', 'risk_accepted')
+    WHEN 'fixed' THEN _to = 'open'
+    WHEN 'false_positive' THEN _to = 'open'
+    WHEN 'risk_accepted' THEN _to = 'open'
+    ELSE false
+  END;
+$$;
+
+-- Users change a finding's status by recording a transition; the finding follows
+CREATE OR REPLACE FUNCTION public.apply_finding_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _finding public.findings%ROWTYPE;
+BEGIN
+  -- Carry-over rows are written by record_finding_carry_over and already applied
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _finding FROM public.findings WHERE id = NEW.finding_id FOR UPDATE;
+
+  IF _finding.id IS NULL OR _finding.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Finding % not found', NEW.finding_id;
+  END IF;
+  IF NOT public.finding_transition_allowed(_finding.status, NEW.to_status) THEN
+    RAISE EXCEPTION 'Findings cannot move from % to %', _finding.status, NEW.to_status;
+  END IF;
+
+  NEW.user_id := _finding.user_id;
+  NEW.actor_id := auth.uid();
+  NEW.actor_name := (SELECT username FROM public.profiles WHERE user_id = auth.uid());
+  NEW.from_status := _finding.status;
+  NEW.created_at := now();
+
+  UPDATE public.findings
+  SET status = NEW.to_status, status_changed_at = NEW.created_at
+  WHERE id = NEW.finding_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_finding_transition
+  BEFORE INSERT ON public.finding_status_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_finding_transition();
+
+-- A rescan that reports the same issue on the same asset inherits the last decision made about it.
+-- Issues marked fixed that come back are reopened instead.
+CREATE OR REPLACE FUNCTION public.inherit_finding_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous public.findings%ROWTYPE;
+BEGIN
+  SELECT * INTO _previous
+  FROM public.findings
+  WHERE asset_id = NEW.asset_id
+    AND fingerprint = lower(coalesce(NEW.cve, NEW.name)) || ':' || coalesce(NEW.port::text, '*')
+    AND scan_id <> NEW.scan_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF _previous.id IS NOT NULL AND _previous.status <> 'open' THEN
+    NEW.carried_over_from := _previous.id;
+    NEW.status := CASE WHEN _previous.status = 'fixed' THEN 'open' ELSE _previous.status END;
+    NEW.status_changed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_finding_carry_over()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous public.findings%ROWTYPE;
+  _reason TEXT;
+BEGIN
+  IF NEW.carried_over_from IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _previous FROM public.findings WHERE id = NEW.carried_over_from;
+
+  _reason := CASE
+    WHEN _previous.status = 'fixed' THEN 'Found again after being marked fixed; reopened'
+    ELSE 'Carried over from an earlier scan of this asset: '
+      || coalesce((
+        SELECT comment FROM public.finding_status_history
+        WHERE finding_id = _previous.id
+        ORDER BY created_at DESC
+        LIMIT 1
+      ), replace(_previous.status, '_', ' '))
+  END;
+
+  INSERT INTO public.finding_status_history (finding_id, user_id, actor_id, from_status, to_status, comment)
+  VALUES (NEW.id, NEW.user_id, NULL, _previous.status, NEW.status, _reason);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER inherit_finding_status
+  BEFORE INSERT ON public.findings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.inherit_finding_status();
+
+CREATE TRIGGER record_finding_carry_over
+  AFTER INSERT ON public.findings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_finding_carry_over();
+
+-- Enable Row Level Security
+ALTER TABLE public.finding_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the history of their own findings"
+ON public.finding_status_history
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can change the status of their own findings"
+ON public.finding_status_history
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
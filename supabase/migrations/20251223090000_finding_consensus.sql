@@ -0,0 +1,67 @@
+-- Cross-agent deduplication: findings keep every reporting agent and a consensus score
+
+ALTER TABLE public.findings
+  ADD COLUMN cwe TEXT,
+  ADD COLUMN sources JSONB NOT NULL DEFAULT '[]', -- [{agent_id, agent_name, severity, cvss_score}]
+  ADD COLUMN confidence NUMERIC(3,2),
+  ADD CONSTRAINT findings_confidence_check CHECK (confidence IS NULL OR confidence BETWEEN 0 AND 1);
+
+-- CVE, else CWE, else name, plus port and the service's product name (without version).
+-- Mirrors findingFingerprint in supabase/functions/_shared/findings.ts
+CREATE OR REPLACE FUNCTION public.finding_fingerprint(_cve TEXT, _cwe TEXT, _name TEXT, _port INTEGER, _service TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(coalesce(_cve, _cwe, _name))
+    || ':' || coalesce(_port::text, '*')
+    || ':' || lower(split_part(btrim(coalesce(_service, '')), ' ', 1));
+$$;
+
+DROP INDEX public.idx_findings_asset_fingerprint;
+ALTER TABLE public.findings DROP COLUMN fingerprint;
+ALTER TABLE public.findings
+  ADD COLUMN fingerprint TEXT GENERATED ALWAYS AS (
+    public.finding_fingerprint(cve, cwe, name, port, service)
+  ) STORED;
+
+CREATE INDEX idx_findings_asset_fingerprint ON public.findings(asset_id, fingerprint, created_at DESC);
+
+-- Generated columns are not available in BEFORE triggers, so compute the fingerprint here
+CREATE OR REPLACE FUNCTION public.inherit_finding_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous public.findings%ROWTYPE;
+BEGIN
+  SELECT * INTO _previous
+  FROM public.findings
+  WHERE asset_id = NEW.asset_id
+    AND fingerprint = public.finding_fingerprint(NEW.cve, NEW.cwe, NEW.name, NEW.port, NEW.service)
+    AND scan_id <> NEW.scan_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF _previous.id IS NOT NULL AND _previous.status <> 'open' THEN
+    NEW.carried_over_from := _previous.id;
+    NEW.status := CASE WHEN _previous.status = 'fixed' THEN 'open' ELSE _previous.status END;
+    NEW.status_changed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Findings recorded before merging came from a single agent
+UPDATE public.findings f
+SET sources = jsonb_build_array(jsonb_build_object(
+  'agent_id', f.agent_id,
+  'agent_name', a.name,
+  'severity', f.severity,
+  'cvss_score', f.cvss_score
+))
+FROM public.ai_agents a
+WHERE a.id = f.agent_id;
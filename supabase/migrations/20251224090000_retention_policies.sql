@@ -0,0 +1,322 @@
+-- Server-side retention: per-user policies, legal hold on campaigns, and a record of every purge
+
+-- A NULL period keeps that kind of data forever
+CREATE TABLE public.retention_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  scans_days INTEGER,
+  agent_executions_days INTEGER,
+  attack_path_evidence_days INTEGER,
+  api_usage_days INTEGER,
+  tool_output_days INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT retention_policies_scans_days_check CHECK (scans_days IS NULL OR scans_days >= 1),
+  CONSTRAINT retention_policies_agent_executions_days_check CHECK (agent_executions_days IS NULL OR agent_executions_days >= 1),
+  CONSTRAINT retention_policies_attack_path_evidence_days_check CHECK (attack_path_evidence_days IS NULL OR attack_path_evidence_days >= 1),
+  CONSTRAINT retention_policies_api_usage_days_check CHECK (api_usage_days IS NULL OR api_usage_days >= 1),
+  CONSTRAINT retention_policies_tool_output_days_check CHECK (tool_output_days IS NULL OR tool_output_days >= 1)
+);
+
+-- Campaigns under legal hold are exempt from every retention period
+ALTER TABLE public.apt_campaigns
+  ADD COLUMN legal_hold BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN legal_hold_reason TEXT,
+  ADD COLUMN legal_hold_set_at TIMESTAMP WITH TIME ZONE;
+
+-- Proof of deletion: what each enforcement removed, with a digest of the purged ids
+CREATE TABLE public.retention_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  policy JSONB NOT NULL,
+  cutoffs JSONB NOT NULL DEFAULT '{}',
+  purged_counts JSONB NOT NULL DEFAULT '{}',
+  purged_ids JSONB NOT NULL DEFAULT '{}',
+  purged_digest TEXT NOT NULL,
+  held_campaigns UUID[] NOT NULL DEFAULT '{}',
+  ran_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+/**
+ * Applies a user's retention policy. With _dry_run it only reports what would
+ * be purged. Scans, executions and evidence belonging to campaigns under legal
+ * hold are never touched, and in-flight scans and executions are left alone.
+ * Real runs are written to retention_runs and the audit chain.
+ */
+CREATE OR REPLACE FUNCTION public.enforce_retention(_user_id UUID, _dry_run BOOLEAN DEFAULT true)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.retention_policies%ROWTYPE;
+  _held UUID[];
+  _held_scans UUID[];
+  _scan_ids UUID[] := '{}';
+  _finding_ids UUID[] := '{}';
+  _execution_ids UUID[] := '{}';
+  _evidence_ids UUID[] := '{}';
+  _usage_ids UUID[] := '{}';
+  _output_scan_ids UUID[] := '{}';
+  _output_path_ids UUID[] := '{}';
+  _cutoffs JSONB;
+  _counts JSONB;
+  _ids JSONB;
+  _run_id UUID;
+BEGIN
+  SELECT * INTO _policy FROM public.retention_policies WHERE user_id = _user_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT coalesce(array_agg(id), '{}') INTO _held
+  FROM public.apt_campaigns
+  WHERE user_id = _user_id AND legal_hold;
+
+  SELECT coalesce(array_agg(id), '{}') INTO _held_scans
+  FROM public.scans
+  WHERE user_id = _user_id AND metadata->>'campaign_id' = ANY(_held::text[]);
+
+  _cutoffs := jsonb_strip_nulls(jsonb_build_object(
+    'scans', now() - make_interval(days => _policy.scans_days),
+    'agent_executions', now() - make_interval(days => _policy.agent_executions_days),
+    'attack_path_evidence', now() - make_interval(days => _policy.attack_path_evidence_days),
+    'api_usage', now() - make_interval(days => _policy.api_usage_days),
+    'tool_output', now() - make_interval(days => _policy.tool_output_days)
+  ));
+
+  IF _policy.scans_days IS NOT NULL THEN
+    SELECT coalesce(array_agg(id), '{}') INTO _scan_ids
+    FROM public.scans
+    WHERE user_id = _user_id
+      AND created_at < (_cutoffs->>'scans')::timestamptz
+      AND status NOT IN ('pending', 'running')
+      AND id <> ALL(_held_scans);
+
+    SELECT coalesce(array_agg(id), '{}') INTO _finding_ids
+    FROM public.findings
+    WHERE scan_id = ANY(_scan_ids);
+  END IF;
+
+  -- Executions of purged scans go with them; list them so the record is complete
+  SELECT coalesce(array_agg(id), '{}') INTO _execution_ids
+  FROM public.agent_executions
+  WHERE user_id = _user_id
+    AND status NOT IN ('pending', 'running')
+    AND scan_id <> ALL(_held_scans)
+    AND (scan_id = ANY(_scan_ids)
+      OR created_at < (_cutoffs->>'agent_executions')::timestamptz);
+
+  IF _policy.attack_path_evidence_days IS NOT NULL THEN
+    SELECT coalesce(array_agg(id), '{}') INTO _evidence_ids
+    FROM public.attack_paths
+    WHERE user_id = _user_id
+      AND coalesce(completed_at, created_at) < (_cutoffs->>'attack_path_evidence')::timestamptz
+      AND evidence IS NOT NULL AND evidence <> '{}'::jsonb
+      AND campaign_id <> ALL(_held);
+  END IF;
+
+  IF _policy.api_usage_days IS NOT NULL THEN
+    SELECT coalesce(array_agg(id), '{}') INTO _usage_ids
+    FROM public.api_usage
+    WHERE user_id = _user_id
+      AND created_at < (_cutoffs->>'api_usage')::timestamptz;
+  END IF;
+
+  -- Raw tool output: reconnaissance results on scans and command output in attack evidence
+  IF _policy.tool_output_days IS NOT NULL THEN
+    SELECT coalesce(array_agg(id), '{}') INTO _output_scan_ids
+    FROM public.scans
+    WHERE user_id = _user_id
+      AND created_at < (_cutoffs->>'tool_output')::timestamptz
+      AND results ? 'reconnaissance_data'
+      AND id <> ALL(_held_scans)
+      AND id <> ALL(_scan_ids);
+
+    SELECT coalesce(array_agg(id), '{}') INTO _output_path_ids
+    FROM public.attack_paths
+    WHERE user_id = _user_id
+      AND coalesce(completed_at, created_at) < (_cutoffs->>'tool_output')::timestamptz
+      AND evidence ? 'output'
+      AND campaign_id <> ALL(_held)
+      AND id <> ALL(_evidence_ids);
+  END IF;
+
+  _counts := jsonb_build_object(
+    'scans', cardinality(_scan_ids),
+    'findings', cardinality(_finding_ids),
+    'agent_executions', cardinality(_execution_ids),
+    'attack_path_evidence', cardinality(_evidence_ids),
+    'api_usage', cardinality(_usage_ids),
+    'tool_output', cardinality(_output_scan_ids) + cardinality(_output_path_ids)
+  );
+
+  IF _dry_run THEN
+    RETURN jsonb_build_object(
+      'dry_run', true,
+      'cutoffs', _cutoffs,
+      'counts', _counts,
+      'held_campaigns', cardinality(_held)
+    );
+  END IF;
+
+  DELETE FROM public.agent_executions WHERE id = ANY(_execution_ids);
+  DELETE FROM public.mitre_mappings WHERE scan_id = ANY(_scan_ids);
+  DELETE FROM public.scans WHERE id = ANY(_scan_ids);
+  UPDATE public.attack_paths SET evidence = '{}' WHERE id = ANY(_evidence_ids);
+  DELETE FROM public.api_usage WHERE id = ANY(_usage_ids);
+  UPDATE public.scans SET results = results - 'reconnaissance_data' WHERE id = ANY(_output_scan_ids);
+  UPDATE public.attack_paths SET evidence = evidence - 'output' WHERE id = ANY(_output_path_ids);
+
+  _ids := jsonb_build_object(
+    'scans', to_jsonb(_scan_ids),
+    'findings', to_jsonb(_finding_ids),
+    'agent_executions', to_jsonb(_execution_ids),
+    'attack_path_evidence', to_jsonb(_evidence_ids),
+    'api_usage', to_jsonb(_usage_ids),
+    'tool_output_scans', to_jsonb(_output_scan_ids),
+    'tool_output_attack_paths', to_jsonb(_output_path_ids)
+  );
+
+  INSERT INTO public.retention_runs (user_id, policy, cutoffs, purged_counts, purged_ids, purged_digest, held_campaigns)
+  VALUES (
+    _user_id,
+    to_jsonb(_policy) - 'id' - 'user_id' - 'created_at',
+    _cutoffs,
+    _counts,
+    _ids,
+    encode(sha256(convert_to(_ids::text, 'UTF8')), 'hex'),
+    _held
+  )
+  RETURNING id INTO _run_id;
+
+  INSERT INTO public.audit_events (user_id, function_name, action, target, parameters, result_status)
+  VALUES (
+    _user_id,
+    'retention',
+    'purge',
+    'run:' || _run_id,
+    jsonb_build_object(
+      'run_id', _run_id,
+      'purged', _counts,
+      'digest', encode(sha256(convert_to(_ids::text, 'UTF8')), 'hex'),
+      'held_campaigns', cardinality(_held)
+    ),
+    'success'
+  );
+
+  RETURN jsonb_build_object('dry_run', false, 'run_id', _run_id, 'cutoffs', _cutoffs, 'counts', _counts, 'held_campaigns', cardinality(_held));
+END;
+$$;
+
+-- Dry run of the caller's saved policy, for the preview in Settings
+CREATE OR REPLACE FUNCTION public.preview_retention()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN public.enforce_retention(auth.uid(), true);
+END;
+$$;
+
+-- Scheduled entry point: enforces every saved policy
+CREATE OR REPLACE FUNCTION public.run_retention_policies()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+  _runs INTEGER := 0;
+BEGIN
+  FOR _user_id IN SELECT user_id FROM public.retention_policies LOOP
+    PERFORM public.enforce_retention(_user_id, false);
+    _runs := _runs + 1;
+  END LOOP;
+
+  RETURN _runs;
+END;
+$$;
+
+-- Only the scheduler may purge; users get the dry run
+REVOKE EXECUTE ON FUNCTION public.enforce_retention(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.run_retention_policies() FROM PUBLIC, anon, authenticated;
+
+-- Placing or lifting a legal hold is logged in the audit chain
+CREATE OR REPLACE FUNCTION public.record_legal_hold_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.legal_hold_set_at := CASE WHEN NEW.legal_hold THEN now() ELSE NULL END;
+
+  INSERT INTO public.audit_events (user_id, function_name, action, target, parameters, result_status)
+  VALUES (
+    NEW.user_id,
+    'retention',
+    CASE WHEN NEW.legal_hold THEN 'legal_hold' ELSE 'release_hold' END,
+    'campaign:' || NEW.id,
+    jsonb_build_object('campaign_id', NEW.id, 'reason', NEW.legal_hold_reason),
+    'success'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_legal_hold_change
+  BEFORE UPDATE OF legal_hold ON public.apt_campaigns
+  FOR EACH ROW
+  WHEN (OLD.legal_hold IS DISTINCT FROM NEW.legal_hold)
+  EXECUTE FUNCTION public.record_legal_hold_change();
+
+CREATE TRIGGER update_retention_policies_updated_at
+  BEFORE UPDATE ON public.retention_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.retention_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.retention_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own retention policy"
+ON public.retention_policies
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own retention policy"
+ON public.retention_policies
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own retention policy"
+ON public.retention_policies
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Runs are written by enforce_retention only and can never be edited
+CREATE POLICY "Users can view their own retention runs"
+ON public.retention_runs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_retention_runs_user_ran_at ON public.retention_runs(user_id, ran_at DESC);
+
+-- Enforce nightly
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'enforce-retention-policies',
+  '30 3 * * *',
+  $$SELECT public.run_retention_policies()$$
+);
@@ -0,0 +1,135 @@
+-- User settings stored server-side so edge functions can enforce them, plus in-app notifications
+
+CREATE TABLE public.user_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Notifications
+  notify_scan_complete BOOLEAN NOT NULL DEFAULT true,
+  notify_threat_detected BOOLEAN NOT NULL DEFAULT true,
+  notify_agent_errors BOOLEAN NOT NULL DEFAULT true,
+  notify_weekly_report BOOLEAN NOT NULL DEFAULT false,
+  -- Security
+  two_factor_enabled BOOLEAN NOT NULL DEFAULT false,
+  session_timeout_minutes INTEGER NOT NULL DEFAULT 30,
+  api_key_rotation BOOLEAN NOT NULL DEFAULT false,
+  -- Scanning
+  auto_analysis BOOLEAN NOT NULL DEFAULT true,
+  max_concurrent_scans INTEGER NOT NULL DEFAULT 5,
+  default_threat_level public.threat_level NOT NULL DEFAULT 'medium',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT user_settings_session_timeout_minutes_check CHECK (session_timeout_minutes BETWEEN 5 AND 1440),
+  CONSTRAINT user_settings_max_concurrent_scans_check CHECK (max_concurrent_scans BETWEEN 1 AND 50)
+);
+
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  scan_id UUID REFERENCES public.scans(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT notifications_kind_check CHECK (kind IN ('scan_complete', 'threat_detected', 'agent_error', 'weekly_report'))
+);
+
+-- Every user gets a settings row with the defaults
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, username)
+  VALUES (NEW.id, NEW.raw_user_meta_data ->> 'username');
+  INSERT INTO public.user_settings (user_id)
+  VALUES (NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO public.user_settings (user_id)
+SELECT id FROM auth.users
+ON CONFLICT (user_id) DO NOTHING;
+
+-- Weekly digest for users who asked for it
+CREATE OR REPLACE FUNCTION public.send_weekly_reports()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sent INTEGER;
+BEGIN
+  INSERT INTO public.notifications (user_id, kind, title, message)
+  SELECT
+    s.user_id,
+    'weekly_report',
+    'Weekly security report',
+    format('%s scans completed, %s new findings (%s high or critical), %s findings still open',
+      (SELECT count(*) FROM public.scans WHERE user_id = s.user_id AND status = 'completed' AND created_at > now() - interval '7 days'),
+      (SELECT count(*) FROM public.findings WHERE user_id = s.user_id AND carried_over_from IS NULL AND created_at > now() - interval '7 days'),
+      (SELECT count(*) FROM public.findings WHERE user_id = s.user_id AND carried_over_from IS NULL AND severity IN ('high', 'critical') AND created_at > now() - interval '7 days'),
+      (SELECT count(*) FROM public.findings WHERE user_id = s.user_id AND status = 'open' AND created_at > now() - interval '7 days'))
+  FROM public.user_settings s
+  WHERE s.notify_weekly_report;
+  GET DIAGNOSTICS _sent = ROW_COUNT;
+
+  RETURN _sent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_weekly_reports() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER update_user_settings_updated_at
+  BEFORE UPDATE ON public.user_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own settings"
+ON public.user_settings
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own settings"
+ON public.user_settings
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+ON public.user_settings
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Notifications are written by edge functions; users can only read and mark them
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+ON public.notifications
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_notifications_user_created_at ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_scans_user_status ON public.scans(user_id, status);
+
+-- Open tabs pick up new notifications and settings changed on another device
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+ALTER TABLE public.user_settings REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_settings;
+
+-- Mondays at 08:00 UTC
+SELECT cron.schedule(
+  'send-weekly-reports',
+  '0 8 * * 1',
+  $$SELECT public.send_weekly_reports()$$
+);
@@ -0,0 +1,615 @@
+-- Team workspaces: membership with roles, invitations, and workspace-scoped RLS
+
+CREATE TYPE public.workspace_role AS ENUM ('owner', 'lead', 'operator', 'analyst', 'client');
+
+CREATE TABLE public.workspaces (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT workspaces_name_check CHECK (length(btrim(name)) > 0)
+);
+
+CREATE TABLE public.workspace_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.workspace_role NOT NULL,
+  member_name TEXT, -- copied from the member's profile, which other members cannot read
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT workspace_members_workspace_user_key UNIQUE (workspace_id, user_id)
+);
+
+CREATE TABLE public.workspace_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role public.workspace_role NOT NULL,
+  invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT workspace_invitations_email_check CHECK (email = lower(btrim(email)) AND email LIKE '%_@_%'),
+  CONSTRAINT workspace_invitations_role_check CHECK (role <> 'owner')
+);
+
+-- The workspace new scans, campaigns and reports land in
+ALTER TABLE public.profiles
+  ADD COLUMN active_workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL;
+
+ALTER TABLE public.scans ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.apt_campaigns ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.attack_paths ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.mitre_mappings ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.report_templates ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+-- NULL keeps an indicator in the shared feed every user can read
+ALTER TABLE public.threat_intelligence ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+-- Role checks used by the policies below. SECURITY DEFINER so they can read
+-- workspace_members without recursing into its own policies
+CREATE OR REPLACE FUNCTION public.has_workspace_role(_workspace_id UUID, _roles public.workspace_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = _workspace_id AND user_id = auth.uid() AND role = ANY(_roles)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_workspace_member(_workspace_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = _workspace_id AND user_id = auth.uid()
+  );
+$$;
+
+-- The user's selected workspace, falling back to the oldest one they belong to
+CREATE OR REPLACE FUNCTION public.active_workspace_id(_user_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT p.active_workspace_id FROM public.profiles p
+     JOIN public.workspace_members m ON m.workspace_id = p.active_workspace_id AND m.user_id = p.user_id
+     WHERE p.user_id = _user_id),
+    (SELECT workspace_id FROM public.workspace_members WHERE user_id = _user_id ORDER BY created_at LIMIT 1)
+  );
+$$;
+
+-- Creates a workspace owned by the caller and switches to it
+CREATE OR REPLACE FUNCTION public.create_workspace(_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _workspace_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.workspaces (name, created_by)
+  VALUES (btrim(_name), auth.uid())
+  RETURNING id INTO _workspace_id;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role, member_name)
+  VALUES (_workspace_id, auth.uid(), 'owner', (SELECT username FROM public.profiles WHERE user_id = auth.uid()));
+
+  UPDATE public.profiles SET active_workspace_id = _workspace_id WHERE user_id = auth.uid();
+
+  RETURN _workspace_id;
+END;
+$$;
+
+-- Joins the workspace an invitation addressed to the caller's email is for
+CREATE OR REPLACE FUNCTION public.accept_workspace_invitation(_invitation_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.workspace_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO _invitation FROM public.workspace_invitations WHERE id = _invitation_id FOR UPDATE;
+
+  IF _invitation.id IS NULL OR _invitation.email IS DISTINCT FROM lower(auth.jwt() ->> 'email') THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+  IF _invitation.accepted_at IS NOT NULL OR _invitation.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invitation is no longer valid';
+  END IF;
+  IF _invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'Invitation expired on %', _invitation.expires_at;
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role, member_name)
+  VALUES (_invitation.workspace_id, auth.uid(), _invitation.role, (SELECT username FROM public.profiles WHERE user_id = auth.uid()))
+  ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  UPDATE public.workspace_invitations
+  SET accepted_at = now(), accepted_by = auth.uid()
+  WHERE id = _invitation_id;
+
+  UPDATE public.profiles SET active_workspace_id = _invitation.workspace_id WHERE user_id = auth.uid();
+
+  RETURN _invitation.workspace_id;
+END;
+$$;
+
+-- Rows created without a workspace go to the parent's workspace, else the creator's active one
+CREATE OR REPLACE FUNCTION public.assign_workspace()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.workspace_id IS NULL THEN
+    IF TG_TABLE_NAME = 'attack_paths' THEN
+      NEW.workspace_id := (SELECT workspace_id FROM public.apt_campaigns WHERE id = NEW.campaign_id);
+    ELSIF TG_TABLE_NAME = 'mitre_mappings' THEN
+      NEW.workspace_id := (SELECT workspace_id FROM public.scans WHERE id = NEW.scan_id);
+    END IF;
+    NEW.workspace_id := COALESCE(NEW.workspace_id, public.active_workspace_id(NEW.user_id));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_scan_workspace
+  BEFORE INSERT ON public.scans
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+CREATE TRIGGER assign_campaign_workspace
+  BEFORE INSERT ON public.apt_campaigns
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+CREATE TRIGGER assign_attack_path_workspace
+  BEFORE INSERT ON public.attack_paths
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+CREATE TRIGGER assign_mitre_mapping_workspace
+  BEFORE INSERT ON public.mitre_mappings
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+CREATE TRIGGER assign_report_template_workspace
+  BEFORE INSERT ON public.report_templates
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+
+-- A workspace always keeps at least one owner
+CREATE OR REPLACE FUNCTION public.protect_last_workspace_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+     AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+     AND NOT EXISTS (
+       SELECT 1 FROM public.workspace_members
+       WHERE workspace_id = OLD.workspace_id AND role = 'owner' AND id <> OLD.id
+     )
+     AND EXISTS (SELECT 1 FROM public.workspaces WHERE id = OLD.workspace_id) THEN
+    RAISE EXCEPTION 'A workspace needs at least one owner';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER protect_last_workspace_owner
+  BEFORE UPDATE OF role OR DELETE ON public.workspace_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_last_workspace_owner();
+
+-- Operators run campaigns, but approval thresholds and legal holds are for leads
+CREATE OR REPLACE FUNCTION public.protect_campaign_controls()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated'
+     AND (NEW.approval_risk_threshold, NEW.legal_hold, NEW.workspace_id)
+         IS DISTINCT FROM (OLD.approval_risk_threshold, OLD.legal_hold, OLD.workspace_id)
+     AND NOT public.has_workspace_role(OLD.workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]) THEN
+    RAISE EXCEPTION 'Only workspace owners and leads can change approval thresholds, legal holds or the workspace of a campaign';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_campaign_controls
+  BEFORE UPDATE ON public.apt_campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_campaign_controls();
+
+-- Workspace leads and owners review attack paths in their workspace alongside global approvers
+CREATE OR REPLACE FUNCTION public.apply_attack_path_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _path public.attack_paths%ROWTYPE;
+BEGIN
+  SELECT * INTO _path FROM public.attack_paths WHERE id = NEW.attack_path_id FOR UPDATE;
+
+  IF _path.status IS DISTINCT FROM 'pending_approval' THEN
+    RAISE EXCEPTION 'Attack path % is not awaiting approval', NEW.attack_path_id;
+  END IF;
+  IF _path.user_id = NEW.approver_id THEN
+    RAISE EXCEPTION 'Attack paths cannot be approved by the user who owns them';
+  END IF;
+  IF NOT public.is_approver(NEW.approver_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM public.workspace_members
+       WHERE workspace_id = _path.workspace_id AND user_id = NEW.approver_id AND role IN ('owner', 'lead')
+     ) THEN
+    RAISE EXCEPTION 'Only approvers and workspace leads can review attack paths';
+  END IF;
+
+  NEW.approver_name := (SELECT username FROM public.profiles WHERE user_id = NEW.approver_id);
+
+  UPDATE public.attack_paths SET status = NEW.decision WHERE id = NEW.attack_path_id;
+  RETURN NEW;
+END;
+$$;
+
+-- New users start in a personal workspace
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _workspace_id UUID;
+BEGIN
+  INSERT INTO public.workspaces (name, created_by)
+  VALUES (COALESCE(NEW.raw_user_meta_data ->> 'username', split_part(NEW.email, '@', 1), 'Personal') || '''s workspace', NEW.id)
+  RETURNING id INTO _workspace_id;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role, member_name)
+  VALUES (_workspace_id, NEW.id, 'owner', NEW.raw_user_meta_data ->> 'username');
+
+  INSERT INTO public.profiles (user_id, username, active_workspace_id)
+  VALUES (NEW.id, NEW.raw_user_meta_data ->> 'username', _workspace_id);
+  INSERT INTO public.user_settings (user_id)
+  VALUES (NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+-- Existing users each get a personal workspace holding everything they own
+DO $$
+DECLARE
+  _user RECORD;
+  _workspace_id UUID;
+BEGIN
+  FOR _user IN
+    SELECT u.id, u.email, p.username FROM auth.users u LEFT JOIN public.profiles p ON p.user_id = u.id
+  LOOP
+    INSERT INTO public.workspaces (name, created_by)
+    VALUES (COALESCE(_user.username, split_part(_user.email, '@', 1), 'Personal') || '''s workspace', _user.id)
+    RETURNING id INTO _workspace_id;
+
+    INSERT INTO public.workspace_members (workspace_id, user_id, role, member_name)
+    VALUES (_workspace_id, _user.id, 'owner', _user.username);
+
+    UPDATE public.profiles SET active_workspace_id = _workspace_id WHERE user_id = _user.id;
+  END LOOP;
+END;
+$$;
+
+UPDATE public.scans SET workspace_id = public.active_workspace_id(user_id);
+UPDATE public.apt_campaigns SET workspace_id = public.active_workspace_id(user_id);
+UPDATE public.attack_paths SET workspace_id = public.active_workspace_id(user_id);
+UPDATE public.mitre_mappings SET workspace_id = public.active_workspace_id(user_id);
+UPDATE public.report_templates SET workspace_id = public.active_workspace_id(user_id);
+
+ALTER TABLE public.scans ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.apt_campaigns ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.attack_paths ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.mitre_mappings ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.report_templates ALTER COLUMN workspace_id SET NOT NULL;
+
+CREATE TRIGGER update_workspaces_updated_at
+  BEFORE UPDATE ON public.workspaces
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their workspaces"
+ON public.workspaces
+FOR SELECT
+USING (public.is_workspace_member(id));
+
+CREATE POLICY "Invitees can view workspaces they are invited to"
+ON public.workspaces
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.workspace_invitations
+    WHERE workspace_invitations.workspace_id = workspaces.id
+      AND workspace_invitations.email = lower(auth.jwt() ->> 'email')
+      AND workspace_invitations.accepted_at IS NULL
+      AND workspace_invitations.revoked_at IS NULL
+  )
+);
+
+CREATE POLICY "Owners can rename their workspaces"
+ON public.workspaces
+FOR UPDATE
+USING (public.has_workspace_role(id, ARRAY['owner']::public.workspace_role[]));
+
+CREATE POLICY "Owners can delete their workspaces"
+ON public.workspaces
+FOR DELETE
+USING (public.has_workspace_role(id, ARRAY['owner']::public.workspace_role[]));
+
+CREATE POLICY "Members can view their workspace members"
+ON public.workspace_members
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can change member roles"
+ON public.workspace_members
+FOR UPDATE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner']::public.workspace_role[]));
+
+CREATE POLICY "Owners can remove members and members can leave"
+ON public.workspace_members
+FOR DELETE
+USING (auth.uid() = user_id OR public.has_workspace_role(workspace_id, ARRAY['owner']::public.workspace_role[]));
+
+CREATE POLICY "Leads can view invitations and invitees their own"
+ON public.workspace_invitations
+FOR SELECT
+USING (
+  public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[])
+  OR email = lower(auth.jwt() ->> 'email')
+);
+
+-- Leads can invite everyone but other leads; only owners hand out the lead role
+CREATE POLICY "Leads can invite members"
+ON public.workspace_invitations
+FOR INSERT
+WITH CHECK (
+  auth.uid() = invited_by
+  AND (
+    public.has_workspace_role(workspace_id, ARRAY['owner']::public.workspace_role[])
+    OR (role <> 'lead' AND public.has_workspace_role(workspace_id, ARRAY['lead']::public.workspace_role[]))
+  )
+);
+
+CREATE POLICY "Leads can revoke invitations"
+ON public.workspace_invitations
+FOR UPDATE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]));
+
+-- Rewrite the per-user policies around workspace membership:
+--   owner, lead: everything; operator: runs scans and campaigns; analyst: intel,
+--   mappings and reports; client: read-only
+DROP POLICY "Users can view their own scans" ON public.scans;
+DROP POLICY "Users can create their own scans" ON public.scans;
+DROP POLICY "Users can update their own scans" ON public.scans;
+
+CREATE POLICY "Members can view workspace scans"
+ON public.scans
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Operators can create workspace scans"
+ON public.scans
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator']::public.workspace_role[]));
+
+CREATE POLICY "Operators can update workspace scans"
+ON public.scans
+FOR UPDATE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator']::public.workspace_role[]));
+
+CREATE POLICY "Leads can delete workspace scans"
+ON public.scans
+FOR DELETE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]));
+
+DROP POLICY "Users can create their own APT campaigns" ON public.apt_campaigns;
+DROP POLICY "Users can view their own APT campaigns" ON public.apt_campaigns;
+DROP POLICY "Users can update their own APT campaigns" ON public.apt_campaigns;
+
+CREATE POLICY "Members can view workspace campaigns"
+ON public.apt_campaigns
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Leads can create workspace campaigns"
+ON public.apt_campaigns
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]));
+
+CREATE POLICY "Operators can update workspace campaigns"
+ON public.apt_campaigns
+FOR UPDATE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator']::public.workspace_role[]));
+
+CREATE POLICY "Leads can delete workspace campaigns"
+ON public.apt_campaigns
+FOR DELETE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]));
+
+DROP POLICY "Users can create their own attack paths" ON public.attack_paths;
+DROP POLICY "Users can view their own attack paths" ON public.attack_paths;
+DROP POLICY "Users can update their own attack paths" ON public.attack_paths;
+
+CREATE POLICY "Members can view workspace attack paths"
+ON public.attack_paths
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Operators can create workspace attack paths"
+ON public.attack_paths
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator']::public.workspace_role[]));
+
+CREATE POLICY "Operators can update workspace attack paths"
+ON public.attack_paths
+FOR UPDATE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator']::public.workspace_role[]));
+
+CREATE POLICY "Leads can delete workspace attack paths"
+ON public.attack_paths
+FOR DELETE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]));
+
+DROP POLICY "Users can create their own MITRE mappings" ON public.mitre_mappings;
+DROP POLICY "Users can view their own MITRE mappings" ON public.mitre_mappings;
+DROP POLICY "Users can update their own MITRE mappings" ON public.mitre_mappings;
+
+CREATE POLICY "Members can view workspace MITRE mappings"
+ON public.mitre_mappings
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Analysts can create workspace MITRE mappings"
+ON public.mitre_mappings
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator', 'analyst']::public.workspace_role[]));
+
+CREATE POLICY "Analysts can update workspace MITRE mappings"
+ON public.mitre_mappings
+FOR UPDATE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator', 'analyst']::public.workspace_role[]));
+
+DROP POLICY "Users can create their own report templates" ON public.report_templates;
+DROP POLICY "Users can view their own report templates" ON public.report_templates;
+DROP POLICY "Users can update their own report templates" ON public.report_templates;
+
+CREATE POLICY "Members can view workspace report templates"
+ON public.report_templates
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Analysts can create workspace report templates"
+ON public.report_templates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'analyst']::public.workspace_role[]));
+
+CREATE POLICY "Analysts can update workspace report templates"
+ON public.report_templates
+FOR UPDATE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'analyst']::public.workspace_role[]));
+
+CREATE POLICY "Analysts can delete workspace report templates"
+ON public.report_templates
+FOR DELETE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'analyst']::public.workspace_role[]));
+
+DROP POLICY "Anyone can view active threat intelligence" ON public.threat_intelligence;
+
+CREATE POLICY "Members can view shared and workspace threat intelligence"
+ON public.threat_intelligence
+FOR SELECT
+USING (is_active = true AND (workspace_id IS NULL OR public.is_workspace_member(workspace_id)));
+
+CREATE POLICY "Analysts can add workspace threat intelligence"
+ON public.threat_intelligence
+FOR INSERT
+WITH CHECK (workspace_id IS NOT NULL AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator', 'analyst']::public.workspace_role[]));
+
+CREATE POLICY "Analysts can update workspace threat intelligence"
+ON public.threat_intelligence
+FOR UPDATE
+USING (workspace_id IS NOT NULL AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator', 'analyst']::public.workspace_role[]));
+
+-- Reviews follow the path's workspace
+DROP POLICY "Users can view reviews of their attack paths" ON public.attack_path_approvals;
+
+CREATE POLICY "Members can view reviews of workspace attack paths"
+ON public.attack_path_approvals
+FOR SELECT
+USING (
+  auth.uid() = approver_id
+  OR EXISTS (
+    SELECT 1 FROM public.attack_paths
+    WHERE attack_paths.id = attack_path_approvals.attack_path_id
+      AND public.is_workspace_member(attack_paths.workspace_id)
+  )
+);
+
+DROP POLICY "Approvers can review attack paths" ON public.attack_path_approvals;
+
+CREATE POLICY "Approvers and workspace leads can review attack paths"
+ON public.attack_path_approvals
+FOR INSERT
+WITH CHECK (
+  auth.uid() = approver_id
+  AND (
+    public.is_approver(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.attack_paths
+      WHERE attack_paths.id = attack_path_approvals.attack_path_id
+        AND public.has_workspace_role(attack_paths.workspace_id, ARRAY['owner', 'lead']::public.workspace_role[])
+    )
+  )
+);
+
+CREATE INDEX idx_workspace_members_user_id ON public.workspace_members(user_id);
+CREATE INDEX idx_workspace_invitations_email ON public.workspace_invitations(email);
+CREATE UNIQUE INDEX idx_workspace_invitations_pending
+  ON public.workspace_invitations(workspace_id, email)
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+CREATE INDEX idx_scans_workspace_id ON public.scans(workspace_id);
+CREATE INDEX idx_apt_campaigns_workspace_id ON public.apt_campaigns(workspace_id);
+CREATE INDEX idx_attack_paths_workspace_id ON public.attack_paths(workspace_id);
+CREATE INDEX idx_mitre_mappings_workspace_id ON public.mitre_mappings(workspace_id);
+CREATE INDEX idx_report_templates_workspace_id ON public.report_templates(workspace_id);
+CREATE INDEX idx_threat_intelligence_workspace_id ON public.threat_intelligence(workspace_id);
+
+-- Members see the findings and agent runs behind the scans they can see
+CREATE POLICY "Members can view findings of workspace scans"
+ON public.findings
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.scans
+  WHERE scans.id = findings.scan_id AND public.is_workspace_member(scans.workspace_id)
+));
+
+CREATE POLICY "Members can view history of workspace findings"
+ON public.finding_status_history
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.findings
+  JOIN public.scans ON scans.id = findings.scan_id
+  WHERE findings.id = finding_status_history.finding_id AND public.is_workspace_member(scans.workspace_id)
+));
+
+CREATE POLICY "Members can view agent executions of workspace scans"
+ON public.agent_executions
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.scans
+  WHERE scans.id = agent_executions.scan_id AND public.is_workspace_member(scans.workspace_id)
+));
@@ -0,0 +1,156 @@
+-- Scan job queue: scans are enqueued by ai-agent-orchestrator and run stage by stage by scan-worker
+
+CREATE TABLE public.scan_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scan_id UUID NOT NULL UNIQUE REFERENCES public.scans(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued',
+  current_stage TEXT,
+  progress INTEGER NOT NULL DEFAULT 0,
+  -- Per stage: status, attempts, started_at, completed_at, error
+  stages JSONB NOT NULL DEFAULT '{}',
+  -- The scan request as accepted by the orchestrator
+  payload JSONB NOT NULL,
+  -- Output of finished stages, so a resumed job skips them
+  state JSONB NOT NULL DEFAULT '{}',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  last_error TEXT,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_by TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT scan_jobs_status_check CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  CONSTRAINT scan_jobs_current_stage_check CHECK (current_stage IN ('reconnaissance', 'threat_intel', 'agents', 'aggregation')),
+  CONSTRAINT scan_jobs_progress_check CHECK (progress BETWEEN 0 AND 100),
+  CONSTRAINT scan_jobs_max_attempts_check CHECK (max_attempts >= 1)
+);
+
+-- Hands the next runnable job to a worker under a lease. Jobs whose lease ran
+-- out belong to a worker that crashed or timed out and are resumed; once they
+-- have used up their attempts they fail along with their scan.
+CREATE OR REPLACE FUNCTION public.claim_scan_job(_worker_id TEXT, _lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF public.scan_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job_id UUID;
+BEGIN
+  WITH exhausted AS (
+    UPDATE public.scan_jobs
+    SET status = 'failed',
+        last_error = COALESCE(last_error, 'Worker stopped responding'),
+        locked_by = NULL,
+        locked_until = NULL,
+        completed_at = now()
+    WHERE status = 'running' AND locked_until < now() AND attempts >= max_attempts
+    RETURNING scan_id
+  )
+  UPDATE public.scans
+  SET status = 'failed', completed_at = now()
+  WHERE id IN (SELECT scan_id FROM exhausted) AND status IN ('pending', 'running');
+
+  SELECT id INTO _job_id
+  FROM public.scan_jobs
+  WHERE (status = 'queued' AND run_after <= now())
+     OR (status = 'running' AND locked_until < now())
+  ORDER BY run_after
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF _job_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.scans SET status = 'running'
+  WHERE id = (SELECT scan_id FROM public.scan_jobs WHERE id = _job_id) AND status = 'pending';
+
+  RETURN QUERY
+  UPDATE public.scan_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = _worker_id,
+      locked_until = now() + make_interval(secs => _lease_seconds),
+      started_at = COALESCE(started_at, now())
+  WHERE id = _job_id
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_scan_job(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Cancelling a scan (emergency stop, user) also stops its job
+CREATE OR REPLACE FUNCTION public.cancel_scan_job()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.scan_jobs
+  SET status = 'cancelled', locked_by = NULL, locked_until = NULL, completed_at = now()
+  WHERE scan_id = NEW.id AND status IN ('queued', 'running');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cancel_scan_job_on_scan_cancel
+  AFTER UPDATE OF status ON public.scans
+  FOR EACH ROW
+  WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+  EXECUTE FUNCTION public.cancel_scan_job();
+
+CREATE TRIGGER update_scan_jobs_updated_at
+  BEFORE UPDATE ON public.scan_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.scan_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written by the orchestrator and the worker only
+CREATE POLICY "Members can view jobs of workspace scans"
+ON public.scan_jobs
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.scans
+    WHERE scans.id = scan_jobs.scan_id AND public.is_workspace_member(scans.workspace_id)
+  )
+);
+
+CREATE INDEX idx_scan_jobs_runnable ON public.scan_jobs(status, run_after);
+CREATE INDEX idx_scan_jobs_user_id ON public.scan_jobs(user_id);
+
+-- The Scan page follows stage progress live
+ALTER TABLE public.scan_jobs REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.scan_jobs;
+
+-- Sweep for queued, retried and abandoned jobs every minute. The orchestrator
+-- also wakes the worker directly, so this only matters after failures.
+-- Needs the 'project_url' and 'service_role_key' secrets in Vault.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'run-scan-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/scan-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (
+    SELECT 1 FROM public.scan_jobs
+    WHERE (status = 'queued' AND run_after <= now()) OR (status = 'running' AND locked_until < now())
+  )
+  $$
+);
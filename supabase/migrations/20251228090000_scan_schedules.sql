@@ -0,0 +1,89 @@
+-- Recurring scans: schedules enqueued by scan-scheduler, with alerts when a run differs from the previous one
+
+CREATE TABLE public.scan_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  target TEXT NOT NULL,
+  asset_type public.asset_type NOT NULL,
+  agent_ids UUID[] NOT NULL DEFAULT '{}', -- empty runs every active agent
+  campaign_id UUID REFERENCES public.apt_campaigns(id) ON DELETE SET NULL,
+  -- Exactly one of the two; cron expressions are evaluated in UTC
+  cron_expression TEXT,
+  interval_minutes INTEGER,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_scan_id UUID REFERENCES public.scans(id) ON DELETE SET NULL,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT scan_schedules_name_check CHECK (length(btrim(name)) > 0),
+  CONSTRAINT scan_schedules_frequency_check CHECK ((cron_expression IS NULL) <> (interval_minutes IS NULL)),
+  CONSTRAINT scan_schedules_interval_minutes_check CHECK (interval_minutes >= 15)
+);
+
+ALTER TABLE public.scans
+  ADD COLUMN schedule_id UUID REFERENCES public.scan_schedules(id) ON DELETE SET NULL;
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_kind_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_kind_check
+  CHECK (kind IN ('scan_complete', 'threat_detected', 'agent_error', 'weekly_report', 'schedule_alert'));
+
+CREATE TRIGGER assign_scan_schedule_workspace
+  BEFORE INSERT ON public.scan_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+
+CREATE TRIGGER update_scan_schedules_updated_at
+  BEFORE UPDATE ON public.scan_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.scan_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view workspace scan schedules"
+ON public.scan_schedules
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Operators can create workspace scan schedules"
+ON public.scan_schedules
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator']::public.workspace_role[])
+);
+
+CREATE POLICY "Operators can update workspace scan schedules"
+ON public.scan_schedules
+FOR UPDATE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator']::public.workspace_role[]));
+
+CREATE POLICY "Operators can delete workspace scan schedules"
+ON public.scan_schedules
+FOR DELETE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator']::public.workspace_role[]));
+
+CREATE INDEX idx_scan_schedules_due ON public.scan_schedules(next_run_at) WHERE is_active;
+CREATE INDEX idx_scan_schedules_workspace_id ON public.scan_schedules(workspace_id);
+CREATE INDEX idx_scans_schedule_id ON public.scans(schedule_id, created_at DESC);
+
+-- Check for due schedules every minute; uses the same Vault secrets as the scan worker sweep
+SELECT cron.schedule(
+  'run-scan-scheduler',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/scan-scheduler',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (SELECT 1 FROM public.scan_schedules WHERE is_active AND next_run_at <= now())
+  $$
+);
@@ -0,0 +1,96 @@
+-- Batch scans: a parent scan record per bulk import, with one child scan per expanded target
+
+ALTER TABLE public.scans
+  ADD COLUMN parent_scan_id UUID REFERENCES public.scans(id) ON DELETE CASCADE,
+  ADD COLUMN is_batch BOOLEAN NOT NULL DEFAULT false;
+
+-- A batch's status and threat level follow its children. A cancelled batch
+-- stays cancelled; completed_at is left to scan-worker, which uses it to send
+-- the batch's completion notification once.
+CREATE OR REPLACE FUNCTION public.sync_batch_scan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _total INTEGER;
+  _pending INTEGER;
+  _running INTEGER;
+  _completed INTEGER;
+  _failed INTEGER;
+  _cancelled INTEGER;
+  _threat_level public.threat_level;
+  _status public.scan_status;
+BEGIN
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE status = 'pending'),
+    count(*) FILTER (WHERE status = 'running'),
+    count(*) FILTER (WHERE status = 'completed'),
+    count(*) FILTER (WHERE status = 'failed'),
+    count(*) FILTER (WHERE status = 'cancelled'),
+    max(threat_level) FILTER (WHERE status = 'completed')
+  INTO _total, _pending, _running, _completed, _failed, _cancelled, _threat_level
+  FROM public.scans
+  WHERE parent_scan_id = NEW.parent_scan_id;
+
+  _status := CASE
+    WHEN _pending = _total THEN 'pending'
+    WHEN _pending + _running > 0 THEN 'running'
+    WHEN _completed > 0 THEN 'completed'
+    WHEN _cancelled = _total THEN 'cancelled'
+    ELSE 'failed'
+  END;
+
+  UPDATE public.scans
+  SET
+    status = _status,
+    threat_level = COALESCE(_threat_level, threat_level),
+    results = COALESCE(results, '{}'::jsonb) || jsonb_build_object('batch', jsonb_build_object(
+      'total', _total,
+      'pending', _pending,
+      'running', _running,
+      'completed', _completed,
+      'failed', _failed,
+      'cancelled', _cancelled
+    ))
+  WHERE id = NEW.parent_scan_id
+    AND status IS DISTINCT FROM 'cancelled';
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_batch_scan() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER sync_batch_scan_on_child_change
+  AFTER INSERT OR UPDATE OF status, threat_level ON public.scans
+  FOR EACH ROW
+  WHEN (NEW.parent_scan_id IS NOT NULL)
+  EXECUTE FUNCTION public.sync_batch_scan();
+
+-- Cancelling a batch cancels its unfinished children, whose jobs then stop
+CREATE OR REPLACE FUNCTION public.cancel_batch_children()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.scans
+  SET status = 'cancelled'
+  WHERE parent_scan_id = NEW.id AND status IN ('pending', 'running');
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_batch_children() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER cancel_batch_children_on_cancel
+  AFTER UPDATE OF status ON public.scans
+  FOR EACH ROW
+  WHEN (NEW.is_batch AND NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+  EXECUTE FUNCTION public.cancel_batch_children();
+
+CREATE INDEX idx_scans_parent_scan_id ON public.scans(parent_scan_id) WHERE parent_scan_id IS NOT NULL;
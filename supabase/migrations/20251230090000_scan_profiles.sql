@@ -0,0 +1,118 @@
+-- Scan profiles: named, reusable scan configurations with per-asset-type defaults.
+-- Scans keep a snapshot of the profile they ran with so they can be reproduced
+
+CREATE TABLE public.scan_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- Personal profiles are only visible to their creator
+  visibility TEXT NOT NULL DEFAULT 'workspace',
+  agent_ids UUID[] NOT NULL DEFAULT '{}', -- empty runs every active agent
+  recon_services TEXT[] NOT NULL DEFAULT ARRAY['shodan', 'virustotal', 'ipinfo'],
+  -- e.g. {"nmap": {"ports": "22,80,443", "timing": 3}}
+  tool_parameters JSONB NOT NULL DEFAULT '{}',
+  llm_model TEXT NOT NULL DEFAULT 'gpt-4o-mini',
+  llm_temperature NUMERIC(3, 2) NOT NULL DEFAULT 0.7,
+  -- Thresholds for a scan's threat level; see _shared/scanProfiles.ts
+  risk_policy JSONB NOT NULL DEFAULT '{
+    "critical": {"high_severity": 3, "risk_score": 8},
+    "high": {"high_severity": 1, "risk_score": 6},
+    "medium": {"vulnerabilities": 3, "risk_score": 4}
+  }',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT scan_profiles_name_check CHECK (length(btrim(name)) > 0),
+  CONSTRAINT scan_profiles_visibility_check CHECK (visibility IN ('personal', 'workspace')),
+  CONSTRAINT scan_profiles_recon_services_check CHECK (recon_services <@ ARRAY['shodan', 'virustotal', 'ipinfo']),
+  CONSTRAINT scan_profiles_llm_temperature_check CHECK (llm_temperature >= 0 AND llm_temperature <= 2)
+);
+
+-- Each user's default profile per asset type, within a workspace
+CREATE TABLE public.scan_profile_defaults (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  asset_type public.asset_type NOT NULL,
+  profile_id UUID NOT NULL REFERENCES public.scan_profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, workspace_id, asset_type)
+);
+
+ALTER TABLE public.scans
+  ADD COLUMN profile_id UUID REFERENCES public.scan_profiles(id) ON DELETE SET NULL,
+  ADD COLUMN profile_snapshot JSONB;
+
+CREATE TRIGGER assign_scan_profile_workspace
+  BEFORE INSERT ON public.scan_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+
+CREATE TRIGGER assign_scan_profile_default_workspace
+  BEFORE INSERT ON public.scan_profile_defaults
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+
+CREATE TRIGGER update_scan_profiles_updated_at
+  BEFORE UPDATE ON public.scan_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.scan_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scan_profile_defaults ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view shared and their own scan profiles"
+ON public.scan_profiles
+FOR SELECT
+USING (
+  public.is_workspace_member(workspace_id)
+  AND (visibility = 'workspace' OR auth.uid() = user_id)
+);
+
+CREATE POLICY "Operators can create scan profiles"
+ON public.scan_profiles
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator']::public.workspace_role[])
+);
+
+-- Shared profiles can also be maintained by workspace owners and leads
+CREATE POLICY "Creators and leads can update scan profiles"
+ON public.scan_profiles
+FOR UPDATE
+USING (
+  auth.uid() = user_id
+  OR (visibility = 'workspace' AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]))
+);
+
+CREATE POLICY "Creators and leads can delete scan profiles"
+ON public.scan_profiles
+FOR DELETE
+USING (
+  auth.uid() = user_id
+  OR (visibility = 'workspace' AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]))
+);
+
+CREATE POLICY "Users can view their own profile defaults"
+ON public.scan_profile_defaults
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can set their own profile defaults"
+ON public.scan_profile_defaults
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Users can change their own profile defaults"
+ON public.scan_profile_defaults
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own profile defaults"
+ON public.scan_profile_defaults
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_scan_profiles_workspace_id ON public.scan_profiles(workspace_id);
+CREATE INDEX idx_scans_profile_id ON public.scans(profile_id);
@@ -0,0 +1,84 @@
+-- Agent pipelines: ai_agents.config may list the agents an agent depends on
+-- ("depends_on": [agent ids]) and map parts of their output into its prompt
+-- ("inputs": [{"from": agent id, "path": "vulnerabilities", "as": "upstream_vulnerabilities"}]).
+-- scan-worker runs agents in dependency order; see _shared/agentPipeline.ts
+
+-- Rejects malformed pipeline config and dependencies that would form a cycle
+CREATE OR REPLACE FUNCTION public.validate_agent_pipeline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _depends_on JSONB := COALESCE(NEW.config->'depends_on', '[]'::jsonb);
+  _inputs JSONB := COALESCE(NEW.config->'inputs', '[]'::jsonb);
+  _cycle UUID[];
+BEGIN
+  IF jsonb_typeof(_depends_on) <> 'array' OR jsonb_typeof(_inputs) <> 'array' THEN
+    RAISE EXCEPTION 'config.depends_on and config.inputs must be arrays';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_depends_on) AS dependency
+    WHERE jsonb_typeof(dependency) <> 'string'
+       OR dependency #>> '{}' !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+       OR NOT EXISTS (SELECT 1 FROM public.ai_agents WHERE id = (dependency #>> '{}')::uuid)
+  ) THEN
+    RAISE EXCEPTION 'config.depends_on must list the ids of existing agents';
+  END IF;
+
+  IF _depends_on ? NEW.id::text THEN
+    RAISE EXCEPTION 'An agent cannot depend on itself';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_inputs) AS input
+    WHERE jsonb_typeof(input) <> 'object'
+       OR NOT _depends_on ? COALESCE(input->>'from', '')
+       OR length(btrim(COALESCE(input->>'as', ''))) = 0
+  ) THEN
+    RAISE EXCEPTION 'Each config.inputs entry needs an "as" name and a "from" agent listed in depends_on';
+  END IF;
+
+  -- Walk upstream from the new dependencies; reaching this agent again closes a cycle
+  WITH RECURSIVE upstream(agent_id, path) AS (
+    SELECT (dependency #>> '{}')::uuid, ARRAY[NEW.id]
+    FROM jsonb_array_elements(_depends_on) AS dependency
+    UNION ALL
+    SELECT (next_dependency #>> '{}')::uuid, upstream.path || upstream.agent_id
+    FROM upstream
+    JOIN public.ai_agents agents ON agents.id = upstream.agent_id AND agents.id <> NEW.id
+    CROSS JOIN LATERAL jsonb_array_elements(COALESCE(agents.config->'depends_on', '[]'::jsonb)) AS next_dependency
+    WHERE NOT upstream.agent_id = ANY(upstream.path)
+  )
+  SELECT path || agent_id INTO _cycle FROM upstream WHERE agent_id = NEW.id LIMIT 1;
+
+  IF _cycle IS NOT NULL THEN
+    RAISE EXCEPTION 'Dependency cycle: %', (
+      SELECT string_agg(COALESCE(agents.name, step.id::text), ' → ' ORDER BY step.position)
+      FROM unnest(_cycle) WITH ORDINALITY AS step(id, position)
+      LEFT JOIN public.ai_agents agents ON agents.id = step.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_agent_pipeline
+  BEFORE INSERT OR UPDATE OF config ON public.ai_agents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_agent_pipeline();
+
+-- The threat intelligence analyst builds on what the vulnerability scanner found
+UPDATE public.ai_agents
+SET config = COALESCE(config, '{}'::jsonb) || jsonb_build_object(
+  'depends_on', jsonb_build_array(scanner.id),
+  'inputs', jsonb_build_array(jsonb_build_object(
+    'from', scanner.id,
+    'path', 'vulnerabilities',
+    'as', 'identified_vulnerabilities'
+  ))
+)
+FROM (SELECT id FROM public.ai_agents WHERE name = 'Vulnerability Scanner' ORDER BY created_at LIMIT 1) AS scanner
+WHERE public.ai_agents.name = 'Threat Intelligence Analyst';
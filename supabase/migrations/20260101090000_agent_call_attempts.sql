@@ -0,0 +1,6 @@
+-- Agent call policy: scan-worker retries and falls back between models per
+-- ai_agents.config.call_policy (see _shared/agentPolicy.ts). Every request it
+-- makes for an execution is kept here: provider, model, timing, HTTP status
+-- and why it failed.
+ALTER TABLE public.agent_executions
+  ADD COLUMN attempts JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,7 @@
+-- Structured LLM output: agent responses are validated against a versioned
+-- JSON schema (see _shared/llmSchemas.ts) before they are used. The outcome is
+-- kept per execution: the schema, whether the response was valid, repaired or
+-- re-asked, and the validation errors. Invalid responses also keep an excerpt
+-- of what the model returned.
+ALTER TABLE public.agent_executions
+  ADD COLUMN output_validation JSONB;
@@ -0,0 +1,124 @@
+-- LLM providers: the model endpoints a workspace's LLM calls go to, and a usage
+-- record of every call. See _shared/llmProviders.ts for how a provider is chosen
+
+CREATE TABLE public.llm_providers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  -- Only used by OpenAI-compatible endpoints, e.g. http://gpu-01.internal:11434/v1 for Ollama
+  base_url TEXT,
+  -- Name of the function secret with the API key. Custom secrets must start with LLM_;
+  -- without one, hosted providers use the platform key and custom endpoints send none
+  api_key_secret TEXT,
+  default_model TEXT NOT NULL,
+  -- Serves every call in the workspace not made for one of agent_ids of another provider
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  agent_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT llm_providers_name_check CHECK (length(btrim(name)) > 0),
+  CONSTRAINT llm_providers_workspace_name_key UNIQUE (workspace_id, name),
+  CONSTRAINT llm_providers_kind_check CHECK (kind IN ('openai', 'openai_compatible', 'lovable', 'perplexity')),
+  CONSTRAINT llm_providers_base_url_check CHECK (
+    CASE WHEN kind = 'openai_compatible' THEN base_url ~* '^https?://[^\s/]+' ELSE base_url IS NULL END
+  ),
+  CONSTRAINT llm_providers_api_key_secret_check CHECK (api_key_secret ~ '^LLM_[A-Z0-9_]+$'),
+  CONSTRAINT llm_providers_default_model_check CHECK (length(btrim(default_model)) > 0)
+);
+
+-- One default provider per workspace
+CREATE UNIQUE INDEX idx_llm_providers_workspace_default ON public.llm_providers(workspace_id) WHERE is_default;
+
+-- An agent is served by at most one provider in a workspace
+CREATE OR REPLACE FUNCTION public.validate_llm_provider_agents()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _other TEXT;
+BEGIN
+  SELECT name INTO _other FROM public.llm_providers
+  WHERE workspace_id = NEW.workspace_id AND id <> NEW.id AND agent_ids && NEW.agent_ids
+  LIMIT 1;
+
+  IF _other IS NOT NULL THEN
+    RAISE EXCEPTION 'An agent in this provider is already assigned to %', _other;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_llm_provider_workspace
+  BEFORE INSERT ON public.llm_providers
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+
+CREATE TRIGGER validate_llm_provider_agents
+  BEFORE INSERT OR UPDATE OF agent_ids, workspace_id ON public.llm_providers
+  FOR EACH ROW EXECUTE FUNCTION public.validate_llm_provider_agents();
+
+CREATE TRIGGER update_llm_providers_updated_at
+  BEFORE UPDATE ON public.llm_providers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per model request, written by the edge functions
+CREATE TABLE public.llm_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  source TEXT NOT NULL, -- the edge function that made the call
+  scan_id UUID REFERENCES public.scans(id) ON DELETE SET NULL,
+  agent_id UUID REFERENCES public.ai_agents(id) ON DELETE SET NULL,
+  provider_id UUID REFERENCES public.llm_providers(id) ON DELETE SET NULL, -- NULL for built-in providers
+  provider_kind TEXT NOT NULL,
+  model TEXT NOT NULL,
+  status TEXT NOT NULL,
+  failure TEXT,
+  -- NULL when the provider did not report usage
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  total_tokens INTEGER,
+  duration_ms INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT llm_usage_status_check CHECK (status IN ('succeeded', 'failed'))
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.llm_providers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.llm_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view workspace LLM providers"
+ON public.llm_providers
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+-- Providers decide where client data is sent, so only owners and leads manage them
+CREATE POLICY "Leads can create workspace LLM providers"
+ON public.llm_providers
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[])
+);
+
+CREATE POLICY "Leads can update workspace LLM providers"
+ON public.llm_providers
+FOR UPDATE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]));
+
+CREATE POLICY "Leads can delete workspace LLM providers"
+ON public.llm_providers
+FOR DELETE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]));
+
+CREATE POLICY "Members can view workspace LLM usage"
+ON public.llm_usage
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE INDEX idx_llm_usage_workspace_created ON public.llm_usage(workspace_id, created_at DESC);
+CREATE INDEX idx_llm_usage_scan_id ON public.llm_usage(scan_id);
@@ -0,0 +1,25 @@
+-- Recorded responses of external calls (LLM providers, VirusTotal,
+-- reconnaissance), replayed by request hash when EXTERNAL_CALL_MODE is replay
+-- or strict. See _shared/externalCalls.ts
+
+CREATE TABLE public.external_call_fixtures (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Named sets keep e.g. a demo and a regression baseline apart
+  fixture_set TEXT NOT NULL DEFAULT 'default',
+  request_hash TEXT NOT NULL,
+  service TEXT NOT NULL,
+  method TEXT NOT NULL,
+  url TEXT NOT NULL, -- with credentials in the query string redacted
+  request_body TEXT,
+  response_status INTEGER NOT NULL,
+  response_headers JSONB NOT NULL DEFAULT '{}',
+  response_body TEXT NOT NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT external_call_fixtures_set_hash_key UNIQUE (fixture_set, request_hash),
+  CONSTRAINT external_call_fixtures_request_hash_check CHECK (request_hash ~ '^[0-9a-f]{64}$')
+);
+
+-- Fixtures hold target and client data; only edge functions (service role) read and write them
+ALTER TABLE public.external_call_fixtures ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_external_call_fixtures_service ON public.external_call_fixtures(fixture_set, service);
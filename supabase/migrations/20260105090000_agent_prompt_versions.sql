@@ -0,0 +1,184 @@
+-- Prompt versions: a workspace's own prompts for an agent, each published with a
+-- change note, and experiments that split the workspace's scans between two
+-- versions. Agents use ai_agents.prompt_template until the workspace publishes
+-- a version. See _shared/promptVersions.ts for how a scan's prompt is chosen
+
+CREATE TABLE public.agent_prompt_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES public.ai_agents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  template TEXT NOT NULL,
+  change_note TEXT NOT NULL,
+  -- The version scans use when no experiment is running
+  is_current BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT agent_prompt_versions_version_key UNIQUE (workspace_id, agent_id, version),
+  CONSTRAINT agent_prompt_versions_version_check CHECK (version > 0),
+  CONSTRAINT agent_prompt_versions_template_check CHECK (length(btrim(template)) > 0),
+  CONSTRAINT agent_prompt_versions_change_note_check CHECK (length(btrim(change_note)) > 0)
+);
+
+CREATE UNIQUE INDEX idx_agent_prompt_versions_current ON public.agent_prompt_versions(workspace_id, agent_id) WHERE is_current;
+
+CREATE TABLE public.agent_prompt_experiments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES public.ai_agents(id) ON DELETE CASCADE,
+  version_a_id UUID NOT NULL REFERENCES public.agent_prompt_versions(id) ON DELETE CASCADE,
+  version_b_id UUID NOT NULL REFERENCES public.agent_prompt_versions(id) ON DELETE CASCADE,
+  -- Percentage of scans that get version B
+  traffic_b INTEGER NOT NULL DEFAULT 50,
+  status TEXT NOT NULL DEFAULT 'running',
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  stopped_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT agent_prompt_experiments_versions_check CHECK (version_a_id <> version_b_id),
+  CONSTRAINT agent_prompt_experiments_traffic_b_check CHECK (traffic_b BETWEEN 1 AND 99),
+  CONSTRAINT agent_prompt_experiments_status_check CHECK (status IN ('running', 'stopped')),
+  CONSTRAINT agent_prompt_experiments_stopped_at_check CHECK ((status = 'stopped') = (stopped_at IS NOT NULL))
+);
+
+-- One running experiment per agent in a workspace
+CREATE UNIQUE INDEX idx_agent_prompt_experiments_running ON public.agent_prompt_experiments(workspace_id, agent_id) WHERE status = 'running';
+
+-- The prompt each execution was run with; NULL for the built-in ai_agents.prompt_template
+ALTER TABLE public.agent_executions
+  ADD COLUMN prompt_version_id UUID REFERENCES public.agent_prompt_versions(id) ON DELETE SET NULL,
+  ADD COLUMN prompt_experiment_id UUID REFERENCES public.agent_prompt_experiments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_agent_executions_prompt_version_id ON public.agent_executions(prompt_version_id);
+
+-- Publishes a new version of an agent's prompt and makes it current. The first
+-- version a workspace publishes is preceded by a copy of the built-in prompt, so
+-- experiments can compare against it
+CREATE OR REPLACE FUNCTION public.publish_agent_prompt(_workspace_id UUID, _agent_id UUID, _template TEXT, _change_note TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _version INTEGER;
+  _version_id UUID;
+BEGIN
+  IF NOT public.has_workspace_role(_workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]) THEN
+    RAISE EXCEPTION 'Only workspace owners and leads can publish prompts';
+  END IF;
+
+  -- Concurrent publishes for the same agent take turns picking the next version number
+  PERFORM pg_advisory_xact_lock(hashtext(_workspace_id::TEXT || _agent_id::TEXT));
+
+  SELECT max(version) INTO _version FROM public.agent_prompt_versions
+  WHERE workspace_id = _workspace_id AND agent_id = _agent_id;
+
+  IF _version IS NULL THEN
+    INSERT INTO public.agent_prompt_versions (user_id, workspace_id, agent_id, version, template, change_note)
+    SELECT auth.uid(), _workspace_id, id, 1, prompt_template, 'Built-in prompt'
+    FROM public.ai_agents WHERE id = _agent_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Agent not found';
+    END IF;
+    _version := 1;
+  END IF;
+
+  UPDATE public.agent_prompt_versions SET is_current = false
+  WHERE workspace_id = _workspace_id AND agent_id = _agent_id AND is_current;
+
+  INSERT INTO public.agent_prompt_versions (user_id, workspace_id, agent_id, version, template, change_note, is_current)
+  VALUES (auth.uid(), _workspace_id, _agent_id, _version + 1, _template, btrim(_change_note), true)
+  RETURNING id INTO _version_id;
+
+  RETURN _version_id;
+END;
+$$;
+
+-- Makes an earlier version current again, e.g. to roll back a change
+CREATE OR REPLACE FUNCTION public.set_current_agent_prompt(_version_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _target public.agent_prompt_versions%ROWTYPE;
+BEGIN
+  SELECT * INTO _target FROM public.agent_prompt_versions WHERE id = _version_id;
+
+  IF _target.id IS NULL OR NOT public.has_workspace_role(_target.workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]) THEN
+    RAISE EXCEPTION 'Prompt version not found';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(_target.workspace_id::TEXT || _target.agent_id::TEXT));
+
+  UPDATE public.agent_prompt_versions SET is_current = false
+  WHERE workspace_id = _target.workspace_id AND agent_id = _target.agent_id AND is_current AND id <> _version_id;
+
+  UPDATE public.agent_prompt_versions SET is_current = true WHERE id = _version_id;
+END;
+$$;
+
+-- Both arms of an experiment are versions of its agent in its workspace
+CREATE OR REPLACE FUNCTION public.validate_agent_prompt_experiment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (
+    SELECT count(*) FROM public.agent_prompt_versions
+    WHERE id IN (NEW.version_a_id, NEW.version_b_id)
+      AND workspace_id = NEW.workspace_id
+      AND agent_id = NEW.agent_id
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Experiment versions must be prompt versions of the same agent in this workspace';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_agent_prompt_experiment_workspace
+  BEFORE INSERT ON public.agent_prompt_experiments
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+
+CREATE TRIGGER validate_agent_prompt_experiment
+  BEFORE INSERT OR UPDATE OF version_a_id, version_b_id, agent_id, workspace_id ON public.agent_prompt_experiments
+  FOR EACH ROW EXECUTE FUNCTION public.validate_agent_prompt_experiment();
+
+CREATE TRIGGER update_agent_prompt_experiments_updated_at
+  BEFORE UPDATE ON public.agent_prompt_experiments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.agent_prompt_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agent_prompt_experiments ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written only by publish_agent_prompt and never edited
+CREATE POLICY "Members can view workspace prompt versions"
+ON public.agent_prompt_versions
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can view workspace prompt experiments"
+ON public.agent_prompt_experiments
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Leads can create workspace prompt experiments"
+ON public.agent_prompt_experiments
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[])
+);
+
+CREATE POLICY "Leads can update workspace prompt experiments"
+ON public.agent_prompt_experiments
+FOR UPDATE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]));
@@ -0,0 +1,40 @@
+-- An approval covers what the path will run, not just its risk level: changing
+-- any executable field of a path that needs approval sends it back to the queue,
+-- and the earlier review no longer counts (see approval_requested_at)
+
+CREATE OR REPLACE FUNCTION public.route_attack_path_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.status IN ('approved', 'rejected')
+     AND NEW.status IS DISTINCT FROM OLD.status
+     AND pg_trigger_depth() = 1 THEN
+    RAISE EXCEPTION 'Attack paths can only be approved or rejected through attack_path_approvals';
+  END IF;
+
+  IF public.attack_path_requires_approval(NEW.campaign_id, NEW.risk_level) THEN
+    IF TG_OP = 'INSERT'
+       OR NEW.risk_level IS DISTINCT FROM OLD.risk_level
+       OR NEW.campaign_id IS DISTINCT FROM OLD.campaign_id
+       OR NEW.target IS DISTINCT FROM OLD.target
+       OR NEW.technique_name IS DISTINCT FROM OLD.technique_name
+       OR NEW.mitre_technique IS DISTINCT FROM OLD.mitre_technique
+       OR NEW.mitre_tactic IS DISTINCT FROM OLD.mitre_tactic
+       OR NEW.phase IS DISTINCT FROM OLD.phase
+       OR NEW.tools_required IS DISTINCT FROM OLD.tools_required
+       OR NEW.prerequisites IS DISTINCT FROM OLD.prerequisites
+       OR NEW.description IS DISTINCT FROM OLD.description THEN
+      NEW.status := 'pending_approval';
+      NEW.approval_requested_at := now();
+    END IF;
+  ELSIF TG_OP = 'UPDATE' AND public.attack_path_requires_approval(OLD.campaign_id, OLD.risk_level) THEN
+    RAISE EXCEPTION 'Risk level of attack path % cannot be lowered below the approval threshold', OLD.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,298 @@
+-- Retention policies belong to workspaces: one policy per workspace, set by its
+-- owners and leads, applied to the workspace's scans and attack paths. A legal
+-- hold protects a campaign's data whoever owns the campaign or the data
+
+ALTER TABLE public.retention_policies ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.retention_runs ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+UPDATE public.retention_policies SET workspace_id = public.active_workspace_id(user_id);
+UPDATE public.retention_runs SET workspace_id = public.active_workspace_id(user_id);
+
+-- Where several members' policies land in one workspace, the most recently saved one is kept
+DELETE FROM public.retention_policies p
+USING public.retention_policies newer
+WHERE newer.workspace_id = p.workspace_id
+  AND (newer.updated_at, newer.id) > (p.updated_at, p.id);
+
+DELETE FROM public.retention_policies WHERE workspace_id IS NULL;
+DELETE FROM public.retention_runs WHERE workspace_id IS NULL;
+
+ALTER TABLE public.retention_policies ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.retention_runs ALTER COLUMN workspace_id SET NOT NULL;
+
+-- user_id is the member who last saved the policy
+ALTER TABLE public.retention_policies DROP CONSTRAINT retention_policies_user_id_key;
+ALTER TABLE public.retention_policies ADD CONSTRAINT retention_policies_workspace_id_key UNIQUE (workspace_id);
+
+DROP INDEX public.idx_retention_runs_user_ran_at;
+CREATE INDEX idx_retention_runs_workspace_ran_at ON public.retention_runs(workspace_id, ran_at DESC);
+
+CREATE TRIGGER assign_retention_policy_workspace
+  BEFORE INSERT ON public.retention_policies
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+
+-- The parameter is renamed, so the old functions are dropped rather than replaced
+DROP FUNCTION public.preview_retention();
+DROP FUNCTION public.enforce_retention(UUID, BOOLEAN);
+
+/**
+ * Applies a workspace's retention policy. With _dry_run it only reports what
+ * would be purged. Scans, executions and evidence belonging to campaigns under
+ * legal hold are never touched, whichever workspace or user owns the campaign,
+ * and in-flight scans and executions are left alone. API usage is personal, so
+ * each user's is governed by the policy of their active workspace. Real runs
+ * are written to retention_runs and the audit chain.
+ */
+CREATE OR REPLACE FUNCTION public.enforce_retention(_workspace_id UUID, _dry_run BOOLEAN DEFAULT true)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.retention_policies%ROWTYPE;
+  _held UUID[];
+  _held_scans UUID[];
+  _scan_ids UUID[] := '{}';
+  _finding_ids UUID[] := '{}';
+  _execution_ids UUID[] := '{}';
+  _evidence_ids UUID[] := '{}';
+  _usage_ids UUID[] := '{}';
+  _output_scan_ids UUID[] := '{}';
+  _output_path_ids UUID[] := '{}';
+  _cutoffs JSONB;
+  _counts JSONB;
+  _ids JSONB;
+  _run_id UUID;
+BEGIN
+  SELECT * INTO _policy FROM public.retention_policies WHERE workspace_id = _workspace_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Held campaigns the workspace's scans and attack paths belong to
+  SELECT coalesce(array_agg(c.id), '{}') INTO _held
+  FROM public.apt_campaigns c
+  WHERE c.legal_hold
+    AND (
+      c.workspace_id = _workspace_id
+      OR EXISTS (
+        SELECT 1 FROM public.scans s
+        WHERE s.workspace_id = _workspace_id AND s.metadata->>'campaign_id' = c.id::text
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.attack_paths ap
+        WHERE ap.workspace_id = _workspace_id AND ap.campaign_id = c.id
+      )
+    );
+
+  SELECT coalesce(array_agg(id), '{}') INTO _held_scans
+  FROM public.scans
+  WHERE workspace_id = _workspace_id AND metadata->>'campaign_id' = ANY(_held::text[]);
+
+  _cutoffs := jsonb_strip_nulls(jsonb_build_object(
+    'scans', now() - make_interval(days => _policy.scans_days),
+    'agent_executions', now() - make_interval(days => _policy.agent_executions_days),
+    'attack_path_evidence', now() - make_interval(days => _policy.attack_path_evidence_days),
+    'api_usage', now() - make_interval(days => _policy.api_usage_days),
+    'tool_output', now() - make_interval(days => _policy.tool_output_days)
+  ));
+
+  IF _policy.scans_days IS NOT NULL THEN
+    SELECT coalesce(array_agg(id), '{}') INTO _scan_ids
+    FROM public.scans
+    WHERE workspace_id = _workspace_id
+      AND created_at < (_cutoffs->>'scans')::timestamptz
+      AND status NOT IN ('pending', 'running')
+      AND id <> ALL(_held_scans);
+
+    SELECT coalesce(array_agg(id), '{}') INTO _finding_ids
+    FROM public.findings
+    WHERE scan_id = ANY(_scan_ids);
+  END IF;
+
+  -- Executions of purged scans go with them; list them so the record is complete
+  SELECT coalesce(array_agg(e.id), '{}') INTO _execution_ids
+  FROM public.agent_executions e
+  JOIN public.scans s ON s.id = e.scan_id
+  WHERE s.workspace_id = _workspace_id
+    AND e.status NOT IN ('pending', 'running')
+    AND e.scan_id <> ALL(_held_scans)
+    AND (e.scan_id = ANY(_scan_ids)
+      OR e.created_at < (_cutoffs->>'agent_executions')::timestamptz);
+
+  IF _policy.attack_path_evidence_days IS NOT NULL THEN
+    SELECT coalesce(array_agg(id), '{}') INTO _evidence_ids
+    FROM public.attack_paths
+    WHERE workspace_id = _workspace_id
+      AND coalesce(completed_at, created_at) < (_cutoffs->>'attack_path_evidence')::timestamptz
+      AND evidence IS NOT NULL AND evidence <> '{}'::jsonb
+      AND campaign_id <> ALL(_held);
+  END IF;
+
+  IF _policy.api_usage_days IS NOT NULL THEN
+    SELECT coalesce(array_agg(id), '{}') INTO _usage_ids
+    FROM public.api_usage
+    WHERE public.active_workspace_id(user_id) = _workspace_id
+      AND created_at < (_cutoffs->>'api_usage')::timestamptz;
+  END IF;
+
+  -- Raw tool output: reconnaissance results on scans and command output in attack evidence
+  IF _policy.tool_output_days IS NOT NULL THEN
+    SELECT coalesce(array_agg(id), '{}') INTO _output_scan_ids
+    FROM public.scans
+    WHERE workspace_id = _workspace_id
+      AND created_at < (_cutoffs->>'tool_output')::timestamptz
+      AND results ? 'reconnaissance_data'
+      AND id <> ALL(_held_scans)
+      AND id <> ALL(_scan_ids);
+
+    SELECT coalesce(array_agg(id), '{}') INTO _output_path_ids
+    FROM public.attack_paths
+    WHERE workspace_id = _workspace_id
+      AND coalesce(completed_at, created_at) < (_cutoffs->>'tool_output')::timestamptz
+      AND evidence ? 'output'
+      AND campaign_id <> ALL(_held)
+      AND id <> ALL(_evidence_ids);
+  END IF;
+
+  _counts := jsonb_build_object(
+    'scans', cardinality(_scan_ids),
+    'findings', cardinality(_finding_ids),
+    'agent_executions', cardinality(_execution_ids),
+    'attack_path_evidence', cardinality(_evidence_ids),
+    'api_usage', cardinality(_usage_ids),
+    'tool_output', cardinality(_output_scan_ids) + cardinality(_output_path_ids)
+  );
+
+  IF _dry_run THEN
+    RETURN jsonb_build_object(
+      'dry_run', true,
+      'cutoffs', _cutoffs,
+      'counts', _counts,
+      'held_campaigns', cardinality(_held)
+    );
+  END IF;
+
+  DELETE FROM public.agent_executions WHERE id = ANY(_execution_ids);
+  DELETE FROM public.mitre_mappings WHERE scan_id = ANY(_scan_ids);
+  DELETE FROM public.scans WHERE id = ANY(_scan_ids);
+  UPDATE public.attack_paths SET evidence = '{}' WHERE id = ANY(_evidence_ids);
+  DELETE FROM public.api_usage WHERE id = ANY(_usage_ids);
+  UPDATE public.scans SET results = results - 'reconnaissance_data' WHERE id = ANY(_output_scan_ids);
+  UPDATE public.attack_paths SET evidence = evidence - 'output' WHERE id = ANY(_output_path_ids);
+
+  _ids := jsonb_build_object(
+    'scans', to_jsonb(_scan_ids),
+    'findings', to_jsonb(_finding_ids),
+    'agent_executions', to_jsonb(_execution_ids),
+    'attack_path_evidence', to_jsonb(_evidence_ids),
+    'api_usage', to_jsonb(_usage_ids),
+    'tool_output_scans', to_jsonb(_output_scan_ids),
+    'tool_output_attack_paths', to_jsonb(_output_path_ids)
+  );
+
+  INSERT INTO public.retention_runs (user_id, workspace_id, policy, cutoffs, purged_counts, purged_ids, purged_digest, held_campaigns)
+  VALUES (
+    _policy.user_id,
+    _workspace_id,
+    to_jsonb(_policy) - 'id' - 'user_id' - 'workspace_id' - 'created_at',
+    _cutoffs,
+    _counts,
+    _ids,
+    encode(sha256(convert_to(_ids::text, 'UTF8')), 'hex'),
+    _held
+  )
+  RETURNING id INTO _run_id;
+
+  INSERT INTO public.audit_events (user_id, function_name, action, target, parameters, result_status)
+  VALUES (
+    _policy.user_id,
+    'retention',
+    'purge',
+    'run:' || _run_id,
+    jsonb_build_object(
+      'run_id', _run_id,
+      'workspace_id', _workspace_id,
+      'purged', _counts,
+      'digest', encode(sha256(convert_to(_ids::text, 'UTF8')), 'hex'),
+      'held_campaigns', cardinality(_held)
+    ),
+    'success'
+  );
+
+  RETURN jsonb_build_object('dry_run', false, 'run_id', _run_id, 'cutoffs', _cutoffs, 'counts', _counts, 'held_campaigns', cardinality(_held));
+END;
+$$;
+
+-- Dry run of a workspace's saved policy, for the preview in Settings
+CREATE OR REPLACE FUNCTION public.preview_retention(_workspace_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_workspace_member(_workspace_id) THEN
+    RAISE EXCEPTION 'Workspace not found';
+  END IF;
+
+  RETURN public.enforce_retention(_workspace_id, true);
+END;
+$$;
+
+-- Scheduled entry point: enforces every saved policy
+CREATE OR REPLACE FUNCTION public.run_retention_policies()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _workspace_id UUID;
+  _runs INTEGER := 0;
+BEGIN
+  FOR _workspace_id IN SELECT workspace_id FROM public.retention_policies LOOP
+    PERFORM public.enforce_retention(_workspace_id, false);
+    _runs := _runs + 1;
+  END LOOP;
+
+  RETURN _runs;
+END;
+$$;
+
+-- Only the scheduler may purge; members get the dry run
+REVOKE EXECUTE ON FUNCTION public.enforce_retention(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+DROP POLICY "Users can view their own retention policy" ON public.retention_policies;
+DROP POLICY "Users can create their own retention policy" ON public.retention_policies;
+DROP POLICY "Users can update their own retention policy" ON public.retention_policies;
+DROP POLICY "Users can view their own retention runs" ON public.retention_runs;
+
+CREATE POLICY "Members can view their workspace retention policy"
+ON public.retention_policies
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Leads can create their workspace retention policy"
+ON public.retention_policies
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[])
+);
+
+CREATE POLICY "Leads can update their workspace retention policy"
+ON public.retention_policies
+FOR UPDATE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]))
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[])
+);
+
+-- Runs are written by enforce_retention only and can never be edited
+CREATE POLICY "Members can view their workspace retention runs"
+ON public.retention_runs
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
@@ -0,0 +1,30 @@
+-- Operators may edit workspace attack paths and scan schedules, but not hand
+-- them to another user or move attack paths into another workspace: schedules
+-- run their scans as user_id, and approval and scope follow the path's workspace
+CREATE OR REPLACE FUNCTION public.protect_row_ownership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated' THEN
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+      RAISE EXCEPTION 'The owner of % % cannot be changed', TG_TABLE_NAME, OLD.id;
+    END IF;
+    IF TG_TABLE_NAME = 'attack_paths' AND NEW.workspace_id IS DISTINCT FROM OLD.workspace_id THEN
+      RAISE EXCEPTION 'Attack path % cannot be moved to another workspace', OLD.id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_attack_path_ownership
+  BEFORE UPDATE ON public.attack_paths
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_row_ownership();
+
+CREATE TRIGGER protect_scan_schedule_ownership
+  BEFORE UPDATE ON public.scan_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_row_ownership();
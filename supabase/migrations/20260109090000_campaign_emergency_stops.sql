@@ -0,0 +1,117 @@
+-- Campaign stops cover the whole campaign, not just the work of the member who
+-- engaged them: they cancel every member's scans, executions and attack paths
+-- for the campaign, and every member of its workspace sees them. Each member
+-- may engage their own stop; the campaign stays stopped until all are cleared
+
+CREATE OR REPLACE FUNCTION public.engage_emergency_stop()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _scans INTEGER;
+  _executions INTEGER;
+  _paths INTEGER;
+BEGIN
+  IF NEW.campaign_id IS NULL THEN
+    UPDATE public.agent_executions
+    SET status = 'cancelled', error_message = 'Cancelled by emergency stop', completed_at = now()
+    WHERE user_id = NEW.user_id
+      AND status IN ('pending', 'running');
+    GET DIAGNOSTICS _executions = ROW_COUNT;
+
+    UPDATE public.scans
+    SET status = 'cancelled', completed_at = now()
+    WHERE user_id = NEW.user_id
+      AND status IN ('pending', 'running');
+    GET DIAGNOSTICS _scans = ROW_COUNT;
+
+    UPDATE public.attack_paths
+    SET status = 'cancelled'
+    WHERE user_id = NEW.user_id
+      AND status = 'in_progress';
+    GET DIAGNOSTICS _paths = ROW_COUNT;
+  ELSE
+    UPDATE public.agent_executions
+    SET status = 'cancelled', error_message = 'Cancelled by emergency stop', completed_at = now()
+    WHERE status IN ('pending', 'running')
+      AND scan_id IN (SELECT id FROM public.scans WHERE metadata->>'campaign_id' = NEW.campaign_id::text);
+    GET DIAGNOSTICS _executions = ROW_COUNT;
+
+    UPDATE public.scans
+    SET status = 'cancelled', completed_at = now()
+    WHERE status IN ('pending', 'running')
+      AND metadata->>'campaign_id' = NEW.campaign_id::text;
+    GET DIAGNOSTICS _scans = ROW_COUNT;
+
+    UPDATE public.attack_paths
+    SET status = 'cancelled'
+    WHERE status = 'in_progress'
+      AND campaign_id = NEW.campaign_id;
+    GET DIAGNOSTICS _paths = ROW_COUNT;
+  END IF;
+
+  NEW.cancelled_counts := jsonb_build_object('scans', _scans, 'agent_executions', _executions, 'attack_paths', _paths);
+
+  INSERT INTO public.audit_events (user_id, function_name, action, target, parameters, result_status)
+  VALUES (
+    NEW.user_id,
+    'emergency-stop',
+    'engage',
+    CASE WHEN NEW.campaign_id IS NULL THEN 'all' ELSE 'campaign:' || NEW.campaign_id END,
+    jsonb_build_object('stop_id', NEW.id, 'reason', NEW.reason, 'cancelled', NEW.cancelled_counts),
+    'success'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP INDEX public.idx_emergency_stops_campaign;
+CREATE INDEX idx_emergency_stops_campaign
+  ON public.emergency_stops(campaign_id)
+  WHERE campaign_id IS NOT NULL AND cleared_at IS NULL;
+
+DROP POLICY "Users can view their own emergency stops" ON public.emergency_stops;
+DROP POLICY "Users can engage their own emergency stops" ON public.emergency_stops;
+DROP POLICY "Users can clear their own emergency stops" ON public.emergency_stops;
+
+CREATE POLICY "Users can view their own and workspace campaign emergency stops"
+ON public.emergency_stops
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM public.apt_campaigns
+    WHERE apt_campaigns.id = emergency_stops.campaign_id
+      AND public.is_workspace_member(apt_campaigns.workspace_id)
+  )
+);
+
+CREATE POLICY "Operators can engage emergency stops"
+ON public.emergency_stops
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    campaign_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.apt_campaigns
+      WHERE apt_campaigns.id = emergency_stops.campaign_id
+        AND public.has_workspace_role(apt_campaigns.workspace_id, ARRAY['owner', 'lead', 'operator']::public.workspace_role[])
+    )
+  )
+);
+
+CREATE POLICY "Operators can clear their own and workspace campaign emergency stops"
+ON public.emergency_stops
+FOR UPDATE
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM public.apt_campaigns
+    WHERE apt_campaigns.id = emergency_stops.campaign_id
+      AND public.has_workspace_role(apt_campaigns.workspace_id, ARRAY['owner', 'lead', 'operator']::public.workspace_role[])
+  )
+);
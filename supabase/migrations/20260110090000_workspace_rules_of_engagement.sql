@@ -0,0 +1,242 @@
+-- Rules of engagement and finding triage belong to workspaces: scopes, testing
+-- windows and blackouts are set by workspace owners and leads and bind every
+-- member, and any analyst in a scan's workspace can move its findings along
+
+ALTER TABLE public.engagement_scopes ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.engagement_windows ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.blackout_periods ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+UPDATE public.engagement_scopes SET workspace_id = COALESCE(
+  (SELECT workspace_id FROM public.apt_campaigns WHERE id = campaign_id), public.active_workspace_id(user_id));
+UPDATE public.engagement_windows SET workspace_id = COALESCE(
+  (SELECT workspace_id FROM public.apt_campaigns WHERE id = campaign_id), public.active_workspace_id(user_id));
+UPDATE public.blackout_periods SET workspace_id = COALESCE(
+  (SELECT workspace_id FROM public.apt_campaigns WHERE id = campaign_id), public.active_workspace_id(user_id));
+
+-- Where several members' workspace-level scopes land in one workspace, the most recently edited stays active
+UPDATE public.engagement_scopes s SET is_active = false
+WHERE s.campaign_id IS NULL AND s.is_active
+  AND EXISTS (
+    SELECT 1 FROM public.engagement_scopes newer
+    WHERE newer.workspace_id = s.workspace_id AND newer.campaign_id IS NULL AND newer.is_active
+      AND (newer.updated_at, newer.id) > (s.updated_at, s.id)
+  );
+
+ALTER TABLE public.engagement_scopes ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.engagement_windows ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.blackout_periods ALTER COLUMN workspace_id SET NOT NULL;
+
+-- One active workspace-level scope per workspace
+DROP INDEX public.idx_engagement_scopes_workspace;
+CREATE UNIQUE INDEX idx_engagement_scopes_workspace
+  ON public.engagement_scopes(workspace_id)
+  WHERE campaign_id IS NULL AND is_active;
+
+DROP INDEX public.idx_engagement_windows_user_campaign;
+DROP INDEX public.idx_blackout_periods_user_ends_at;
+CREATE INDEX idx_engagement_windows_workspace_campaign ON public.engagement_windows(workspace_id, campaign_id);
+CREATE INDEX idx_blackout_periods_workspace_ends_at ON public.blackout_periods(workspace_id, ends_at);
+
+-- Rows created without a workspace go to the parent's workspace, else the creator's active one
+CREATE OR REPLACE FUNCTION public.assign_workspace()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.workspace_id IS NULL THEN
+    IF TG_TABLE_NAME IN ('attack_paths', 'engagement_scopes', 'engagement_windows', 'blackout_periods') THEN
+      NEW.workspace_id := (SELECT workspace_id FROM public.apt_campaigns WHERE id = NEW.campaign_id);
+    ELSIF TG_TABLE_NAME = 'mitre_mappings' THEN
+      NEW.workspace_id := (SELECT workspace_id FROM public.scans WHERE id = NEW.scan_id);
+    END IF;
+    NEW.workspace_id := COALESCE(NEW.workspace_id, public.active_workspace_id(NEW.user_id));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_engagement_scope_workspace
+  BEFORE INSERT ON public.engagement_scopes
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+CREATE TRIGGER assign_engagement_window_workspace
+  BEFORE INSERT ON public.engagement_windows
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+CREATE TRIGGER assign_blackout_period_workspace
+  BEFORE INSERT ON public.blackout_periods
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+
+-- True when the rules may be managed by the caller: a lead of the workspace,
+-- and a campaign's rules live in the campaign's workspace
+CREATE OR REPLACE FUNCTION public.can_manage_engagement_rules(_workspace_id UUID, _campaign_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_workspace_role(_workspace_id, ARRAY['owner', 'lead']::public.workspace_role[])
+    AND (
+      _campaign_id IS NULL
+      OR EXISTS (SELECT 1 FROM public.apt_campaigns WHERE id = _campaign_id AND workspace_id = _workspace_id)
+    );
+$$;
+
+DROP POLICY "Users can view their own engagement scopes" ON public.engagement_scopes;
+DROP POLICY "Users can create their own engagement scopes" ON public.engagement_scopes;
+DROP POLICY "Users can update their own engagement scopes" ON public.engagement_scopes;
+DROP POLICY "Users can delete their own engagement scopes" ON public.engagement_scopes;
+
+CREATE POLICY "Members can view workspace engagement scopes"
+ON public.engagement_scopes
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Leads can create workspace engagement scopes"
+ON public.engagement_scopes
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.can_manage_engagement_rules(workspace_id, campaign_id));
+
+CREATE POLICY "Leads can update workspace engagement scopes"
+ON public.engagement_scopes
+FOR UPDATE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]))
+WITH CHECK (public.can_manage_engagement_rules(workspace_id, campaign_id));
+
+CREATE POLICY "Leads can delete workspace engagement scopes"
+ON public.engagement_scopes
+FOR DELETE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]));
+
+DROP POLICY "Users can view rules of their own scopes" ON public.scope_rules;
+DROP POLICY "Users can create rules in their own scopes" ON public.scope_rules;
+DROP POLICY "Users can delete rules from their own scopes" ON public.scope_rules;
+
+CREATE POLICY "Members can view rules of workspace scopes"
+ON public.scope_rules
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.engagement_scopes s
+  WHERE s.id = scope_id AND public.is_workspace_member(s.workspace_id)
+));
+
+CREATE POLICY "Leads can create rules in workspace scopes"
+ON public.scope_rules
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.engagement_scopes s
+  WHERE s.id = scope_id AND public.has_workspace_role(s.workspace_id, ARRAY['owner', 'lead']::public.workspace_role[])
+));
+
+CREATE POLICY "Leads can delete rules from workspace scopes"
+ON public.scope_rules
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.engagement_scopes s
+  WHERE s.id = scope_id AND public.has_workspace_role(s.workspace_id, ARRAY['owner', 'lead']::public.workspace_role[])
+));
+
+DROP POLICY "Users can view their own engagement windows" ON public.engagement_windows;
+DROP POLICY "Users can create their own engagement windows" ON public.engagement_windows;
+DROP POLICY "Users can update their own engagement windows" ON public.engagement_windows;
+DROP POLICY "Users can delete their own engagement windows" ON public.engagement_windows;
+
+CREATE POLICY "Members can view workspace engagement windows"
+ON public.engagement_windows
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Leads can create workspace engagement windows"
+ON public.engagement_windows
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.can_manage_engagement_rules(workspace_id, campaign_id));
+
+CREATE POLICY "Leads can update workspace engagement windows"
+ON public.engagement_windows
+FOR UPDATE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]))
+WITH CHECK (public.can_manage_engagement_rules(workspace_id, campaign_id));
+
+CREATE POLICY "Leads can delete workspace engagement windows"
+ON public.engagement_windows
+FOR DELETE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]));
+
+DROP POLICY "Users can view their own blackout periods" ON public.blackout_periods;
+DROP POLICY "Users can create their own blackout periods" ON public.blackout_periods;
+DROP POLICY "Users can delete their own blackout periods" ON public.blackout_periods;
+
+CREATE POLICY "Members can view workspace blackout periods"
+ON public.blackout_periods
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Leads can create workspace blackout periods"
+ON public.blackout_periods
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.can_manage_engagement_rules(workspace_id, campaign_id));
+
+CREATE POLICY "Leads can delete workspace blackout periods"
+ON public.blackout_periods
+FOR DELETE
+USING (public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]));
+
+-- Members change a finding's status by recording a transition; the finding follows.
+-- user_id on the history row stays the finding's owner, actor_id is who moved it
+CREATE OR REPLACE FUNCTION public.apply_finding_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _finding public.findings%ROWTYPE;
+BEGIN
+  -- Carry-over rows are written by record_finding_carry_over and already applied
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _finding FROM public.findings WHERE id = NEW.finding_id FOR UPDATE;
+
+  IF _finding.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.scans
+    WHERE id = _finding.scan_id
+      AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator', 'analyst']::public.workspace_role[])
+  ) THEN
+    RAISE EXCEPTION 'Finding % not found', NEW.finding_id;
+  END IF;
+  IF NOT public.finding_transition_allowed(_finding.status, NEW.to_status) THEN
+    RAISE EXCEPTION 'Findings cannot move from % to %', _finding.status, NEW.to_status;
+  END IF;
+
+  NEW.user_id := _finding.user_id;
+  NEW.actor_id := auth.uid();
+  NEW.actor_name := (SELECT username FROM public.profiles WHERE user_id = auth.uid());
+  NEW.from_status := _finding.status;
+  NEW.created_at := now();
+
+  UPDATE public.findings
+  SET status = NEW.to_status, status_changed_at = NEW.created_at
+  WHERE id = NEW.finding_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP POLICY "Users can change the status of their own findings" ON public.finding_status_history;
+
+CREATE POLICY "Analysts can change the status of workspace findings"
+ON public.finding_status_history
+FOR INSERT
+WITH CHECK (
+  auth.uid() = actor_id
+  AND EXISTS (
+    SELECT 1 FROM public.findings
+    JOIN public.scans ON scans.id = findings.scan_id
+    WHERE findings.id = finding_status_history.finding_id
+      AND public.has_workspace_role(scans.workspace_id, ARRAY['owner', 'lead', 'operator', 'analyst']::public.workspace_role[])
+  )
+);
@@ -0,0 +1,26 @@
+-- A custom provider's API key secret belongs to the provider's workspace: its
+-- name must start with LLM_<workspace id>_ (upper case, hyphens as
+-- underscores), so no workspace can point its own endpoint at another
+-- workspace's key. Mirrors workspaceSecretPrefix in _shared/llmProviders.ts
+
+CREATE OR REPLACE FUNCTION public.llm_secret_prefix(_workspace_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT 'LLM_' || replace(upper(_workspace_id::text), '-', '_') || '_';
+$$;
+
+-- Secrets named before this rule cannot be told apart from another
+-- workspace's; those providers go back to the platform key, or no key for
+-- custom endpoints, until a lead names a secret of their own workspace
+UPDATE public.llm_providers
+SET api_key_secret = NULL
+WHERE NOT starts_with(api_key_secret, public.llm_secret_prefix(workspace_id));
+
+ALTER TABLE public.llm_providers DROP CONSTRAINT llm_providers_api_key_secret_check;
+ALTER TABLE public.llm_providers ADD CONSTRAINT llm_providers_api_key_secret_check CHECK (
+  api_key_secret ~ '^LLM_[A-Z0-9_]+$'
+  AND starts_with(api_key_secret, public.llm_secret_prefix(workspace_id))
+);
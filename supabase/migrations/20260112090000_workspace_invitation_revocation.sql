@@ -0,0 +1,31 @@
+-- Leads revoke invitations but may not rewrite them: an update could hand a
+-- pending invitation the lead role, which only owners grant (see "Leads can
+-- invite members"), or send it to another email. Invitations now only change
+-- through accept_workspace_invitation and revoke_workspace_invitation
+
+DROP POLICY "Leads can revoke invitations" ON public.workspace_invitations;
+
+CREATE OR REPLACE FUNCTION public.revoke_workspace_invitation(_invitation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.workspace_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO _invitation FROM public.workspace_invitations WHERE id = _invitation_id FOR UPDATE;
+
+  IF _invitation.id IS NULL
+     OR NOT public.has_workspace_role(_invitation.workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]) THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+  IF _invitation.accepted_at IS NOT NULL OR _invitation.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invitation is no longer valid';
+  END IF;
+
+  UPDATE public.workspace_invitations
+  SET revoked_at = now()
+  WHERE id = _invitation_id;
+END;
+$$;
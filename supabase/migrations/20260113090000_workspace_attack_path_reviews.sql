@@ -0,0 +1,66 @@
+-- Approvers review the attack paths of the workspaces they belong to, not of
+-- every workspace: the global approver role only counts together with
+-- membership of the path's workspace. Owners and leads still review theirs
+
+-- True when _user_id may review attack paths in _workspace_id
+CREATE OR REPLACE FUNCTION public.can_review_attack_paths(_user_id UUID, _workspace_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = _workspace_id
+      AND user_id = _user_id
+      AND (role IN ('owner', 'lead') OR public.is_approver(_user_id))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_attack_path_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _path public.attack_paths%ROWTYPE;
+BEGIN
+  SELECT * INTO _path FROM public.attack_paths WHERE id = NEW.attack_path_id FOR UPDATE;
+
+  IF _path.status IS DISTINCT FROM 'pending_approval' THEN
+    RAISE EXCEPTION 'Attack path % is not awaiting approval', NEW.attack_path_id;
+  END IF;
+  IF _path.user_id = NEW.approver_id THEN
+    RAISE EXCEPTION 'Attack paths cannot be approved by the user who owns them';
+  END IF;
+  IF NOT public.can_review_attack_paths(NEW.approver_id, _path.workspace_id) THEN
+    RAISE EXCEPTION 'Only approvers and leads of the workspace can review attack paths';
+  END IF;
+
+  NEW.approver_name := (SELECT username FROM public.profiles WHERE user_id = NEW.approver_id);
+
+  UPDATE public.attack_paths SET status = NEW.decision WHERE id = NEW.attack_path_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP POLICY "Approvers and workspace leads can review attack paths" ON public.attack_path_approvals;
+
+CREATE POLICY "Workspace approvers and leads can review attack paths"
+ON public.attack_path_approvals
+FOR INSERT
+WITH CHECK (
+  auth.uid() = approver_id
+  AND EXISTS (
+    SELECT 1 FROM public.attack_paths
+    WHERE attack_paths.id = attack_path_approvals.attack_path_id
+      AND public.can_review_attack_paths(auth.uid(), attack_paths.workspace_id)
+  )
+);
+
+-- Reviewers are workspace members, so they already see the queued paths and
+-- their campaigns through the member policies
+DROP POLICY "Approvers can view attack paths awaiting approval" ON public.attack_paths;
+DROP POLICY "Approvers can view campaigns awaiting approval" ON public.apt_campaigns;
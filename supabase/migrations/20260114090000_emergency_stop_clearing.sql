@@ -0,0 +1,64 @@
+-- Members who may clear a stop may only clear it: they set cleared_at and
+-- nothing else. Who cleared it and when is recorded by clear_emergency_stop,
+-- not taken from the client, and the stop must still be one they may clear
+-- afterwards, so it cannot be moved to another campaign on the way
+
+REVOKE UPDATE ON public.emergency_stops FROM authenticated, anon;
+GRANT UPDATE (cleared_at) ON public.emergency_stops TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.clear_emergency_stop()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.cleared_at IS NOT NULL
+     OR NEW.cleared_at IS NULL
+     OR (NEW.user_id, NEW.campaign_id, NEW.reason, NEW.triggered_at, NEW.cancelled_counts)
+        IS DISTINCT FROM (OLD.user_id, OLD.campaign_id, OLD.reason, OLD.triggered_at, OLD.cancelled_counts) THEN
+    RAISE EXCEPTION 'Emergency stops can only be cleared';
+  END IF;
+
+  NEW.cleared_at := now();
+  NEW.cleared_by := COALESCE(auth.uid(), NEW.cleared_by);
+
+  INSERT INTO public.audit_events (user_id, function_name, action, target, parameters, result_status)
+  VALUES (
+    NEW.user_id,
+    'emergency-stop',
+    'clear',
+    CASE WHEN NEW.campaign_id IS NULL THEN 'all' ELSE 'campaign:' || NEW.campaign_id END,
+    jsonb_build_object('stop_id', NEW.id, 'cleared_by', NEW.cleared_by),
+    'success'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP POLICY "Operators can clear their own and workspace campaign emergency stops" ON public.emergency_stops;
+
+CREATE POLICY "Operators can clear their own and workspace campaign emergency stops"
+ON public.emergency_stops
+FOR UPDATE
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM public.apt_campaigns
+    WHERE apt_campaigns.id = emergency_stops.campaign_id
+      AND public.has_workspace_role(apt_campaigns.workspace_id, ARRAY['owner', 'lead', 'operator']::public.workspace_role[])
+  )
+)
+WITH CHECK (
+  cleared_at IS NOT NULL
+  AND cleared_by = auth.uid()
+  AND (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.apt_campaigns
+      WHERE apt_campaigns.id = emergency_stops.campaign_id
+        AND public.has_workspace_role(apt_campaigns.workspace_id, ARRAY['owner', 'lead', 'operator']::public.workspace_role[])
+    )
+  )
+);
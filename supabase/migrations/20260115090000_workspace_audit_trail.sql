@@ -0,0 +1,190 @@
+-- Workspace owners and leads see and verify the audit trail of their team,
+-- and every chain's head is anchored so that deleting its newest events is
+-- detected, not just changes in the middle of it
+
+-- The workspace the actor was working in. Not part of the event hash, so the
+-- events recorded before workspaces keep verifying; no foreign key, since the
+-- log outlives the workspaces it mentions and its rows can never be updated
+ALTER TABLE public.audit_events ADD COLUMN workspace_id UUID;
+
+ALTER TABLE public.audit_events DISABLE TRIGGER prevent_audit_event_changes;
+UPDATE public.audit_events SET workspace_id = public.active_workspace_id(user_id) WHERE user_id IS NOT NULL;
+ALTER TABLE public.audit_events ENABLE TRIGGER prevent_audit_event_changes;
+
+CREATE INDEX idx_audit_events_workspace_created_at ON public.audit_events(workspace_id, created_at);
+
+-- The last event of every chain, moved forward by each append and never back
+CREATE TABLE public.audit_chain_heads (
+  chain TEXT NOT NULL PRIMARY KEY, -- the actor's user id, or 'anonymous'
+  sequence BIGINT NOT NULL,
+  hash TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.audit_chain_heads (chain, sequence, hash)
+SELECT DISTINCT ON (user_id) COALESCE(user_id::text, 'anonymous'), sequence, hash
+FROM public.audit_events
+ORDER BY user_id, sequence DESC;
+
+CREATE OR REPLACE FUNCTION public.advance_audit_chain_head()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Audit chain heads cannot be removed';
+  END IF;
+  IF NEW.chain IS DISTINCT FROM OLD.chain OR NEW.sequence <> OLD.sequence + 1 THEN
+    RAISE EXCEPTION 'Audit chain heads only move forward';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER advance_audit_chain_head
+  BEFORE UPDATE OR DELETE ON public.audit_chain_heads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.advance_audit_chain_head();
+
+-- Heads are only written by chain_audit_event and read by the verifiers
+ALTER TABLE public.audit_chain_heads ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.chain_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _chain TEXT := COALESCE(NEW.user_id::text, 'anonymous');
+  _previous RECORD;
+BEGIN
+  -- Serialize appends per chain so two concurrent events cannot claim the same predecessor
+  PERFORM pg_advisory_xact_lock(hashtext('audit_events:' || _chain));
+
+  SELECT sequence, hash INTO _previous
+  FROM public.audit_events
+  WHERE user_id IS NOT DISTINCT FROM NEW.user_id
+  ORDER BY sequence DESC
+  LIMIT 1;
+
+  NEW.sequence := COALESCE(_previous.sequence, 0) + 1;
+  NEW.prev_hash := _previous.hash;
+  NEW.created_at := now();
+  NEW.workspace_id := COALESCE(NEW.workspace_id, public.active_workspace_id(NEW.user_id));
+  NEW.hash := public.audit_event_hash(NEW);
+
+  INSERT INTO public.audit_chain_heads (chain, sequence, hash)
+  VALUES (_chain, NEW.sequence, NEW.hash)
+  ON CONFLICT (chain) DO UPDATE SET sequence = EXCLUDED.sequence, hash = EXCLUDED.hash, updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+-- Walks one actor's chain and reports the first event that is missing, reordered
+-- or altered, or the first of the newest events that were removed
+CREATE OR REPLACE FUNCTION public.verify_audit_chain_of(_user_id UUID)
+RETURNS TABLE (
+  events_checked BIGINT,
+  is_valid BOOLEAN,
+  first_invalid_sequence BIGINT,
+  problem TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.audit_events%ROWTYPE;
+  _head public.audit_chain_heads%ROWTYPE;
+  _checked BIGINT := 0;
+  _expected_prev TEXT := NULL;
+BEGIN
+  FOR _event IN
+    SELECT * FROM public.audit_events WHERE user_id = _user_id ORDER BY sequence
+  LOOP
+    IF _event.sequence <> _checked + 1 THEN
+      RETURN QUERY SELECT _checked, false, _checked + 1,
+        format('Event %s is missing from the chain', _checked + 1);
+      RETURN;
+    END IF;
+
+    IF _event.prev_hash IS DISTINCT FROM _expected_prev THEN
+      RETURN QUERY SELECT _checked, false, _event.sequence,
+        format('Event %s does not link to the hash of event %s', _event.sequence, _checked);
+      RETURN;
+    END IF;
+
+    IF _event.hash <> public.audit_event_hash(_event) THEN
+      RETURN QUERY SELECT _checked, false, _event.sequence,
+        format('Event %s was modified after it was recorded', _event.sequence);
+      RETURN;
+    END IF;
+
+    _checked := _checked + 1;
+    _expected_prev := _event.hash;
+  END LOOP;
+
+  SELECT * INTO _head FROM public.audit_chain_heads WHERE chain = _user_id::text;
+  IF _head.chain IS NOT NULL AND (_head.sequence <> _checked OR _head.hash IS DISTINCT FROM _expected_prev) THEN
+    RETURN QUERY SELECT _checked, false, _checked + 1,
+      format('The chain ends at event %s but its recorded head is event %s', _checked, _head.sequence);
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT _checked, true, NULL::BIGINT, NULL::TEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_audit_chain_of(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.verify_audit_chain()
+RETURNS TABLE (
+  events_checked BIGINT,
+  is_valid BOOLEAN,
+  first_invalid_sequence BIGINT,
+  problem TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM public.verify_audit_chain_of(auth.uid());
+$$;
+
+-- Verifies the chain of every member of a workspace; owners and leads only
+CREATE OR REPLACE FUNCTION public.verify_workspace_audit_chains(_workspace_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  member_name TEXT,
+  events_checked BIGINT,
+  is_valid BOOLEAN,
+  first_invalid_sequence BIGINT,
+  problem TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_workspace_role(_workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]) THEN
+    RAISE EXCEPTION 'Only workspace owners and leads can verify its audit trail';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.user_id, m.member_name, v.events_checked, v.is_valid, v.first_invalid_sequence, v.problem
+  FROM public.workspace_members m
+  CROSS JOIN LATERAL public.verify_audit_chain_of(m.user_id) v
+  WHERE m.workspace_id = _workspace_id
+  ORDER BY v.is_valid, m.member_name;
+END;
+$$;
+
+CREATE POLICY "Leads can view the audit events of their workspace"
+ON public.audit_events
+FOR SELECT
+USING (workspace_id IS NOT NULL AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead']::public.workspace_role[]));
@@ -0,0 +1,131 @@
+-- The asset inventory belongs to workspaces: members scanning the same target
+-- share one asset, with its services and findings, instead of each keeping a
+-- copy. An asset scanned from several workspaces is split into one per
+-- workspace, and the copies members had within a workspace are merged
+
+ALTER TABLE public.assets ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+-- The workspace of the asset's latest scan, else its owner's active one
+UPDATE public.assets a SET workspace_id = COALESCE(
+  (SELECT s.workspace_id FROM public.scans s
+   WHERE s.asset_id = a.id AND s.workspace_id IS NOT NULL
+   ORDER BY s.created_at DESC
+   LIMIT 1),
+  public.active_workspace_id(a.user_id)
+);
+
+ALTER TABLE public.assets DROP CONSTRAINT assets_user_type_value_key;
+
+-- Scans from the asset's other workspaces move to a copy in their own workspace
+CREATE TEMPORARY TABLE asset_copies ON COMMIT DROP AS
+SELECT pairs.asset_id, pairs.workspace_id, gen_random_uuid() AS copy_id
+FROM (
+  SELECT DISTINCT s.asset_id, s.workspace_id
+  FROM public.scans s
+  JOIN public.assets a ON a.id = s.asset_id
+  WHERE s.workspace_id IS NOT NULL AND s.workspace_id <> a.workspace_id
+) pairs;
+
+INSERT INTO public.assets (id, user_id, workspace_id, asset_type, value, hostnames, ip_addresses, first_seen, last_seen, created_at)
+SELECT c.copy_id, a.user_id, c.workspace_id, a.asset_type, a.value, a.hostnames, a.ip_addresses, a.first_seen, a.last_seen, a.created_at
+FROM asset_copies c
+JOIN public.assets a ON a.id = c.asset_id;
+
+INSERT INTO public.asset_services (user_id, asset_id, port, protocol, product, version, banner, first_seen, last_seen)
+SELECT s.user_id, c.copy_id, s.port, s.protocol, s.product, s.version, s.banner, s.first_seen, s.last_seen
+FROM asset_copies c
+JOIN public.asset_services s ON s.asset_id = c.asset_id;
+
+UPDATE public.findings f
+SET asset_id = c.copy_id
+FROM public.scans s, asset_copies c
+WHERE f.scan_id = s.id AND s.asset_id = c.asset_id AND s.workspace_id = c.workspace_id;
+
+UPDATE public.scans s
+SET asset_id = c.copy_id
+FROM asset_copies c
+WHERE s.asset_id = c.asset_id AND s.workspace_id = c.workspace_id;
+
+-- Within a workspace, the first asset seen for a target absorbs the others
+CREATE TEMPORARY TABLE asset_merges ON COMMIT DROP AS
+SELECT id AS duplicate_id, canonical_id
+FROM (
+  SELECT id, first_value(id) OVER (PARTITION BY workspace_id, asset_type, value ORDER BY first_seen, id) AS canonical_id
+  FROM public.assets
+) ranked
+WHERE id <> canonical_id;
+
+UPDATE public.assets c
+SET hostnames = ARRAY(
+      SELECT DISTINCT hostname FROM public.assets d, unnest(d.hostnames) hostname
+      WHERE d.id = c.id OR d.id IN (SELECT duplicate_id FROM asset_merges WHERE canonical_id = c.id)
+      ORDER BY hostname
+    ),
+    ip_addresses = ARRAY(
+      SELECT DISTINCT address FROM public.assets d, unnest(d.ip_addresses) address
+      WHERE d.id = c.id OR d.id IN (SELECT duplicate_id FROM asset_merges WHERE canonical_id = c.id)
+      ORDER BY address
+    ),
+    last_seen = (
+      SELECT max(d.last_seen) FROM public.assets d
+      WHERE d.id = c.id OR d.id IN (SELECT duplicate_id FROM asset_merges WHERE canonical_id = c.id)
+    ),
+    last_scan_id = (
+      SELECT d.last_scan_id FROM public.assets d
+      WHERE d.id = c.id OR d.id IN (SELECT duplicate_id FROM asset_merges WHERE canonical_id = c.id)
+      ORDER BY d.last_seen DESC
+      LIMIT 1
+    )
+WHERE c.id IN (SELECT canonical_id FROM asset_merges);
+
+-- The most recent observation of each port wins
+INSERT INTO public.asset_services (user_id, asset_id, port, protocol, product, version, banner, first_seen, last_seen, last_scan_id)
+SELECT DISTINCT ON (m.canonical_id, s.port, s.protocol)
+  s.user_id, m.canonical_id, s.port, s.protocol, s.product, s.version, s.banner, s.first_seen, s.last_seen, s.last_scan_id
+FROM public.asset_services s
+JOIN asset_merges m ON m.duplicate_id = s.asset_id
+ORDER BY m.canonical_id, s.port, s.protocol, s.last_seen DESC
+ON CONFLICT (asset_id, port, protocol) DO UPDATE SET
+  product = COALESCE(CASE WHEN EXCLUDED.last_seen > asset_services.last_seen THEN EXCLUDED.product END, asset_services.product),
+  version = COALESCE(CASE WHEN EXCLUDED.last_seen > asset_services.last_seen THEN EXCLUDED.version END, asset_services.version),
+  banner = COALESCE(CASE WHEN EXCLUDED.last_seen > asset_services.last_seen THEN EXCLUDED.banner END, asset_services.banner),
+  first_seen = LEAST(asset_services.first_seen, EXCLUDED.first_seen),
+  last_seen = GREATEST(asset_services.last_seen, EXCLUDED.last_seen),
+  last_scan_id = CASE WHEN EXCLUDED.last_seen > asset_services.last_seen THEN EXCLUDED.last_scan_id ELSE asset_services.last_scan_id END;
+
+UPDATE public.findings f SET asset_id = m.canonical_id FROM asset_merges m WHERE f.asset_id = m.duplicate_id;
+UPDATE public.scans s SET asset_id = m.canonical_id FROM asset_merges m WHERE s.asset_id = m.duplicate_id;
+DELETE FROM public.assets WHERE id IN (SELECT duplicate_id FROM asset_merges);
+
+ALTER TABLE public.assets ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.assets ADD CONSTRAINT assets_workspace_type_value_key UNIQUE (workspace_id, asset_type, value);
+
+DROP INDEX public.idx_assets_user_last_seen;
+CREATE INDEX idx_assets_workspace_last_seen ON public.assets(workspace_id, last_seen DESC);
+
+CREATE TRIGGER assign_asset_workspace
+  BEFORE INSERT ON public.assets
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workspace();
+
+DROP POLICY "Users can view their own assets" ON public.assets;
+DROP POLICY "Users can create their own assets" ON public.assets;
+
+CREATE POLICY "Members can view workspace assets"
+ON public.assets
+FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Operators can create workspace assets"
+ON public.assets
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.has_workspace_role(workspace_id, ARRAY['owner', 'lead', 'operator']::public.workspace_role[]));
+
+DROP POLICY "Users can view their own asset services" ON public.asset_services;
+
+CREATE POLICY "Members can view services of workspace assets"
+ON public.asset_services
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.assets
+  WHERE assets.id = asset_services.asset_id AND public.is_workspace_member(assets.workspace_id)
+));